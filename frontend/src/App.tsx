@@ -17,30 +17,114 @@ import {
   MapPin,
   UserPlus,
   Plus,
+  UploadSimple,
+  DownloadSimple,
+  BookmarksSimple,
+  MagicWand,
+  ArrowUUpLeft,
+  ArrowUUpRight,
+  QrCode,
+  ChartBar,
+  Stethoscope,
 } from '@phosphor-icons/react';
 import {
   supabase,
   type Guest,
   type GuestRaw,
+  type Desk,
+  type AppEvent,
+  type EventCloneOptions,
+  type SeatingSnapshotData,
+  type GuestGroupFields,
+  DEFAULT_EVENT_ID,
+  getActiveEventId,
+  eventStorageKey,
   convertRawGuest,
+  getLocalGuestsCache,
+  saveLocalGuestsCache,
+  getLocalImportedGuests,
+  saveLocalImportedGuests,
   saveLocalAttendance,
   saveLocalNotes,
+  saveLocalAttendedCount,
+  saveLocalArrival,
+  saveLocalGroups,
+  saveLocalSeats,
+  getDeviceName,
   createGuestInDB,
+  createGuestsInDB,
+  getLocalGuestIds,
   updateGuestInDB,
   deleteGuestFromDB,
   updateGuestOrderInDB,
   createDeskInDB,
+  updateDeskInDB,
+  DEFAULT_DESK_CAPACITY,
+  DEFAULT_DESK_LAYOUT,
 } from '@/lib/supabase';
 import { turkishIncludes } from '@/lib/utils';
+import {
+  getGuestListStats,
+  groupGuestsByDesk,
+  getDeskLoads,
+  isPartiallyArrived,
+  CAPACITY_MODES,
+  type CapacityMode,
+} from '@/lib/guestStats';
+import { type SeatingMove, getConstraintViolations } from '@/lib/seatingSolver';
+import {
+  type GroupKey,
+  getAllGroups,
+  isGroupKey,
+  isGuestInGroup,
+} from '@/lib/guestGroups';
+import {
+  captureSeatingSnapshot,
+  getSnapshotRestorePlan,
+  getFixedObjectRestorePlan,
+} from '@/lib/seatingSnapshots';
+import { withArrivalStamp } from '@/lib/arrivals';
+import {
+  getSeatCount,
+  getSeatAssignments,
+  getSeatsAfterMove,
+  getSeatsForOrder,
+  getOrderBySeats,
+  withSeatReset,
+} from '@/lib/seatAssignments';
+import { getPlanIssues } from '@/lib/planDiagnostics';
+import { getPermissions } from '@/lib/permissions';
 import { DeskGroup } from '@/components/DeskGroup';
 import { EditGuestDialog } from '@/components/EditGuestDialog';
 import { CreateGuestDialog } from '@/components/CreateGuestDialog';
 import { CreateDeskDialog } from '@/components/CreateDeskDialog';
 import { CreateFixedObjectDialog } from '@/components/CreateFixedObjectDialog';
+import { ImportGuestsDialog } from '@/components/ImportGuestsDialog';
+import { ExportDialog } from '@/components/ExportDialog';
+import { SeatingSnapshotsDialog } from '@/components/SeatingSnapshotsDialog';
+import { PlanDiagnosticsDialog } from '@/components/PlanDiagnosticsDialog';
+import { AutoSeatDialog } from '@/components/AutoSeatDialog';
+import { CheckInScannerDialog } from '@/components/CheckInScannerDialog';
 import { StatsBar } from '@/components/StatsBar';
+import { ArrivalDashboard } from '@/components/ArrivalDashboard';
+import { OutboxStatus } from '@/components/OutboxStatus';
+import { GuestConflictBanner } from '@/components/GuestConflictBanner';
+import { ConstraintViolationBanner } from '@/components/ConstraintViolationBanner';
+import { EventSwitcher } from '@/components/EventSwitcher';
+import { SignInScreen } from '@/components/SignInScreen';
 import { FloorPlan, type FloorPlanRef } from '@/components/floorplan';
 import { useTablePositions } from '@/hooks/useTablePositions';
-import { useFixedObjects } from '@/hooks/useFixedObjects';
+import { useFixedObjects, type FixedObjectData } from '@/hooks/useFixedObjects';
+import { useVenuePlan } from '@/hooks/useVenuePlan';
+import { usePlanScale } from '@/hooks/usePlanScale';
+import { useOutbox } from '@/hooks/useOutbox';
+import { useGuestRealtime } from '@/hooks/useGuestRealtime';
+import { useSeatingConstraints } from '@/hooks/useSeatingConstraints';
+import { useAppSetting } from '@/hooks/useAppSetting';
+import { useHistory } from '@/hooks/useHistory';
+import { useEvents } from '@/hooks/useEvents';
+import { useAuth } from '@/hooks/useAuth';
+import { useEventRole } from '@/hooks/useEventRole';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import guestsData from '../db.json';
@@ -50,8 +134,11 @@ import './App.css';
 import logoImage from '@/assets/nisan_logo.png';
 import disqetLogo from '@/assets/disqetNew.svg?url';
 
-type ViewMode = 'card' | 'table' | 'map';
-type FilterMode = 'all' | 'attended' | 'pending' | 'has_notes';
+type ViewMode = 'card' | 'table' | 'map' | 'dashboard';
+// Besides the fixed filters, guests can be filtered by a group key
+type FilterMode = 'all' | 'attended' | 'pending' | 'has_notes' | GroupKey;
+// Where the current guest list came from: only Supabase and its cache carry real DB ids
+type DataSource = 'supabase' | 'cache' | 'bundled';
 
 // Local storage keys for guest order
 const GUEST_ORDER_KEY = 'engagement_guest_order';
@@ -61,7 +148,7 @@ const FLOOR_PLAN_BACKGROUND = disqetLogo;
 
 function getLocalGuestOrder(): Record<number, number[]> {
   try {
-    const stored = localStorage.getItem(GUEST_ORDER_KEY);
+    const stored = localStorage.getItem(eventStorageKey(GUEST_ORDER_KEY));
     return stored ? JSON.parse(stored) : {};
   } catch {
     return {};
@@ -70,17 +157,84 @@ function getLocalGuestOrder(): Record<number, number[]> {
 
 function saveLocalGuestOrder(order: Record<number, number[]>) {
   try {
-    localStorage.setItem(GUEST_ORDER_KEY, JSON.stringify(order));
+    localStorage.setItem(
+      eventStorageKey(GUEST_ORDER_KEY),
+      JSON.stringify(order),
+    );
   } catch (e) {
     console.error('Failed to save guest order:', e);
   }
 }
 
-function App() {
+// Follow the ids of records that undo/redo re-created under a new id
+function resolveAlias<T>(aliases: Map<T, T>, id: T): T {
+  let current = id;
+  const seen = new Set<T>();
+  while (aliases.has(current) && !seen.has(current)) {
+    seen.add(current);
+    current = aliases.get(current)!;
+  }
+  return current;
+}
+
+// Guest fields without the id, used to re-create a deleted guest
+function getGuestData(guest: Guest): Omit<Guest, 'id'> {
+  return {
+    full_name: guest.full_name,
+    person_count: guest.person_count,
+    desk_no: guest.desk_no,
+    gift_count: guest.gift_count,
+    description: guest.description,
+    is_attended: guest.is_attended,
+    attended_count: guest.attended_count ?? null,
+    arrived_at: guest.arrived_at ?? null,
+    checked_in_by: guest.checked_in_by ?? null,
+    side: guest.side ?? null,
+    household: guest.household ?? null,
+    tags: guest.tags ?? [],
+    seats: guest.seats ?? null,
+    companions: guest.companions ?? [],
+    display_order: guest.display_order,
+    // Printed invitations keep working after an undo
+    qr_token: guest.qr_token ?? null,
+  };
+}
+
+// Current values of the fields about to be changed (for undo)
+function pickGuestFields(
+  guest: Guest,
+  updates: Partial<Guest>,
+): Partial<Guest> {
+  return Object.fromEntries(
+    Object.keys(updates).map((key) => [key, guest[key as keyof Guest]]),
+  );
+}
+
+interface EventPlannerProps {
+  events: AppEvent[];
+  activeEvent: AppEvent | null;
+  onSelectEvent: (id: number) => void;
+  onCreateEvent: (
+    event: Omit<AppEvent, 'id'>,
+    clone: EventCloneOptions | null,
+  ) => Promise<AppEvent | null>;
+  // Signed-in user, null without Supabase Auth
+  userEmail: string | null;
+}
+
+// Guest list and floor plan of the active event
+function EventPlanner({
+  events,
+  activeEvent,
+  onSelectEvent,
+  onCreateEvent,
+  userEmail,
+}: EventPlannerProps) {
   const [guests, setGuests] = useState<Guest[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isOffline, setIsOffline] = useState(false);
+  const [dataSource, setDataSource] = useState<DataSource>('bundled');
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedGuest, setSelectedGuest] = useState<Guest | null>(null);
   const [dialogOpen, setDialogOpen] = useState(false);
@@ -97,20 +251,43 @@ function App() {
   const [createDeskDialogOpen, setCreateDeskDialogOpen] = useState(false);
   const [createFixedObjectDialogOpen, setCreateFixedObjectDialogOpen] =
     useState(false);
+  const [importDialogOpen, setImportDialogOpen] = useState(false);
+  const [exportDialogOpen, setExportDialogOpen] = useState(false);
+  const [snapshotsDialogOpen, setSnapshotsDialogOpen] = useState(false);
+  const [diagnosticsDialogOpen, setDiagnosticsDialogOpen] = useState(false);
+  const [autoSeatDialogOpen, setAutoSeatDialogOpen] = useState(false);
+  const [scannerDialogOpen, setScannerDialogOpen] = useState(false);
+
+  // What the signed-in user may do in this event
+  const { role, isLoading: roleLoading } = useEventRole();
+  const permissions = getPermissions(role);
+
+  // Seating rules for the auto-seat solver (stored on this device)
+  const { constraints, addConstraint, removeConstraint } =
+    useSeatingConstraints();
 
   // Fixed objects hook
   const {
     objects: fixedObjects,
     addObject: addFixedObject,
+    restoreObject: restoreFixedObject,
     updateObject: updateFixedObject,
     deleteObject: deleteFixedObject,
     editObjectName: editFixedObjectName,
+    reloadObjects: reloadFixedObjects,
   } = useFixedObjects();
 
-  // Fetch guests from Supabase or fallback to db.json
-  const fetchGuests = async () => {
-    setLoading(true);
-    setError(null);
+  // The venue's floor plan image beneath the tables
+  const { plan: venuePlan, updatePlan: updateVenuePlan } = useVenuePlan();
+  const { scale: planScale, updateScale: updatePlanScale } = usePlanScale();
+
+  // Fetch guests from Supabase, then the offline cache, then db.json.
+  // A silent fetch only refreshes from Supabase and keeps the current view.
+  const fetchGuests = async (silent = false) => {
+    if (!silent) {
+      setLoading(true);
+      setError(null);
+    }
 
     // Try Supabase first
     if (supabase) {
@@ -118,6 +295,7 @@ function App() {
         const { data, error: fetchError } = await supabase
           .from('guests')
           .select('*')
+          .eq('event_id', getActiveEventId())
           .order('desk_no', { ascending: true })
           .order('display_order', { ascending: true })
           .order('full_name', { ascending: true });
@@ -125,28 +303,49 @@ function App() {
         if (fetchError) throw fetchError;
 
         setGuests(data || []);
+        setDataSource('supabase');
         setIsOffline(false);
 
-        // Expand all desks by default
-        const deskNos = new Set((data || []).map((g) => g.desk_no));
-        setExpandedDesks(deskNos);
-        setLoading(false);
+        if (!silent) {
+          // Expand all desks by default
+          const deskNos = new Set((data || []).map((g) => g.desk_no));
+          setExpandedDesks(deskNos);
+          setLoading(false);
+        }
         return;
       } catch (err) {
         console.error('Supabase error, falling back to local data:', err);
         setIsOffline(true);
+        if (silent) return;
+
+        // Use the last list loaded from Supabase so offline edits can be queued
+        const cachedGuests = getLocalGuestsCache();
+        if (cachedGuests) {
+          setGuests(cachedGuests);
+          setDataSource('cache');
+          setExpandedDesks(new Set(cachedGuests.map((g) => g.desk_no)));
+          setLoading(false);
+          return;
+        }
       }
     } else {
       setIsOffline(true);
     }
 
-    // Fallback to db.json with localStorage for attendance/notes
+    // Fallback to db.json with localStorage for attendance/notes.
+    // db.json is the guest list of the default event only.
     try {
-      const rawGuests = guestsData as GuestRaw[];
+      const rawGuests = [
+        ...(getActiveEventId() === DEFAULT_EVENT_ID
+          ? (guestsData as GuestRaw[])
+          : []),
+        ...getLocalImportedGuests(),
+      ];
       const convertedGuests = rawGuests.map((raw, index) =>
         convertRawGuest(raw, index),
       );
       setGuests(convertedGuests);
+      setDataSource('bundled');
 
       // Expand all desks by default
       const deskNos = new Set(convertedGuests.map((g) => g.desk_no));
@@ -163,22 +362,24 @@ function App() {
     fetchGuests();
   }, []);
 
+  // Guests loaded from db.json have no DB ids, so their changes stay local
+  const canSync = !!supabase && dataSource !== 'bundled';
+
+  // Realtime guest changes from other devices
+  const { conflicts, recordLocalEdit, resolveConflict } = useGuestRealtime(
+    setGuests,
+    canSync,
+  );
+
+  // Keep a copy of DB-backed guests for offline reloads
+  useEffect(() => {
+    if (!loading && dataSource !== 'bundled') {
+      saveLocalGuestsCache(guests);
+    }
+  }, [guests, loading, dataSource]);
+
   // Calculate stats
-  const stats = useMemo(() => {
-    const totalGuests = guests.reduce((sum, g) => sum + g.person_count, 0);
-    const totalGifts = guests.reduce((sum, g) => sum + g.gift_count, 0);
-    const uniqueTables = new Set(guests.map((g) => g.desk_no));
-    const attendedCount = guests.filter((g) => g.is_attended === true).length;
-    const hasNotesCount = guests.filter((g) => !!g.description).length;
-    return {
-      totalInvitations: guests.length,
-      totalGuests,
-      totalGifts,
-      totalTables: uniqueTables.size,
-      attendedCount,
-      hasNotesCount,
-    };
-  }, [guests]);
+  const stats = useMemo(() => getGuestListStats(guests), [guests]);
 
   // Get unique desk numbers from guests (for grouping)
   const guestDeskNumbers = useMemo(
@@ -189,16 +390,99 @@ function App() {
 
   // Table positions for floor plan - also loads all desks from Supabase
   const {
+    desks,
     positions: tablePositions,
     updatePosition,
     resetPositions,
+    capacities,
+    updateCapacity,
+    layouts: deskLayouts,
+    updateLayout: updateDeskLayout,
     reloadDesks,
+    addLocalDesk,
     allDeskNumbers,
   } = useTablePositions(guestDeskNumbers);
 
+  // Offline outbox - refresh from Supabase once queued changes are synced
+  const outbox = useOutbox(() => {
+    fetchGuests(true);
+    reloadDesks();
+    reloadFixedObjects();
+  });
+
+  // Guests created on this device that are not in the database yet
+  const unsyncedGuestCount = outbox.entries.reduce(
+    (sum, { operation: op }) =>
+      sum +
+      (op.type === 'create_guest'
+        ? 1
+        : op.type === 'create_guests'
+          ? op.guests.length
+          : 0),
+    0,
+  );
+
   // Combined desk numbers (from guests + from Supabase desks table)
   const deskNumbers = allDeskNumbers;
 
+  // Whether assignments that overflow a desk are blocked or only warned about
+  const [capacityMode, setCapacityMode] = useAppSetting<CapacityMode>(
+    'capacity_mode',
+    'warn',
+    CAPACITY_MODES,
+  );
+
+  // Persons per desk across the whole list (ignores search and filters)
+  const deskLoads = useMemo(() => getDeskLoads(guests), [guests]);
+
+  // Desks and capacities for the auto-seat solver
+  const solverDesks = useMemo(
+    () =>
+      canSync && desks.length > 0
+        ? desks.map((d) => ({
+            deskNo: d.desk_no,
+            capacity: capacities[d.desk_no] ?? DEFAULT_DESK_CAPACITY,
+          }))
+        : deskNumbers.map((deskNo) => ({
+            deskNo,
+            capacity: capacities[deskNo] ?? DEFAULT_DESK_CAPACITY,
+          })),
+    [canSync, desks, deskNumbers, capacities],
+  );
+
+  // Desks an import can assign guests to without creating new ones
+  const importDeskNumbers = useMemo(
+    () => (canSync ? desks.map((d) => d.desk_no) : deskNumbers),
+    [canSync, desks, deskNumbers],
+  );
+
+  // Problems in the whole seating plan (capacity, overlaps, split parties...)
+  const planIssues = useMemo(
+    () =>
+      getPlanIssues({
+        guests,
+        deskNumbers,
+        registeredDeskNos:
+          canSync && desks.length > 0 ? desks.map((d) => d.desk_no) : null,
+        tablePositions,
+        capacities,
+        layouts: deskLayouts,
+        fixedObjects,
+        scale: planScale,
+      }),
+    [
+      guests,
+      deskNumbers,
+      canSync,
+      desks,
+      tablePositions,
+      capacities,
+      deskLayouts,
+      fixedObjects,
+      planScale,
+    ],
+  );
+
   // Find ALL highlighted desks based on search query
   const highlightedDeskNos = useMemo(() => {
     if (!searchQuery.trim() || viewMode !== 'map') return [];
@@ -215,6 +499,12 @@ function App() {
     return Array.from(matchingDesks);
   }, [searchQuery, guests, viewMode]);
 
+  const guestGroups = useMemo(() => getAllGroups(guests), [guests]);
+  const constraintViolations = useMemo(
+    () => getConstraintViolations(constraints, guests),
+    [constraints, guests],
+  );
+
   // Filter guests based on search query and filter mode
   const filteredGuests = useMemo(() => {
     let result = guests;
@@ -226,6 +516,8 @@ function App() {
       result = result.filter((g) => g.is_attended !== true);
     } else if (filterMode === 'has_notes') {
       result = result.filter((g) => !!g.description);
+    } else if (isGroupKey(filterMode)) {
+      result = result.filter((g) => isGuestInGroup(g, filterMode));
     }
 
     // Apply search with Turkish-aware comparison
@@ -242,59 +534,211 @@ function App() {
   }, [guests, searchQuery, filterMode]);
 
   // Group guests by desk number with custom order
-  const groupedByDesk = useMemo(() => {
-    const groups = new Map<number, Guest[]>();
-    const guestOrder = getLocalGuestOrder();
+  const groupedByDesk = useMemo(
+    () => groupGuestsByDesk(filteredGuests, deskNumbers, getLocalGuestOrder()),
+    [filteredGuests, deskNumbers],
+  );
 
-    filteredGuests.forEach((guest) => {
-      const existing = groups.get(guest.desk_no) || [];
-      groups.set(guest.desk_no, [...existing, guest]);
-    });
+  // Full list by desk for exports (ignores search and filters)
+  const exportGroups = useMemo(
+    () =>
+      exportDialogOpen
+        ? groupGuestsByDesk(guests, deskNumbers, getLocalGuestOrder())
+        : [],
+    [exportDialogOpen, guests, deskNumbers],
+  );
 
-    // Apply sorting for each desk - prefer display_order from guest, then localStorage
-    groups.forEach((deskGuests, deskNo) => {
-      const localOrder = guestOrder[deskNo];
+  // Auto-expand desks when searching
+  useEffect(() => {
+    if (searchQuery.trim()) {
+      // When searching, expand all desks that have matching results
+      const matchingDesks = new Set(filteredGuests.map((g) => g.desk_no));
+      setExpandedDesks(matchingDesks);
+    }
+  }, [searchQuery, filteredGuests]);
 
-      deskGuests.sort((a, b) => {
-        // First try display_order from guest object (synced from state)
-        const orderA = a.display_order ?? 999;
-        const orderB = b.display_order ?? 999;
+  // Undo/redo history for guest, table and fixed object changes
+  const history = useHistory();
+  const pushHistory = history.push;
 
-        if (orderA !== orderB) {
-          return orderA - orderB;
-        }
+  // History entries run later, so they read the latest guests from here
+  const guestsRef = useRef(guests);
+  useEffect(() => {
+    guestsRef.current = guests;
+  }, [guests]);
 
-        // Fall back to localStorage order
-        if (localOrder && localOrder.length > 0) {
-          const indexA = localOrder.indexOf(a.id);
-          const indexB = localOrder.indexOf(b.id);
-          if (indexA !== -1 && indexB !== -1) {
-            return indexA - indexB;
-          }
+  // Same for the desks and fixed objects (used by snapshot restores)
+  const layoutRef = useRef({ deskNumbers, tablePositions, fixedObjects });
+  useEffect(() => {
+    layoutRef.current = { deskNumbers, tablePositions, fixedObjects };
+  }, [deskNumbers, tablePositions, fixedObjects]);
+
+  // Undoing a delete re-creates the record under a new id. Older history
+  // entries keep the old id and are pointed at the new one here.
+  const guestIdAliases = useRef(new Map<number, number>());
+  const objectIdAliases = useRef(new Map<string, string>());
+
+  // Apply field changes to a guest and save them
+  const applyGuestUpdates = useCallback(
+    async (id: number, updates: Partial<Guest>) => {
+      const guestId = resolveAlias(guestIdAliases.current, id);
+      const guest = guestsRef.current.find((g) => g.id === guestId);
+      if (!guest) return;
+
+      // Optimistic update
+      setGuests((prev) =>
+        prev.map((g) => (g.id === guestId ? { ...g, ...updates } : g)),
+      );
+
+      // Save to localStorage (always, for offline support)
+      if ('is_attended' in updates) {
+        saveLocalAttendance(guest.full_name, updates.is_attended ?? null);
+      }
+      if ('description' in updates) {
+        saveLocalNotes(guest.full_name, updates.description ?? '');
+      }
+      if ('attended_count' in updates) {
+        saveLocalAttendedCount(guest.full_name, updates.attended_count ?? null);
+      }
+      if ('arrived_at' in updates) {
+        saveLocalArrival(guest.full_name, {
+          arrived_at: updates.arrived_at ?? null,
+          checked_in_by: updates.checked_in_by ?? null,
+        });
+      }
+      if ('side' in updates || 'household' in updates || 'tags' in updates) {
+        const groups = { ...guest, ...updates };
+        saveLocalGroups(guest.full_name, {
+          side: groups.side ?? null,
+          household: groups.household ?? null,
+          tags: groups.tags ?? [],
+        });
+      }
+      if ('seats' in updates || 'companions' in updates) {
+        const seating = { ...guest, ...updates };
+        saveLocalSeats(guest.full_name, {
+          seats: seating.seats ?? null,
+          companions: seating.companions ?? [],
+        });
+      }
+
+      // Try to update in Supabase
+      if (canSync) {
+        recordLocalEdit(guestId, updates, guest);
+        await updateGuestInDB(guestId, updates);
+      }
+    },
+    [canSync, recordLocalEdit],
+  );
+
+  // Create guests in Supabase, falling back to local IDs
+  // (also used while the inserts wait in the outbox)
+  const createGuests = useCallback(
+    async (newGuests: Omit<Guest, 'id'>[]) => {
+      const localIds = getLocalGuestIds(guestsRef.current, newGuests.length);
+
+      const created: Guest[] = [];
+      for (const [i, newGuest] of newGuests.entries()) {
+        const localId = localIds[i];
+        const dbGuest = canSync
+          ? await createGuestInDB(newGuest, localId)
+          : null;
+        created.push(dbGuest ?? { ...newGuest, id: localId });
+      }
+
+      // Update state (realtime inserts may already have added some)
+      setGuests((prev) => [
+        ...prev.filter((g) => !created.some((n) => n.id === g.id)),
+        ...created,
+      ]);
+      return created;
+    },
+    [canSync],
+  );
+
+  // Delete guests locally and in Supabase
+  const removeGuests = useCallback(
+    async (ids: number[]) => {
+      const guestIds = ids.map((id) =>
+        resolveAlias(guestIdAliases.current, id),
+      );
+
+      // Optimistic update
+      setGuests((prev) => prev.filter((g) => !guestIds.includes(g.id)));
+
+      if (canSync) {
+        for (const guestId of guestIds) {
+          await deleteGuestFromDB(guestId);
         }
+      }
+    },
+    [canSync],
+  );
 
-        return 0;
+  // Re-create deleted guests and point their old ids at the new records
+  const restoreGuests = useCallback(
+    async (snapshots: Guest[]) => {
+      const created = await createGuests(snapshots.map(getGuestData));
+      snapshots.forEach((snapshot, i) => {
+        const oldId = resolveAlias(guestIdAliases.current, snapshot.id);
+        if (created[i].id !== oldId) {
+          guestIdAliases.current.set(oldId, created[i].id);
+        }
       });
-    });
+    },
+    [createGuests],
+  );
+
+  // Save the seating order of a desk
+  const applyGuestOrder = useCallback(
+    (deskNo: number, guestIds: number[]) => {
+      const ids = guestIds.map((id) =>
+        resolveAlias(guestIdAliases.current, id),
+      );
 
-    // Include empty desks from deskNumbers (desks without guests)
-    deskNumbers.forEach((deskNo) => {
-      if (!groups.has(deskNo)) {
-        groups.set(deskNo, []);
+      // Save the new order to localStorage
+      const currentOrder = getLocalGuestOrder();
+      currentOrder[deskNo] = ids;
+      saveLocalGuestOrder(currentOrder);
+
+      // Sync to Supabase
+      if (canSync) {
+        updateGuestOrderInDB(deskNo, ids);
       }
-    });
 
-    return Array.from(groups.entries()).sort((a, b) => a[0] - b[0]);
-  }, [filteredGuests, deskNumbers]);
+      // Optimistically update guests with new display_order values
+      setGuests((prev) =>
+        prev.map((g) => {
+          const newIndex = ids.indexOf(g.id);
+          if (newIndex !== -1) {
+            return { ...g, display_order: newIndex };
+          }
+          return g;
+        }),
+      );
+    },
+    [canSync],
+  );
 
-  // Auto-expand desks when searching
-  useEffect(() => {
-    if (searchQuery.trim()) {
-      // When searching, expand all desks that have matching results
-      const matchingDesks = new Set(filteredGuests.map((g) => g.desk_no));
-      setExpandedDesks(matchingDesks);
-    }
-  }, [searchQuery, filteredGuests]);
+  // Change guest fields and record the change in the history.
+  // Check-ins also record the arrival time and this device, and moving
+  // to another desk clears the chosen seats.
+  const updateGuestWithHistory = useCallback(
+    async (guest: Guest, changes: Partial<Guest>, label: string) => {
+      const updates = withSeatReset(
+        guest,
+        withArrivalStamp(guest, changes, getDeviceName()),
+      );
+      const previous = pickGuestFields(guest, updates);
+      pushHistory({
+        label,
+        undo: () => applyGuestUpdates(guest.id, previous),
+        redo: () => applyGuestUpdates(guest.id, updates),
+      });
+      await applyGuestUpdates(guest.id, updates);
+    },
+    [applyGuestUpdates, pushHistory],
+  );
 
   // Handle guest card click
   const handleGuestClick = (guest: Guest) => {
@@ -302,27 +746,23 @@ function App() {
     setDialogOpen(true);
   };
 
-  // Toggle attendance: null/false -> true, true -> null
+  // Toggle attendance: null/false/partial -> whole party, whole party -> null
   const handleToggleAttendance = useCallback(
     async (guest: Guest) => {
-      const newStatus = guest.is_attended === true ? null : true;
-
-      // Optimistic update
-      setGuests((prev) =>
-        prev.map((g) =>
-          g.id === guest.id ? { ...g, is_attended: newStatus } : g,
-        ),
+      if (!permissions.canCheckIn) return;
+      const isComplete =
+        guest.is_attended === true && !isPartiallyArrived(guest);
+      const newStatus = isComplete ? null : true;
+      await updateGuestWithHistory(
+        guest,
+        {
+          is_attended: newStatus,
+          attended_count: newStatus ? guest.person_count : null,
+        },
+        'Katılım durumu',
       );
-
-      // Save to localStorage (always, for offline support)
-      saveLocalAttendance(guest.full_name, newStatus);
-
-      // Try to update in Supabase
-      if (supabase && !isOffline) {
-        await updateGuestInDB(guest.id, { is_attended: newStatus });
-      }
     },
-    [isOffline],
+    [permissions.canCheckIn, updateGuestWithHistory],
   );
 
   // Handle save from dialog (extended with desk and counts)
@@ -333,6 +773,9 @@ function App() {
     deskNo?: number,
     personCount?: number,
     giftCount?: number,
+    attendedCount?: number | null,
+    groups?: GuestGroupFields,
+    companions?: string[],
   ) => {
     const guest = guests.find((g) => g.id === id);
     if (!guest) return;
@@ -345,31 +788,24 @@ function App() {
     if (deskNo !== undefined) updates.desk_no = deskNo;
     if (personCount !== undefined) updates.person_count = personCount;
     if (giftCount !== undefined) updates.gift_count = giftCount;
+    if (attendedCount !== undefined) updates.attended_count = attendedCount;
+    if (groups) Object.assign(updates, groups);
+    if (companions) updates.companions = companions;
 
-    // Optimistic UI update
-    setGuests((prev) =>
-      prev.map((g) => (g.id === id ? { ...g, ...updates } : g)),
-    );
-
-    // Save to localStorage
-    saveLocalAttendance(guest.full_name, isAttended);
-    saveLocalNotes(guest.full_name, description);
-
-    // Try to update in Supabase
-    if (supabase && !isOffline) {
-      await updateGuestInDB(id, updates);
-    }
+    await updateGuestWithHistory(guest, updates, 'Misafir düzenleme');
   };
 
   // Handle delete guest
   const handleDeleteGuest = async (id: number) => {
-    // Optimistic update
-    setGuests((prev) => prev.filter((g) => g.id !== id));
+    const guest = guests.find((g) => g.id === id);
+    if (!guest) return;
 
-    // Try to delete in Supabase
-    if (supabase && !isOffline) {
-      await deleteGuestFromDB(id);
-    }
+    await removeGuests([id]);
+    pushHistory({
+      label: 'Misafir silme',
+      undo: () => restoreGuests([guest]),
+      redo: () => removeGuests([guest.id]),
+    });
   };
 
   // Handle select guest (from tablemate badges)
@@ -377,11 +813,37 @@ function App() {
     setSelectedGuest(guest);
   };
 
+  // Desk to show once the floor plan is on screen
+  const pendingFocusDeskNo = useRef<number | null>(null);
+  useEffect(() => {
+    const deskNo = pendingFocusDeskNo.current;
+    if (viewMode !== 'map' || deskNo === null) return;
+    pendingFocusDeskNo.current = null;
+    requestAnimationFrame(() => floorPlanRef.current?.focusOnTable(deskNo));
+  }, [viewMode]);
+
+  // Show a desk on the floor plan (from the plan check)
+  const handleFocusDesk = (deskNo: number) => {
+    setDiagnosticsDialogOpen(false);
+    if (viewMode === 'map') {
+      floorPlanRef.current?.focusOnTable(deskNo);
+      return;
+    }
+    pendingFocusDeskNo.current = deskNo;
+    setViewMode('map');
+  };
+
+  // Bring a guest back to a version from the change log
+  const handleRestoreGuest = async (guest: Guest, updates: Partial<Guest>) => {
+    await updateGuestWithHistory(guest, updates, 'Önceki sürüme dönme');
+    setSelectedGuest({ ...guest, ...updates });
+  };
+
   // Handle split guest - creates individual guests from a multi-person invitation with custom names
   const handleSplitGuest = async (guest: Guest, customNames?: string[]) => {
     if (guest.person_count <= 1) return;
 
-    const newGuests: Guest[] = [];
+    const newGuests: Omit<Guest, 'id'>[] = [];
 
     // Create individual guests
     for (let i = 0; i < guest.person_count; i++) {
@@ -390,82 +852,104 @@ function App() {
           ? customNames[i]
           : `${guest.full_name} - Kişi ${i + 1}`;
 
-      const newGuest: Omit<Guest, 'id'> = {
+      newGuests.push({
         full_name: guestName,
         person_count: 1,
         desk_no: guest.desk_no,
         gift_count: i === 0 ? guest.gift_count : 0, // First person gets the gifts
         description: i === 0 ? guest.description : null,
         is_attended: null,
+        // The people of a split party stay one household
+        side: guest.side ?? null,
+        household: guest.household ?? guest.full_name,
+        tags: guest.tags ?? [],
+        // Everyone keeps their chair
+        seats: guest.seats?.[i] !== undefined ? [guest.seats[i]] : null,
         display_order: i,
-      };
-
-      if (supabase && !isOffline) {
-        const created = await createGuestInDB(newGuest);
-        if (created) {
-          newGuests.push(created);
-        }
-      } else {
-        // Offline mode - generate local ID
-        const localId = Math.max(...guests.map((g) => g.id), 0) + i + 1;
-        newGuests.push({ ...newGuest, id: localId });
-      }
+      });
     }
 
-    // Delete the original guest
-    if (supabase && !isOffline) {
-      await deleteGuestFromDB(guest.id);
-    }
+    const created = await createGuests(newGuests);
 
-    // Update local state
-    setGuests((prev) => [
-      ...prev.filter((g) => g.id !== guest.id),
-      ...newGuests,
-    ]);
+    // Delete the original guest
+    await removeGuests([guest.id]);
+
+    pushHistory({
+      label: 'Misafir bölme',
+      undo: async () => {
+        await removeGuests(created.map((g) => g.id));
+        await restoreGuests([guest]);
+      },
+      redo: async () => {
+        await restoreGuests(created);
+        await removeGuests([guest.id]);
+      },
+    });
   };
 
   // Handle rename guest
   const handleRenameGuest = async (id: number, newName: string) => {
-    // Optimistic update
-    setGuests((prev) =>
-      prev.map((g) => (g.id === id ? { ...g, full_name: newName } : g)),
-    );
+    const guest = guests.find((g) => g.id === id);
+    if (!guest) return;
 
-    // Update in Supabase
-    if (supabase && !isOffline) {
-      await updateGuestInDB(id, { full_name: newName });
-    }
+    await updateGuestWithHistory(
+      guest,
+      { full_name: newName },
+      'İsim değişikliği',
+    );
   };
 
-  // Handle reorder guests within a desk
-  const handleReorderGuests = useCallback(
-    (deskNo: number, reorderedGuests: Guest[]) => {
-      // Save the new order to localStorage
-      const currentOrder = getLocalGuestOrder();
-      currentOrder[deskNo] = reorderedGuests.map((g) => g.id);
-      saveLocalGuestOrder(currentOrder);
+  // Current seating order of a desk
+  const getDeskOrder = useCallback((deskNo: number) => {
+    const deskGuests = guestsRef.current.filter((g) => g.desk_no === deskNo);
+    const [group] = groupGuestsByDesk(deskGuests, [], getLocalGuestOrder());
+    return group ? group[1].map((g) => g.id) : [];
+  }, []);
 
-      // Sync to Supabase
-      if (supabase && !isOffline) {
-        updateGuestOrderInDB(
-          deskNo,
-          reorderedGuests.map((g) => g.id),
-        );
-      }
+  // Chosen seats of the guests at a desk
+  const getDeskSeats = useCallback((deskNo: number) => {
+    const deskGuests = guestsRef.current.filter((g) => g.desk_no === deskNo);
+    return new Map(deskGuests.map((g) => [g.id, g.seats ?? null]));
+  }, []);
 
-      // Optimistically update guests with new display_order values
-      setGuests((prev) => {
-        const newGuestIds = reorderedGuests.map((g) => g.id);
-        return prev.map((g) => {
-          const newIndex = newGuestIds.indexOf(g.id);
-          if (newIndex !== -1) {
-            return { ...g, display_order: newIndex };
-          }
-          return g;
-        });
+  // Save the seating order of a desk together with the seats
+  const applyDeskSeating = useCallback(
+    (
+      deskNo: number,
+      order: number[],
+      seats: Map<number, number[] | null> | null,
+    ) => {
+      applyGuestOrder(deskNo, order);
+      seats?.forEach((guestSeats, id) => {
+        applyGuestUpdates(id, { seats: guestSeats });
       });
     },
-    [isOffline],
+    [applyGuestOrder, applyGuestUpdates],
+  );
+
+  // Handle reorder guests within a desk. Chosen seats follow the order.
+  const handleReorderGuests = useCallback(
+    (deskNo: number, orderedGuests: Guest[]) => {
+      const previousOrder = getDeskOrder(deskNo);
+      const previousSeats = getDeskSeats(deskNo);
+      const newOrder = orderedGuests.map((g) => g.id);
+      const newSeats = getSeatsForOrder(
+        orderedGuests,
+        getSeatCount(
+          orderedGuests,
+          capacities[deskNo] ?? DEFAULT_DESK_CAPACITY,
+        ),
+      );
+
+      applyDeskSeating(deskNo, newOrder, newSeats);
+      pushHistory({
+        label: 'Sıralama',
+        undo: () =>
+          applyDeskSeating(deskNo, previousOrder, newSeats && previousSeats),
+        redo: () => applyDeskSeating(deskNo, newOrder, newSeats),
+      });
+    },
+    [capacities, getDeskOrder, getDeskSeats, applyDeskSeating, pushHistory],
   );
 
   // Handle reorder guest from dialog (up/down)
@@ -488,27 +972,69 @@ function App() {
         newOrder[currentIndex],
       ];
 
-      const allOrders = getLocalGuestOrder();
-      allOrders[deskNo] = newOrder;
-      saveLocalGuestOrder(allOrders);
+      handleReorderGuests(
+        deskNo,
+        newOrder
+          .map((id) => deskGuests.find((g) => g.id === id))
+          .filter((g): g is Guest => !!g),
+      );
+    },
+    [guests, handleReorderGuests],
+  );
 
-      // Sync to Supabase
-      if (supabase && !isOffline) {
-        updateGuestOrderInDB(deskNo, newOrder);
-      }
+  // Move a guest to another desk (dragged on the floor plan). A single
+  // person dropped on a free chair takes that chair.
+  const handleMoveGuestToDesk = async (
+    guestId: number,
+    deskNo: number,
+    seat: number | null,
+  ) => {
+    const guest = guestsRef.current.find((g) => g.id === guestId);
+    if (!guest || guest.desk_no === deskNo) return;
 
-      // Optimistically update display_order on guests
-      setGuests((prev) =>
-        prev.map((g) => {
-          const idx = newOrder.indexOf(g.id);
-          if (idx !== -1) {
-            return { ...g, display_order: idx };
-          }
-          return g;
-        }),
+    const deskGuests = guestsRef.current.filter((g) => g.desk_no === deskNo);
+    const seatCount = getSeatCount(
+      deskGuests,
+      capacities[deskNo] ?? DEFAULT_DESK_CAPACITY,
+    );
+    const seats =
+      seat !== null &&
+      guest.person_count === 1 &&
+      getSeatAssignments(deskGuests, seatCount)[seat] === null
+        ? [seat]
+        : null;
+
+    await updateGuestWithHistory(
+      guest,
+      { desk_no: deskNo, seats },
+      'Masa değişikliği',
+    );
+    setExpandedDesks((prev) => new Set([...prev, deskNo]));
+  };
+
+  // Move a person to another chair of their desk (dragged on the floor
+  // plan). The seating order follows the chairs, clockwise from the top.
+  const handleMoveSeat = useCallback(
+    (deskNo: number, from: number, to: number) => {
+      const deskGuests = guestsRef.current.filter((g) => g.desk_no === deskNo);
+      const previousOrder = getDeskOrder(deskNo);
+      const previousSeats = getDeskSeats(deskNo);
+      const newSeats = getSeatsAfterMove(
+        deskGuests,
+        getSeatCount(deskGuests, capacities[deskNo] ?? DEFAULT_DESK_CAPACITY),
+        from,
+        to,
       );
+      const newOrder = getOrderBySeats(newSeats);
+
+      applyDeskSeating(deskNo, newOrder, newSeats);
+      pushHistory({
+        label: 'Sandalye değişikliği',
+        undo: () => applyDeskSeating(deskNo, previousOrder, previousSeats),
+        redo: () => applyDeskSeating(deskNo, newOrder, newSeats),
+      });
     },
-    [guests, isOffline],
+    [capacities, getDeskOrder, getDeskSeats, applyDeskSeating, pushHistory],
   );
 
   // Create new guest
@@ -518,59 +1044,386 @@ function App() {
     deskNo: number;
     giftCount: number;
   }) => {
-    const newGuest: Omit<Guest, 'id'> = {
-      full_name: guestData.fullName,
-      person_count: guestData.personCount,
-      desk_no: guestData.deskNo,
-      gift_count: guestData.giftCount,
-      description: null,
-      is_attended: null,
-    };
-
-    let createdGuest: Guest;
-
-    // Try to create in Supabase first
-    if (supabase && !isOffline) {
-      const dbGuest = await createGuestInDB(newGuest);
-      if (dbGuest) {
-        createdGuest = dbGuest;
-      } else {
-        // Fallback to local
-        const newId = Math.max(...guests.map((g) => g.id), 0) + 1;
-        createdGuest = { ...newGuest, id: newId };
-      }
-    } else {
-      // Offline mode
-      const newId = Math.max(...guests.map((g) => g.id), 0) + 1;
-      createdGuest = { ...newGuest, id: newId };
-    }
+    const [createdGuest] = await createGuests([
+      {
+        full_name: guestData.fullName,
+        person_count: guestData.personCount,
+        desk_no: guestData.deskNo,
+        gift_count: guestData.giftCount,
+        description: null,
+        is_attended: null,
+      },
+    ]);
 
-    // Update state
-    setGuests((prev) => [...prev, createdGuest]);
+    pushHistory({
+      label: 'Misafir ekleme',
+      undo: () => removeGuests([createdGuest.id]),
+      redo: () => restoreGuests([createdGuest]),
+    });
 
     // Expand the desk
     setExpandedDesks((prev) => new Set([...prev, guestData.deskNo]));
   };
 
-  // Create new desk in Supabase
-  const handleCreateDesk = async (deskNo: number) => {
+  // Create new desk in Supabase. slotOffset places several desks
+  // created in one go on separate grid cells.
+  const handleCreateDesk = async (deskNo: number, slotOffset = 0) => {
     // Add the desk to expanded desks
     setExpandedDesks((prev) => new Set([...prev, deskNo]));
 
     // Create desk in Supabase
-    if (supabase && !isOffline) {
+    if (supabase) {
       // Calculate a position for the new desk (grid layout)
-      const existingCount = deskNumbers.length;
+      const existingCount = deskNumbers.length + slotOffset;
       const col = existingCount % 4;
       const row = Math.floor(existingCount / 4);
       const x = 150 + col * 200;
       const y = 150 + row * 200;
 
-      await createDeskInDB(deskNo, x, y);
+      const created = await createDeskInDB(deskNo, x, y);
+
+      if (created) {
+        // Reload desks from Supabase to update the UI
+        await reloadDesks();
+      } else {
+        // Queued in the outbox - show it until it is synced
+        addLocalDesk(deskNo, { x, y });
+      }
+    }
+  };
+
+  // Import guests from a CSV/XLSX file
+  const handleImportGuests = async (
+    rows: GuestRaw[],
+    missingDesks: number[],
+  ) => {
+    for (const [index, deskNo] of missingDesks.entries()) {
+      await handleCreateDesk(deskNo, index);
+    }
+
+    const newGuests: Omit<Guest, 'id'>[] = rows.map((row) => ({
+      full_name: row.fullName,
+      person_count: row.personCount,
+      desk_no: row.deskNo,
+      gift_count: row.giftCount,
+      description: row.description,
+      is_attended: null,
+    }));
+
+    // Local IDs are used without Supabase and while the insert is queued
+    const localIds = getLocalGuestIds(guests, newGuests.length);
+
+    let created: Guest[];
+    if (canSync) {
+      const dbGuests = await createGuestsInDB(newGuests, localIds);
+      created =
+        dbGuests ?? newGuests.map((g, i) => ({ ...g, id: localIds[i] }));
+    } else {
+      // Without Supabase keep the imported rows on this device
+      saveLocalImportedGuests(rows);
+      created = newGuests.map((g, i) => ({ ...g, id: localIds[i] }));
+    }
+
+    // Update state (realtime inserts may already have added some)
+    setGuests((prev) => {
+      const existingIds = new Set(prev.map((g) => g.id));
+      return [...prev, ...created.filter((g) => !existingIds.has(g.id))];
+    });
+
+    // Expand the affected desks
+    setExpandedDesks(
+      (prev) => new Set([...prev, ...rows.map((r) => r.deskNo)]),
+    );
+  };
 
-      // Reload desks from Supabase to update the UI
-      await reloadDesks();
+  // Apply the desk changes proposed by the auto-seat solver
+  const handleApplySeating = async (moves: SeatingMove[]) => {
+    const changes = new Map(
+      moves.map((m) => {
+        const updates = withSeatReset(m.guest, { desk_no: m.toDeskNo });
+        return [
+          m.guest.id,
+          { updates, previous: pickGuestFields(m.guest, updates) },
+        ];
+      }),
+    );
+
+    // Optimistic update
+    setGuests((prev) =>
+      prev.map((g) =>
+        changes.has(g.id) ? { ...g, ...changes.get(g.id)!.updates } : g,
+      ),
+    );
+    setExpandedDesks(
+      (prev) => new Set([...prev, ...moves.map((m) => m.toDeskNo)]),
+    );
+
+    // Update in Supabase
+    if (canSync) {
+      await Promise.all(
+        [...changes].map(([id, { updates, previous }]) => {
+          recordLocalEdit(id, updates, previous);
+          return updateGuestInDB(id, updates);
+        }),
+      );
     }
+
+    pushHistory({
+      label: 'Otomatik yerleşim',
+      undo: async () => {
+        await Promise.all(
+          [...changes].map(([id, { previous }]) =>
+            applyGuestUpdates(id, previous),
+          ),
+        );
+      },
+      redo: async () => {
+        await Promise.all(
+          [...changes].map(([id, { updates }]) =>
+            applyGuestUpdates(id, updates),
+          ),
+        );
+      },
+    });
+  };
+
+  // Move a table on the floor plan
+  const handlePositionChange = (
+    deskNo: number,
+    position: { x: number; y: number },
+  ) => {
+    const previous = tablePositions[deskNo];
+    updatePosition(deskNo, position);
+    if (!previous) return;
+
+    pushHistory({
+      label: `Masa ${deskNo} taşıma`,
+      undo: () => updatePosition(deskNo, previous),
+      redo: () => updatePosition(deskNo, position),
+    });
+  };
+
+  // Put all tables back on the default grid
+  const handleResetPositions = () => {
+    const previous = { ...tablePositions };
+    resetPositions();
+
+    pushHistory({
+      label: 'Masa pozisyonlarını sıfırlama',
+      undo: () => {
+        Object.entries(previous).forEach(([deskNo, position]) =>
+          updatePosition(Number(deskNo), position),
+        );
+      },
+      redo: resetPositions,
+    });
+  };
+
+  // Bring a desk back to a version from the change log
+  const handleRestoreDesk = (deskNo: number, updates: Partial<Desk>) => {
+    const current = tablePositions[deskNo];
+    if (current && (updates.x !== undefined || updates.y !== undefined)) {
+      handlePositionChange(deskNo, {
+        x: updates.x ?? current.x,
+        y: updates.y ?? current.y,
+      });
+    }
+    if (updates.capacity !== undefined) {
+      updateCapacity(deskNo, updates.capacity);
+    }
+    // Names are not part of the layout state, so they are written directly
+    if (updates.name !== undefined) {
+      updateDeskInDB(deskNo, { name: updates.name });
+    }
+    const layoutKeys = ['shape', 'width', 'height', 'rotation'] as const;
+    if (layoutKeys.some((key) => updates[key] !== undefined)) {
+      const layout = deskLayouts[deskNo] ?? DEFAULT_DESK_LAYOUT;
+      updateDeskLayout(deskNo, {
+        shape: updates.shape ?? layout.shape,
+        width: updates.width !== undefined ? updates.width : layout.width,
+        height: updates.height !== undefined ? updates.height : layout.height,
+        rotation: updates.rotation ?? layout.rotation,
+      });
+    }
+  };
+
+  // Put guests, desks and fixed objects back as they were in a snapshot.
+  // Guests added since stay where they are, deleted ones are not restored.
+  const applySeatingSnapshot = async (snapshot: SeatingSnapshotData) => {
+    const current = layoutRef.current;
+    const plan = getSnapshotRestorePlan(snapshot, guestsRef.current);
+
+    // Desks deleted since the snapshot are created again
+    const snapshotDesks = new Set([
+      ...Object.keys(plan.deskOrders).map(Number),
+      ...Object.keys(snapshot.tablePositions).map(Number),
+    ]);
+    const missingDesks = [...snapshotDesks].filter(
+      (deskNo) => !current.deskNumbers.includes(deskNo),
+    );
+    for (const [index, deskNo] of missingDesks.entries()) {
+      await handleCreateDesk(deskNo, index);
+    }
+
+    const previousOrders = Object.fromEntries(
+      Object.keys(plan.deskOrders).map((deskNo) => [
+        deskNo,
+        getDeskOrder(Number(deskNo)),
+      ]),
+    );
+    await Promise.all(
+      plan.moves.map((move) =>
+        applyGuestUpdates(move.guestId, { desk_no: move.deskNo }),
+      ),
+    );
+    await Promise.all(
+      plan.seatChanges.map((change) =>
+        applyGuestUpdates(change.guestId, { seats: change.seats }),
+      ),
+    );
+    Object.entries(plan.deskOrders).forEach(([deskNo, ids]) => {
+      if (ids.join() !== previousOrders[deskNo].join()) {
+        applyGuestOrder(Number(deskNo), ids);
+      }
+    });
+
+    Object.entries(snapshot.tablePositions).forEach(([deskNo, position]) => {
+      const previous = current.tablePositions[Number(deskNo)];
+      if (previous?.x !== position.x || previous?.y !== position.y) {
+        updatePosition(Number(deskNo), position);
+      }
+    });
+
+    const objectPlan = getFixedObjectRestorePlan(
+      snapshot.fixedObjects,
+      current.fixedObjects,
+    );
+    await Promise.all([
+      ...objectPlan.deleteIds.map((id) => deleteFixedObject(id)),
+      ...objectPlan.update.map((object) => updateFixedObject(object)),
+      ...objectPlan.create.map((object) => restoreFixedObject(object)),
+    ]);
+  };
+
+  const handleRestoreSnapshot = async (snapshot: SeatingSnapshotData) => {
+    const previous = captureSeatingSnapshot(
+      guests,
+      tablePositions,
+      fixedObjects,
+    );
+    await applySeatingSnapshot(snapshot);
+    pushHistory({
+      label: 'Plana dönme',
+      undo: () => applySeatingSnapshot(previous),
+      redo: () => applySeatingSnapshot(snapshot),
+    });
+    setSnapshotsDialogOpen(false);
+  };
+
+  // Current id of a fixed object that may have been re-created by undo
+  const currentObjectId = (id: string) =>
+    resolveAlias(objectIdAliases.current, id);
+
+  // Re-create a deleted fixed object and point its old id at the new one
+  const restoreFixedObjectWithAlias = async (object: FixedObjectData) => {
+    const oldId = currentObjectId(object.id);
+    const restored = await restoreFixedObject({ ...object, id: oldId });
+    if (restored.id !== oldId) {
+      objectIdAliases.current.set(oldId, restored.id);
+    }
+  };
+
+  const handleAddFixedObject = async (
+    type: FixedObjectData['type'],
+    name: string,
+  ) => {
+    const created = await addFixedObject(type, name);
+
+    pushHistory({
+      label: 'Nesne ekleme',
+      undo: () => deleteFixedObject(currentObjectId(created.id)),
+      redo: () => restoreFixedObjectWithAlias(created),
+    });
+  };
+
+  // Resizing sends many updates - they are merged into one history step
+  const handleUpdateFixedObject = (object: FixedObjectData) => {
+    const previous = fixedObjects.find((obj) => obj.id === object.id);
+    updateFixedObject(object);
+    if (!previous) return;
+
+    pushHistory({
+      label: 'Nesne düzenleme',
+      mergeKey: `fixed-object-${object.id}`,
+      undo: () =>
+        updateFixedObject({ ...previous, id: currentObjectId(object.id) }),
+      redo: () =>
+        updateFixedObject({ ...object, id: currentObjectId(object.id) }),
+    });
+  };
+
+  // Align or distribute several tables and objects as one step
+  const handleArrange = (
+    tables: Record<number, { x: number; y: number }>,
+    objects: FixedObjectData[],
+  ) => {
+    const previousTables = Object.keys(tables).map((deskNo) => ({
+      deskNo: Number(deskNo),
+      position: tablePositions[Number(deskNo)],
+    }));
+    const previousObjects = fixedObjects.filter((obj) =>
+      objects.some((o) => o.id === obj.id),
+    );
+    const apply = (
+      nextTables: Record<number, { x: number; y: number }>,
+      nextObjects: FixedObjectData[],
+    ) => {
+      Object.entries(nextTables).forEach(([deskNo, position]) =>
+        updatePosition(Number(deskNo), position),
+      );
+      nextObjects.forEach((object) =>
+        updateFixedObject({ ...object, id: currentObjectId(object.id) }),
+      );
+    };
+    apply(tables, objects);
+
+    pushHistory({
+      label: 'Hizalama',
+      undo: () =>
+        apply(
+          Object.fromEntries(
+            previousTables
+              .filter(({ position }) => position)
+              .map(({ deskNo, position }) => [deskNo, position]),
+          ),
+          previousObjects,
+        ),
+      redo: () => apply(tables, objects),
+    });
+  };
+
+  const handleDeleteFixedObject = (id: string) => {
+    const previous = fixedObjects.find((obj) => obj.id === id);
+    deleteFixedObject(id);
+    if (!previous) return;
+
+    pushHistory({
+      label: 'Nesne silme',
+      undo: () => restoreFixedObjectWithAlias(previous),
+      redo: () => deleteFixedObject(currentObjectId(id)),
+    });
+  };
+
+  const handleEditFixedObjectName = (id: string, name: string) => {
+    const previous = fixedObjects.find((obj) => obj.id === id);
+    editFixedObjectName(id, name);
+    if (!previous) return;
+
+    pushHistory({
+      label: 'Nesne adı',
+      undo: () => editFixedObjectName(currentObjectId(id), previous.name),
+      redo: () => editFixedObjectName(currentObjectId(id), name),
+    });
   };
 
   // Toggle desk expansion
@@ -636,13 +1489,30 @@ function App() {
                   Sena & Ömer
                 </h1>
                 <div className="flex items-center gap-2">
-                  <p className="text-xs text-slate-500">Nişan Davetiyesi</p>
+                  <EventSwitcher
+                    events={events}
+                    activeEvent={activeEvent}
+                    onSelectEvent={onSelectEvent}
+                    onCreateEvent={onCreateEvent}
+                    userEmail={userEmail}
+                    role={role}
+                    canManageMembers={permissions.canManageMembers}
+                  />
                   {isOffline && (
                     <span className="inline-flex items-center gap-1 text-xs text-orange-600 bg-orange-50 px-1.5 py-0.5 rounded">
                       <WifiSlash weight="bold" className="w-3 h-3" />
                       Çevrimdışı
                     </span>
                   )}
+                  <OutboxStatus
+                    entries={outbox.entries}
+                    pendingCount={outbox.pendingCount}
+                    failedCount={outbox.failedCount}
+                    isSyncing={outbox.isSyncing}
+                    onFlush={outbox.flush}
+                    onRetryFailed={outbox.retryFailed}
+                    onDiscard={outbox.discardEntry}
+                  />
                 </div>
               </div>
             </div>
@@ -711,7 +1581,29 @@ function App() {
               >
                 <MapPin weight="bold" className="w-5 h-5" />
               </button>
+              <button
+                onClick={() => setViewMode('dashboard')}
+                className={`p-2 rounded-lg transition-all ${
+                  viewMode === 'dashboard'
+                    ? 'bg-white text-indigo-600 shadow-sm'
+                    : 'text-slate-400 hover:text-slate-600'
+                }`}
+                title="Giriş Paneli"
+              >
+                <ChartBar weight="bold" className="w-5 h-5" />
+              </button>
             </div>
+
+            {/* Door Scanner */}
+            {permissions.canCheckIn && (
+              <button
+                onClick={() => setScannerDialogOpen(true)}
+                className="p-3 rounded-xl border border-slate-200 bg-slate-50 text-slate-500 hover:text-indigo-600 transition-colors shrink-0"
+                title="Kapı Girişi (QR okut)"
+              >
+                <QrCode weight="bold" className="w-5 h-5" />
+              </button>
+            )}
           </div>
         </div>
       </header>
@@ -727,7 +1619,7 @@ function App() {
             <Button
               size="sm"
               variant="ghost"
-              onClick={fetchGuests}
+              onClick={() => fetchGuests()}
               className="text-rose-600"
             >
               <ArrowClockwise weight="bold" className="w-4 h-4" />
@@ -735,6 +1627,34 @@ function App() {
           </div>
         )}
 
+        {/* Signed in, but not a member of this event */}
+        {!roleLoading && role === null && (
+          <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 flex items-center gap-2">
+            <Warning weight="bold" className="w-4 h-4 text-amber-500" />
+            <p className="text-sm text-amber-800">
+              Bu etkinliğe erişiminiz yok. Etkinlik sahibinden sizi eklemesini
+              isteyin.
+            </p>
+          </div>
+        )}
+
+        {/* Concurrent edits from other devices */}
+        <GuestConflictBanner
+          conflicts={conflicts}
+          onResolve={resolveConflict}
+        />
+
+        {/* Seating rules broken by the current plan */}
+        <ConstraintViolationBanner
+          violations={constraintViolations}
+          guests={guests}
+          onOpenRules={
+            permissions.canEditSeating
+              ? () => setAutoSeatDialogOpen(true)
+              : undefined
+          }
+        />
+
         {/* Loading State */}
         {loading ? (
           <div className="flex flex-col items-center justify-center py-24">
@@ -746,30 +1666,76 @@ function App() {
           </div>
         ) : (
           <>
-            {/* Stats Bar - Hide when searching or in map view */}
-            {!searchQuery && viewMode !== 'map' && <StatsBar {...stats} />}
+            {/* Stats Bar - Hide when searching, in map or dashboard view */}
+            {!searchQuery && viewMode !== 'map' && viewMode !== 'dashboard' && (
+              <StatsBar {...stats} />
+            )}
 
             {/* Map View */}
-            {viewMode === 'map' ? (
+            {viewMode === 'dashboard' ? (
+              <ArrivalDashboard
+                guests={guests}
+                onGuestClick={handleGuestClick}
+              />
+            ) : viewMode === 'map' ? (
               <FloorPlan
                 ref={floorPlanRef}
                 guests={guests}
                 tablePositions={tablePositions}
-                onPositionChange={updatePosition}
-                onResetPositions={resetPositions}
+                onPositionChange={handlePositionChange}
+                onResetPositions={handleResetPositions}
                 highlightedDeskNos={highlightedDeskNos}
                 onToggleAttendance={handleToggleAttendance}
                 onGuestClick={(guest: Guest) => {
                   setSelectedGuest(guest);
                   setDialogOpen(true);
                 }}
-                onReorderGuests={handleReorderGuests}
+                canEdit={permissions.canEditSeating}
+                onReorderGuests={
+                  permissions.canEditSeating ? handleReorderGuests : undefined
+                }
+                onMoveSeat={
+                  permissions.canEditSeating ? handleMoveSeat : undefined
+                }
+                onMoveGuest={
+                  permissions.canEditSeating ? handleMoveGuestToDesk : undefined
+                }
+                capacities={capacities}
+                onCapacityChange={
+                  permissions.canEditSeating ? updateCapacity : undefined
+                }
+                capacityMode={capacityMode}
+                onCapacityModeChange={
+                  permissions.canEditSeating ? setCapacityMode : undefined
+                }
+                layouts={deskLayouts}
+                onLayoutChange={
+                  permissions.canEditSeating ? updateDeskLayout : undefined
+                }
+                onRestoreDesk={
+                  permissions.canEditSeating ? handleRestoreDesk : undefined
+                }
                 fixedObjects={fixedObjects}
-                onUpdateFixedObject={updateFixedObject}
-                onDeleteFixedObject={deleteFixedObject}
-                onEditFixedObjectName={editFixedObjectName}
+                onUpdateFixedObject={handleUpdateFixedObject}
+                onDeleteFixedObject={handleDeleteFixedObject}
+                onEditFixedObjectName={handleEditFixedObjectName}
                 onAddFixedObject={() => setCreateFixedObjectDialogOpen(true)}
+                onArrange={
+                  permissions.canEditSeating ? handleArrange : undefined
+                }
+                onUndo={permissions.canCheckIn ? history.undo : undefined}
+                onRedo={permissions.canCheckIn ? history.redo : undefined}
+                canUndo={history.canUndo}
+                canRedo={history.canRedo}
                 backgroundImage={FLOOR_PLAN_BACKGROUND}
+                venuePlan={venuePlan}
+                onVenuePlanChange={
+                  permissions.canEditSeating ? updateVenuePlan : undefined
+                }
+                planScale={planScale}
+                onPlanScaleChange={
+                  permissions.canEditSeating ? updatePlanScale : undefined
+                }
               />
             ) : (
               <>
@@ -821,27 +1787,144 @@ function App() {
                         <NotePencil weight="bold" className="w-3 h-3" />
                         Notlu
                       </button>
+                      {guestGroups.length > 0 && (
+                        <select
+                          value={isGroupKey(filterMode) ? filterMode : ''}
+                          onChange={(e) =>
+                            setFilterMode(
+                              isGroupKey(e.target.value)
+                                ? e.target.value
+                                : 'all',
+                            )
+                          }
+                          className={`px-1.5 py-1.5 rounded-md font-medium bg-transparent focus:outline-none ${
+                            isGroupKey(filterMode)
+                              ? 'bg-white text-violet-600 shadow-sm'
+                              : 'text-slate-500'
+                          }`}
+                        >
+                          <option value="">Grup</option>
+                          {guestGroups.map((group) => (
+                            <option key={group.key} value={group.key}>
+                              {group.label} ({group.count})
+                            </option>
+                          ))}
+                        </select>
+                      )}
                     </div>
 
                     {/* Quick Actions */}
                     <div className="flex items-center gap-1">
-                      {/* Add Guest */}
+                      {permissions.canEditSeating && (
+                        <>
+                          {/* Add Guest */}
+                          <button
+                            onClick={() => setCreateGuestDialogOpen(true)}
+                            className="px-2.5 py-1.5 rounded-lg text-xs font-medium text-white bg-indigo-500 hover:bg-indigo-600 flex items-center gap-1.5 transition-colors shadow-sm"
+                          >
+                            <UserPlus weight="bold" className="w-4 h-4" />
+                            <span className="hidden sm:inline">
+                              Misafir Ekle
+                            </span>
+                          </button>
+                          {/* Add Desk */}
+                          <button
+                            onClick={() => setCreateDeskDialogOpen(true)}
+                            className="px-2 py-1.5 rounded-md text-xs font-medium text-slate-500 hover:text-slate-700 hover:bg-slate-100 flex items-center gap-1 transition-colors"
+                          >
+                            <Plus weight="bold" className="w-3.5 h-3.5" />
+                            <span className="hidden sm:inline">Masa</span>
+                          </button>
+                          {/* Import Guests */}
+                          <button
+                            onClick={() => setImportDialogOpen(true)}
+                            className="px-2 py-1.5 rounded-md text-xs font-medium text-slate-500 hover:text-slate-700 hover:bg-slate-100 flex items-center gap-1 transition-colors"
+                            title="CSV / Excel içe aktar"
+                          >
+                            <UploadSimple
+                              weight="bold"
+                              className="w-3.5 h-3.5"
+                            />
+                            <span className="hidden sm:inline">İçe Aktar</span>
+                          </button>
+                          {/* Auto Seat */}
+                          <button
+                            onClick={() => setAutoSeatDialogOpen(true)}
+                            className="px-2 py-1.5 rounded-md text-xs font-medium text-slate-500 hover:text-slate-700 hover:bg-slate-100 flex items-center gap-1 transition-colors"
+                            title="Otomatik yerleşim önerisi"
+                          >
+                            <MagicWand weight="bold" className="w-3.5 h-3.5" />
+                            <span className="hidden sm:inline">Yerleştir</span>
+                          </button>
+                        </>
+                      )}
+                      {/* Seating Snapshots */}
+                      {permissions.canEditSeating && (
+                        <button
+                          onClick={() => setSnapshotsDialogOpen(true)}
+                          className="px-2 py-1.5 rounded-md text-xs font-medium text-slate-500 hover:text-slate-700 hover:bg-slate-100 flex items-center gap-1 transition-colors"
+                          title="Yerleşim planını kaydet / geri yükle"
+                        >
+                          <BookmarksSimple
+                            weight="bold"
+                            className="w-3.5 h-3.5"
+                          />
+                          <span className="hidden sm:inline">Planlar</span>
+                        </button>
+                      )}
+                      {/* Plan Check */}
                       <button
-                        onClick={() => setCreateGuestDialogOpen(true)}
-                        className="px-2.5 py-1.5 rounded-lg text-xs font-medium text-white bg-indigo-500 hover:bg-indigo-600 flex items-center gap-1.5 transition-colors shadow-sm"
+                        onClick={() => setDiagnosticsDialogOpen(true)}
+                        className="px-2 py-1.5 rounded-md text-xs font-medium text-slate-500 hover:text-slate-700 hover:bg-slate-100 flex items-center gap-1 transition-colors"
+                        title="Yerleşim planındaki sorunları listele"
                       >
-                        <UserPlus weight="bold" className="w-4 h-4" />
-                        <span className="hidden sm:inline">Misafir Ekle</span>
+                        <Stethoscope weight="bold" className="w-3.5 h-3.5" />
+                        <span className="hidden sm:inline">Kontrol</span>
+                        {planIssues.length > 0 && (
+                          <span className="min-w-4 px-1 rounded-full bg-amber-100 text-amber-700 text-[10px] tabular-nums">
+                            {planIssues.length}
+                          </span>
+                        )}
                       </button>
-                      {/* Add Desk */}
+                      {/* Export */}
                       <button
-                        onClick={() => setCreateDeskDialogOpen(true)}
+                        onClick={() => setExportDialogOpen(true)}
                         className="px-2 py-1.5 rounded-md text-xs font-medium text-slate-500 hover:text-slate-700 hover:bg-slate-100 flex items-center gap-1 transition-colors"
+                        title="CSV / JSON / PDF dışa aktar"
                       >
-                        <Plus weight="bold" className="w-3.5 h-3.5" />
-                        <span className="hidden sm:inline">Masa</span>
+                        <DownloadSimple weight="bold" className="w-3.5 h-3.5" />
+                        <span className="hidden sm:inline">Dışa Aktar</span>
                       </button>
                       <div className="w-px h-4 bg-slate-200 mx-1 hidden sm:block" />
+                      {/* Undo / Redo */}
+                      {permissions.canCheckIn && (
+                        <>
+                          <button
+                            onClick={history.undo}
+                            disabled={!history.canUndo}
+                            className="p-1.5 rounded-md text-slate-400 hover:text-slate-600 hover:bg-slate-100 transition-colors disabled:opacity-40 disabled:pointer-events-none"
+                            title={
+                              history.undoLabel
+                                ? `Geri Al: ${history.undoLabel} (Ctrl+Z)`
+                                : 'Geri Al (Ctrl+Z)'
+                            }
+                          >
+                            <ArrowUUpLeft weight="bold" className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={history.redo}
+                            disabled={!history.canRedo}
+                            className="p-1.5 rounded-md text-slate-400 hover:text-slate-600 hover:bg-slate-100 transition-colors disabled:opacity-40 disabled:pointer-events-none"
+                            title={
+                              history.redoLabel
+                                ? `Yinele: ${history.redoLabel} (Ctrl+Shift+Z)`
+                                : 'Yinele (Ctrl+Shift+Z)'
+                            }
+                          >
+                            <ArrowUUpRight weight="bold" className="w-4 h-4" />
+                          </button>
+                        </>
+                      )}
                       <button
                         onClick={expandAll}
                         className="p-1.5 rounded-md text-slate-400 hover:text-slate-600 hover:bg-slate-100 transition-colors"
@@ -880,15 +1963,17 @@ function App() {
                           ? 'Filtreleri değiştirin'
                           : 'Liste boş'}
                       </p>
-                      {!searchQuery && filterMode === 'all' && (
-                        <Button
-                          onClick={() => setCreateGuestDialogOpen(true)}
-                          className="mt-4 bg-indigo-600 hover:bg-indigo-700 text-white"
-                        >
-                          <UserPlus weight="bold" className="w-4 h-4 mr-2" />
-                          İlk Misafiri Ekle
-                        </Button>
-                      )}
+                      {!searchQuery &&
+                        filterMode === 'all' &&
+                        permissions.canEditSeating && (
+                          <Button
+                            onClick={() => setCreateGuestDialogOpen(true)}
+                            className="mt-4 bg-indigo-600 hover:bg-indigo-700 text-white"
+                          >
+                            <UserPlus weight="bold" className="w-4 h-4 mr-2" />
+                            İlk Misafiri Ekle
+                          </Button>
+                        )}
                     </div>
                   </div>
                 ) : (
@@ -900,12 +1985,22 @@ function App() {
                         guests={deskGuests}
                         onGuestClick={handleGuestClick}
                         onToggleAttendance={handleToggleAttendance}
-                        onReorderGuests={handleReorderGuests}
-                        onAddGuest={(deskNo) => {
-                          setPreSelectedDeskNo(deskNo);
-                          setCreateGuestDialogOpen(true);
-                        }}
+                        onReorderGuests={
+                          permissions.canEditSeating
+                            ? handleReorderGuests
+                            : undefined
+                        }
+                        onAddGuest={
+                          permissions.canEditSeating
+                            ? (deskNo) => {
+                                setPreSelectedDeskNo(deskNo);
+                                setCreateGuestDialogOpen(true);
+                              }
+                            : undefined
+                        }
                         viewMode={viewMode as 'card' | 'table'}
+                        filled={deskLoads.get(deskNo) ?? 0}
+                        capacity={capacities[deskNo] ?? DEFAULT_DESK_CAPACITY}
                         isExpanded={expandedDesks.has(deskNo)}
                         onToggleExpand={() => toggleDesk(deskNo)}
                       />
@@ -926,12 +2021,23 @@ function App() {
         open={dialogOpen}
         onOpenChange={setDialogOpen}
         onSave={handleSaveDescription}
-        onDelete={handleDeleteGuest}
-        onReorderGuest={handleReorderGuest}
+        canEditDetails={permissions.canEditSeating}
+        canCheckIn={permissions.canCheckIn}
+        onDelete={permissions.canEditSeating ? handleDeleteGuest : undefined}
+        onReorderGuest={
+          permissions.canEditSeating ? handleReorderGuest : undefined
+        }
         onSelectGuest={handleSelectGuest}
-        onSplitGuest={handleSplitGuest}
-        onRenameGuest={handleRenameGuest}
+        onSplitGuest={permissions.canEditSeating ? handleSplitGuest : undefined}
+        onRenameGuest={
+          permissions.canEditSeating ? handleRenameGuest : undefined
+        }
+        onRestoreGuest={
+          permissions.canEditSeating ? handleRestoreGuest : undefined
+        }
         existingDeskNumbers={deskNumbers.length > 0 ? deskNumbers : [1]}
+        capacities={capacities}
+        capacityMode={capacityMode}
       />
 
       {/* Create Guest Dialog */}
@@ -944,6 +2050,9 @@ function App() {
         onCreateGuest={handleCreateGuest}
         existingDeskNumbers={deskNumbers.length > 0 ? deskNumbers : [1]}
         defaultDeskNo={preSelectedDeskNo ?? undefined}
+        allGuests={guests}
+        capacities={capacities}
+        capacityMode={capacityMode}
       />
 
       {/* Create Desk Dialog */}
@@ -954,14 +2063,118 @@ function App() {
         existingDeskNumbers={deskNumbers}
       />
 
+      {/* Import Guests Dialog */}
+      <ImportGuestsDialog
+        open={importDialogOpen}
+        onOpenChange={setImportDialogOpen}
+        onImport={handleImportGuests}
+        existingGuests={guests}
+        existingDeskNumbers={importDeskNumbers}
+      />
+
+      {/* Export Dialog */}
+      <ExportDialog
+        open={exportDialogOpen}
+        onOpenChange={setExportDialogOpen}
+        groups={exportGroups}
+        unsyncedGuestCount={unsyncedGuestCount}
+      />
+
+      {/* Plan Check Dialog */}
+      <PlanDiagnosticsDialog
+        open={diagnosticsDialogOpen}
+        onOpenChange={setDiagnosticsDialogOpen}
+        issues={planIssues}
+        guests={guests}
+        onSelectGuest={(guest) => {
+          setDiagnosticsDialogOpen(false);
+          handleGuestClick(guest);
+        }}
+        onFocusDesk={handleFocusDesk}
+      />
+
+      {/* Seating Snapshots Dialog */}
+      <SeatingSnapshotsDialog
+        open={snapshotsDialogOpen}
+        onOpenChange={setSnapshotsDialogOpen}
+        guests={guests}
+        tablePositions={tablePositions}
+        fixedObjects={fixedObjects}
+        onRestore={handleRestoreSnapshot}
+      />
+
+      {/* Auto Seat Dialog */}
+      <AutoSeatDialog
+        open={autoSeatDialogOpen}
+        onOpenChange={setAutoSeatDialogOpen}
+        guests={guests}
+        desks={solverDesks}
+        constraints={constraints}
+        onAddConstraint={addConstraint}
+        onRemoveConstraint={removeConstraint}
+        onApply={handleApplySeating}
+      />
+
+      {/* Door Check-in Scanner */}
+      <CheckInScannerDialog
+        open={scannerDialogOpen}
+        onOpenChange={setScannerDialogOpen}
+        guests={guests}
+        onToggleAttendance={handleToggleAttendance}
+      />
+
       {/* Create Fixed Object Dialog */}
       <CreateFixedObjectDialog
         open={createFixedObjectDialogOpen}
         onOpenChange={setCreateFixedObjectDialogOpen}
-        onCreate={(type, name) => addFixedObject(type, name)}
+        onCreate={handleAddFixedObject}
       />
     </div>
   );
 }
 
+// Events of the signed-in user
+function EventWorkspace({ userEmail }: { userEmail: string | null }) {
+  const { events, activeEventId, activeEvent, selectEvent, createEvent } =
+    useEvents();
+
+  // Remount on switch so every hook reloads the data of the new event
+  return (
+    <EventPlanner
+      key={activeEventId}
+      events={events}
+      activeEvent={activeEvent}
+      onSelectEvent={selectEvent}
+      onCreateEvent={createEvent}
+      userEmail={userEmail}
+    />
+  );
+}
+
+function App() {
+  const { session, isLoading } = useAuth();
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-slate-50 flex items-center justify-center">
+        <SpinnerGap
+          weight="bold"
+          className="w-8 h-8 text-indigo-500 animate-spin"
+        />
+      </div>
+    );
+  }
+
+  // Without Supabase the data only lives on this device: no sign-in
+  if (supabase && !session) return <SignInScreen />;
+
+  // Remount when another user signs in so events and roles are reloaded
+  return (
+    <EventWorkspace
+      key={session?.user.id ?? 'local'}
+      userEmail={session?.user.email ?? null}
+    />
+  );
+}
+
 export default App;
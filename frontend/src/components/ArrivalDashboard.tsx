@@ -0,0 +1,285 @@
+import { useState, useEffect, useMemo } from 'react';
+import {
+  UsersThree,
+  Hourglass,
+  TrendUp,
+  Clock,
+  DeviceMobile,
+  ChartBar,
+} from '@phosphor-icons/react';
+import { Input } from '@/components/ui/input';
+import { type Guest, getDeviceName, saveDeviceName } from '@/lib/supabase';
+import { getArrivedCount, getGuestListStats } from '@/lib/guestStats';
+import {
+  getArrivalBuckets,
+  getLatestArrivals,
+  getExpectedArrivals,
+} from '@/lib/arrivals';
+
+interface ArrivalDashboardProps {
+  guests: Guest[];
+  onGuestClick: (guest: Guest) => void;
+}
+
+const BUCKET_MINUTES = 15;
+const FEED_LIMIT = 12;
+// Relative times ("5 dk önce") are refreshed this often
+const CLOCK_INTERVAL_MS = 30 * 1000;
+
+function formatTime(date: Date): string {
+  return date.toLocaleTimeString('tr-TR', {
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+// Day added when the chart runs over more than one day
+function formatBucketStart(date: Date, withDay: boolean): string {
+  return withDay
+    ? date.toLocaleString('tr-TR', {
+        day: 'numeric',
+        month: 'short',
+        hour: '2-digit',
+        minute: '2-digit',
+      })
+    : formatTime(date);
+}
+
+function formatAgo(date: Date, now: number): string {
+  const minutes = Math.floor((now - date.getTime()) / 60000);
+  if (minutes < 1) return 'şimdi';
+  if (minutes < 60) return `${minutes} dk önce`;
+  return `${Math.floor(minutes / 60)} sa önce`;
+}
+
+export function ArrivalDashboard({
+  guests,
+  onGuestClick,
+}: ArrivalDashboardProps) {
+  const [now, setNow] = useState(() => Date.now());
+  const [deviceName, setDeviceName] = useState(getDeviceName);
+
+  useEffect(() => {
+    const timer = window.setInterval(
+      () => setNow(Date.now()),
+      CLOCK_INTERVAL_MS,
+    );
+    return () => window.clearInterval(timer);
+  }, []);
+
+  const stats = useMemo(() => getGuestListStats(guests), [guests]);
+  const expected = useMemo(() => getExpectedArrivals(guests), [guests]);
+  const buckets = useMemo(
+    () => getArrivalBuckets(guests, BUCKET_MINUTES),
+    [guests],
+  );
+  const latest = useMemo(() => getLatestArrivals(guests, FEED_LIMIT), [guests]);
+
+  const recentPeople = guests
+    .filter(
+      (g) =>
+        g.arrived_at &&
+        now - new Date(g.arrived_at).getTime() < BUCKET_MINUTES * 60 * 1000,
+    )
+    .reduce((sum, g) => sum + getArrivedCount(g), 0);
+
+  // Marked as attended before arrival times were recorded
+  const untimedCount = guests.filter(
+    (g) => getArrivedCount(g) > 0 && !g.arrived_at,
+  ).length;
+
+  const maxBucket = Math.max(1, ...buckets.map((b) => b.people));
+  const bucketMinutes = buckets[0]?.minutes ?? BUCKET_MINUTES;
+  const spansDays =
+    buckets.length > 0 &&
+    buckets[0].start.toDateString() !==
+      buckets[buckets.length - 1].start.toDateString();
+  const arrivedPercent =
+    stats.totalGuests > 0
+      ? Math.round((stats.arrivedPeople / stats.totalGuests) * 100)
+      : 0;
+
+  const cards = [
+    {
+      label: 'Gelen Kişi',
+      value: `${stats.arrivedPeople}/${stats.totalGuests}`,
+      detail: `%${arrivedPercent}`,
+      icon: UsersThree,
+      color: 'text-emerald-600',
+      bg: 'bg-emerald-50',
+    },
+    {
+      label: 'Bekleyen Davetiye',
+      value: expected.pendingInvitations,
+      detail: `${expected.pendingPeople} kişi`,
+      icon: Hourglass,
+      color: 'text-slate-600',
+      bg: 'bg-slate-100',
+    },
+    {
+      label: 'Tahmini Gelecek',
+      value: `~${expected.expectedPeople + expected.missingFromPartial}`,
+      detail: `katılım %${Math.round(expected.turnoutRate * 100)}`,
+      icon: TrendUp,
+      color: 'text-indigo-600',
+      bg: 'bg-indigo-50',
+    },
+    {
+      label: `Son ${BUCKET_MINUTES} dk`,
+      value: recentPeople,
+      detail: 'kişi geldi',
+      icon: Clock,
+      color: 'text-amber-600',
+      bg: 'bg-amber-50',
+    },
+  ];
+
+  return (
+    <div className="space-y-3 sm:space-y-4">
+      {/* Summary */}
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-2">
+        {cards.map((card) => (
+          <div
+            key={card.label}
+            className="bg-white rounded-xl p-3 border border-slate-100"
+          >
+            <div className="flex items-center gap-2">
+              <div className={`p-1.5 rounded-lg ${card.bg}`}>
+                <card.icon weight="bold" className={`w-4 h-4 ${card.color}`} />
+              </div>
+              <div className="min-w-0">
+                <p className="text-lg font-semibold text-slate-800 tabular-nums">
+                  {card.value}
+                </p>
+                <p className="text-xs text-slate-500 truncate">
+                  {card.label} · {card.detail}
+                </p>
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* Arrivals over time */}
+      <div className="bg-white rounded-xl border border-slate-100 p-4">
+        <div className="flex items-center justify-between mb-3">
+          <h2 className="text-sm font-semibold text-slate-700 flex items-center gap-1.5">
+            <ChartBar weight="bold" className="w-4 h-4 text-indigo-500" />
+            Geliş Zamanları
+          </h2>
+          <span className="text-xs text-slate-400">
+            {bucketMinutes} dakikalık aralıklar
+          </span>
+        </div>
+
+        {buckets.length === 0 ? (
+          <p className="text-sm text-slate-400 text-center py-8">
+            Henüz giriş yapılmadı
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <div className="flex items-end gap-1.5 h-40 min-w-fit">
+              {buckets.map((bucket) => (
+                <div
+                  key={bucket.start.getTime()}
+                  className={`flex flex-col items-center justify-end h-full shrink-0 ${spansDays ? 'w-16' : 'w-10'}`}
+                  title={`${formatBucketStart(bucket.start, spansDays)} · ${bucket.people} kişi (toplam ${bucket.cumulative})`}
+                >
+                  <span className="text-[10px] text-slate-500 tabular-nums mb-0.5">
+                    {bucket.people > 0 ? bucket.people : ''}
+                  </span>
+                  <div
+                    className="w-full rounded-t-md bg-emerald-400"
+                    style={{ height: `${(bucket.people / maxBucket) * 100}%` }}
+                  />
+                  <span className="text-[10px] text-slate-400 mt-1 tabular-nums">
+                    {formatBucketStart(bucket.start, spansDays)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {untimedCount > 0 && (
+          <p className="text-xs text-slate-400 mt-2">
+            {untimedCount} davetiyenin geliş saati bilinmiyor.
+          </p>
+        )}
+      </div>
+
+      {/* Latest arrivals */}
+      <div className="bg-white rounded-xl border border-slate-100 p-4">
+        <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+          <h2 className="text-sm font-semibold text-slate-700 flex items-center gap-1.5">
+            <Clock weight="bold" className="w-4 h-4 text-emerald-500" />
+            Son Gelenler
+          </h2>
+          <label className="flex items-center gap-1.5 text-xs text-slate-500">
+            <DeviceMobile weight="bold" className="w-3.5 h-3.5" />
+            Bu cihaz:
+            <Input
+              value={deviceName}
+              onChange={(e) => setDeviceName(e.target.value)}
+              onBlur={() => {
+                const name = deviceName.trim();
+                if (name) {
+                  saveDeviceName(name);
+                } else {
+                  setDeviceName(getDeviceName());
+                }
+              }}
+              className="h-7 w-32 text-xs"
+            />
+          </label>
+        </div>
+
+        {latest.length === 0 ? (
+          <p className="text-sm text-slate-400 text-center py-4">
+            Henüz giriş yapılmadı
+          </p>
+        ) : (
+          <ul className="divide-y divide-slate-50">
+            {latest.map((guest) => {
+              const arrivedAt = new Date(guest.arrived_at!);
+              const arrived = getArrivedCount(guest);
+              return (
+                <li key={guest.id}>
+                  <button
+                    onClick={() => onGuestClick(guest)}
+                    className="w-full flex items-center gap-3 py-2 text-left hover:bg-slate-50 rounded-lg px-1 transition-colors"
+                  >
+                    <div className="w-12 shrink-0 text-center">
+                      <p className="text-sm font-semibold text-slate-700 tabular-nums">
+                        {formatTime(arrivedAt)}
+                      </p>
+                      <p className="text-[10px] text-slate-400">
+                        {formatAgo(arrivedAt, now)}
+                      </p>
+                    </div>
+                    <div className="min-w-0 flex-1">
+                      <p className="text-sm font-medium text-slate-800 truncate">
+                        {guest.full_name}
+                      </p>
+                      <p className="text-xs text-slate-500">
+                        Masa {guest.desk_no} ·{' '}
+                        <span
+                          className={
+                            arrived < guest.person_count ? 'text-amber-600' : ''
+                          }
+                        >
+                          {arrived}/{guest.person_count} kişi
+                        </span>
+                        {guest.checked_in_by && ` · ${guest.checked_in_by}`}
+                      </p>
+                    </div>
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,164 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  ArrowCounterClockwise,
+  ArrowRight,
+  SpinnerGap,
+} from '@phosphor-icons/react';
+import {
+  type AuditEntry,
+  type AuditTable,
+  loadAuditLogFromDB,
+} from '@/lib/supabase';
+import {
+  AUDIT_ACTION_LABELS,
+  getAuditChanges,
+  getRestoreUpdates,
+} from '@/lib/auditLog';
+
+interface AuditLogPanelProps {
+  table: AuditTable;
+  recordId: string | number;
+  // Write back the values of a previous version (missing for read-only roles)
+  onRestore?: (updates: Record<string, unknown>) => Promise<void> | void;
+}
+
+function formatChangedAt(date: string): string {
+  return new Date(date).toLocaleString('tr-TR', {
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+// Change log of a guest, desk or fixed object
+export function AuditLogPanel({
+  table,
+  recordId,
+  onRestore,
+}: AuditLogPanelProps) {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [restoringId, setRestoringId] = useState<number | null>(null);
+
+  const reload = useCallback(
+    () => loadAuditLogFromDB(table, recordId).then(setEntries),
+    [table, recordId],
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    loadAuditLogFromDB(table, recordId).then((loaded) => {
+      if (cancelled) return;
+      setEntries(loaded);
+      setIsLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [table, recordId]);
+
+  const handleRestore = async (index: number) => {
+    if (!onRestore) return;
+    setRestoringId(entries[index].id);
+    try {
+      await onRestore(getRestoreUpdates(entries, index));
+      await reload();
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-4">
+        <SpinnerGap
+          weight="bold"
+          className="w-5 h-5 text-slate-400 animate-spin"
+        />
+      </div>
+    );
+  }
+
+  if (entries.length === 0) {
+    return (
+      <p className="text-center py-4 text-xs text-slate-400">
+        Henüz kayıtlı değişiklik yok
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-1.5">
+      <ul className="max-h-64 overflow-y-auto divide-y divide-slate-100 rounded-lg border border-slate-200 bg-slate-50">
+        {entries.map((entry, index) => {
+          const changes = getAuditChanges(entry);
+          const canRestore =
+            !!onRestore &&
+            entry.action === 'update' &&
+            Object.keys(getRestoreUpdates(entries, index)).length > 0;
+
+          return (
+            <li key={entry.id} className="flex items-start gap-2 px-3 py-2">
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-1.5 text-xs">
+                  <span className="font-medium text-slate-700">
+                    {AUDIT_ACTION_LABELS[entry.action]}
+                  </span>
+                  <span className="text-slate-400">
+                    {formatChangedAt(entry.changed_at)}
+                  </span>
+                  <span className="text-slate-400 truncate">
+                    · {entry.actor ?? 'Bilinmiyor'}
+                  </span>
+                </div>
+                {entry.action === 'update' && (
+                  <div className="mt-1 space-y-0.5">
+                    {changes.map((change) => (
+                      <p
+                        key={change.label}
+                        className="flex items-center gap-1 text-xs text-slate-500"
+                      >
+                        <span className="text-slate-600">{change.label}:</span>
+                        <span className="truncate line-through decoration-slate-300">
+                          {change.before}
+                        </span>
+                        <ArrowRight className="w-3 h-3 shrink-0 text-slate-400" />
+                        <span className="truncate text-slate-700">
+                          {change.after}
+                        </span>
+                      </p>
+                    ))}
+                  </div>
+                )}
+              </div>
+              {canRestore && (
+                <button
+                  onClick={() => handleRestore(index)}
+                  disabled={restoringId !== null}
+                  className="p-1.5 rounded-md text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 disabled:opacity-40 shrink-0"
+                  title="Bu değişiklikten önceki hâline döndür"
+                >
+                  {restoringId === entry.id ? (
+                    <SpinnerGap
+                      weight="bold"
+                      className="w-4 h-4 animate-spin"
+                    />
+                  ) : (
+                    <ArrowCounterClockwise weight="bold" className="w-4 h-4" />
+                  )}
+                </button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+      {onRestore && (
+        <p className="text-[11px] text-slate-400">
+          Yalnızca alan değişiklikleri geri alınır; oluşturma ve silme geri
+          alınmaz.
+        </p>
+      )}
+    </div>
+  );
+}
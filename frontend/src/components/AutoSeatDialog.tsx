@@ -0,0 +1,505 @@
+import { useState, useMemo } from 'react';
+import {
+  MagicWand,
+  SpinnerGap,
+  ArrowRight,
+  Trash,
+  Plus,
+  X,
+  Warning,
+  Link,
+  LinkBreak,
+} from '@phosphor-icons/react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import type { Guest } from '@/lib/supabase';
+import { turkishIncludes } from '@/lib/utils';
+import { getAllGroups, getGroupLabel } from '@/lib/guestGroups';
+import {
+  type SeatingConstraint,
+  type SeatingConstraintType,
+  type SeatingMove,
+  type SeatingOptions,
+  type SeatingResult,
+  type SolverDesk,
+  getConstraintViolations,
+  getUnassignedGuests,
+  solveSeating,
+} from '@/lib/seatingSolver';
+
+interface AutoSeatDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  guests: Guest[];
+  desks: SolverDesk[];
+  constraints: SeatingConstraint[];
+  onAddConstraint: (
+    type: SeatingConstraintType,
+    guestIds: number[],
+    groupKeys: string[],
+  ) => void;
+  onRemoveConstraint: (id: string) => void;
+  onApply: (moves: SeatingMove[]) => Promise<void>;
+}
+
+const CONSTRAINT_LABELS: Record<SeatingConstraintType, string> = {
+  together: 'Birlikte otursun',
+  apart: 'Ayrı otursun',
+};
+
+export function AutoSeatDialog({
+  open,
+  onOpenChange,
+  guests,
+  desks,
+  constraints,
+  onAddConstraint,
+  onRemoveConstraint,
+  onApply,
+}: AutoSeatDialogProps) {
+  const [options, setOptions] = useState<SeatingOptions>({
+    scope: 'unassigned',
+    keepPartiesTogether: true,
+  });
+  const [result, setResult] = useState<SeatingResult | null>(null);
+  const [isApplying, setIsApplying] = useState(false);
+
+  // New constraint form
+  const [newType, setNewType] = useState<SeatingConstraintType>('together');
+  const [newGuestIds, setNewGuestIds] = useState<number[]>([]);
+  const [newGroupKeys, setNewGroupKeys] = useState<string[]>([]);
+  const [guestSearch, setGuestSearch] = useState('');
+
+  const guestById = useMemo(
+    () => new Map(guests.map((g) => [g.id, g])),
+    [guests],
+  );
+  const groups = useMemo(() => getAllGroups(guests), [guests]);
+  const violatedIds = useMemo(
+    () =>
+      new Set(
+        getConstraintViolations(constraints, guests).map(
+          (v) => v.constraint.id,
+        ),
+      ),
+    [constraints, guests],
+  );
+  const unassignedCount = useMemo(
+    () =>
+      getUnassignedGuests(
+        guests,
+        desks.map((d) => d.deskNo),
+      ).length,
+    [guests, desks],
+  );
+  const totalCapacity = desks.reduce((sum, d) => sum + d.capacity, 0);
+  const totalPeople = guests.reduce((sum, g) => sum + g.person_count, 0);
+
+  const searchResults = guestSearch.trim()
+    ? guests
+        .filter(
+          (g) =>
+            !newGuestIds.includes(g.id) &&
+            turkishIncludes(g.full_name, guestSearch),
+        )
+        .slice(0, 6)
+    : [];
+  const groupResults = guestSearch.trim()
+    ? groups
+        .filter(
+          (group) =>
+            !newGroupKeys.includes(group.key) &&
+            turkishIncludes(group.label, guestSearch),
+        )
+        .slice(0, 4)
+    : [];
+
+  // A group on its own can be kept together, anything else needs two parties
+  const canAddConstraint =
+    newGuestIds.length + newGroupKeys.length >= 2 ||
+    (newType === 'together' && newGroupKeys.length > 0);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      setResult(null);
+      setNewGuestIds([]);
+      setNewGroupKeys([]);
+      setGuestSearch('');
+    }
+    onOpenChange(nextOpen);
+  };
+
+  const handleAddConstraint = () => {
+    if (!canAddConstraint) return;
+    onAddConstraint(newType, newGuestIds, newGroupKeys);
+    setNewGuestIds([]);
+    setNewGroupKeys([]);
+    setGuestSearch('');
+  };
+
+  const handleSolve = () => {
+    setResult(solveSeating(guests, desks, constraints, options));
+  };
+
+  const handleApply = async () => {
+    if (!result || result.moves.length === 0) return;
+    setIsApplying(true);
+    try {
+      await onApply(result.moves);
+      handleOpenChange(false);
+    } catch (error) {
+      console.error('Failed to apply seating:', error);
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  // Moves grouped by target desk for the diff view
+  const movesByDesk = useMemo(() => {
+    const groups = new Map<number, SeatingMove[]>();
+    result?.moves.forEach((move) => {
+      groups.set(move.toDeskNo, [...(groups.get(move.toDeskNo) || []), move]);
+    });
+    return Array.from(groups.entries()).sort((a, b) => a[0] - b[0]);
+  }, [result]);
+
+  const capacityOf = new Map(desks.map((d) => [d.deskNo, d.capacity]));
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-xl bg-white border-slate-200">
+        <DialogHeader>
+          <DialogTitle className="text-lg font-semibold text-slate-800 flex items-center gap-2">
+            <MagicWand weight="bold" className="w-5 h-5 text-indigo-600" />
+            Otomatik Yerleşim
+          </DialogTitle>
+          <DialogDescription className="text-slate-500 text-sm">
+            {totalPeople} kişi · {desks.length} masa · {totalCapacity} kapasite
+          </DialogDescription>
+        </DialogHeader>
+
+        {!result ? (
+          <div className="space-y-4 py-2 max-h-[60vh] overflow-y-auto">
+            {/* Scope */}
+            <div className="space-y-1.5">
+              <p className="text-sm font-medium text-slate-700">Kimler?</p>
+              <label className="flex items-center gap-2 text-sm text-slate-700">
+                <input
+                  type="radio"
+                  checked={options.scope === 'unassigned'}
+                  onChange={() =>
+                    setOptions({ ...options, scope: 'unassigned' })
+                  }
+                />
+                Masası olmayan misafirler ({unassignedCount})
+              </label>
+              <label className="flex items-center gap-2 text-sm text-slate-700">
+                <input
+                  type="radio"
+                  checked={options.scope === 'all'}
+                  onChange={() => setOptions({ ...options, scope: 'all' })}
+                />
+                Tüm misafirler (mevcut masalar korunmaya çalışılır)
+              </label>
+              <label className="flex items-center gap-2 text-sm text-slate-700 pt-1">
+                <input
+                  type="checkbox"
+                  checked={options.keepPartiesTogether}
+                  onChange={(e) =>
+                    setOptions({
+                      ...options,
+                      keepPartiesTogether: e.target.checked,
+                    })
+                  }
+                  className="rounded border-slate-300"
+                />
+                Aileleri ve bölünmüş davetiyeleri aynı masada tut
+              </label>
+            </div>
+
+            {/* Constraints */}
+            <div className="space-y-2">
+              <p className="text-sm font-medium text-slate-700">Kurallar</p>
+              {constraints.length === 0 && (
+                <p className="text-xs text-slate-500">Henüz kural yok.</p>
+              )}
+              {constraints.map((constraint) => (
+                <div
+                  key={constraint.id}
+                  className="flex items-start gap-2 p-2 rounded-lg bg-slate-50"
+                >
+                  {constraint.type === 'together' ? (
+                    <Link
+                      weight="bold"
+                      className="w-4 h-4 text-emerald-600 mt-0.5 shrink-0"
+                    />
+                  ) : (
+                    <LinkBreak
+                      weight="bold"
+                      className="w-4 h-4 text-rose-600 mt-0.5 shrink-0"
+                    />
+                  )}
+                  <div className="flex-1 min-w-0 text-xs">
+                    <p className="font-medium text-slate-700">
+                      {CONSTRAINT_LABELS[constraint.type]}
+                      {violatedIds.has(constraint.id) && (
+                        <span className="ml-1.5 text-amber-600">
+                          · Şu an uyulmuyor
+                        </span>
+                      )}
+                    </p>
+                    <p className="text-slate-500">
+                      {[
+                        ...(constraint.groupKeys ?? []).map(getGroupLabel),
+                        ...constraint.guestIds
+                          .map((id) => guestById.get(id)?.full_name)
+                          .filter(Boolean),
+                      ].join(', ')}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => onRemoveConstraint(constraint.id)}
+                    className="p-1 rounded text-slate-400 hover:text-rose-600 hover:bg-rose-50"
+                    title="Kuralı sil"
+                  >
+                    <Trash weight="bold" className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              ))}
+
+              {/* New constraint */}
+              <div className="p-2 rounded-lg border border-dashed border-slate-200 space-y-2">
+                <div className="flex gap-2">
+                  <select
+                    value={newType}
+                    onChange={(e) =>
+                      setNewType(e.target.value as SeatingConstraintType)
+                    }
+                    className="px-2 py-1.5 bg-slate-50 border border-slate-200 rounded-md text-xs focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                  >
+                    <option value="together">
+                      {CONSTRAINT_LABELS.together}
+                    </option>
+                    <option value="apart">{CONSTRAINT_LABELS.apart}</option>
+                  </select>
+                  <Input
+                    placeholder="Misafir veya grup ara..."
+                    value={guestSearch}
+                    onChange={(e) => setGuestSearch(e.target.value)}
+                    className="h-8 text-xs bg-slate-50 border-slate-200"
+                  />
+                </div>
+                {(groupResults.length > 0 || searchResults.length > 0) && (
+                  <div className="flex flex-wrap gap-1">
+                    {groupResults.map((group) => (
+                      <button
+                        key={group.key}
+                        onClick={() => {
+                          setNewGroupKeys([...newGroupKeys, group.key]);
+                          setGuestSearch('');
+                        }}
+                        className="inline-flex items-center gap-1 px-2 py-0.5 rounded-md text-xs text-slate-600 bg-slate-100 hover:bg-indigo-50 hover:text-indigo-700"
+                      >
+                        <span
+                          className="w-2 h-2 rounded-full"
+                          style={{ backgroundColor: group.color }}
+                        />
+                        {group.label} ({group.count})
+                      </button>
+                    ))}
+                    {searchResults.map((g) => (
+                      <button
+                        key={g.id}
+                        onClick={() => {
+                          setNewGuestIds([...newGuestIds, g.id]);
+                          setGuestSearch('');
+                        }}
+                        className="px-2 py-0.5 rounded-md text-xs text-slate-600 bg-slate-100 hover:bg-indigo-50 hover:text-indigo-700"
+                      >
+                        {g.full_name}
+                      </button>
+                    ))}
+                  </div>
+                )}
+                {newGuestIds.length + newGroupKeys.length > 0 && (
+                  <div className="flex flex-wrap items-center gap-1">
+                    {newGroupKeys.map((key) => (
+                      <span
+                        key={key}
+                        className="inline-flex items-center gap-1 px-2 py-0.5 rounded-md text-xs text-violet-700 bg-violet-50"
+                      >
+                        {getGroupLabel(key)}
+                        <button
+                          onClick={() =>
+                            setNewGroupKeys(
+                              newGroupKeys.filter((k) => k !== key),
+                            )
+                          }
+                        >
+                          <X weight="bold" className="w-3 h-3" />
+                        </button>
+                      </span>
+                    ))}
+                    {newGuestIds.map((id) => (
+                      <span
+                        key={id}
+                        className="inline-flex items-center gap-1 px-2 py-0.5 rounded-md text-xs text-indigo-700 bg-indigo-50"
+                      >
+                        {guestById.get(id)?.full_name}
+                        <button
+                          onClick={() =>
+                            setNewGuestIds(newGuestIds.filter((n) => n !== id))
+                          }
+                        >
+                          <X weight="bold" className="w-3 h-3" />
+                        </button>
+                      </span>
+                    ))}
+                    <button
+                      onClick={handleAddConstraint}
+                      disabled={!canAddConstraint}
+                      className="ml-auto inline-flex items-center gap-1 px-2 py-0.5 rounded-md text-xs font-medium text-white bg-indigo-500 hover:bg-indigo-600 disabled:opacity-50"
+                    >
+                      <Plus weight="bold" className="w-3 h-3" />
+                      Kural Ekle
+                    </button>
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-3 py-2 max-h-[60vh] overflow-y-auto">
+            {result.warnings.map((warning, index) => (
+              <p
+                key={index}
+                className="text-xs text-amber-700 bg-amber-50 rounded-md px-2 py-1.5 flex items-start gap-1.5"
+              >
+                <Warning
+                  weight="bold"
+                  className="w-3.5 h-3.5 mt-0.5 shrink-0"
+                />
+                {warning}
+              </p>
+            ))}
+            {result.unplaced.length > 0 && (
+              <p className="text-xs text-rose-700 bg-rose-50 rounded-md px-2 py-1.5">
+                Yer bulunamadı:{' '}
+                {result.unplaced.map((g) => g.full_name).join(', ')}
+              </p>
+            )}
+
+            {movesByDesk.length === 0 ? (
+              <p className="text-sm text-slate-500 text-center py-6">
+                Değişiklik önerilmedi.
+              </p>
+            ) : (
+              movesByDesk.map(([deskNo, moves]) => (
+                <div
+                  key={deskNo}
+                  className="border border-slate-100 rounded-lg overflow-hidden"
+                >
+                  <div className="flex items-center justify-between px-3 py-1.5 bg-slate-50 text-xs">
+                    <span className="font-semibold text-slate-700">
+                      Masa {deskNo}
+                    </span>
+                    <span className="text-slate-500 tabular-nums">
+                      {result.load.get(deskNo) ?? 0}/{capacityOf.get(deskNo)}{' '}
+                      kişi
+                    </span>
+                  </div>
+                  <ul className="divide-y divide-slate-100">
+                    {moves.map((move) => (
+                      <li
+                        key={move.guest.id}
+                        className="flex items-center gap-2 px-3 py-1.5 text-xs"
+                      >
+                        <span className="flex-1 min-w-0 truncate text-slate-700">
+                          {move.guest.full_name}
+                          {move.guest.person_count > 1 && (
+                            <span className="text-slate-400">
+                              {' '}
+                              ({move.guest.person_count})
+                            </span>
+                          )}
+                        </span>
+                        <span className="text-slate-400">
+                          {move.fromDeskNo !== null
+                            ? `Masa ${move.fromDeskNo}`
+                            : 'Masasız'}
+                        </span>
+                        <ArrowRight
+                          weight="bold"
+                          className="w-3 h-3 text-indigo-500"
+                        />
+                        <span className="font-medium text-indigo-700">
+                          Masa {move.toDeskNo}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          {result ? (
+            <>
+              <Button
+                type="button"
+                variant="ghost"
+                onClick={() => setResult(null)}
+                disabled={isApplying}
+                className="text-slate-600"
+              >
+                Geri
+              </Button>
+              <Button
+                type="button"
+                onClick={handleApply}
+                disabled={isApplying || result.moves.length === 0}
+                className="bg-indigo-600 hover:bg-indigo-700 text-white"
+              >
+                {isApplying ? (
+                  <SpinnerGap weight="bold" className="w-4 h-4 animate-spin" />
+                ) : (
+                  `${result.moves.length} Değişikliği Uygula`
+                )}
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button
+                type="button"
+                variant="ghost"
+                onClick={() => handleOpenChange(false)}
+                className="text-slate-600"
+              >
+                İptal
+              </Button>
+              <Button
+                type="button"
+                onClick={handleSolve}
+                disabled={desks.length === 0}
+                className="bg-indigo-600 hover:bg-indigo-700 text-white"
+              >
+                <MagicWand weight="bold" className="w-4 h-4 mr-1.5" />
+                Öneri Oluştur
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
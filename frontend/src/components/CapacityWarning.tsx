@@ -0,0 +1,37 @@
+import { Warning, Prohibit } from '@phosphor-icons/react';
+import type { CapacityMode } from '@/lib/guestStats';
+
+interface CapacityWarningProps {
+  deskNo: number;
+  // Persons at the desk after the change
+  loadAfter: number;
+  capacity: number;
+  mode: CapacityMode;
+}
+
+// Shown under desk selects when an assignment overflows the desk
+export function CapacityWarning({
+  deskNo,
+  loadAfter,
+  capacity,
+  mode,
+}: CapacityWarningProps) {
+  if (loadAfter <= capacity) return null;
+
+  const isBlocked = mode === 'block';
+  const Icon = isBlocked ? Prohibit : Warning;
+
+  return (
+    <p
+      className={`flex items-start gap-1.5 text-xs rounded-md px-2 py-1.5 ${
+        isBlocked ? 'text-rose-700 bg-rose-50' : 'text-amber-700 bg-amber-50'
+      }`}
+    >
+      <Icon weight="bold" className="w-3.5 h-3.5 mt-0.5 shrink-0" />
+      <span>
+        Masa {deskNo} kapasitesi aşılıyor ({loadAfter}/{capacity} kişi).
+        {isBlocked && ' Başka bir masa seçin veya kapasiteyi arttırın.'}
+      </span>
+    </p>
+  );
+}
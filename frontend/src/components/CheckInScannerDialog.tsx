@@ -0,0 +1,304 @@
+import { useState, useEffect, useRef } from 'react';
+import jsQR from 'jsqr';
+import {
+  QrCode,
+  SpinnerGap,
+  CameraSlash,
+  CheckCircle,
+  WarningCircle,
+  ArrowCounterClockwise,
+} from '@phosphor-icons/react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { MiniTablePreview } from '@/components/floorplan/MiniTablePreview';
+import { type Guest, supabase } from '@/lib/supabase';
+import { parseGuestQrPayload } from '@/lib/guestQr';
+import { getArrivedCount, getGuestListStats } from '@/lib/guestStats';
+
+interface CheckInScannerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  guests: Guest[];
+  onToggleAttendance: (guest: Guest) => void;
+}
+
+type CameraState = 'starting' | 'ready' | 'denied';
+
+interface ScanResult {
+  // Whether the code is a guest QR code at all
+  isGuestCode: boolean;
+  // null when no guest has the scanned code
+  guestId: number | null;
+  // Whether the whole party had already checked in before this scan
+  wasAttended: boolean;
+}
+
+const SCAN_INTERVAL_MS = 250;
+// The same code held in front of the camera is only handled once
+const RESCAN_COOLDOWN_MS = 3000;
+// Frames are scaled down before decoding to keep phones responsive
+const MAX_SCAN_WIDTH = 640;
+
+export function CheckInScannerDialog({
+  open,
+  onOpenChange,
+  guests,
+  onToggleAttendance,
+}: CheckInScannerDialogProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [cameraState, setCameraState] = useState<CameraState>('starting');
+  const isCameraSupported = !!navigator.mediaDevices?.getUserMedia;
+  const [scan, setScan] = useState<ScanResult | null>(null);
+  const handleCodeRef = useRef<(text: string) => void>(() => {});
+
+  // Mark the scanned guest as attended (through the normal toggle)
+  useEffect(() => {
+    handleCodeRef.current = (text: string) => {
+      const token = parseGuestQrPayload(text);
+      const guest = token
+        ? guests.find((g) => g.qr_token === token)
+        : undefined;
+      const wasAttended =
+        !!guest && getArrivedCount(guest) >= guest.person_count;
+
+      if (guest && !wasAttended) {
+        onToggleAttendance(guest);
+      }
+      setScan({
+        isGuestCode: token !== null,
+        guestId: guest ? guest.id : null,
+        wasAttended,
+      });
+    };
+  }, [guests, onToggleAttendance]);
+
+  // Start the camera while the dialog is open and decode frames
+  useEffect(() => {
+    if (!open || !isCameraSupported) return;
+
+    let stream: MediaStream | null = null;
+    let timer: number | undefined;
+    let cancelled = false;
+    let lastScan: { text: string; at: number } | null = null;
+    const canvas = document.createElement('canvas');
+    const context = canvas.getContext('2d', { willReadFrequently: true });
+
+    const scanFrame = () => {
+      const video = videoRef.current;
+      if (!video || !context || video.readyState < video.HAVE_ENOUGH_DATA) {
+        return;
+      }
+
+      const scale = Math.min(1, MAX_SCAN_WIDTH / video.videoWidth);
+      canvas.width = Math.round(video.videoWidth * scale);
+      canvas.height = Math.round(video.videoHeight * scale);
+      context.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+      const image = context.getImageData(0, 0, canvas.width, canvas.height);
+      const code = jsQR(image.data, image.width, image.height, {
+        inversionAttempts: 'dontInvert',
+      });
+      if (!code || !code.data) return;
+
+      const now = Date.now();
+      if (
+        lastScan &&
+        lastScan.text === code.data &&
+        now - lastScan.at < RESCAN_COOLDOWN_MS
+      ) {
+        return;
+      }
+      lastScan = { text: code.data, at: now };
+      handleCodeRef.current(code.data);
+    };
+
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: 'environment' }, audio: false })
+      .then((mediaStream) => {
+        if (cancelled) {
+          mediaStream.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        stream = mediaStream;
+
+        const video = videoRef.current;
+        if (video) {
+          video.srcObject = mediaStream;
+          video.play().catch(() => {});
+        }
+        setCameraState('ready');
+        timer = window.setInterval(scanFrame, SCAN_INTERVAL_MS);
+      })
+      .catch((e) => {
+        console.error('Failed to start camera:', e);
+        if (!cancelled) setCameraState('denied');
+      });
+
+    return () => {
+      cancelled = true;
+      window.clearInterval(timer);
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, [open, isCameraSupported]);
+
+  const scannedGuest =
+    scan?.guestId != null
+      ? (guests.find((g) => g.id === scan.guestId) ?? null)
+      : null;
+
+  const deskGuests = scannedGuest
+    ? guests
+        .filter((g) => g.desk_no === scannedGuest.desk_no)
+        .sort((a, b) => (a.display_order ?? 999) - (b.display_order ?? 999))
+    : [];
+
+  const { arrivedPeople, totalGuests } = getGuestListStats(guests);
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(nextOpen) => {
+        if (!nextOpen) {
+          setScan(null);
+          setCameraState('starting');
+        }
+        onOpenChange(nextOpen);
+      }}
+    >
+      <DialogContent className="sm:max-w-md bg-white border-slate-200 max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-lg font-semibold text-slate-800 flex items-center gap-2">
+            <QrCode weight="bold" className="w-5 h-5 text-indigo-600" />
+            Kapı Girişi
+          </DialogTitle>
+          <DialogDescription className="text-slate-500 text-sm">
+            Davetiyedeki QR kodu okutun · {arrivedPeople}/{totalGuests} kişi
+            geldi
+          </DialogDescription>
+        </DialogHeader>
+
+        {!supabase && (
+          <p className="text-sm text-amber-700 flex items-center gap-1.5">
+            <WarningCircle weight="bold" className="w-4 h-4 shrink-0" />
+            QR kodlar yalnızca Supabase bağlantısıyla oluşturulur.
+          </p>
+        )}
+
+        {/* Camera */}
+        <div className="relative aspect-square w-full rounded-xl overflow-hidden bg-slate-900">
+          <video
+            ref={videoRef}
+            muted
+            playsInline
+            className="w-full h-full object-cover"
+          />
+          {isCameraSupported && cameraState === 'ready' && (
+            <div className="absolute inset-[15%] border-2 border-white/70 rounded-2xl pointer-events-none" />
+          )}
+          {isCameraSupported && cameraState === 'starting' && (
+            <div className="absolute inset-0 flex items-center justify-center">
+              <SpinnerGap
+                weight="bold"
+                className="w-8 h-8 text-white/70 animate-spin"
+              />
+            </div>
+          )}
+          {(!isCameraSupported || cameraState === 'denied') && (
+            <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 p-6 text-center">
+              <CameraSlash
+                weight="duotone"
+                className="w-10 h-10 text-white/70"
+              />
+              <p className="text-sm text-white/80">
+                {isCameraSupported
+                  ? 'Kameraya erişilemedi. Tarayıcı izinlerini kontrol edin.'
+                  : 'Bu tarayıcı kamera erişimini desteklemiyor.'}
+              </p>
+            </div>
+          )}
+        </div>
+
+        {/* Scan Result */}
+        {scan &&
+          (scannedGuest ? (
+            <div className="space-y-3">
+              <div
+                className={`flex items-start gap-3 p-3 rounded-xl border ${
+                  scan.wasAttended
+                    ? 'bg-amber-50 border-amber-200'
+                    : 'bg-emerald-50 border-emerald-200'
+                }`}
+              >
+                {scan.wasAttended ? (
+                  <WarningCircle
+                    weight="fill"
+                    className="w-6 h-6 text-amber-500 shrink-0"
+                  />
+                ) : (
+                  <CheckCircle
+                    weight="fill"
+                    className="w-6 h-6 text-emerald-500 shrink-0"
+                  />
+                )}
+                <div className="min-w-0 flex-1">
+                  <p className="font-semibold text-slate-800 truncate">
+                    {scannedGuest.full_name}
+                  </p>
+                  <p className="text-sm text-slate-600">
+                    {scannedGuest.person_count} kişi · Masa{' '}
+                    {scannedGuest.desk_no}
+                  </p>
+                  <p
+                    className={`text-xs mt-0.5 ${
+                      scan.wasAttended ? 'text-amber-700' : 'text-emerald-700'
+                    }`}
+                  >
+                    {scan.wasAttended
+                      ? 'Daha önce giriş yapılmış'
+                      : 'Giriş yapıldı'}
+                  </p>
+                </div>
+                {!scan.wasAttended &&
+                  getArrivedCount(scannedGuest) >=
+                    scannedGuest.person_count && (
+                    <button
+                      onClick={() => {
+                        onToggleAttendance(scannedGuest);
+                        setScan(null);
+                      }}
+                      className="p-1.5 rounded-md text-slate-500 hover:text-slate-700 hover:bg-white/70 transition-colors"
+                      title="Girişi geri al"
+                    >
+                      <ArrowCounterClockwise
+                        weight="bold"
+                        className="w-4 h-4"
+                      />
+                    </button>
+                  )}
+              </div>
+
+              <div className="p-4 bg-slate-50 rounded-xl border border-slate-200">
+                <MiniTablePreview
+                  deskNo={scannedGuest.desk_no}
+                  guests={deskGuests}
+                  highlightGuestId={scannedGuest.id}
+                />
+              </div>
+            </div>
+          ) : (
+            <p className="text-sm text-rose-600 flex items-center gap-1.5">
+              <WarningCircle weight="bold" className="w-4 h-4" />
+              {!scan.isGuestCode
+                ? 'Bu QR kod bir misafire ait değil.'
+                : 'Misafir bulunamadı.'}
+            </p>
+          ))}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,62 @@
+import { Warning } from '@phosphor-icons/react';
+import type { Guest } from '@/lib/supabase';
+import type { ConstraintViolation } from '@/lib/seatingSolver';
+import { getGroupLabel } from '@/lib/guestGroups';
+
+interface ConstraintViolationBannerProps {
+  violations: ConstraintViolation[];
+  guests: Guest[];
+  // Open the auto-seat dialog (missing for read-only roles)
+  onOpenRules?: () => void;
+}
+
+// Seating rules the current plan breaks
+export function ConstraintViolationBanner({
+  violations,
+  guests,
+  onOpenRules,
+}: ConstraintViolationBannerProps) {
+  if (violations.length === 0) return null;
+
+  const nameOf = (id: number) => guests.find((g) => g.id === id)?.full_name;
+
+  return (
+    <div className="bg-amber-50 border border-amber-200 rounded-lg p-3">
+      <div className="flex items-start gap-2">
+        <Warning
+          weight="bold"
+          className="w-4 h-4 text-amber-600 mt-0.5 shrink-0"
+        />
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-medium text-amber-800">
+            {violations.length} yerleşim kuralına uyulmuyor
+          </p>
+          <ul className="mt-1 space-y-0.5 text-xs text-amber-700">
+            {violations.map(({ constraint, deskNos }) => {
+              const names = [
+                ...(constraint.groupKeys ?? []).map(getGroupLabel),
+                ...constraint.guestIds.map(nameOf).filter(Boolean),
+              ].join(', ');
+              const desks = deskNos.map((no) => `Masa ${no}`).join(', ');
+              return (
+                <li key={constraint.id}>
+                  {constraint.type === 'together'
+                    ? `${names} birlikte oturmalı, şu an ${desks}`
+                    : `${names} ayrı oturmalı, ${desks} aynı masada`}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+        {onOpenRules && (
+          <button
+            onClick={onOpenRules}
+            className="px-2.5 py-1.5 rounded-md text-xs font-medium text-amber-800 hover:bg-amber-100 transition-colors shrink-0"
+          >
+            Kurallar
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
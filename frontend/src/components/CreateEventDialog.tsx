@@ -0,0 +1,244 @@
+import { useState } from 'react';
+import { CalendarPlus, Plus, SpinnerGap } from '@phosphor-icons/react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import type { AppEvent, EventType, EventCloneOptions } from '@/lib/supabase';
+
+interface CreateEventDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  events: AppEvent[];
+  // Event whose data is suggested for copying
+  activeEventId: number;
+  onCreateEvent: (
+    event: Omit<AppEvent, 'id'>,
+    clone: EventCloneOptions | null,
+  ) => Promise<AppEvent | null>;
+}
+
+const EVENT_TYPES: { value: EventType; label: string }[] = [
+  { value: 'engagement', label: 'Nişan' },
+  { value: 'wedding', label: 'Düğün' },
+  { value: 'henna', label: 'Kına Gecesi' },
+  { value: 'other', label: 'Diğer' },
+];
+
+export function CreateEventDialog({
+  open,
+  onOpenChange,
+  events,
+  activeEventId,
+  onCreateEvent,
+}: CreateEventDialogProps) {
+  const [name, setName] = useState('');
+  const [type, setType] = useState<EventType>('wedding');
+  const [eventDate, setEventDate] = useState('');
+  const [sourceEventId, setSourceEventId] = useState(activeEventId);
+  const [copyGuests, setCopyGuests] = useState(true);
+  const [copyFloorPlan, setCopyFloorPlan] = useState(true);
+  const [isCreating, setIsCreating] = useState(false);
+  const [error, setError] = useState('');
+
+  const resetForm = () => {
+    setName('');
+    setType('wedding');
+    setEventDate('');
+    setSourceEventId(activeEventId);
+    setCopyGuests(true);
+    setCopyFloorPlan(true);
+    setError('');
+  };
+
+  const handleCreate = async () => {
+    const trimmedName =
+      name.trim() || EVENT_TYPES.find((t) => t.value === type)!.label;
+    if (events.some((e) => e.name === trimmedName)) {
+      setError(`"${trimmedName}" adında bir etkinlik zaten var.`);
+      return;
+    }
+
+    setIsCreating(true);
+    setError('');
+    const created = await onCreateEvent(
+      { name: trimmedName, type, event_date: eventDate || null },
+      copyGuests || copyFloorPlan
+        ? { sourceEventId, guests: copyGuests, floorPlan: copyFloorPlan }
+        : null,
+    );
+    setIsCreating(false);
+
+    if (created) {
+      resetForm();
+      onOpenChange(false);
+    } else {
+      setError('Etkinlik oluşturulamadı. Bağlantınızı kontrol edin.');
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(nextOpen) => {
+        if (!nextOpen) resetForm();
+        onOpenChange(nextOpen);
+      }}
+    >
+      <DialogContent className="sm:max-w-sm bg-white border-slate-200">
+        <DialogHeader>
+          <DialogTitle className="text-lg font-semibold text-slate-800 flex items-center gap-2">
+            <CalendarPlus weight="bold" className="w-5 h-5 text-indigo-600" />
+            Yeni Etkinlik
+          </DialogTitle>
+          <DialogDescription className="text-slate-500 text-sm">
+            Her etkinliğin kendi misafir listesi ve salon planı olur.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-3">
+          {/* Type */}
+          <div>
+            <label className="text-sm font-medium text-slate-700 mb-2 block">
+              Tür
+            </label>
+            <div className="grid grid-cols-2 gap-2">
+              {EVENT_TYPES.map((option) => (
+                <button
+                  key={option.value}
+                  type="button"
+                  onClick={() => setType(option.value)}
+                  className={`px-3 py-2 text-sm rounded-lg border transition-colors ${
+                    type === option.value
+                      ? 'bg-indigo-50 border-indigo-300 text-indigo-700 font-medium'
+                      : 'bg-slate-50 border-slate-200 text-slate-600 hover:bg-slate-100'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Name */}
+          <div>
+            <label
+              htmlFor="eventName"
+              className="text-sm font-medium text-slate-700 mb-2 block"
+            >
+              Ad
+            </label>
+            <Input
+              id="eventName"
+              value={name}
+              placeholder={EVENT_TYPES.find((t) => t.value === type)!.label}
+              onChange={(e) => {
+                setName(e.target.value);
+                setError('');
+              }}
+              className="bg-slate-50 border-slate-200"
+              autoFocus
+            />
+          </div>
+
+          {/* Date */}
+          <div>
+            <label
+              htmlFor="eventDate"
+              className="text-sm font-medium text-slate-700 mb-2 block"
+            >
+              Tarih
+            </label>
+            <Input
+              id="eventDate"
+              type="date"
+              value={eventDate}
+              onChange={(e) => setEventDate(e.target.value)}
+              className="bg-slate-50 border-slate-200"
+            />
+          </div>
+
+          {/* Copy from a previous event */}
+          <div className="p-3 bg-slate-50 rounded-xl border border-slate-200 space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <label
+                htmlFor="eventSource"
+                className="text-sm font-medium text-slate-700"
+              >
+                Kopyala
+              </label>
+              <select
+                id="eventSource"
+                value={sourceEventId}
+                onChange={(e) => setSourceEventId(Number(e.target.value))}
+                className="h-8 px-2 text-sm bg-white border border-slate-200 rounded-md"
+              >
+                {events.map((event) => (
+                  <option key={event.id} value={event.id}>
+                    {event.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <label className="flex items-center gap-2 text-sm text-slate-600">
+              <input
+                type="checkbox"
+                checked={copyGuests}
+                onChange={(e) => setCopyGuests(e.target.checked)}
+                className="rounded border-slate-300"
+              />
+              Misafir listesi
+            </label>
+            <label className="flex items-center gap-2 text-sm text-slate-600">
+              <input
+                type="checkbox"
+                checked={copyFloorPlan}
+                onChange={(e) => setCopyFloorPlan(e.target.checked)}
+                className="rounded border-slate-300"
+              />
+              Salon planı (masalar, sabit nesneler ve mekan planı)
+            </label>
+            <p className="text-xs text-slate-400">
+              Katılım bilgileri kopyalanmaz.
+            </p>
+          </div>
+
+          {error && <p className="text-xs text-rose-500">{error}</p>}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button
+            type="button"
+            variant="ghost"
+            onClick={() => onOpenChange(false)}
+            disabled={isCreating}
+            className="text-slate-600"
+          >
+            İptal
+          </Button>
+          <Button
+            type="button"
+            onClick={handleCreate}
+            disabled={isCreating}
+            className="bg-indigo-600 hover:bg-indigo-700 text-white"
+          >
+            {isCreating ? (
+              <SpinnerGap weight="bold" className="w-4 h-4 animate-spin" />
+            ) : (
+              <>
+                <Plus weight="bold" className="w-4 h-4 mr-1.5" />
+                Oluştur
+              </>
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -10,22 +10,31 @@ import {
 } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { FIXED_OBJECT_ICONS } from '@/components/floorplan/fixedObjectIcons';
+import type { FixedObjectType } from '@/lib/supabase';
+import {
+  FIXED_OBJECT_TYPES,
+  type FixedObjectTypeInfo,
+} from '@/lib/fixedObjectTypes';
 
 interface CreateFixedObjectDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  onCreate: (type: 'rectangle' | 'triangle', name: string) => void;
+  onCreate: (type: FixedObjectType, name: string) => void;
 }
 
+const TYPE_GROUPS: { group: FixedObjectTypeInfo['group']; label: string }[] = [
+  { group: 'venue', label: 'Mekan' },
+  { group: 'shape', label: 'Şekil' },
+];
+
 export function CreateFixedObjectDialog({
   open,
   onOpenChange,
   onCreate,
 }: CreateFixedObjectDialogProps) {
-  const [objectType, setObjectType] = useState<'rectangle' | 'triangle'>(
-    'rectangle',
-  );
-  const [name, setName] = useState('');
+  const [objectType, setObjectType] = useState<FixedObjectType>('stage');
+  const [name, setName] = useState(FIXED_OBJECT_TYPES.stage.label);
   const [isCreating, setIsCreating] = useState(false);
 
   const handleCreate = async () => {
@@ -33,14 +42,22 @@ export function CreateFixedObjectDialog({
     setIsCreating(true);
     try {
       onCreate(objectType, name.trim());
-      setName('');
-      setObjectType('rectangle');
+      setName(FIXED_OBJECT_TYPES.stage.label);
+      setObjectType('stage');
       onOpenChange(false);
     } finally {
       setIsCreating(false);
     }
   };
 
+  // The name follows the type until it is typed in
+  const handleSelectType = (type: FixedObjectType) => {
+    if (!name.trim() || name === FIXED_OBJECT_TYPES[objectType].label) {
+      setName(FIXED_OBJECT_TYPES[type].label);
+    }
+    setObjectType(type);
+  };
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="sm:max-w-md bg-white border-slate-200">
@@ -49,8 +66,8 @@ export function CreateFixedObjectDialog({
             Sabit Nesne Ekle
           </DialogTitle>
           <DialogDescription className="text-slate-500 text-sm">
-            Haritaya sabit dikdörtgen veya üçgen ekleyin (örn: sahne, müzik
-            köşesi).
+            Haritaya sahne, dans pisti, bar gibi mekan öğeleri veya serbest
+            şekiller ekleyin.
           </DialogDescription>
         </DialogHeader>
 
@@ -60,42 +77,49 @@ export function CreateFixedObjectDialog({
             <label className="text-sm font-medium text-slate-700 mb-2 block">
               Nesne Tipi
             </label>
-            <div className="grid grid-cols-2 gap-2">
-              <button
-                type="button"
-                onClick={() => setObjectType('rectangle')}
-                className={`p-4 rounded-lg border-2 transition-all flex flex-col items-center gap-2 ${
-                  objectType === 'rectangle'
-                    ? 'border-blue-500 bg-blue-50'
-                    : 'border-slate-200 hover:border-slate-300'
-                }`}
-              >
-                <div className="w-12 h-8 bg-blue-200 border-2 border-blue-400 rounded-md" />
-                <span className="text-sm font-medium text-slate-700">
-                  Dikdörtgen
-                </span>
-              </button>
-              <button
-                type="button"
-                onClick={() => setObjectType('triangle')}
-                className={`p-4 rounded-lg border-2 transition-all flex flex-col items-center gap-2 ${
-                  objectType === 'triangle'
-                    ? 'border-green-500 bg-green-50'
-                    : 'border-slate-200 hover:border-slate-300'
-                }`}
-              >
-                <svg viewBox="0 0 48 40" className="w-12 h-8">
-                  <polygon
-                    points="24,4 44,36 4,36"
-                    fill="#bbf7d0"
-                    stroke="#86efac"
-                    strokeWidth="2"
-                  />
-                </svg>
-                <span className="text-sm font-medium text-slate-700">
-                  Üçgen
-                </span>
-              </button>
+            <div className="space-y-3">
+              {TYPE_GROUPS.map(({ group, label }) => (
+                <div key={group}>
+                  <p className="text-xs text-slate-500 mb-1.5">{label}</p>
+                  <div className="grid grid-cols-4 gap-2">
+                    {(Object.keys(FIXED_OBJECT_TYPES) as FixedObjectType[])
+                      .filter(
+                        (type) => FIXED_OBJECT_TYPES[type].group === group,
+                      )
+                      .map((type) => {
+                        const info = FIXED_OBJECT_TYPES[type];
+                        const TypeIcon = FIXED_OBJECT_ICONS[type];
+                        const isActive = objectType === type;
+                        return (
+                          <button
+                            key={type}
+                            type="button"
+                            onClick={() => handleSelectType(type)}
+                            className={`p-2 rounded-lg border-2 transition-all flex flex-col items-center gap-1 ${
+                              isActive
+                                ? 'border-indigo-500 bg-indigo-50'
+                                : 'border-slate-200 hover:border-slate-300'
+                            }`}
+                          >
+                            <span
+                              className="w-9 h-9 rounded-md border-2 flex items-center justify-center"
+                              style={{
+                                backgroundColor: info.fill,
+                                borderColor: info.stroke,
+                                color: info.text,
+                              }}
+                            >
+                              <TypeIcon weight="bold" className="w-5 h-5" />
+                            </span>
+                            <span className="text-xs font-medium text-slate-700 text-center leading-tight">
+                              {info.label}
+                            </span>
+                          </button>
+                        );
+                      })}
+                  </div>
+                </div>
+              ))}
             </div>
           </div>
 
@@ -122,6 +146,12 @@ export function CreateFixedObjectDialog({
             <p>• Sürükleyip bırakarak konumlandırabilirsiniz</p>
             <p>• Köşelerden boyutlandırabilirsiniz</p>
             <p>• 90° döndürme butonu ile döndürebilirsiniz</p>
+            {objectType === 'polygon' && (
+              <p>
+                • Köşeleri sürükleyerek şekli değiştirebilir, aradaki noktalarla
+                köşe ekleyebilirsiniz
+              </p>
+            )}
           </div>
         </div>
 
@@ -10,6 +10,9 @@ import {
 } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { CapacityWarning } from '@/components/CapacityWarning';
+import { type Guest, DEFAULT_DESK_CAPACITY } from '@/lib/supabase';
+import { getDeskLoadAfter, type CapacityMode } from '@/lib/guestStats';
 
 interface CreateGuestDialogProps {
   open: boolean;
@@ -22,6 +25,9 @@ interface CreateGuestDialogProps {
   }) => void;
   existingDeskNumbers: number[];
   defaultDeskNo?: number;
+  allGuests: Guest[];
+  capacities: Record<number, number>;
+  capacityMode: CapacityMode;
 }
 
 export function CreateGuestDialog({
@@ -30,6 +36,9 @@ export function CreateGuestDialog({
   onCreateGuest,
   existingDeskNumbers,
   defaultDeskNo,
+  allGuests,
+  capacities,
+  capacityMode,
 }: CreateGuestDialogProps) {
   const [fullName, setFullName] = useState('');
   const [personCount, setPersonCount] = useState(1);
@@ -48,6 +57,10 @@ export function CreateGuestDialog({
     }
   }
 
+  const capacity = capacities[deskNo] ?? DEFAULT_DESK_CAPACITY;
+  const loadAfter = getDeskLoadAfter(allGuests, deskNo, personCount);
+  const isCapacityBlocked = loadAfter > capacity && capacityMode === 'block';
+
   const handleCreate = async () => {
     if (!fullName.trim()) return;
     setIsCreating(true);
@@ -162,6 +175,13 @@ export function CreateGuestDialog({
               />
             </div>
           </div>
+
+          <CapacityWarning
+            deskNo={deskNo}
+            loadAfter={loadAfter}
+            capacity={capacity}
+            mode={capacityMode}
+          />
         </div>
 
         <DialogFooter className="gap-2">
@@ -177,7 +197,7 @@ export function CreateGuestDialog({
           <Button
             type="button"
             onClick={handleCreate}
-            disabled={isCreating || !fullName.trim()}
+            disabled={isCreating || !fullName.trim() || isCapacityBlocked}
             className="bg-indigo-600 hover:bg-indigo-700 text-white"
           >
             {isCreating ? (
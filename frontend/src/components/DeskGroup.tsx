@@ -12,6 +12,11 @@ import {
 } from '@phosphor-icons/react';
 import { GuestCard } from './GuestCard';
 import type { Guest } from '@/lib/supabase';
+import {
+  getDeskStats,
+  getArrivedCount,
+  isPartiallyArrived,
+} from '@/lib/guestStats';
 
 interface DeskGroupProps {
   deskNo: number;
@@ -21,6 +26,9 @@ interface DeskGroupProps {
   onReorderGuests?: (deskNo: number, reorderedGuests: Guest[]) => void;
   onAddGuest?: (deskNo: number) => void;
   viewMode: 'card' | 'table';
+  // Persons seated at the desk (whole list, not just filtered guests)
+  filled: number;
+  capacity: number;
   isExpanded: boolean;
   onToggleExpand: () => void;
 }
@@ -33,12 +41,13 @@ export function DeskGroup({
   onReorderGuests,
   onAddGuest,
   viewMode,
+  filled,
+  capacity,
   isExpanded,
   onToggleExpand,
 }: DeskGroupProps) {
-  const totalPeople = guests.reduce((sum, g) => sum + g.person_count, 0);
-  const totalGifts = guests.reduce((sum, g) => sum + g.gift_count, 0);
-  const attendedCount = guests.filter((g) => g.is_attended === true).length;
+  const { totalGifts, totalPeople, arrivedPeople } = getDeskStats(guests);
+  const isOverCapacity = filled > capacity;
 
   // Drag and drop state
   const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
@@ -116,19 +125,35 @@ export function DeskGroup({
                 Masa {deskNo}
               </h2>
               <p className="text-xs text-slate-500">
-                {guests.length} davetiye · {attendedCount}/{guests.length} geldi
+                {guests.length} davetiye · {arrivedPeople}/{totalPeople} kişi
+                geldi
+                {isOverCapacity && (
+                  <span className="sm:hidden text-rose-600">
+                    {' '}
+                    · {filled}/{capacity} kişi
+                  </span>
+                )}
               </p>
             </div>
           </div>
 
           <div className="flex items-center gap-4">
             <div className="hidden sm:flex items-center gap-3 text-sm">
-              <span className="text-slate-500">
+              <span
+                className={
+                  isOverCapacity
+                    ? 'text-rose-600 font-medium'
+                    : 'text-slate-500'
+                }
+                title={isOverCapacity ? 'Kapasite aşıldı' : 'Dolu / kapasite'}
+              >
                 <Users
                   weight="bold"
-                  className="w-4 h-4 inline mr-1 text-indigo-400"
+                  className={`w-4 h-4 inline mr-1 ${
+                    isOverCapacity ? 'text-rose-500' : 'text-indigo-400'
+                  }`}
                 />
-                {totalPeople}
+                {filled}/{capacity}
               </span>
               <span className="text-slate-500">
                 <Gift
@@ -278,7 +303,9 @@ export function DeskGroup({
                         </td>
                         <td className="py-2 px-3 text-center">
                           <span className="text-slate-600">
-                            {guest.person_count}
+                            {isPartiallyArrived(guest)
+                              ? `${getArrivedCount(guest)}/${guest.person_count}`
+                              : guest.person_count}
                           </span>
                         </td>
                         <td className="py-2 px-3 text-center">
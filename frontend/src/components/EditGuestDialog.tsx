@@ -9,6 +9,11 @@ import {
   Scissors,
   Users,
   PencilSimple,
+  QrCode,
+  ClockCounterClockwise,
+  Minus,
+  Plus,
+  X,
 } from '@phosphor-icons/react';
 import {
   Dialog,
@@ -22,7 +27,23 @@ import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { Input } from '@/components/ui/input';
 import { MiniTablePreview } from '@/components/floorplan/MiniTablePreview';
-import type { Guest } from '@/lib/supabase';
+import { CapacityWarning } from '@/components/CapacityWarning';
+import { GuestQrCode } from '@/components/GuestQrCode';
+import { AuditLogPanel } from '@/components/AuditLogPanel';
+import {
+  supabase,
+  type Guest,
+  type GuestSide,
+  type GuestGroupFields,
+  DEFAULT_DESK_CAPACITY,
+} from '@/lib/supabase';
+import { SIDE_LABELS, getAllGroups } from '@/lib/guestGroups';
+import { getPersonName } from '@/lib/seatAssignments';
+import {
+  getDeskLoadAfter,
+  getArrivedCount,
+  type CapacityMode,
+} from '@/lib/guestStats';
 
 interface EditGuestDialogProps {
   guest: Guest | null;
@@ -37,6 +58,9 @@ interface EditGuestDialogProps {
     deskNo?: number,
     personCount?: number,
     giftCount?: number,
+    attendedCount?: number | null,
+    groups?: GuestGroupFields,
+    companions?: string[],
   ) => Promise<void>;
   onDelete?: (id: number) => Promise<void>;
   onReorderGuest?: (
@@ -47,7 +71,14 @@ interface EditGuestDialogProps {
   onSelectGuest?: (guest: Guest) => void;
   onSplitGuest?: (guest: Guest, newNames: string[]) => Promise<void>;
   onRenameGuest?: (id: number, newName: string) => Promise<void>;
+  // Write back a previous version from the change log
+  onRestoreGuest?: (guest: Guest, updates: Partial<Guest>) => Promise<void>;
   existingDeskNumbers: number[];
+  capacities: Record<number, number>;
+  capacityMode: CapacityMode;
+  // Role limits: door staff may only change attendance
+  canEditDetails?: boolean;
+  canCheckIn?: boolean;
 }
 
 export function EditGuestDialog({
@@ -62,19 +93,32 @@ export function EditGuestDialog({
   onSelectGuest,
   onSplitGuest,
   onRenameGuest,
+  onRestoreGuest,
   existingDeskNumbers,
+  capacities,
+  capacityMode,
+  canEditDetails = true,
+  canCheckIn = true,
 }: EditGuestDialogProps) {
   const [description, setDescription] = useState('');
   const [isAttended, setIsAttended] = useState<boolean | null>(null);
+  const [arrivedCount, setArrivedCount] = useState(0);
   const [deskNo, setDeskNo] = useState(1);
   const [personCount, setPersonCount] = useState(1);
   const [giftCount, setGiftCount] = useState(1);
   const [fullName, setFullName] = useState('');
+  const [side, setSide] = useState<GuestSide | null>(null);
+  const [household, setHousehold] = useState('');
+  const [tags, setTags] = useState<string[]>([]);
+  const [newTag, setNewTag] = useState('');
+  const [companions, setCompanions] = useState<string[]>([]);
   const [isSaving, setIsSaving] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
   const [isSplitting, setIsSplitting] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [showSplitConfirm, setShowSplitConfirm] = useState(false);
+  const [showQrCode, setShowQrCode] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
   const [isEditingName, setIsEditingName] = useState(false);
   const [splitNames, setSplitNames] = useState<string[]>([]);
 
@@ -82,18 +126,28 @@ export function EditGuestDialog({
     if (guest) {
       setDescription(guest.description || '');
       setIsAttended(guest.is_attended);
+      setArrivedCount(getArrivedCount(guest));
       setDeskNo(guest.desk_no);
       setPersonCount(guest.person_count);
       setGiftCount(guest.gift_count);
       setFullName(guest.full_name);
+      setSide(guest.side ?? null);
+      setHousehold(guest.household ?? '');
+      setTags(guest.tags ?? []);
+      setNewTag('');
+      setCompanions(guest.companions ?? []);
       setShowDeleteConfirm(false);
       setShowSplitConfirm(false);
+      setShowQrCode(false);
+      setShowHistory(false);
       setIsEditingName(false);
 
-      // Initialize split names
+      // Initialize split names (companions keep their names)
       const names: string[] = [];
       for (let i = 0; i < guest.person_count; i++) {
-        names.push(`${guest.full_name} - Kişi ${i + 1}`);
+        names.push(
+          i === 0 ? `${guest.full_name} - Kişi 1` : getPersonName(guest, i),
+        );
       }
       setSplitNames(names);
     }
@@ -115,6 +169,11 @@ export function EditGuestDialog({
         deskNo,
         personCount,
         giftCount,
+        isAttended === true ? Math.min(arrivedCount, personCount) : null,
+        canEditDetails
+          ? { side, household: household.trim() || null, tags }
+          : undefined,
+        canEditDetails ? getCompanionNames() : undefined,
       );
       onOpenChange(false);
     } catch (error) {
@@ -152,6 +211,21 @@ export function EditGuestDialog({
     }
   };
 
+  // Names of the people coming with the guest, without trailing blanks
+  const getCompanionNames = () => {
+    const names = companions
+      .slice(0, personCount - 1)
+      .map((name) => name.trim());
+    while (names.length > 0 && !names[names.length - 1]) names.pop();
+    return names;
+  };
+
+  const handleAddTag = () => {
+    const tag = newTag.trim();
+    if (tag && !tags.includes(tag)) setTags([...tags, tag]);
+    setNewTag('');
+  };
+
   const handleClearNote = () => {
     setDescription('');
   };
@@ -178,6 +252,19 @@ export function EditGuestDialog({
       ? tablemates
       : allGuests.filter((g) => g.desk_no === deskNo);
 
+  // Only changes that add people to a desk are checked against its capacity
+  const capacity = capacities[deskNo] ?? DEFAULT_DESK_CAPACITY;
+  const loadAfter = guest
+    ? getDeskLoadAfter(allGuests, deskNo, personCount, guest.id)
+    : 0;
+  const addsPeople =
+    !!guest && (deskNo !== guest.desk_no || personCount > guest.person_count);
+  const isCapacityBlocked =
+    addsPeople && loadAfter > capacity && capacityMode === 'block';
+
+  // Households and tags already in use, offered as suggestions
+  const knownGroups = getAllGroups(allGuests);
+
   if (!guest) return null;
 
   return (
@@ -265,6 +352,7 @@ export function EditGuestDialog({
                 id="deskSelect"
                 value={deskNo}
                 onChange={(e) => setDeskNo(parseInt(e.target.value))}
+                disabled={!canEditDetails}
                 className="w-full px-2 py-2 text-sm bg-indigo-50 text-indigo-700 border border-indigo-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500"
               >
                 {existingDeskNumbers.map((desk) => (
@@ -288,6 +376,7 @@ export function EditGuestDialog({
                 max={20}
                 value={personCount}
                 onChange={(e) => setPersonCount(parseInt(e.target.value) || 1)}
+                disabled={!canEditDetails}
                 className="h-9 text-sm bg-violet-50 text-violet-700 border-violet-200"
               />
             </div>
@@ -305,17 +394,148 @@ export function EditGuestDialog({
                 max={20}
                 value={giftCount}
                 onChange={(e) => setGiftCount(parseInt(e.target.value) || 0)}
+                disabled={!canEditDetails}
                 className="h-9 text-sm bg-amber-50 text-amber-700 border-amber-200"
               />
             </div>
           </div>
 
+          {addsPeople && (
+            <CapacityWarning
+              deskNo={deskNo}
+              loadAfter={loadAfter}
+              capacity={capacity}
+              mode={capacityMode}
+            />
+          )}
+
+          {/* Side, Household & Tags */}
+          <div className="space-y-2">
+            <div className="flex items-center gap-1.5">
+              <span className="text-xs font-medium text-slate-500 w-12">
+                Taraf
+              </span>
+              {(Object.keys(SIDE_LABELS) as GuestSide[]).map((value) => (
+                <button
+                  key={value}
+                  onClick={() => setSide(side === value ? null : value)}
+                  disabled={!canEditDetails}
+                  className={`px-2.5 py-1 rounded-md text-xs font-medium transition-colors disabled:opacity-60 ${
+                    side === value
+                      ? 'bg-violet-600 text-white'
+                      : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+                  }`}
+                >
+                  {SIDE_LABELS[value]}
+                </button>
+              ))}
+            </div>
+            <div className="flex items-center gap-1.5">
+              <label
+                htmlFor="householdEdit"
+                className="text-xs font-medium text-slate-500 w-12"
+              >
+                Aile
+              </label>
+              <Input
+                id="householdEdit"
+                list="householdOptions"
+                placeholder="Örn. Yılmaz ailesi"
+                value={household}
+                onChange={(e) => setHousehold(e.target.value)}
+                disabled={!canEditDetails}
+                className="h-8 text-xs flex-1 bg-slate-50 border-slate-200"
+              />
+              <datalist id="householdOptions">
+                {knownGroups
+                  .filter((group) => group.kind === 'household')
+                  .map((group) => (
+                    <option key={group.key} value={group.value} />
+                  ))}
+              </datalist>
+            </div>
+            <div className="flex flex-wrap items-center gap-1.5">
+              <span className="text-xs font-medium text-slate-500 w-12">
+                Etiket
+              </span>
+              {tags.map((tag) => (
+                <span
+                  key={tag}
+                  className="inline-flex items-center gap-1 px-2 py-0.5 rounded-md text-xs text-violet-700 bg-violet-50"
+                >
+                  #{tag}
+                  {canEditDetails && (
+                    <button
+                      onClick={() => setTags(tags.filter((t) => t !== tag))}
+                    >
+                      <X weight="bold" className="w-3 h-3" />
+                    </button>
+                  )}
+                </span>
+              ))}
+              {canEditDetails && (
+                <>
+                  <Input
+                    list="tagOptions"
+                    placeholder="Etiket ekle"
+                    value={newTag}
+                    onChange={(e) => setNewTag(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') {
+                        e.preventDefault();
+                        handleAddTag();
+                      }
+                    }}
+                    onBlur={handleAddTag}
+                    className="h-7 w-28 text-xs bg-slate-50 border-slate-200"
+                  />
+                  <datalist id="tagOptions">
+                    {knownGroups
+                      .filter(
+                        (group) =>
+                          group.kind === 'tag' && !tags.includes(group.value),
+                      )
+                      .map((group) => (
+                        <option key={group.key} value={group.value} />
+                      ))}
+                  </datalist>
+                </>
+              )}
+            </div>
+          </div>
+
+          {/* Companions */}
+          {personCount > 1 && (
+            <div>
+              <label className="text-xs font-medium text-slate-500 mb-1 block">
+                Yanındakiler
+              </label>
+              <div className="grid grid-cols-2 gap-1.5">
+                {Array.from({ length: personCount - 1 }, (_, index) => (
+                  <Input
+                    key={index}
+                    value={companions[index] ?? ''}
+                    onChange={(e) => {
+                      const newCompanions = [...companions];
+                      newCompanions[index] = e.target.value;
+                      setCompanions(Array.from(newCompanions, (n) => n ?? ''));
+                    }}
+                    disabled={!canEditDetails}
+                    placeholder={`Kişi ${index + 2}`}
+                    className="h-8 text-xs bg-slate-50 border-slate-200"
+                  />
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Table Preview */}
           <div className="p-4 bg-slate-50 rounded-xl border border-slate-200">
             <MiniTablePreview
               deskNo={deskNo}
               guests={previewGuests}
               highlightGuestId={guest.id}
+              capacity={capacity}
             />
           </div>
 
@@ -357,18 +577,68 @@ export function EditGuestDialog({
               </div>
             )}
 
-            {/* Split Guest Button */}
-            {canSplit && onSplitGuest && (
+            <div className="flex items-center gap-2 ml-auto">
+              {/* QR Code Button */}
               <button
-                onClick={() => setShowSplitConfirm(true)}
-                className="flex items-center gap-1.5 px-2.5 py-1.5 text-xs font-medium text-violet-600 bg-violet-50 hover:bg-violet-100 rounded-lg transition-colors"
+                onClick={() => setShowQrCode(!showQrCode)}
+                className={`flex items-center gap-1.5 px-2.5 py-1.5 text-xs font-medium rounded-lg transition-colors ${
+                  showQrCode
+                    ? 'text-white bg-slate-700 hover:bg-slate-800'
+                    : 'text-slate-600 bg-slate-100 hover:bg-slate-200'
+                }`}
               >
-                <Scissors weight="bold" className="w-3.5 h-3.5" />
-                Ayır ({personCount} kişi)
+                <QrCode weight="bold" className="w-3.5 h-3.5" />
+                QR
               </button>
-            )}
+
+              {/* Change Log Button */}
+              {supabase && (
+                <button
+                  onClick={() => setShowHistory(!showHistory)}
+                  className={`flex items-center gap-1.5 px-2.5 py-1.5 text-xs font-medium rounded-lg transition-colors ${
+                    showHistory
+                      ? 'text-white bg-slate-700 hover:bg-slate-800'
+                      : 'text-slate-600 bg-slate-100 hover:bg-slate-200'
+                  }`}
+                >
+                  <ClockCounterClockwise
+                    weight="bold"
+                    className="w-3.5 h-3.5"
+                  />
+                  Geçmiş
+                </button>
+              )}
+
+              {/* Split Guest Button */}
+              {canSplit && onSplitGuest && (
+                <button
+                  onClick={() => setShowSplitConfirm(true)}
+                  className="flex items-center gap-1.5 px-2.5 py-1.5 text-xs font-medium text-violet-600 bg-violet-50 hover:bg-violet-100 rounded-lg transition-colors"
+                >
+                  <Scissors weight="bold" className="w-3.5 h-3.5" />
+                  Ayır ({personCount} kişi)
+                </button>
+              )}
+            </div>
           </div>
 
+          {/* Check-in QR Code */}
+          {showQrCode && <GuestQrCode guest={guest} />}
+
+          {/* Change Log */}
+          {showHistory && (
+            <AuditLogPanel
+              table="guests"
+              recordId={guest.id}
+              onRestore={
+                onRestoreGuest
+                  ? (updates) =>
+                      onRestoreGuest(guest, updates as Partial<Guest>)
+                  : undefined
+              }
+            />
+          )}
+
           {/* Split Confirmation with Name Editing */}
           {showSplitConfirm && (
             <div className="bg-violet-50 rounded-lg p-3 space-y-3">
@@ -446,7 +716,11 @@ export function EditGuestDialog({
             <div className="flex gap-2">
               <button
                 type="button"
-                onClick={() => setIsAttended(true)}
+                onClick={() => {
+                  setIsAttended(true);
+                  setArrivedCount(personCount);
+                }}
+                disabled={!canCheckIn}
                 className={`flex-1 py-2.5 rounded-lg font-medium text-sm transition-all flex items-center justify-center gap-2 ${
                   isAttended === true
                     ? 'bg-emerald-500 text-white'
@@ -458,7 +732,11 @@ export function EditGuestDialog({
               </button>
               <button
                 type="button"
-                onClick={() => setIsAttended(null)}
+                onClick={() => {
+                  setIsAttended(null);
+                  setArrivedCount(0);
+                }}
+                disabled={!canCheckIn}
                 className={`flex-1 py-2.5 rounded-lg font-medium text-sm transition-all ${
                   isAttended === null || isAttended === false
                     ? 'bg-slate-200 text-slate-700'
@@ -468,6 +746,51 @@ export function EditGuestDialog({
                 Bekliyor
               </button>
             </div>
+
+            {/* Partial arrival of a multi-person party */}
+            {personCount > 1 && (
+              <div className="flex items-center justify-between mt-2 px-3 py-2 bg-slate-50 rounded-lg">
+                <span className="text-xs font-medium text-slate-500">
+                  Gelen kişi
+                </span>
+                <div className="flex items-center gap-2">
+                  <button
+                    type="button"
+                    onClick={() => {
+                      const next = Math.max(0, arrivedCount - 1);
+                      setArrivedCount(next);
+                      setIsAttended(next > 0 ? true : null);
+                    }}
+                    disabled={!canCheckIn || arrivedCount <= 0}
+                    className="p-1 rounded-md bg-white border border-slate-200 text-slate-600 hover:bg-slate-100 disabled:opacity-40"
+                    title="Azalt"
+                  >
+                    <Minus weight="bold" className="w-3.5 h-3.5" />
+                  </button>
+                  <span
+                    className={`w-12 text-center text-sm font-semibold tabular-nums ${
+                      arrivedCount > 0 && arrivedCount < personCount
+                        ? 'text-amber-600'
+                        : 'text-slate-700'
+                    }`}
+                  >
+                    {Math.min(arrivedCount, personCount)}/{personCount}
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setArrivedCount(Math.min(personCount, arrivedCount + 1));
+                      setIsAttended(true);
+                    }}
+                    disabled={!canCheckIn || arrivedCount >= personCount}
+                    className="p-1 rounded-md bg-white border border-slate-200 text-slate-600 hover:bg-slate-100 disabled:opacity-40"
+                    title="Arttır"
+                  >
+                    <Plus weight="bold" className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              </div>
+            )}
           </div>
 
           {/* Notes */}
@@ -479,7 +802,7 @@ export function EditGuestDialog({
               >
                 Not
               </label>
-              {description && (
+              {description && canEditDetails && (
                 <button
                   type="button"
                   onClick={handleClearNote}
@@ -495,6 +818,7 @@ export function EditGuestDialog({
               placeholder="Not ekle..."
               value={description}
               onChange={(e) => setDescription(e.target.value)}
+              disabled={!canEditDetails}
               className="min-h-[80px] resize-none bg-slate-50 border-slate-200 text-slate-800 placeholder:text-slate-400 focus:border-indigo-300"
             />
           </div>
@@ -556,21 +880,23 @@ export function EditGuestDialog({
           >
             İptal
           </Button>
-          <Button
-            type="button"
-            onClick={handleSave}
-            disabled={isSaving}
-            className="bg-indigo-600 hover:bg-indigo-700 text-white"
-          >
-            {isSaving ? (
-              <SpinnerGap weight="bold" className="w-4 h-4 animate-spin" />
-            ) : (
-              <>
-                <FloppyDisk weight="bold" className="w-4 h-4 mr-1.5" />
-                Kaydet
-              </>
-            )}
-          </Button>
+          {(canEditDetails || canCheckIn) && (
+            <Button
+              type="button"
+              onClick={handleSave}
+              disabled={isSaving || isCapacityBlocked}
+              className="bg-indigo-600 hover:bg-indigo-700 text-white"
+            >
+              {isSaving ? (
+                <SpinnerGap weight="bold" className="w-4 h-4 animate-spin" />
+              ) : (
+                <>
+                  <FloppyDisk weight="bold" className="w-4 h-4 mr-1.5" />
+                  Kaydet
+                </>
+              )}
+            </Button>
+          )}
         </DialogFooter>
       </DialogContent>
     </Dialog>
@@ -0,0 +1,186 @@
+import { useState, useEffect } from 'react';
+import { UsersThree, Plus, Trash, SpinnerGap } from '@phosphor-icons/react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  type EventMember,
+  type EventRole,
+  loadEventMembersFromDB,
+  saveEventMemberToDB,
+  deleteEventMemberFromDB,
+} from '@/lib/supabase';
+import { ROLE_LABELS, EVENT_ROLES } from '@/lib/permissions';
+
+interface EventMembersDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  eventName: string;
+  // Signed-in owner, who cannot demote or remove themselves
+  currentEmail: string | null;
+}
+
+// Owners invite people to the active event and set their role
+export function EventMembersDialog({
+  open,
+  onOpenChange,
+  eventName,
+  currentEmail,
+}: EventMembersDialogProps) {
+  const [members, setMembers] = useState<EventMember[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<EventRole>('door');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!open) return;
+
+    let cancelled = false;
+    loadEventMembersFromDB().then((loaded) => {
+      if (cancelled) return;
+      setMembers(loaded);
+      setIsLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [open]);
+
+  const saveMember = async (memberEmail: string, memberRole: EventRole) => {
+    setIsSaving(true);
+    setError('');
+    const saved = await saveEventMemberToDB(memberEmail, memberRole);
+    if (saved) {
+      setMembers(await loadEventMembersFromDB());
+    } else {
+      setError('Kaydedilemedi. Bağlantınızı kontrol edin.');
+    }
+    setIsSaving(false);
+    return saved;
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = email.trim();
+    if (!trimmed) return;
+    if (await saveMember(trimmed, role)) {
+      setEmail('');
+    }
+  };
+
+  const handleRemove = async (memberEmail: string) => {
+    setIsSaving(true);
+    setError('');
+    if (await deleteEventMemberFromDB(memberEmail)) {
+      setMembers((prev) => prev.filter((m) => m.email !== memberEmail));
+    } else {
+      setError('Silinemedi. Bağlantınızı kontrol edin.');
+    }
+    setIsSaving(false);
+  };
+
+  const isSelf = (member: EventMember) =>
+    !!currentEmail && member.email === currentEmail.toLowerCase();
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md bg-white border-slate-200 max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-lg font-semibold text-slate-800 flex items-center gap-2">
+            <UsersThree weight="bold" className="w-5 h-5 text-indigo-600" />
+            Ekip
+          </DialogTitle>
+          <DialogDescription className="text-slate-500 text-sm">
+            {eventName} etkinliğine erişebilecek kişiler. Kapı görevlileri
+            yalnızca giriş yapabilir.
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Invite */}
+        <form onSubmit={handleAdd} className="flex items-center gap-2">
+          <Input
+            type="email"
+            placeholder="E-posta"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            className="h-9 flex-1 bg-slate-50 border-slate-200"
+          />
+          <select
+            value={role}
+            onChange={(e) => setRole(e.target.value as EventRole)}
+            className="h-9 px-2 text-sm bg-white border border-slate-200 rounded-md"
+          >
+            {EVENT_ROLES.map((option) => (
+              <option key={option} value={option}>
+                {ROLE_LABELS[option]}
+              </option>
+            ))}
+          </select>
+          <Button
+            type="submit"
+            size="sm"
+            disabled={isSaving || !email.trim()}
+            className="h-9 bg-indigo-600 hover:bg-indigo-700 text-white"
+          >
+            <Plus weight="bold" className="w-4 h-4" />
+          </Button>
+        </form>
+
+        {error && <p className="text-xs text-rose-500">{error}</p>}
+
+        {/* Members */}
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <SpinnerGap
+              weight="bold"
+              className="w-5 h-5 text-slate-400 animate-spin"
+            />
+          </div>
+        ) : (
+          <ul className="divide-y divide-slate-100">
+            {members.map((member) => (
+              <li key={member.email} className="flex items-center gap-2 py-2">
+                <span className="flex-1 min-w-0 text-sm text-slate-700 truncate">
+                  {member.email}
+                  {isSelf(member) && (
+                    <span className="text-xs text-slate-400"> (siz)</span>
+                  )}
+                </span>
+                <select
+                  value={member.role}
+                  disabled={isSaving || isSelf(member)}
+                  onChange={(e) =>
+                    saveMember(member.email, e.target.value as EventRole)
+                  }
+                  className="h-8 px-2 text-xs bg-white border border-slate-200 rounded-md disabled:opacity-60"
+                >
+                  {EVENT_ROLES.map((option) => (
+                    <option key={option} value={option}>
+                      {ROLE_LABELS[option]}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => handleRemove(member.email)}
+                  disabled={isSaving || isSelf(member)}
+                  className="p-1.5 rounded-md text-slate-400 hover:text-rose-600 hover:bg-rose-50 disabled:opacity-40 disabled:pointer-events-none"
+                  title="Erişimi kaldır"
+                >
+                  <Trash weight="bold" className="w-4 h-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,160 @@
+import { useState } from 'react';
+import {
+  CaretDown,
+  Check,
+  Plus,
+  UsersThree,
+  SignOut,
+} from '@phosphor-icons/react';
+import { CreateEventDialog } from '@/components/CreateEventDialog';
+import { EventMembersDialog } from '@/components/EventMembersDialog';
+import {
+  type AppEvent,
+  type EventCloneOptions,
+  type EventRole,
+  signOut,
+} from '@/lib/supabase';
+import { ROLE_LABELS } from '@/lib/permissions';
+
+interface EventSwitcherProps {
+  events: AppEvent[];
+  activeEvent: AppEvent | null;
+  onSelectEvent: (id: number) => void;
+  onCreateEvent: (
+    event: Omit<AppEvent, 'id'>,
+    clone: EventCloneOptions | null,
+  ) => Promise<AppEvent | null>;
+  // Signed-in user (null without Supabase Auth) and their role
+  userEmail: string | null;
+  role: EventRole | null;
+  canManageMembers: boolean;
+}
+
+function formatEventDate(date: string): string {
+  return new Date(date).toLocaleDateString('tr-TR', {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+  });
+}
+
+// Event picker in the header
+export function EventSwitcher({
+  events,
+  activeEvent,
+  onSelectEvent,
+  onCreateEvent,
+  userEmail,
+  role,
+  canManageMembers,
+}: EventSwitcherProps) {
+  const [showList, setShowList] = useState(false);
+  const [createDialogOpen, setCreateDialogOpen] = useState(false);
+  const [membersDialogOpen, setMembersDialogOpen] = useState(false);
+
+  return (
+    <div className="relative inline-flex">
+      <button
+        onClick={() => setShowList(!showList)}
+        className="inline-flex items-center gap-0.5 text-xs text-slate-500 hover:text-slate-700"
+        title="Etkinlik değiştir"
+      >
+        {activeEvent?.name ?? 'Etkinlik'}
+        <CaretDown weight="bold" className="w-3 h-3" />
+      </button>
+
+      {/* Event list popover */}
+      {showList && (
+        <div className="absolute left-0 top-full mt-1 z-50 w-60 bg-white rounded-lg shadow-lg border border-slate-200 p-1">
+          <div className="max-h-60 overflow-y-auto">
+            {events.map((event) => (
+              <button
+                key={event.id}
+                onClick={() => {
+                  setShowList(false);
+                  if (event.id !== activeEvent?.id) onSelectEvent(event.id);
+                }}
+                className="w-full flex items-center gap-2 px-2 py-1.5 rounded-md text-left hover:bg-slate-50"
+              >
+                <div className="min-w-0 flex-1">
+                  <p className="text-sm text-slate-700 truncate">
+                    {event.name}
+                  </p>
+                  {event.event_date && (
+                    <p className="text-[11px] text-slate-400">
+                      {formatEventDate(event.event_date)}
+                    </p>
+                  )}
+                </div>
+                {event.id === activeEvent?.id && (
+                  <Check
+                    weight="bold"
+                    className="w-4 h-4 text-indigo-600 shrink-0"
+                  />
+                )}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={() => {
+              setShowList(false);
+              setCreateDialogOpen(true);
+            }}
+            className="w-full flex items-center gap-1.5 px-2 py-1.5 mt-1 border-t border-slate-100 text-sm text-indigo-600 hover:bg-indigo-50 rounded-md"
+          >
+            <Plus weight="bold" className="w-3.5 h-3.5" />
+            Yeni etkinlik
+          </button>
+          {canManageMembers && (
+            <button
+              onClick={() => {
+                setShowList(false);
+                setMembersDialogOpen(true);
+              }}
+              className="w-full flex items-center gap-1.5 px-2 py-1.5 text-sm text-slate-600 hover:bg-slate-50 rounded-md"
+            >
+              <UsersThree weight="bold" className="w-3.5 h-3.5" />
+              Ekip
+            </button>
+          )}
+
+          {/* Signed-in user */}
+          {userEmail && (
+            <div className="flex items-center gap-2 px-2 pt-1.5 mt-1 border-t border-slate-100">
+              <div className="min-w-0 flex-1">
+                <p className="text-xs text-slate-600 truncate">{userEmail}</p>
+                <p className="text-[11px] text-slate-400">
+                  {role ? ROLE_LABELS[role] : 'Erişim yok'}
+                </p>
+              </div>
+              <button
+                onClick={() => signOut()}
+                className="p-1.5 rounded-md text-slate-400 hover:text-rose-600 hover:bg-rose-50"
+                title="Çıkış Yap"
+              >
+                <SignOut weight="bold" className="w-4 h-4" />
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      <CreateEventDialog
+        open={createDialogOpen}
+        onOpenChange={setCreateDialogOpen}
+        events={events}
+        activeEventId={activeEvent?.id ?? events[0].id}
+        onCreateEvent={onCreateEvent}
+      />
+
+      {canManageMembers && (
+        <EventMembersDialog
+          open={membersDialogOpen}
+          onOpenChange={setMembersDialogOpen}
+          eventName={activeEvent?.name ?? ''}
+          currentEmail={userEmail}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+import { useState } from 'react';
+import {
+  DownloadSimple,
+  FileCsv,
+  FileCode,
+  Printer,
+  QrCode,
+  WarningCircle,
+} from '@phosphor-icons/react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { supabase } from '@/lib/supabase';
+import { getGuestListStats } from '@/lib/guestStats';
+import {
+  type DeskGroups,
+  exportGuestsCsv,
+  exportGuestsJson,
+  printGuestReport,
+  printGuestQrCodes,
+} from '@/lib/exportGuests';
+
+interface ExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  groups: DeskGroups;
+  // Guests created on this device that are still waiting in the outbox.
+  // Their QR codes only exist once they are saved.
+  unsyncedGuestCount: number;
+}
+
+export function ExportDialog({
+  open,
+  onOpenChange,
+  groups,
+  unsyncedGuestCount,
+}: ExportDialogProps) {
+  const [popupBlocked, setPopupBlocked] = useState(false);
+
+  const stats = getGuestListStats(
+    groups.flatMap(([, deskGuests]) => deskGuests),
+  );
+
+  const options = [
+    {
+      key: 'csv',
+      label: 'CSV',
+      description: 'Excel ile açılabilir, masa sırasına göre',
+      icon: FileCsv,
+      color: 'text-emerald-600',
+      bg: 'bg-emerald-50',
+      onClick: () => exportGuestsCsv(groups),
+      disabled: false,
+    },
+    {
+      key: 'json',
+      label: 'JSON',
+      description: 'Masalara göre gruplu, toplamlarla birlikte',
+      icon: FileCode,
+      color: 'text-violet-600',
+      bg: 'bg-violet-50',
+      onClick: () => exportGuestsJson(groups),
+      disabled: false,
+    },
+    {
+      key: 'print',
+      label: 'Yazdır / PDF',
+      description: 'Masa bazında katılım ve hediye raporu',
+      icon: Printer,
+      color: 'text-indigo-600',
+      bg: 'bg-indigo-50',
+      onClick: () => setPopupBlocked(!printGuestReport(groups)),
+      disabled: false,
+    },
+    {
+      key: 'qr',
+      label: 'QR Kodları',
+      // Tokens come from the database, so there are no codes without it
+      description: !supabase
+        ? 'Yalnızca Supabase bağlantısıyla kullanılabilir'
+        : unsyncedGuestCount > 0
+          ? `${unsyncedGuestCount} yeni misafir kaydedilince yazdırılabilir`
+          : 'Davetiyelere basmak için misafir başına QR kod',
+      icon: QrCode,
+      color: 'text-slate-700',
+      bg: 'bg-slate-100',
+      onClick: () => setPopupBlocked(!printGuestQrCodes(groups)),
+      disabled: !supabase || unsyncedGuestCount > 0,
+    },
+  ];
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(nextOpen) => {
+        if (!nextOpen) setPopupBlocked(false);
+        onOpenChange(nextOpen);
+      }}
+    >
+      <DialogContent className="sm:max-w-md bg-white border-slate-200">
+        <DialogHeader>
+          <DialogTitle className="text-lg font-semibold text-slate-800 flex items-center gap-2">
+            <DownloadSimple weight="bold" className="w-5 h-5 text-indigo-600" />
+            Dışa Aktar
+          </DialogTitle>
+          <DialogDescription className="text-slate-500 text-sm">
+            {stats.totalInvitations} davetiye · {stats.totalGuests} kişi ·{' '}
+            {stats.arrivedPeople} kişi geldi · {stats.totalGifts} hediye
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2 py-2">
+          {options.map((option) => (
+            <button
+              key={option.key}
+              onClick={option.onClick}
+              disabled={stats.totalInvitations === 0 || option.disabled}
+              className="w-full flex items-center gap-3 p-3 rounded-lg border border-slate-100 hover:border-slate-200 hover:bg-slate-50 transition-colors text-left disabled:opacity-50 disabled:pointer-events-none"
+            >
+              <div className={`p-2 rounded-lg ${option.bg}`}>
+                <option.icon
+                  weight="duotone"
+                  className={`w-5 h-5 ${option.color}`}
+                />
+              </div>
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-slate-800">
+                  {option.label}
+                </p>
+                <p className="text-xs text-slate-500">{option.description}</p>
+              </div>
+            </button>
+          ))}
+        </div>
+
+        {popupBlocked && (
+          <p className="text-sm text-rose-600 flex items-center gap-1.5">
+            <WarningCircle weight="bold" className="w-4 h-4" />
+            Yazdırma penceresi açılamadı. Açılır pencere engelini kaldırın.
+          </p>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
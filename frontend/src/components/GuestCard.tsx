@@ -1,5 +1,6 @@
 import { Users, Gift, Warning, Check, Circle } from '@phosphor-icons/react';
 import type { Guest } from '@/lib/supabase';
+import { getArrivedCount, isPartiallyArrived } from '@/lib/guestStats';
 
 interface GuestCardProps {
   guest: Guest;
@@ -13,6 +14,7 @@ export function GuestCard({
   onToggleAttendance,
 }: GuestCardProps) {
   const isAttended = guest.is_attended === true;
+  const isPartial = isPartiallyArrived(guest);
   const hasNotes = !!guest.description;
 
   const handleAttendanceClick = (e: React.MouseEvent) => {
@@ -64,7 +66,13 @@ export function GuestCard({
             <div className="flex items-center gap-3 mt-1.5">
               <span className="inline-flex items-center gap-1 text-sm text-slate-500">
                 <Users weight="bold" className="w-3.5 h-3.5 text-indigo-400" />
-                {guest.person_count}
+                {isPartial ? (
+                  <span className="text-amber-600" title="Gelen kişi">
+                    {getArrivedCount(guest)}/{guest.person_count}
+                  </span>
+                ) : (
+                  guest.person_count
+                )}
               </span>
               {guest.gift_count > 0 && (
                 <span className="inline-flex items-center gap-1 text-sm text-slate-500">
@@ -88,13 +96,19 @@ export function GuestCard({
             className={`
               shrink-0 w-8 h-8 rounded-full flex items-center justify-center transition-all
               ${
-                isAttended
-                  ? 'bg-emerald-500 text-white shadow-sm'
-                  : 'bg-slate-100 text-slate-300 hover:bg-slate-200 hover:text-slate-400'
+                isPartial
+                  ? 'bg-amber-400 text-white shadow-sm'
+                  : isAttended
+                    ? 'bg-emerald-500 text-white shadow-sm'
+                    : 'bg-slate-100 text-slate-300 hover:bg-slate-200 hover:text-slate-400'
               }
             `}
             title={
-              isAttended ? 'Geldi olarak işaretli' : 'Bekliyor - tıkla işaretle'
+              isPartial
+                ? 'Bir kısmı geldi - tıkla tamamını işaretle'
+                : isAttended
+                  ? 'Geldi olarak işaretli'
+                  : 'Bekliyor - tıkla işaretle'
             }
           >
             {isAttended ? (
@@ -0,0 +1,84 @@
+import { ArrowsClockwise } from '@phosphor-icons/react';
+import type {
+  GuestConflict,
+  GuestConflictField,
+} from '@/hooks/useGuestRealtime';
+
+interface GuestConflictBannerProps {
+  conflicts: GuestConflict[];
+  onResolve: (guestId: number, keep: 'mine' | 'theirs') => void;
+}
+
+const FIELD_LABELS: Record<GuestConflictField['field'], string> = {
+  full_name: 'İsim',
+  person_count: 'Kişi',
+  desk_no: 'Masa',
+  gift_count: 'Hediye',
+  description: 'Not',
+  is_attended: 'Katılım',
+  attended_count: 'Gelen kişi',
+};
+
+function formatValue(field: GuestConflictField['field'], value: unknown) {
+  if (field === 'is_attended') return value === true ? 'Geldi' : 'Bekliyor';
+  if (value === null || value === undefined || value === '') return '—';
+  return String(value);
+}
+
+export function GuestConflictBanner({
+  conflicts,
+  onResolve,
+}: GuestConflictBannerProps) {
+  if (conflicts.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      {conflicts.map((conflict) => (
+        <div
+          key={conflict.guestId}
+          className="bg-amber-50 border border-amber-200 rounded-lg p-3"
+        >
+          <div className="flex items-start gap-2">
+            <ArrowsClockwise
+              weight="bold"
+              className="w-4 h-4 text-amber-600 mt-0.5 shrink-0"
+            />
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-medium text-amber-800">
+                "{conflict.guestName}" başka bir cihazda da değiştirildi
+              </p>
+              <ul className="mt-1 space-y-0.5 text-xs text-amber-700">
+                {conflict.fields.map(({ field, local, remote }) => (
+                  <li key={field}>
+                    {FIELD_LABELS[field]}: sizinki{' '}
+                    <span className="font-semibold">
+                      {formatValue(field, local)}
+                    </span>
+                    , diğer cihaz{' '}
+                    <span className="font-semibold">
+                      {formatValue(field, remote)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+          <div className="flex justify-end gap-2 mt-2">
+            <button
+              onClick={() => onResolve(conflict.guestId, 'theirs')}
+              className="px-2.5 py-1.5 rounded-md text-xs font-medium text-amber-800 hover:bg-amber-100 transition-colors"
+            >
+              Diğerini Kullan
+            </button>
+            <button
+              onClick={() => onResolve(conflict.guestId, 'mine')}
+              className="px-2.5 py-1.5 rounded-md text-xs font-medium text-white bg-amber-600 hover:bg-amber-700 transition-colors"
+            >
+              Benimkini Koru
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
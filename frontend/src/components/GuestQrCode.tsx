@@ -0,0 +1,67 @@
+import { useState, useEffect } from 'react';
+import { DownloadSimple, SpinnerGap } from '@phosphor-icons/react';
+import { type Guest, supabase } from '@/lib/supabase';
+import { getGuestQrDataUrl, hasGuestQrCode } from '@/lib/guestQr';
+
+interface GuestQrCodeProps {
+  guest: Guest;
+}
+
+// QR code used for self check-in at the door
+export function GuestQrCode({ guest }: GuestQrCodeProps) {
+  const [dataUrl, setDataUrl] = useState<string | null>(null);
+  const hasCode = hasGuestQrCode(guest);
+
+  useEffect(() => {
+    if (!hasCode) return;
+    let cancelled = false;
+    getGuestQrDataUrl(guest)
+      .then((url) => {
+        if (!cancelled) setDataUrl(url);
+      })
+      .catch((e) => console.error('Failed to generate QR code:', e));
+    return () => {
+      cancelled = true;
+    };
+  }, [guest, hasCode]);
+
+  if (!hasCode) {
+    return (
+      <p className="p-3 bg-slate-50 rounded-xl border border-slate-200 text-xs text-slate-500">
+        {supabase
+          ? 'QR kod, misafir veritabanına kaydedildiğinde oluşur.'
+          : 'QR kodlar yalnızca Supabase bağlantısıyla kullanılabilir.'}
+      </p>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-3 p-3 bg-slate-50 rounded-xl border border-slate-200">
+      <div className="w-28 h-28 shrink-0 rounded-lg bg-white border border-slate-200 flex items-center justify-center">
+        {dataUrl ? (
+          <img src={dataUrl} alt="QR kod" className="w-full h-full p-1" />
+        ) : (
+          <SpinnerGap
+            weight="bold"
+            className="w-5 h-5 text-slate-400 animate-spin"
+          />
+        )}
+      </div>
+      <div className="min-w-0 space-y-2">
+        <p className="text-xs text-slate-500">
+          Davetiyeye basın. Kapıda okutulunca misafir geldi olarak işaretlenir.
+        </p>
+        {dataUrl && (
+          <a
+            href={dataUrl}
+            download={`qr-${guest.full_name}.png`}
+            className="inline-flex items-center gap-1.5 px-2.5 py-1.5 text-xs font-medium text-slate-600 bg-white border border-slate-200 hover:bg-slate-100 rounded-lg transition-colors"
+          >
+            <DownloadSimple weight="bold" className="w-3.5 h-3.5" />
+            PNG indir
+          </a>
+        )}
+      </div>
+    </div>
+  );
+}
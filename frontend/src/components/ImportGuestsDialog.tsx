@@ -0,0 +1,446 @@
+import { useState, useMemo } from 'react';
+import {
+  UploadSimple,
+  FileArrowUp,
+  SpinnerGap,
+  Warning,
+  WarningCircle,
+  CheckCircle,
+} from '@phosphor-icons/react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import type { Guest, GuestRaw } from '@/lib/supabase';
+import {
+  IMPORT_FIELDS,
+  type ImportField,
+  type ColumnMapping,
+  readImportFile,
+  guessColumnMapping,
+  validateImportRows,
+} from '@/lib/guestImport';
+
+interface ImportGuestsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImport: (guests: GuestRaw[], missingDesks: number[]) => Promise<void>;
+  existingGuests: Guest[];
+  existingDeskNumbers: number[];
+}
+
+type Step = 'file' | 'mapping' | 'preview';
+
+const FIELD_LABELS: Record<ImportField, string> = {
+  fullName: 'İsim *',
+  personCount: 'Kişi Sayısı',
+  deskNo: 'Masa No *',
+  giftCount: 'Hediye Sayısı',
+  description: 'Not',
+};
+
+export function ImportGuestsDialog({
+  open,
+  onOpenChange,
+  onImport,
+  existingGuests,
+  existingDeskNumbers,
+}: ImportGuestsDialogProps) {
+  const [step, setStep] = useState<Step>('file');
+  const [fileName, setFileName] = useState('');
+  const [rows, setRows] = useState<string[][]>([]);
+  const [hasHeader, setHasHeader] = useState(true);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [createMissingDesks, setCreateMissingDesks] = useState(true);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [isReading, setIsReading] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const columnCount = useMemo(
+    () => rows.reduce((max, r) => Math.max(max, r.length), 0),
+    [rows],
+  );
+
+  // Column names shown in the mapping selects
+  const columnLabels = useMemo(
+    () =>
+      Array.from({ length: columnCount }, (_, i) => {
+        const header = hasHeader ? rows[0]?.[i]?.trim() : '';
+        return header ? header : `Sütun ${i + 1}`;
+      }),
+    [rows, columnCount, hasHeader],
+  );
+
+  const previewRows = useMemo(
+    () =>
+      mapping
+        ? validateImportRows(rows, mapping, {
+            hasHeader,
+            existingGuests,
+            existingDeskNumbers,
+          })
+        : [],
+    [rows, mapping, hasHeader, existingGuests, existingDeskNumbers],
+  );
+
+  const validRows = previewRows.filter(
+    (r) => !r.issues.some((i) => i.severity === 'error'),
+  );
+  const errorCount = previewRows.length - validRows.length;
+  const warningCount = validRows.filter((r) => r.issues.length > 0).length;
+  const missingDesks = Array.from(
+    new Set(
+      validRows
+        .map((r) => r.guest.deskNo)
+        .filter((deskNo) => !existingDeskNumbers.includes(deskNo)),
+    ),
+  ).sort((a, b) => a - b);
+  // Rows for desks that will not be created are skipped
+  const importableRows =
+    createMissingDesks || missingDesks.length === 0
+      ? validRows
+      : validRows.filter((r) => existingDeskNumbers.includes(r.guest.deskNo));
+
+  const reset = () => {
+    setStep('file');
+    setFileName('');
+    setRows([]);
+    setHasHeader(true);
+    setMapping(null);
+    setCreateMissingDesks(true);
+    setFileError(null);
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) reset();
+    onOpenChange(nextOpen);
+  };
+
+  const handleFile = async (file: File) => {
+    setIsReading(true);
+    setFileError(null);
+    try {
+      const parsed = await readImportFile(file);
+      if (parsed.length === 0) {
+        setFileError('Dosyada veri bulunamadı.');
+        return;
+      }
+      setFileName(file.name);
+      setRows(parsed);
+      setMapping(guessColumnMapping(parsed[0]));
+      setStep('mapping');
+    } catch (error) {
+      console.error('Failed to read import file:', error);
+      setFileError(error instanceof Error ? error.message : 'Dosya okunamadı.');
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (importableRows.length === 0) return;
+    setIsImporting(true);
+    try {
+      await onImport(
+        importableRows.map((r) => r.guest),
+        createMissingDesks ? missingDesks : [],
+      );
+      handleOpenChange(false);
+    } catch (error) {
+      console.error('Failed to import guests:', error);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const canPreview =
+    mapping !== null && mapping.fullName !== null && mapping.deskNo !== null;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-2xl bg-white border-slate-200">
+        <DialogHeader>
+          <DialogTitle className="text-lg font-semibold text-slate-800 flex items-center gap-2">
+            <UploadSimple weight="bold" className="w-5 h-5 text-indigo-600" />
+            Misafir Listesi İçe Aktar
+          </DialogTitle>
+          <DialogDescription className="text-slate-500 text-sm">
+            {step === 'file' && 'CSV veya Excel (.xlsx) dosyası seçin.'}
+            {step === 'mapping' &&
+              `${fileName}: sütunları misafir alanlarıyla eşleştirin.`}
+            {step === 'preview' &&
+              'Satırları kontrol edin. Hatalı satırlar atlanır.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Step 1: file */}
+        {step === 'file' && (
+          <div className="py-3">
+            <label className="flex flex-col items-center justify-center gap-2 p-8 border-2 border-dashed border-slate-200 rounded-xl cursor-pointer hover:border-indigo-300 hover:bg-indigo-50/30 transition-colors">
+              {isReading ? (
+                <SpinnerGap
+                  weight="bold"
+                  className="w-8 h-8 text-indigo-500 animate-spin"
+                />
+              ) : (
+                <FileArrowUp
+                  weight="duotone"
+                  className="w-8 h-8 text-slate-400"
+                />
+              )}
+              <span className="text-sm font-medium text-slate-700">
+                Dosya seçin
+              </span>
+              <span className="text-xs text-slate-500">.csv, .xlsx</span>
+              <input
+                type="file"
+                accept=".csv,.txt,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+                className="hidden"
+                disabled={isReading}
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) handleFile(file);
+                  e.target.value = '';
+                }}
+              />
+            </label>
+            {fileError && (
+              <p className="mt-3 text-sm text-rose-600 flex items-center gap-1.5">
+                <WarningCircle weight="bold" className="w-4 h-4" />
+                {fileError}
+              </p>
+            )}
+          </div>
+        )}
+
+        {/* Step 2: column mapping */}
+        {step === 'mapping' && mapping && (
+          <div className="space-y-4 py-3">
+            <label className="flex items-center gap-2 text-sm text-slate-700">
+              <input
+                type="checkbox"
+                checked={hasHeader}
+                onChange={(e) => setHasHeader(e.target.checked)}
+                className="rounded border-slate-300"
+              />
+              İlk satır başlık
+            </label>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              {IMPORT_FIELDS.map((field) => (
+                <div key={field}>
+                  <label
+                    htmlFor={`map-${field}`}
+                    className="text-sm font-medium text-slate-700 mb-1.5 block"
+                  >
+                    {FIELD_LABELS[field]}
+                  </label>
+                  <select
+                    id={`map-${field}`}
+                    value={mapping[field] ?? ''}
+                    onChange={(e) =>
+                      setMapping({
+                        ...mapping,
+                        [field]:
+                          e.target.value === ''
+                            ? null
+                            : parseInt(e.target.value),
+                      })
+                    }
+                    className="w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                  >
+                    <option value="">— Yok —</option>
+                    {columnLabels.map((label, index) => (
+                      <option key={index} value={index}>
+                        {label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+
+            <p className="text-xs text-slate-500">
+              {hasHeader ? rows.length - 1 : rows.length} satır bulundu. Kişi
+              sayısı boşsa 1, hediye sayısı boşsa 0 kabul edilir.
+            </p>
+          </div>
+        )}
+
+        {/* Step 3: validation preview */}
+        {step === 'preview' && (
+          <div className="space-y-3 py-3">
+            <div className="flex flex-wrap gap-2 text-xs">
+              <span className="inline-flex items-center gap-1 px-2 py-1 rounded-md bg-emerald-50 text-emerald-700">
+                <CheckCircle weight="bold" className="w-3.5 h-3.5" />
+                {importableRows.length} aktarılacak
+              </span>
+              {warningCount > 0 && (
+                <span className="inline-flex items-center gap-1 px-2 py-1 rounded-md bg-amber-50 text-amber-700">
+                  <Warning weight="bold" className="w-3.5 h-3.5" />
+                  {warningCount} uyarı
+                </span>
+              )}
+              {errorCount > 0 && (
+                <span className="inline-flex items-center gap-1 px-2 py-1 rounded-md bg-rose-50 text-rose-700">
+                  <WarningCircle weight="bold" className="w-3.5 h-3.5" />
+                  {errorCount} hatalı satır atlanacak
+                </span>
+              )}
+            </div>
+
+            {missingDesks.length > 0 && (
+              <label className="flex items-start gap-2 p-2.5 rounded-lg bg-amber-50 border border-amber-200 text-sm text-amber-800">
+                <input
+                  type="checkbox"
+                  checked={createMissingDesks}
+                  onChange={(e) => setCreateMissingDesks(e.target.checked)}
+                  className="mt-0.5 rounded border-amber-300"
+                />
+                <span>
+                  Eksik masaları oluştur ({missingDesks.join(', ')})
+                  {!createMissingDesks && (
+                    <span className="block text-xs text-amber-700">
+                      Bu masalardaki misafirler atlanacak.
+                    </span>
+                  )}
+                </span>
+              </label>
+            )}
+
+            <div className="max-h-80 overflow-auto border border-slate-100 rounded-lg">
+              <table className="w-full text-xs">
+                <thead className="bg-slate-50 text-slate-500 sticky top-0">
+                  <tr>
+                    <th className="px-2 py-1.5 text-left font-medium">#</th>
+                    <th className="px-2 py-1.5 text-left font-medium">İsim</th>
+                    <th className="px-2 py-1.5 text-center font-medium">
+                      Kişi
+                    </th>
+                    <th className="px-2 py-1.5 text-center font-medium">
+                      Masa
+                    </th>
+                    <th className="px-2 py-1.5 text-center font-medium">
+                      Hediye
+                    </th>
+                    <th className="px-2 py-1.5 text-left font-medium">Durum</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {previewRows.map((row) => {
+                    const hasError = row.issues.some(
+                      (i) => i.severity === 'error',
+                    );
+                    return (
+                      <tr
+                        key={row.rowNumber}
+                        className={hasError ? 'bg-rose-50/50' : undefined}
+                      >
+                        <td className="px-2 py-1.5 text-slate-400">
+                          {row.rowNumber}
+                        </td>
+                        <td className="px-2 py-1.5 text-slate-700">
+                          {row.guest.fullName || '—'}
+                        </td>
+                        <td className="px-2 py-1.5 text-center text-slate-600">
+                          {Number.isNaN(row.guest.personCount)
+                            ? '—'
+                            : row.guest.personCount}
+                        </td>
+                        <td className="px-2 py-1.5 text-center text-slate-600">
+                          {Number.isNaN(row.guest.deskNo)
+                            ? '—'
+                            : row.guest.deskNo}
+                        </td>
+                        <td className="px-2 py-1.5 text-center text-slate-600">
+                          {Number.isNaN(row.guest.giftCount)
+                            ? '—'
+                            : row.guest.giftCount}
+                        </td>
+                        <td className="px-2 py-1.5">
+                          {row.issues.length === 0 ? (
+                            <span className="text-emerald-600">Tamam</span>
+                          ) : (
+                            <ul className="space-y-0.5">
+                              {row.issues.map((issue, index) => (
+                                <li
+                                  key={index}
+                                  className={
+                                    issue.severity === 'error'
+                                      ? 'text-rose-600'
+                                      : 'text-amber-600'
+                                  }
+                                >
+                                  {issue.message}
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          {step === 'file' ? (
+            <Button
+              type="button"
+              variant="ghost"
+              onClick={() => handleOpenChange(false)}
+              className="text-slate-600"
+            >
+              İptal
+            </Button>
+          ) : (
+            <Button
+              type="button"
+              variant="ghost"
+              onClick={() => setStep(step === 'preview' ? 'mapping' : 'file')}
+              disabled={isImporting}
+              className="text-slate-600"
+            >
+              Geri
+            </Button>
+          )}
+          {step === 'mapping' && (
+            <Button
+              type="button"
+              onClick={() => setStep('preview')}
+              disabled={!canPreview}
+              className="bg-indigo-600 hover:bg-indigo-700 text-white"
+            >
+              Önizle
+            </Button>
+          )}
+          {step === 'preview' && (
+            <Button
+              type="button"
+              onClick={handleImport}
+              disabled={isImporting || importableRows.length === 0}
+              className="bg-indigo-600 hover:bg-indigo-700 text-white"
+            >
+              {isImporting ? (
+                <SpinnerGap weight="bold" className="w-4 h-4 animate-spin" />
+              ) : (
+                <>
+                  <UploadSimple weight="bold" className="w-4 h-4 mr-1.5" />
+                  {importableRows.length} Misafiri Aktar
+                </>
+              )}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,143 @@
+import { useState } from 'react';
+import {
+  CloudArrowUp,
+  Warning,
+  ArrowClockwise,
+  Trash,
+  SpinnerGap,
+} from '@phosphor-icons/react';
+import type { OutboxEntry, OutboxOperation } from '@/lib/supabase';
+
+interface OutboxStatusProps {
+  entries: OutboxEntry[];
+  pendingCount: number;
+  failedCount: number;
+  isSyncing: boolean;
+  onFlush: () => void;
+  onRetryFailed: () => void;
+  onDiscard: (id: string) => void;
+}
+
+// Short Turkish description of a queued operation
+function describeOperation(op: OutboxOperation): string {
+  switch (op.type) {
+    case 'create_guest':
+      return `Misafir ekle: ${op.guest.full_name}`;
+    case 'create_guests':
+      return `${op.guests.length} misafir içe aktar`;
+    case 'update_guest':
+      return `Misafir güncelle (#${op.id})`;
+    case 'delete_guest':
+      return `Misafir sil (#${op.id})`;
+    case 'update_guest_order':
+      return 'Masa sıralaması';
+    case 'create_fixed_object':
+      return `Nesne ekle: ${op.object.name}`;
+    case 'update_fixed_object':
+      return 'Nesne güncelle';
+    case 'delete_fixed_object':
+      return 'Nesne sil';
+    case 'create_desk':
+      return `Masa ${op.deskNo} oluştur`;
+    case 'update_desk_position':
+      return `Masa ${op.deskNo} konumu`;
+    case 'update_desk':
+      return `Masa ${op.deskNo} güncelle`;
+    case 'delete_desk':
+      return `Masa ${op.deskNo} sil`;
+    case 'update_setting':
+      return 'Ayar güncelle';
+  }
+}
+
+export function OutboxStatus({
+  entries,
+  pendingCount,
+  failedCount,
+  isSyncing,
+  onFlush,
+  onRetryFailed,
+  onDiscard,
+}: OutboxStatusProps) {
+  const [showFailed, setShowFailed] = useState(false);
+
+  if (pendingCount === 0 && failedCount === 0) return null;
+
+  const failedEntries = entries.filter((e) => e.status === 'failed');
+
+  return (
+    <div className="relative inline-flex items-center gap-1">
+      {pendingCount > 0 && (
+        <button
+          onClick={onFlush}
+          className="inline-flex items-center gap-1 text-xs text-amber-700 bg-amber-50 px-1.5 py-0.5 rounded hover:bg-amber-100"
+          title="Bekleyen değişiklikleri şimdi gönder"
+        >
+          {isSyncing ? (
+            <SpinnerGap weight="bold" className="w-3 h-3 animate-spin" />
+          ) : (
+            <CloudArrowUp weight="bold" className="w-3 h-3" />
+          )}
+          {pendingCount} bekliyor
+        </button>
+      )}
+      {failedCount > 0 && (
+        <button
+          onClick={() => setShowFailed(!showFailed)}
+          className="inline-flex items-center gap-1 text-xs text-rose-700 bg-rose-50 px-1.5 py-0.5 rounded hover:bg-rose-100"
+          title="Kaydedilemeyen değişiklikler"
+        >
+          <Warning weight="bold" className="w-3 h-3" />
+          {failedCount} hata
+        </button>
+      )}
+
+      {/* Failed entries popover */}
+      {showFailed && failedCount > 0 && (
+        <div className="absolute left-0 top-full mt-1 z-50 w-72 bg-white rounded-lg shadow-lg border border-slate-200 p-2 space-y-1">
+          <div className="flex items-center justify-between px-1 pb-1 border-b border-slate-100">
+            <span className="text-xs font-semibold text-slate-700">
+              Kaydedilemeyenler
+            </span>
+            <button
+              onClick={() => {
+                onRetryFailed();
+                setShowFailed(false);
+              }}
+              className="inline-flex items-center gap-1 text-xs text-indigo-600 hover:text-indigo-700"
+            >
+              <ArrowClockwise weight="bold" className="w-3 h-3" />
+              Tümünü dene
+            </button>
+          </div>
+          <div className="max-h-60 overflow-y-auto space-y-1">
+            {failedEntries.map((entry) => (
+              <div
+                key={entry.id}
+                className="flex items-start gap-2 p-1.5 rounded-md bg-rose-50/50"
+              >
+                <div className="flex-1 min-w-0">
+                  <p className="text-xs font-medium text-slate-700 truncate">
+                    {describeOperation(entry.operation)}
+                  </p>
+                  {entry.error && (
+                    <p className="text-[11px] text-rose-600 line-clamp-2">
+                      {entry.error}
+                    </p>
+                  )}
+                </div>
+                <button
+                  onClick={() => onDiscard(entry.id)}
+                  className="shrink-0 p-1 rounded text-slate-400 hover:text-rose-600 hover:bg-rose-100"
+                  title="Vazgeç"
+                >
+                  <Trash weight="bold" className="w-3 h-3" />
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
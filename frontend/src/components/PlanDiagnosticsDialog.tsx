@@ -0,0 +1,118 @@
+import { useMemo } from 'react';
+import { Stethoscope, CheckCircle, MapPin } from '@phosphor-icons/react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import type { Guest } from '@/lib/supabase';
+import {
+  type PlanIssue,
+  type PlanIssueKind,
+  PLAN_ISSUE_LABELS,
+} from '@/lib/planDiagnostics';
+
+interface PlanDiagnosticsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  issues: PlanIssue[];
+  guests: Guest[];
+  onSelectGuest: (guest: Guest) => void;
+  // Show a desk on the floor plan
+  onFocusDesk: (deskNo: number) => void;
+}
+
+// Problems found in the whole seating plan, grouped by kind
+export function PlanDiagnosticsDialog({
+  open,
+  onOpenChange,
+  issues,
+  guests,
+  onSelectGuest,
+  onFocusDesk,
+}: PlanDiagnosticsDialogProps) {
+  const guestById = useMemo(
+    () => new Map(guests.map((g) => [g.id, g])),
+    [guests],
+  );
+
+  const groups = useMemo(() => {
+    const byKind = new Map<PlanIssueKind, PlanIssue[]>();
+    issues.forEach((issue) => {
+      byKind.set(issue.kind, [...(byKind.get(issue.kind) ?? []), issue]);
+    });
+    return [...byKind.entries()];
+  }, [issues]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg bg-white border-slate-200 max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-lg font-semibold text-slate-800 flex items-center gap-2">
+            <Stethoscope weight="bold" className="w-5 h-5 text-indigo-600" />
+            Plan Kontrolü
+          </DialogTitle>
+          <DialogDescription className="text-slate-500 text-sm">
+            {issues.length > 0
+              ? `${issues.length} olası sorun bulundu`
+              : 'Yerleşim planı kontrol edildi'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {issues.length === 0 ? (
+          <div className="flex flex-col items-center gap-2 py-8 text-sm text-slate-500">
+            <CheckCircle weight="fill" className="w-8 h-8 text-emerald-500" />
+            Sorun bulunamadı
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {groups.map(([kind, kindIssues]) => (
+              <div key={kind} className="space-y-1.5">
+                <p className="text-xs font-semibold text-slate-500 uppercase tracking-wide">
+                  {PLAN_ISSUE_LABELS[kind]} ({kindIssues.length})
+                </p>
+                <ul className="divide-y divide-slate-100 rounded-lg border border-slate-200">
+                  {kindIssues.map((issue) => (
+                    <li key={issue.id} className="px-3 py-2 space-y-1.5">
+                      <p className="text-sm text-slate-700">{issue.message}</p>
+                      <div className="flex flex-wrap gap-1">
+                        {issue.deskNos.map((deskNo) => (
+                          <button
+                            key={deskNo}
+                            onClick={() => onFocusDesk(deskNo)}
+                            className="inline-flex items-center gap-1 px-2 py-0.5 rounded-md text-xs font-medium text-amber-800 bg-amber-50 hover:bg-amber-100"
+                            title="Planda göster"
+                          >
+                            <MapPin weight="bold" className="w-3 h-3" />
+                            Masa {deskNo}
+                          </button>
+                        ))}
+                        {issue.guestIds.map((id) => {
+                          const guest = guestById.get(id);
+                          if (!guest) return null;
+                          return (
+                            <button
+                              key={id}
+                              onClick={() => onSelectGuest(guest)}
+                              className="px-2 py-0.5 rounded-md text-xs text-slate-600 bg-slate-100 hover:bg-indigo-50 hover:text-indigo-700"
+                            >
+                              {guest.full_name}
+                              {issue.kind !== 'missing_desk' &&
+                                ` · Masa ${guest.desk_no}`}
+                            </button>
+                          );
+                        })}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
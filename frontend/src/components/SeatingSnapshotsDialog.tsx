@@ -0,0 +1,307 @@
+import { useState, useMemo } from 'react';
+import {
+  BookmarksSimple,
+  FloppyDisk,
+  ArrowCounterClockwise,
+  ArrowRight,
+  Trash,
+  SpinnerGap,
+} from '@phosphor-icons/react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import type {
+  Guest,
+  FixedObjectDB,
+  SeatingSnapshot,
+  SeatingSnapshotData,
+} from '@/lib/supabase';
+import {
+  captureSeatingSnapshot,
+  getSnapshotDiff,
+  type SnapshotGuestMove,
+} from '@/lib/seatingSnapshots';
+import { useSeatingSnapshots } from '@/hooks/useSeatingSnapshots';
+
+interface SeatingSnapshotsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  guests: Guest[];
+  tablePositions: Record<number, { x: number; y: number }>;
+  fixedObjects: FixedObjectDB[];
+  onRestore: (snapshot: SeatingSnapshotData) => Promise<void>;
+}
+
+function formatSnapshotDate(date: string): string {
+  return new Date(date).toLocaleString('tr-TR', {
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+// Guests that moved, grouped by the pair of desks
+function groupMoves(moves: SnapshotGuestMove[]) {
+  const groups = new Map<string, SnapshotGuestMove[]>();
+  moves.forEach((move) => {
+    const key = `${move.snapshotDeskNo}-${move.currentDeskNo}`;
+    groups.set(key, [...(groups.get(key) ?? []), move]);
+  });
+  return [...groups.values()].sort(
+    (a, b) =>
+      a[0].snapshotDeskNo - b[0].snapshotDeskNo ||
+      a[0].currentDeskNo - b[0].currentDeskNo,
+  );
+}
+
+// Save the seating plan under a name, compare it with now and go back
+export function SeatingSnapshotsDialog({
+  open,
+  onOpenChange,
+  guests,
+  tablePositions,
+  fixedObjects,
+  onRestore,
+}: SeatingSnapshotsDialogProps) {
+  const { snapshots, saveSnapshot, deleteSnapshot } = useSeatingSnapshots();
+  const [name, setName] = useState('');
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [error, setError] = useState('');
+
+  const selected: SeatingSnapshot | null =
+    snapshots.find((s) => s.id === selectedId) ?? null;
+
+  const diff = useMemo(
+    () =>
+      selected
+        ? getSnapshotDiff(selected.data, guests, tablePositions, fixedObjects)
+        : null,
+    [selected, guests, tablePositions, fixedObjects],
+  );
+
+  const isUnchanged =
+    !!diff &&
+    diff.moves.length === 0 &&
+    diff.movedDeskNos.length === 0 &&
+    diff.changedFixedObjects === 0;
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = name.trim() || `Plan ${snapshots.length + 1}`;
+
+    setIsSaving(true);
+    setError('');
+    const created = await saveSnapshot(
+      trimmed,
+      captureSeatingSnapshot(guests, tablePositions, fixedObjects),
+    );
+    setIsSaving(false);
+
+    if (created) {
+      setName('');
+    } else {
+      setError('Kaydedilemedi. Bağlantınızı kontrol edin.');
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!selected) return;
+    setIsRestoring(true);
+    try {
+      await onRestore(selected.data);
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const handleDelete = async (id: number) => {
+    setError('');
+    if (await deleteSnapshot(id)) {
+      if (selectedId === id) setSelectedId(null);
+    } else {
+      setError('Silinemedi. Bağlantınızı kontrol edin.');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg bg-white border-slate-200 max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-lg font-semibold text-slate-800 flex items-center gap-2">
+            <BookmarksSimple
+              weight="bold"
+              className="w-5 h-5 text-indigo-600"
+            />
+            Yerleşim Planları
+          </DialogTitle>
+          <DialogDescription className="text-slate-500 text-sm">
+            Masaları değiştirmeden önce planı kaydedin, sonra karşılaştırıp geri
+            dönün.
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Save */}
+        <form onSubmit={handleSave} className="flex items-center gap-2">
+          <Input
+            placeholder={`Plan ${snapshots.length + 1}`}
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className="h-9 flex-1 bg-slate-50 border-slate-200"
+          />
+          <Button
+            type="submit"
+            size="sm"
+            disabled={isSaving}
+            className="h-9 bg-indigo-600 hover:bg-indigo-700 text-white"
+          >
+            {isSaving ? (
+              <SpinnerGap weight="bold" className="w-4 h-4 animate-spin" />
+            ) : (
+              <>
+                <FloppyDisk weight="bold" className="w-4 h-4 mr-1.5" />
+                Kaydet
+              </>
+            )}
+          </Button>
+        </form>
+
+        {error && <p className="text-xs text-rose-500">{error}</p>}
+
+        {/* Snapshots */}
+        {snapshots.length === 0 ? (
+          <p className="text-center py-6 text-sm text-slate-400">
+            Henüz kaydedilmiş plan yok
+          </p>
+        ) : (
+          <ul className="divide-y divide-slate-100 rounded-lg border border-slate-200">
+            {snapshots.map((snapshot) => (
+              <li
+                key={snapshot.id}
+                className={`flex items-center gap-2 px-3 py-2 cursor-pointer transition-colors ${
+                  snapshot.id === selectedId
+                    ? 'bg-indigo-50'
+                    : 'hover:bg-slate-50'
+                }`}
+                onClick={() =>
+                  setSelectedId(snapshot.id === selectedId ? null : snapshot.id)
+                }
+              >
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-slate-700 truncate">
+                    {snapshot.name}
+                  </p>
+                  <p className="text-xs text-slate-400">
+                    {formatSnapshotDate(snapshot.created_at)} ·{' '}
+                    {snapshot.data.guests.length} misafir
+                  </p>
+                </div>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleDelete(snapshot.id);
+                  }}
+                  className="p-1.5 rounded-md text-slate-400 hover:text-rose-600 hover:bg-rose-50"
+                  title="Planı sil"
+                >
+                  <Trash weight="bold" className="w-4 h-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {/* Compare with now */}
+        {selected && diff && (
+          <div className="p-3 bg-slate-50 rounded-xl border border-slate-200 space-y-3">
+            <p className="text-sm font-medium text-slate-700">
+              "{selected.name}" ile şimdiki plan
+            </p>
+
+            {isUnchanged ? (
+              <p className="text-xs text-slate-500">
+                Yerleşim kaydedildiği gibi.
+              </p>
+            ) : (
+              <div className="flex flex-wrap gap-1.5 text-xs">
+                <span className="px-2 py-1 rounded-md bg-amber-100 text-amber-700">
+                  {diff.moves.length} misafir masa değiştirdi
+                </span>
+                {diff.movedDeskNos.length > 0 && (
+                  <span className="px-2 py-1 rounded-md bg-slate-200 text-slate-600">
+                    {diff.movedDeskNos.length} masanın yeri değişti
+                  </span>
+                )}
+                {diff.changedFixedObjects > 0 && (
+                  <span className="px-2 py-1 rounded-md bg-slate-200 text-slate-600">
+                    {diff.changedFixedObjects} sabit nesne değişti
+                  </span>
+                )}
+              </div>
+            )}
+
+            {/* Guests that moved between desks */}
+            {diff.moves.length > 0 && (
+              <div className="space-y-1.5 max-h-56 overflow-y-auto">
+                {groupMoves(diff.moves).map((group) => (
+                  <div
+                    key={`${group[0].snapshotDeskNo}-${group[0].currentDeskNo}`}
+                    className="flex items-start gap-2"
+                  >
+                    <div className="flex items-center gap-1 shrink-0 text-xs font-semibold">
+                      <span className="px-1.5 py-0.5 rounded bg-white border border-slate-200 text-slate-600">
+                        Masa {group[0].snapshotDeskNo}
+                      </span>
+                      <ArrowRight className="w-3 h-3 text-slate-400" />
+                      <span className="px-1.5 py-0.5 rounded bg-amber-50 border border-amber-200 text-amber-700">
+                        Masa {group[0].currentDeskNo}
+                      </span>
+                    </div>
+                    <p className="text-xs text-slate-600 pt-0.5">
+                      {group.map((move) => move.fullName).join(', ')}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {(diff.addedGuests.length > 0 || diff.removedGuests.length > 0) && (
+              <p className="text-xs text-slate-400">
+                {diff.addedGuests.length > 0 &&
+                  `Sonradan eklenen: ${diff.addedGuests.length} misafir (yerinde kalır). `}
+                {diff.removedGuests.length > 0 &&
+                  `Silinen: ${diff.removedGuests.length} misafir (geri gelmez).`}
+              </p>
+            )}
+
+            <Button
+              onClick={handleRestore}
+              disabled={isRestoring}
+              className="w-full bg-indigo-600 hover:bg-indigo-700 text-white"
+            >
+              {isRestoring ? (
+                <SpinnerGap weight="bold" className="w-4 h-4 animate-spin" />
+              ) : (
+                <>
+                  <ArrowCounterClockwise
+                    weight="bold"
+                    className="w-4 h-4 mr-1.5"
+                  />
+                  Bu plana dön
+                </>
+              )}
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,104 @@
+import { useState } from 'react';
+import { EnvelopeSimple, SpinnerGap, CheckCircle } from '@phosphor-icons/react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { sendSignInLink } from '@/lib/supabase';
+import logoImage from '@/assets/nisan_logo.png';
+
+// Shown instead of the app until the user signs in with an email link
+export function SignInScreen() {
+  const [email, setEmail] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = email.trim();
+    if (!trimmed) return;
+
+    setIsSending(true);
+    setError('');
+    const sendError = await sendSignInLink(trimmed);
+    setIsSending(false);
+
+    if (sendError) {
+      console.error('Failed to send sign-in link:', sendError);
+      setError('Giriş bağlantısı gönderilemedi. Tekrar deneyin.');
+    } else {
+      setSentTo(trimmed);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-50 flex items-center justify-center p-4">
+      <div className="w-full max-w-sm bg-white rounded-2xl border border-slate-200 shadow-sm p-6 space-y-5">
+        <div className="flex flex-col items-center text-center gap-2">
+          <img src={logoImage} alt="Logo" className="w-14 h-14 object-fit" />
+          <h1 className="text-xl font-bold text-slate-800 tracking-tight">
+            Sena & Ömer
+          </h1>
+          <p className="text-sm text-slate-500">
+            Devam etmek için e-posta adresinizle giriş yapın.
+          </p>
+        </div>
+
+        {sentTo ? (
+          <div className="flex items-start gap-3 p-3 rounded-xl border bg-emerald-50 border-emerald-200">
+            <CheckCircle
+              weight="fill"
+              className="w-6 h-6 text-emerald-500 shrink-0"
+            />
+            <div className="min-w-0">
+              <p className="text-sm font-medium text-slate-800">
+                Bağlantı gönderildi
+              </p>
+              <p className="text-xs text-slate-600 break-words">
+                {sentTo} adresine gelen bağlantıya tıklayın.
+              </p>
+              <button
+                onClick={() => setSentTo(null)}
+                className="text-xs text-indigo-600 hover:text-indigo-700 mt-1"
+              >
+                Başka bir adres kullan
+              </button>
+            </div>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-3">
+            <div className="relative">
+              <EnvelopeSimple
+                weight="bold"
+                className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400"
+              />
+              <Input
+                type="email"
+                placeholder="ornek@eposta.com"
+                value={email}
+                onChange={(e) => {
+                  setEmail(e.target.value);
+                  setError('');
+                }}
+                className="pl-9 h-11 bg-slate-50 border-slate-200"
+                autoFocus
+                required
+              />
+            </div>
+            {error && <p className="text-xs text-rose-500">{error}</p>}
+            <Button
+              type="submit"
+              disabled={isSending || !email.trim()}
+              className="w-full h-11 bg-indigo-600 hover:bg-indigo-700 text-white"
+            >
+              {isSending ? (
+                <SpinnerGap weight="bold" className="w-4 h-4 animate-spin" />
+              ) : (
+                'Giriş bağlantısı gönder'
+              )}
+            </Button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -12,7 +12,8 @@ interface StatsBarProps {
   totalGifts: number;
   totalTables: number;
   totalInvitations: number;
-  attendedCount: number;
+  // People who arrived, not invitations
+  arrivedPeople: number;
   hasNotesCount: number;
 }
 
@@ -21,7 +22,7 @@ export function StatsBar({
   totalGifts,
   totalTables,
   totalInvitations,
-  attendedCount,
+  arrivedPeople,
   hasNotesCount,
 }: StatsBarProps) {
   const stats = [
@@ -55,7 +56,7 @@ export function StatsBar({
     },
     {
       label: 'Geldi',
-      value: attendedCount,
+      value: `${arrivedPeople}/${totalGuests}`,
       icon: Check,
       color: 'text-emerald-600',
       bg: 'bg-emerald-50',
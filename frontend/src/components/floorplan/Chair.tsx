@@ -1,16 +1,44 @@
 import { useState } from 'react';
 import type { Guest } from '@/lib/supabase';
+import { getArrivedCount, isPartiallyArrived } from '@/lib/guestStats';
 
 interface ChairProps {
     guest: Guest;
+    // The guest or one of their companions
+    personName: string;
+    // Whether the person on this seat has arrived
+    isArrived: boolean;
+    deskNo: number;
+    seat: number;
     angle: number;
     x: number;
     y: number;
+    // Colour of the guest's group; null for guests outside any group,
+    // undefined when chairs are coloured by attendance
+    groupColor?: string | null;
+    isDragged?: boolean;
+    isDropTarget?: boolean;
+    // Set when the person can be dragged to another chair
+    onDragStart?: (event: React.PointerEvent) => void;
 }
 
-export function Chair({ guest, angle, x, y }: ChairProps) {
+export function Chair({
+    guest,
+    personName,
+    isArrived,
+    deskNo,
+    seat,
+    angle,
+    x,
+    y,
+    groupColor,
+    isDragged = false,
+    isDropTarget = false,
+    onDragStart,
+}: ChairProps) {
     const [showTooltip, setShowTooltip] = useState(false);
-    const isAttended = guest.is_attended === true;
+    const isPartial = isPartiallyArrived(guest);
+    const isGroupMode = groupColor !== undefined;
 
     // Get initials from full name
     const getInitials = (name: string) => {
@@ -26,7 +54,9 @@ export function Chair({ guest, angle, x, y }: ChairProps) {
 
     return (
         <div
-            className="absolute flex items-center justify-center"
+            data-desk-no={deskNo}
+            data-seat={seat}
+            className={`absolute flex items-center justify-center ${onDragStart ? 'touch-none' : ''} ${isDragged ? 'opacity-40' : ''}`}
             style={{
                 left: `calc(50% + ${x}px)`,
                 top: `calc(50% + ${y}px)`,
@@ -36,21 +66,35 @@ export function Chair({ guest, angle, x, y }: ChairProps) {
             onMouseLeave={() => setShowTooltip(false)}
             onTouchStart={() => setShowTooltip(true)}
             onTouchEnd={() => setShowTooltip(false)}
+            onPointerDown={(e) => {
+                if (!onDragStart || e.button !== 0) return;
+                // Keep the table itself from being dragged
+                e.stopPropagation();
+                onDragStart(e);
+            }}
         >
             {/* Chair visual */}
             <div
                 className={`
           w-7 h-7 rounded-full flex items-center justify-center
           text-[10px] font-bold shadow-sm border-2 transition-all duration-200
-          cursor-pointer select-none
-          ${isAttended
-                        ? 'bg-emerald-500 border-emerald-600 text-white'
-                        : 'bg-slate-200 border-slate-300 text-slate-600'
+          ${onDragStart ? 'cursor-grab' : 'cursor-pointer'} select-none
+          ${isDropTarget ? 'ring-2 ring-indigo-500 ring-offset-1 scale-110' : ''}
+          ${isGroupMode
+                        ? `${groupColor ? 'text-white' : 'bg-slate-200 border-slate-300 text-slate-600'} ${isArrived ? 'ring-2 ring-emerald-500 ring-offset-1' : ''}`
+                        : isArrived
+                            ? 'bg-emerald-500 border-emerald-600 text-white'
+                            : isPartial
+                                ? 'bg-amber-50 border-amber-300 text-amber-700'
+                                : 'bg-slate-200 border-slate-300 text-slate-600'
                     }
         `}
-                style={{ transform: `rotate(${-angle}rad)` }}
+                style={{
+                    transform: `rotate(${-angle}rad)`,
+                    ...(groupColor && { backgroundColor: groupColor, borderColor: groupColor }),
+                }}
             >
-                {getInitials(guest.full_name)}
+                {getInitials(personName)}
             </div>
 
             {/* Tooltip */}
@@ -61,8 +105,15 @@ export function Chair({ guest, angle, x, y }: ChairProps) {
                         transform: `rotate(${-angle}rad) translateY(-40px)`,
                     }}
                 >
-                    {guest.full_name}
-                    {isAttended && (
+                    {personName}
+                    {personName !== guest.full_name && (
+                        <span className="ml-1 text-slate-400">· {guest.full_name}</span>
+                    )}
+                    {isPartial ? (
+                        <span className="ml-1 text-amber-300">
+                            {getArrivedCount(guest)}/{guest.person_count}
+                        </span>
+                    ) : guest.is_attended === true && (
                         <span className="ml-1 text-emerald-400">✓</span>
                     )}
                     <div className="absolute left-1/2 -bottom-1 w-2 h-2 bg-slate-800 transform -translate-x-1/2 rotate-45" />
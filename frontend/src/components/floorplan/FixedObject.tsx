@@ -1,16 +1,33 @@
 import { useRef, useState, useEffect, useCallback } from 'react';
-import { motion, useMotionValue } from 'framer-motion';
+import { motion, useMotionValue, useDragControls } from 'framer-motion';
 import { ArrowClockwise, Trash, PencilSimple } from '@phosphor-icons/react';
+import type { FixedObjectType, PlanScale } from '@/lib/supabase';
+import {
+  FIXED_OBJECT_TYPES,
+  getShapeOutline,
+  getPolygonPoints,
+  isRoundObject,
+} from '@/lib/fixedObjectTypes';
+import {
+  normalizeRotation,
+  resizeFromCorner,
+  rotatePoint,
+} from '@/lib/floorPlanGeometry';
+import { getFixedObjectBox } from '@/lib/floorPlanAlignment';
+import { formatSize } from '@/lib/floorPlanUnits';
+import { FIXED_OBJECT_ICONS } from './fixedObjectIcons';
+import { RotationHandle } from './RotationHandle';
 
 export interface FixedObjectData {
   id: string;
-  type: 'rectangle' | 'triangle';
+  type: FixedObjectType;
   name: string;
   x: number;
   y: number;
   width: number;
   height: number;
-  rotation: number; // 0, 90, 180, 270
+  rotation: number; // degrees clockwise
+  points?: [number, number][] | null;
 }
 
 interface FixedObjectProps {
@@ -19,6 +36,17 @@ interface FixedObjectProps {
   onUpdate: (object: FixedObjectData) => void;
   onDelete: (id: string) => void;
   onEditName: (id: string, name: string) => void;
+  // Shows the size in metres in edit mode
+  scale?: PlanScale;
+  // Edit mode: reports the top-left corner while dragging, adjusts where
+  // the object lands (grid and guides) and selects it on tap
+  onDrag?: (position: { x: number; y: number }) => void;
+  snapPosition?: (position: { x: number; y: number }) => {
+    x: number;
+    y: number;
+  };
+  isSelected?: boolean;
+  onSelect?: (id: string) => void;
 }
 
 export function FixedObject({
@@ -27,10 +55,21 @@ export function FixedObject({
   onUpdate,
   onDelete,
   onEditName,
+  scale,
+  onDrag,
+  snapPosition,
+  isSelected = false,
+  onSelect,
 }: FixedObjectProps) {
   const x = useMotionValue(object.x);
   const y = useMotionValue(object.y);
   const isDragging = useRef(false);
+  // Drag is started from React so handles can keep the object still
+  const dragControls = useDragControls();
+  const objectRef = useRef<HTMLDivElement>(null);
+  // Angle shown while the rotation handle is dragged
+  const [previewRotation, setPreviewRotation] = useState<number | null>(null);
+  const rotation = previewRotation ?? object.rotation;
   const [isEditing, setIsEditing] = useState(false);
   const [editName, setEditName] = useState(object.name);
   const [activeCorner, setActiveCorner] = useState<string | null>(null);
@@ -54,10 +93,9 @@ export function FixedObject({
   const handleRotate = (e: React.MouseEvent | React.TouchEvent) => {
     e.stopPropagation();
     e.preventDefault();
-    const newRotation = ((object.rotation + 90) % 360) as 0 | 90 | 180 | 270;
     onUpdate({
       ...object,
-      rotation: newRotation,
+      rotation: normalizeRotation(object.rotation + 90),
     });
   };
 
@@ -67,57 +105,32 @@ export function FixedObject({
     onDelete(object.id);
   };
 
-  // Resize handler - simpler version that works with rotated corners
+  // Zoom of the floor plan, from the size the object is drawn at
+  const getPlanScale = useCallback(() => {
+    const rect = objectRef.current?.getBoundingClientRect();
+    const { halfWidth } = getFixedObjectBox(object);
+    return rect && halfWidth > 0 ? rect.width / (halfWidth * 2) : 1;
+  }, [object]);
+
+  // Resize handler - the opposite corner stays put, also when rotated
   const handleResizeStart = useCallback(
     (corner: string, clientX: number, clientY: number) => {
       setActiveCorner(corner);
 
       const startX = clientX;
       const startY = clientY;
-      const startWidth = object.width;
-      const startHeight = object.height;
-      const startObjX = object.x;
-      const startObjY = object.y;
+      const scale = getPlanScale();
 
       const handleMove = (moveX: number, moveY: number) => {
-        const dx = moveX - startX;
-        const dy = moveY - startY;
-
-        let newWidth = startWidth;
-        let newHeight = startHeight;
-        let newX = startObjX;
-        let newY = startObjY;
-
-        // Simple resize based on corner
-        if (corner.includes('e')) newWidth = startWidth + dx;
-        if (corner.includes('w')) {
-          newWidth = startWidth - dx;
-          newX = startObjX + dx;
-        }
-        if (corner.includes('s')) newHeight = startHeight + dy;
-        if (corner.includes('n')) {
-          newHeight = startHeight - dy;
-          newY = startObjY + dy;
-        }
-
-        // Minimum size
-        newWidth = Math.max(50, newWidth);
-        newHeight = Math.max(50, newHeight);
-
-        // Clamp position if size hit minimum
-        if (newWidth === 50 && corner.includes('w')) {
-          newX = startObjX + startWidth - 50;
-        }
-        if (newHeight === 50 && corner.includes('n')) {
-          newY = startObjY + startHeight - 50;
-        }
-
         onUpdate({
           ...object,
-          width: newWidth,
-          height: newHeight,
-          x: newX,
-          y: newY,
+          ...resizeFromCorner(
+            object,
+            corner,
+            (moveX - startX) / scale,
+            (moveY - startY) / scale,
+            50,
+          ),
         });
       };
 
@@ -148,7 +161,7 @@ export function FixedObject({
       });
       document.addEventListener('touchend', handleEnd);
     },
-    [object, onUpdate],
+    [object, onUpdate, getPlanScale],
   );
 
   const handleMouseDown = useCallback(
@@ -170,83 +183,216 @@ export function FixedObject({
     [handleResizeStart],
   );
 
+  // Drag a corner of a free polygon
+  const handleVertexStart = (e: React.PointerEvent, index: number) => {
+    e.stopPropagation();
+    e.preventDefault();
+    setActiveCorner(`vertex-${index}`);
+
+    const startX = e.clientX;
+    const startY = e.clientY;
+    const startPoints = getPolygonPoints(object);
+    const scale = getPlanScale();
+    const radians = (object.rotation * Math.PI) / 180;
+    const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+    const handleMove = (event: PointerEvent) => {
+      const [px, py] = startPoints[index];
+      // The drag along the polygon's own edges
+      const local = rotatePoint(
+        (event.clientX - startX) / scale,
+        (event.clientY - startY) / scale,
+        -radians,
+      );
+      onUpdate({
+        ...object,
+        points: startPoints.map((point, i) =>
+          i === index
+            ? [
+                clamp(px + local.x / object.width),
+                clamp(py + local.y / object.height),
+              ]
+            : point,
+        ),
+      });
+    };
+
+    const handleEnd = () => {
+      setActiveCorner(null);
+      document.removeEventListener('pointermove', handleMove);
+      document.removeEventListener('pointerup', handleEnd);
+      document.removeEventListener('pointercancel', handleEnd);
+    };
+
+    document.addEventListener('pointermove', handleMove);
+    document.addEventListener('pointerup', handleEnd);
+    document.addEventListener('pointercancel', handleEnd);
+  };
+
+  // New corner halfway along the edge after corner `index`
+  const handleAddVertex = (index: number) => {
+    const points = getPolygonPoints(object);
+    const [ax, ay] = points[index];
+    const [bx, by] = points[(index + 1) % points.length];
+    onUpdate({
+      ...object,
+      points: [
+        ...points.slice(0, index + 1),
+        [(ax + bx) / 2, (ay + by) / 2],
+        ...points.slice(index + 1),
+      ],
+    });
+  };
+
+  const handleRemoveVertex = (index: number) => {
+    const points = getPolygonPoints(object);
+    if (points.length <= 3) return;
+    onUpdate({ ...object, points: points.filter((_, i) => i !== index) });
+  };
+
   const handleSaveName = () => {
     onEditName(object.id, editName);
     setIsEditing(false);
   };
 
   // Toggle controls on tap for mobile
-  const handleTap = () => {
+  const handleTap = (event: PointerEvent) => {
+    // Taps on polygon corners edit the shape instead
+    if ((event.target as HTMLElement).closest('[data-handle]')) return;
     if (isDragEnabled) {
       setShowControls((prev) => !prev);
+      onSelect?.(object.id);
     }
   };
 
-  // Render shape content
-  const renderShapeContent = () => {
-    if (object.type === 'triangle') {
-      return (
-        <div className="w-full h-full flex items-center justify-center relative">
-          <svg
-            viewBox="0 0 100 100"
-            className="w-full h-full"
-            preserveAspectRatio="none"
-          >
-            <polygon
-              points="50,5 95,95 5,95"
-              fill="#f0fdf4"
-              stroke="#86efac"
-              strokeWidth="3"
-            />
-          </svg>
-          <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
-            <span className="text-xs font-medium text-green-700 text-center px-2 select-none line-clamp-2">
-              {object.name}
-            </span>
-          </div>
-        </div>
-      );
-    }
+  const typeInfo =
+    FIXED_OBJECT_TYPES[object.type] ?? FIXED_OBJECT_TYPES.rectangle;
+  const TypeIcon =
+    FIXED_OBJECT_ICONS[object.type] ?? FIXED_OBJECT_ICONS.rectangle;
+  const outline = getShapeOutline(object);
+  // Small objects only show the icon of a venue element, or the name of a
+  // plain shape
+  const isSmall = Math.min(object.width, object.height) < 60;
+  const isVenue = typeInfo.group === 'venue';
 
-    return (
-      <div className="w-full h-full rounded-md bg-blue-50 border-2 border-blue-300 flex items-center justify-center relative">
+  // Top of the drawn object, for the buttons above it
+  const box = getFixedObjectBox({ ...object, rotation });
+  const topEdge = box.y - box.halfHeight;
+
+  // Render shape content
+  const renderShapeContent = () => (
+    <div className="w-full h-full relative">
+      {outline ? (
+        <svg
+          viewBox="0 0 100 100"
+          className="absolute inset-0 w-full h-full overflow-visible"
+          preserveAspectRatio="none"
+        >
+          <polygon
+            points={outline.map((point) => point.join(',')).join(' ')}
+            fill={typeInfo.fill}
+            stroke={typeInfo.stroke}
+            strokeWidth="2"
+            strokeLinejoin="round"
+            vectorEffect="non-scaling-stroke"
+          />
+        </svg>
+      ) : (
         <div
-          className="absolute inset-0 flex items-center justify-center pointer-events-none p-2"
+          className={`absolute inset-0 border-2 ${
+            isRoundObject(object.type) ? 'rounded-full' : 'rounded-md'
+          } ${object.type === 'entrance' || object.type === 'exit' ? 'border-dashed' : ''}`}
           style={{
-            transform: shouldRotateText ? 'rotate(90deg)' : 'none',
+            backgroundColor: typeInfo.fill,
+            borderColor: typeInfo.stroke,
+            // Checkered dance floor
+            ...(object.type === 'dance_floor' && {
+              backgroundImage: `repeating-conic-gradient(${typeInfo.stroke}33 0% 25%, transparent 0% 50%)`,
+              backgroundSize: '40px 40px',
+            }),
           }}
-        >
-          <span className="text-xs font-medium text-blue-700 text-center select-none line-clamp-2">
+        />
+      )}
+      <div
+        className="absolute inset-0 flex flex-col items-center justify-center gap-0.5 pointer-events-none p-2"
+        style={{
+          transform: shouldRotateText ? 'rotate(90deg)' : 'none',
+          color: typeInfo.text,
+        }}
+      >
+        {isVenue && <TypeIcon weight="bold" className="w-5 h-5 shrink-0" />}
+        {!(isVenue && isSmall) && (
+          <span className="text-xs font-medium text-center select-none line-clamp-2">
             {object.name}
           </span>
-        </div>
+        )}
       </div>
-    );
+    </div>
+  );
+
+  // Corner handles of a free polygon: drag to move, double-click to
+  // remove, and the dots between them add a corner
+  const renderVertexHandles = () => {
+    const points = getPolygonPoints(object);
+    return points.map(([px, py], index) => {
+      const [nx, ny] = points[(index + 1) % points.length];
+      return (
+        <div key={index}>
+          <div
+            data-handle
+            onPointerDown={(e) => handleVertexStart(e, index)}
+            onDoubleClick={() => handleRemoveVertex(index)}
+            className={`absolute w-4 h-4 -translate-x-1/2 -translate-y-1/2 bg-teal-500 border-2 border-white rounded-full shadow-md touch-none cursor-move hover:scale-110 transition-transform ${
+              activeCorner === `vertex-${index}` ? 'scale-125' : ''
+            }`}
+            style={{ left: `${px * 100}%`, top: `${py * 100}%` }}
+            title="Köşeyi taşı (silmek için çift tıkla)"
+          />
+          <div
+            data-handle
+            onPointerDown={(e) => e.stopPropagation()}
+            onClick={() => handleAddVertex(index)}
+            className="absolute w-2.5 h-2.5 -translate-x-1/2 -translate-y-1/2 bg-white border-2 border-teal-500 rounded-full shadow-sm cursor-copy hover:scale-125 transition-transform"
+            style={{
+              left: `${((px + nx) / 2) * 100}%`,
+              top: `${((py + ny) / 2) * 100}%`,
+            }}
+            title="Köşe ekle"
+          />
+        </div>
+      );
+    });
   };
 
   return (
     <>
       <motion.div
+        ref={objectRef}
         drag={isDragEnabled && !activeCorner}
+        dragControls={dragControls}
+        dragListener={false}
+        onPointerDown={(e) => {
+          if (isDragEnabled && !activeCorner) dragControls.start(e);
+        }}
         dragMomentum={false}
         dragElastic={0}
         whileDrag={{ scale: 1.02, zIndex: 100 }}
         onDragStart={() => {
           isDragging.current = true;
         }}
+        onDrag={() => onDrag?.({ x: x.get(), y: y.get() })}
         onDragEnd={() => {
+          isDragging.current = false;
           if (isDragEnabled) {
-            onUpdate({
-              ...object,
-              x: x.get(),
-              y: y.get(),
-            });
+            const dropped = { x: x.get(), y: y.get() };
+            const next = snapPosition ? snapPosition(dropped) : dropped;
+            x.set(next.x);
+            y.set(next.y);
+            onUpdate({ ...object, ...next });
           }
-          setTimeout(() => {
-            isDragging.current = false;
-          }, 100);
         }}
         onTap={handleTap}
+        title={object.name}
         className={`absolute touch-none ${isDragEnabled ? 'cursor-grab active:cursor-grabbing' : ''}`}
         style={{
           x,
@@ -254,18 +400,44 @@ export function FixedObject({
           width: object.width,
           height: object.height,
           zIndex: activeCorner ? 100 : 10,
-          transform: `rotate(${object.rotation}deg)`,
+          rotate: rotation,
           transformOrigin: 'center center',
         }}
       >
         {/* Shape content */}
         {renderShapeContent()}
 
+        {isDragEnabled &&
+          object.type === 'polygon' &&
+          (showControls || isSelected) &&
+          renderVertexHandles()}
+
+        {isDragEnabled && (
+          <RotationHandle
+            targetRef={objectRef}
+            rotation={object.rotation}
+            side="bottom"
+            distance={28}
+            onRotate={setPreviewRotation}
+            onRotateEnd={(next) => {
+              setPreviewRotation(null);
+              if (next !== object.rotation) {
+                onUpdate({ ...object, rotation: next });
+              }
+            }}
+          />
+        )}
+
+        {isDragEnabled && isSelected && (
+          <div className="absolute -inset-1.5 rounded-lg border-4 border-sky-500 pointer-events-none" />
+        )}
+
         {/* Resize handles - INSIDE the rotated container so they rotate with object */}
         {isDragEnabled && (
           <>
             {/* NW corner */}
             <div
+              onPointerDown={(e) => e.stopPropagation()}
               onMouseDown={(e) => handleMouseDown(e, 'nw')}
               onTouchStart={(e) => handleTouchStartCorner(e, 'nw')}
               className={`absolute -top-2 -left-2 w-5 h-5 sm:w-4 sm:h-4 bg-indigo-500 border-2 border-white rounded-full shadow-md 
@@ -273,6 +445,7 @@ export function FixedObject({
             />
             {/* NE corner */}
             <div
+              onPointerDown={(e) => e.stopPropagation()}
               onMouseDown={(e) => handleMouseDown(e, 'ne')}
               onTouchStart={(e) => handleTouchStartCorner(e, 'ne')}
               className={`absolute -top-2 -right-2 w-5 h-5 sm:w-4 sm:h-4 bg-indigo-500 border-2 border-white rounded-full shadow-md 
@@ -280,6 +453,7 @@ export function FixedObject({
             />
             {/* SW corner */}
             <div
+              onPointerDown={(e) => e.stopPropagation()}
               onMouseDown={(e) => handleMouseDown(e, 'sw')}
               onTouchStart={(e) => handleTouchStartCorner(e, 'sw')}
               className={`absolute -bottom-2 -left-2 w-5 h-5 sm:w-4 sm:h-4 bg-indigo-500 border-2 border-white rounded-full shadow-md 
@@ -287,6 +461,7 @@ export function FixedObject({
             />
             {/* SE corner */}
             <div
+              onPointerDown={(e) => e.stopPropagation()}
               onMouseDown={(e) => handleMouseDown(e, 'se')}
               onTouchStart={(e) => handleTouchStartCorner(e, 'se')}
               className={`absolute -bottom-2 -right-2 w-5 h-5 sm:w-4 sm:h-4 bg-indigo-500 border-2 border-white rounded-full shadow-md 
@@ -302,11 +477,16 @@ export function FixedObject({
           className="absolute flex items-center gap-2 transition-opacity pointer-events-auto z-50"
           style={{
             left: object.x + object.width / 2,
-            top: object.y - 48,
+            top: topEdge - 48,
             transform: 'translateX(-50%)',
             opacity: showControls || activeCorner ? 1 : 0.7,
           }}
         >
+          {scale && (
+            <span className="px-1.5 py-1 bg-white rounded-md shadow-md border border-slate-200 text-[11px] font-medium text-slate-600 whitespace-nowrap tabular-nums">
+              {formatSize(object.width, object.height, scale)}
+            </span>
+          )}
           <button
             onClick={handleRotate}
             onTouchEnd={handleRotate}
@@ -5,6 +5,8 @@ import {
   useMemo,
   useCallback,
   useState,
+  useEffect,
+  useLayoutEffect,
 } from 'react';
 import {
   TransformWrapper,
@@ -19,17 +21,116 @@ import {
   LockSimpleOpen,
   ArrowCounterClockwise,
   Plus,
+  ArrowUUpLeft,
+  ArrowUUpRight,
+  GridFour,
+  AlignLeft,
+  AlignCenterHorizontal,
+  AlignTop,
+  AlignCenterVertical,
+  ArrowsOutLineHorizontal,
+  ArrowsOutLineVertical,
+  X,
+  MapTrifold,
+  Ruler,
+  DownloadSimple,
+  type Icon,
 } from '@phosphor-icons/react';
 import { Table } from './Table';
 import { TableInfoDialog } from './TableInfoDialog';
 import { FixedObject, type FixedObjectData } from './FixedObject';
-import type { Guest } from '@/lib/supabase';
+import { VenuePlanLayer } from './VenuePlanLayer';
+import { VenuePlanDialog } from './VenuePlanDialog';
+import { MeasureToolbar } from './MeasureToolbar';
+import { FloorPlanExportDialog } from './FloorPlanExportDialog';
+import {
+  type Guest,
+  type Desk,
+  type DeskLayout,
+  type VenuePlan,
+  type PlanScale,
+  DEFAULT_DESK_CAPACITY,
+  DEFAULT_DESK_LAYOUT,
+} from '@/lib/supabase';
+import { getDeskLoads, type CapacityMode } from '@/lib/guestStats';
+import {
+  type GroupColorMode,
+  GROUP_COLOR_MODE_LABELS,
+  getAllGroups,
+} from '@/lib/guestGroups';
+import {
+  getPersonName,
+  getSeatCount,
+  type SeatOccupant,
+} from '@/lib/seatAssignments';
+import {
+  type AlignBox,
+  type AlignmentGuide,
+  type AlignCommand,
+  ALIGN_COMMAND_LABELS,
+  GRID_SIZE,
+  snapToGrid,
+  getTableBox,
+  getFixedObjectBox,
+  getAlignmentSnap,
+  arrangeBoxes,
+} from '@/lib/floorPlanAlignment';
+import { calibrateVenuePlan } from '@/lib/venuePlan';
+import { getTableFootprint } from '@/lib/floorPlanGeometry';
+import {
+  DEFAULT_PLAN_SCALE,
+  formatMetres,
+  parseDecimal,
+  toMetres,
+} from '@/lib/floorPlanUnits';
+import { getNarrowWalkways } from '@/lib/planDiagnostics';
 
 interface TablePosition {
   x: number;
   y: number;
 }
 
+// Person being dragged to another chair or table. Dropped on another
+// table, the whole party moves. seat is null for guests dragged from the
+// table dialog; x and y are where the drag started, in the floor plan's
+// coordinates on screen.
+interface SeatDrag {
+  guest: Guest;
+  deskNo: number;
+  seat: number | null;
+  name: string;
+  x: number;
+  y: number;
+}
+
+// Table (and chair, if any) under the pointer
+interface DropTarget {
+  deskNo: number;
+  seat: number | null;
+}
+
+const ALIGN_COMMAND_ICONS: Record<AlignCommand, Icon> = {
+  left: AlignLeft,
+  centerX: AlignCenterHorizontal,
+  top: AlignTop,
+  centerY: AlignCenterVertical,
+  distributeX: ArrowsOutLineHorizontal,
+  distributeY: ArrowsOutLineVertical,
+};
+
+function isSameGuides(a: AlignmentGuide[], b: AlignmentGuide[]): boolean {
+  return (
+    a.length === b.length &&
+    a.every(
+      (guide, i) =>
+        guide.axis === b[i].axis &&
+        guide.position === b[i].position &&
+        guide.start === b[i].start &&
+        guide.end === b[i].end,
+    )
+  );
+}
+
 interface FloorPlanProps {
   guests: Guest[];
   tablePositions: Record<number, TablePosition>;
@@ -38,15 +139,45 @@ interface FloorPlanProps {
   highlightedDeskNos: number[];
   onToggleAttendance: (guest: Guest) => void;
   onGuestClick: (guest: Guest) => void;
+  // Read-only roles cannot unlock edit mode
+  canEdit?: boolean;
   onReorderGuests?: (deskNo: number, guests: Guest[]) => void;
+  // Move the person on one chair of a desk to another (swapping them)
+  onMoveSeat?: (deskNo: number, from: number, to: number) => void;
+  // Move a guest to another desk, onto a chair if dropped on one
+  onMoveGuest?: (guestId: number, deskNo: number, seat: number | null) => void;
+  // Desk capacities
+  capacities: Record<number, number>;
+  onCapacityChange?: (deskNo: number, capacity: number) => void;
+  capacityMode: CapacityMode;
+  onCapacityModeChange?: (mode: CapacityMode) => void;
+  // Desk shapes, sizes and rotation
+  layouts: Record<number, DeskLayout>;
+  onLayoutChange?: (deskNo: number, layout: DeskLayout) => void;
+  onRestoreDesk?: (deskNo: number, updates: Partial<Desk>) => void;
   // Fixed objects
   fixedObjects?: FixedObjectData[];
   onUpdateFixedObject?: (object: FixedObjectData) => void;
   onDeleteFixedObject?: (id: string) => void;
   onEditFixedObjectName?: (id: string, name: string) => void;
   onAddFixedObject?: () => void;
-  // Background watermark
+  // Save the tables and objects moved by an align or distribute command
+  onArrange?: (
+    tables: Record<number, TablePosition>,
+    objects: FixedObjectData[],
+  ) => void;
+  // Undo / redo
+  onUndo?: () => void;
+  onRedo?: () => void;
+  canUndo?: boolean;
+  canRedo?: boolean;
+  // Background watermark, shown when there is no venue plan
   backgroundImage?: string;
+  // The venue's floor plan beneath the tables
+  venuePlan?: VenuePlan | null;
+  onVenuePlanChange?: (plan: VenuePlan | null) => void;
+  planScale?: PlanScale;
+  onPlanScaleChange?: (scale: PlanScale) => void;
 }
 
 export interface FloorPlanRef {
@@ -64,19 +195,69 @@ export const FloorPlan = forwardRef<FloorPlanRef, FloorPlanProps>(
       highlightedDeskNos,
       onToggleAttendance,
       onGuestClick,
+      canEdit = true,
       onReorderGuests,
+      onMoveSeat,
+      onMoveGuest,
+      capacities,
+      onCapacityChange,
+      capacityMode,
+      onCapacityModeChange,
+      layouts,
+      onLayoutChange,
+      onRestoreDesk,
       fixedObjects = [],
       onUpdateFixedObject,
       onDeleteFixedObject,
       onEditFixedObjectName,
       onAddFixedObject,
+      onArrange,
+      onUndo,
+      onRedo,
+      canUndo = false,
+      canRedo = false,
       backgroundImage,
+      venuePlan = null,
+      onVenuePlanChange,
+      planScale = DEFAULT_PLAN_SCALE,
+      onPlanScaleChange,
     },
     ref,
   ) => {
     const transformRef = useRef<ReactZoomPanPinchRef>(null);
     const [isEditMode, setIsEditMode] = useState(false);
     const [selectedTableNo, setSelectedTableNo] = useState<number | null>(null);
+    const [colorMode, setColorMode] = useState<GroupColorMode>('attendance');
+    const containerRef = useRef<HTMLDivElement>(null);
+    const [seatDrag, setSeatDrag] = useState<SeatDrag | null>(null);
+    const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
+    const seatGhostRef = useRef<HTMLDivElement>(null);
+    const [isGridSnapEnabled, setIsGridSnapEnabled] = useState(false);
+    const [guides, setGuides] = useState<AlignmentGuide[]>([]);
+    // Tables and objects picked for align / distribute in edit mode
+    const [selectedDeskNos, setSelectedDeskNos] = useState<number[]>([]);
+    const [selectedObjectIds, setSelectedObjectIds] = useState<string[]>([]);
+    const [venuePlanDialogOpen, setVenuePlanDialogOpen] = useState(false);
+    const [exportDialogOpen, setExportDialogOpen] = useState(false);
+    // Points marked on the venue plan to set its scale, null when not
+    // calibrating
+    const [calibrationPoints, setCalibrationPoints] = useState<
+      TablePosition[] | null
+    >(null);
+    const [calibrationMetres, setCalibrationMetres] = useState('');
+    // Points marked with the measure tool, null when it is off
+    const [measurePoints, setMeasurePoints] = useState<TablePosition[] | null>(
+      null,
+    );
+
+    // Groups shown in the legend when chairs are coloured by group
+    const legendGroups = useMemo(
+      () =>
+        colorMode === 'attendance'
+          ? []
+          : getAllGroups(guests).filter((group) => group.kind === colorMode),
+      [guests, colorMode],
+    );
 
     // Group guests by desk
     const guestsByDesk = useMemo(() => {
@@ -136,6 +317,14 @@ export const FloorPlan = forwardRef<FloorPlanRef, FloorPlanProps>(
           x: obj.x + obj.width,
           y: obj.y + obj.height,
         })),
+        ...(venuePlan
+          ? [
+              {
+                x: venuePlan.x + venuePlan.width * venuePlan.scale,
+                y: venuePlan.y + venuePlan.height * venuePlan.scale,
+              },
+            ]
+          : []),
       ];
 
       if (allPositions.length === 0) return { width: 1200, height: 800 };
@@ -147,7 +336,405 @@ export const FloorPlan = forwardRef<FloorPlanRef, FloorPlanProps>(
         width: Math.max(1200, maxX),
         height: Math.max(800, maxY),
       };
-    }, [tablePositions, fixedObjects]);
+    }, [tablePositions, fixedObjects, venuePlan]);
+
+    const getTablePosition = useCallback(
+      (deskNo: number) => tablePositions[deskNo] || { x: 100, y: 100 },
+      [tablePositions],
+    );
+
+    // Bounds of everything on the plan, for guides and align commands
+    const deskBoxes = useMemo(
+      () =>
+        new Map(
+          deskNumbers.map((deskNo) => [
+            deskNo,
+            getTableBox(
+              getTablePosition(deskNo),
+              layouts[deskNo] ?? DEFAULT_DESK_LAYOUT,
+              getSeatCount(
+                guestsByDesk.get(deskNo) || [],
+                capacities[deskNo] ?? DEFAULT_DESK_CAPACITY,
+              ),
+            ),
+          ]),
+        ),
+      [deskNumbers, getTablePosition, layouts, guestsByDesk, capacities],
+    );
+    const objectBoxes = useMemo(
+      () =>
+        new Map(fixedObjects.map((obj) => [obj.id, getFixedObjectBox(obj)])),
+      [fixedObjects],
+    );
+
+    // Tables too close together for a walkway, shown while arranging
+    // tables or measuring
+    const showWalkways = isEditMode || !!measurePoints;
+    const narrowWalkways = useMemo(
+      () =>
+        showWalkways
+          ? getNarrowWalkways(
+              deskNumbers.map((deskNo) => ({
+                deskNo,
+                footprint: getTableFootprint(
+                  getTablePosition(deskNo),
+                  layouts[deskNo] ?? DEFAULT_DESK_LAYOUT,
+                  getSeatCount(
+                    guestsByDesk.get(deskNo) || [],
+                    capacities[deskNo] ?? DEFAULT_DESK_CAPACITY,
+                  ),
+                ),
+              })),
+              planScale.walkwayWidth * planScale.pxPerMetre,
+            )
+          : [],
+      [
+        showWalkways,
+        deskNumbers,
+        getTablePosition,
+        layouts,
+        guestsByDesk,
+        capacities,
+        planScale,
+      ],
+    );
+
+    const getOtherBoxes = (except: { deskNo?: number; objectId?: string }) => [
+      ...[...deskBoxes]
+        .filter(([deskNo]) => deskNo !== except.deskNo)
+        .map(([, box]) => box),
+      ...[...objectBoxes]
+        .filter(([id]) => id !== except.objectId)
+        .map(([, box]) => box),
+    ];
+
+    // Guides for the table or object being dragged
+    const showGuides = (
+      box: AlignBox,
+      except: { deskNo?: number; objectId?: string },
+    ) => {
+      const next = getAlignmentSnap(box, getOtherBoxes(except)).guides;
+      setGuides((prev) => (isSameGuides(prev, next) ? prev : next));
+    };
+
+    // Where a dropped table or object lands: lined up with a neighbour
+    // when close to one, otherwise on the grid if snapping is on
+    const snapDropped = (
+      position: TablePosition,
+      box: AlignBox,
+      except: { deskNo?: number; objectId?: string },
+    ): TablePosition => {
+      setGuides([]);
+      const { dx, dy } = getAlignmentSnap(box, getOtherBoxes(except));
+      const onGrid = (value: number) =>
+        isGridSnapEnabled ? snapToGrid(value) : value;
+      return {
+        x: dx !== null ? position.x + dx : onGrid(position.x),
+        y: dy !== null ? position.y + dy : onGrid(position.y),
+      };
+    };
+
+    const tableBoxAt = (deskNo: number, position: TablePosition) => ({
+      ...deskBoxes.get(deskNo)!,
+      ...position,
+    });
+    const objectBoxAt = (obj: FixedObjectData, position: TablePosition) =>
+      getFixedObjectBox({ ...obj, ...position });
+
+    const toggleSelected = <T,>(items: T[], item: T) =>
+      items.includes(item) ? items.filter((i) => i !== item) : [...items, item];
+
+    const clearSelection = () => {
+      setSelectedDeskNos([]);
+      setSelectedObjectIds([]);
+    };
+
+    // Selected items that are still on the plan
+    const selectedDesks = selectedDeskNos.filter((deskNo) =>
+      deskBoxes.has(deskNo),
+    );
+    const selectedObjects = fixedObjects.filter((obj) =>
+      selectedObjectIds.includes(obj.id),
+    );
+    const selectedCount = selectedDesks.length + selectedObjects.length;
+
+    const handleArrange = (command: AlignCommand) => {
+      const arranged = arrangeBoxes(
+        [
+          ...selectedDesks.map((deskNo) => deskBoxes.get(deskNo)!),
+          ...selectedObjects.map((obj) => objectBoxes.get(obj.id)!),
+        ],
+        command,
+      );
+      const tables: Record<number, TablePosition> = {};
+      selectedDesks.forEach((deskNo, i) => {
+        tables[deskNo] = { x: arranged[i].x, y: arranged[i].y };
+      });
+      const objects = selectedObjects.map((obj, i) => {
+        const box = arranged[selectedDesks.length + i];
+        return { ...obj, x: box.x - obj.width / 2, y: box.y - obj.height / 2 };
+      });
+      onArrange?.(tables, objects);
+    };
+
+    // Position of a pointer in the floor plan, for the dragged chair
+    const toContainerPoint = useCallback(
+      (event: { clientX: number; clientY: number }) => {
+        const rect = containerRef.current?.getBoundingClientRect();
+        return {
+          x: event.clientX - (rect?.left ?? 0),
+          y: event.clientY - (rect?.top ?? 0),
+        };
+      },
+      [],
+    );
+
+    const handleSeatDragStart = (
+      deskNo: number,
+      seat: number,
+      occupant: SeatOccupant,
+      event: React.PointerEvent,
+    ) => {
+      setSeatDrag({
+        guest: occupant.guest,
+        deskNo,
+        seat,
+        name: getPersonName(occupant.guest, occupant.person),
+        ...toContainerPoint(event),
+      });
+    };
+
+    // Guests dragged out of the table dialog (which closes) onto a table
+    const handleGuestDragStart = (guest: Guest, event: React.PointerEvent) => {
+      setSeatDrag({
+        guest,
+        deskNo: guest.desk_no,
+        seat: null,
+        name: guest.full_name,
+        ...toContainerPoint(event),
+      });
+    };
+
+    const deskLoads = useMemo(() => getDeskLoads(guests), [guests]);
+
+    // Whether the dragged guest fits at another table
+    const getDropStatus = useCallback(
+      (deskNo: number) => {
+        if (!seatDrag || deskNo === seatDrag.deskNo) return null;
+        const loadAfter =
+          (deskLoads.get(deskNo) ?? 0) + seatDrag.guest.person_count;
+        const capacity = capacities[deskNo] ?? DEFAULT_DESK_CAPACITY;
+        return loadAfter <= capacity ? 'ok' : capacityMode;
+      },
+      [seatDrag, deskLoads, capacities, capacityMode],
+    );
+
+    // The dragged chair follows the pointer without re-rendering the plan
+    const moveSeatGhost = useCallback((point: { x: number; y: number }) => {
+      if (seatGhostRef.current) {
+        seatGhostRef.current.style.transform = `translate(${point.x}px, ${point.y}px) translate(-50%, -50%)`;
+      }
+    }, []);
+
+    useLayoutEffect(() => {
+      if (seatDrag) moveSeatGhost(seatDrag);
+    }, [seatDrag, moveSeatGhost]);
+
+    useEffect(() => {
+      if (!seatDrag) return;
+
+      const getDropTarget = (event: PointerEvent): DropTarget | null => {
+        const element = document.elementFromPoint(event.clientX, event.clientY);
+        const desk = element?.closest<HTMLElement>('[data-desk-no]');
+        if (!desk) return null;
+        const seat = element?.closest<HTMLElement>('[data-seat]');
+        return {
+          deskNo: Number(desk.dataset.deskNo),
+          seat: seat ? Number(seat.dataset.seat) : null,
+        };
+      };
+
+      const handleMove = (event: PointerEvent) => {
+        moveSeatGhost(toContainerPoint(event));
+        const target = getDropTarget(event);
+        setDropTarget((prev) =>
+          prev?.deskNo === target?.deskNo && prev?.seat === target?.seat
+            ? prev
+            : target,
+        );
+      };
+      const handleUp = (event: PointerEvent) => {
+        const target = getDropTarget(event);
+        if (target?.deskNo === seatDrag.deskNo) {
+          if (
+            target.seat !== null &&
+            seatDrag.seat !== null &&
+            target.seat !== seatDrag.seat
+          ) {
+            onMoveSeat?.(seatDrag.deskNo, seatDrag.seat, target.seat);
+          }
+        } else if (target && getDropStatus(target.deskNo) !== 'block') {
+          onMoveGuest?.(seatDrag.guest.id, target.deskNo, target.seat);
+        }
+        setSeatDrag(null);
+        setDropTarget(null);
+      };
+      const handleCancel = () => {
+        setSeatDrag(null);
+        setDropTarget(null);
+      };
+
+      window.addEventListener('pointermove', handleMove);
+      window.addEventListener('pointerup', handleUp);
+      window.addEventListener('pointercancel', handleCancel);
+      return () => {
+        window.removeEventListener('pointermove', handleMove);
+        window.removeEventListener('pointerup', handleUp);
+        window.removeEventListener('pointercancel', handleCancel);
+      };
+    }, [
+      seatDrag,
+      onMoveSeat,
+      onMoveGuest,
+      getDropStatus,
+      toContainerPoint,
+      moveSeatGhost,
+    ]);
+
+    const dropStatus = dropTarget ? getDropStatus(dropTarget.deskNo) : null;
+
+    const startCalibration = () => {
+      setVenuePlanDialogOpen(false);
+      setMeasurePoints(null);
+      setCalibrationPoints([]);
+      setCalibrationMetres('');
+    };
+
+    // Point clicked on the canvas overlay, in floor plan units
+    const toCanvasPoint = (event: React.MouseEvent<HTMLDivElement>) => {
+      const rect = event.currentTarget.getBoundingClientRect();
+      const zoom = rect.width / canvasSize.width;
+      return {
+        x: (event.clientX - rect.left) / zoom,
+        y: (event.clientY - rect.top) / zoom,
+      };
+    };
+
+    // Clicks after the second point start over
+    const addMarkedPoint =
+      (point: TablePosition) => (prev: TablePosition[] | null) =>
+        prev && prev.length === 1 ? [...prev, point] : [point];
+
+    const measuredDistance =
+      measurePoints?.length === 2
+        ? toMetres(
+            Math.hypot(
+              measurePoints[1].x - measurePoints[0].x,
+              measurePoints[1].y - measurePoints[0].y,
+            ),
+            planScale,
+          )
+        : null;
+
+    const applyCalibration = () => {
+      const metres = parseDecimal(calibrationMetres);
+      if (
+        venuePlan &&
+        calibrationPoints?.length === 2 &&
+        metres > 0 &&
+        onVenuePlanChange
+      ) {
+        onVenuePlanChange(
+          calibrateVenuePlan(
+            venuePlan,
+            calibrationPoints[0],
+            calibrationPoints[1],
+            metres,
+            planScale.pxPerMetre,
+          ),
+        );
+      }
+      setCalibrationPoints(null);
+    };
+
+    // Overlay that takes clicks on the canvas and shows the marked points
+    const renderPointOverlay = (
+      points: TablePosition[],
+      onPoint: (point: TablePosition) => void,
+      label?: string,
+    ) => (
+      <div
+        className="absolute inset-0 z-50 cursor-crosshair"
+        onClick={(e) => onPoint(toCanvasPoint(e))}
+      >
+        <svg className="absolute inset-0 w-full h-full overflow-visible pointer-events-none">
+          {points.length === 2 && (
+            <>
+              <line
+                x1={points[0].x}
+                y1={points[0].y}
+                x2={points[1].x}
+                y2={points[1].y}
+                stroke="#4f46e5"
+                strokeWidth={2}
+                strokeDasharray="6 4"
+              />
+              {label && (
+                <text
+                  x={(points[0].x + points[1].x) / 2}
+                  y={(points[0].y + points[1].y) / 2 - 10}
+                  textAnchor="middle"
+                  className="text-sm font-semibold"
+                  fill="#3730a3"
+                  stroke="white"
+                  strokeWidth={4}
+                  paintOrder="stroke"
+                >
+                  {label}
+                </text>
+              )}
+            </>
+          )}
+          {points.map((point, i) => (
+            <circle
+              key={i}
+              cx={point.x}
+              cy={point.y}
+              r={6}
+              fill="#4f46e5"
+              stroke="white"
+              strokeWidth={2}
+            />
+          ))}
+        </svg>
+      </div>
+    );
+
+    // What the export draws: the plan as shown, in the current chair colours
+    const exportPlan = useMemo(
+      () => ({
+        guests,
+        tablePositions,
+        capacities,
+        layouts,
+        fixedObjects,
+        venuePlan,
+        backgroundImage,
+        colorMode,
+        scale: planScale,
+      }),
+      [
+        guests,
+        tablePositions,
+        capacities,
+        layouts,
+        fixedObjects,
+        venuePlan,
+        backgroundImage,
+        colorMode,
+        planScale,
+      ],
+    );
 
     const handleTableClick = (deskNo: number) => {
       if (!isEditMode) {
@@ -160,9 +747,12 @@ export const FloorPlan = forwardRef<FloorPlanRef, FloorPlanProps>(
       : [];
 
     return (
-      <div className="relative w-full h-[calc(100vh-180px)] bg-slate-100 rounded-xl border border-slate-200 overflow-hidden">
+      <div
+        ref={containerRef}
+        className="relative w-full h-[calc(100vh-180px)] bg-slate-100 rounded-xl border border-slate-200 overflow-hidden"
+      >
         {/* Fixed Watermark Background - doesn't move with zoom */}
-        {backgroundImage && (
+        {backgroundImage && !venuePlan && (
           <div className="absolute inset-0 z-0 pointer-events-none flex items-center justify-center">
             <img
               src={backgroundImage}
@@ -175,25 +765,33 @@ export const FloorPlan = forwardRef<FloorPlanRef, FloorPlanProps>(
         {/* Control buttons */}
         <div className="absolute top-3 right-3 z-20 flex flex-col gap-1.5">
           {/* Edit Mode Toggle */}
-          <button
-            onClick={() => setIsEditMode(!isEditMode)}
-            className={`p-2.5 sm:p-2 rounded-lg shadow-sm border transition-colors ${
-              isEditMode
-                ? 'bg-rose-500 border-rose-600 text-white hover:bg-rose-600'
-                : 'bg-white border-slate-200 text-slate-600 hover:bg-slate-50'
-            }`}
-            title={
-              isEditMode ? 'Düzenleme Modunu Kapat' : 'Düzenleme Modunu Aç'
-            }
-          >
-            {isEditMode ? (
-              <LockSimpleOpen weight="bold" className="w-5 h-5" />
-            ) : (
-              <LockSimple weight="bold" className="w-5 h-5" />
-            )}
-          </button>
+          {canEdit && (
+            <>
+              <button
+                onClick={() => {
+                  setIsEditMode(!isEditMode);
+                  clearSelection();
+                  setCalibrationPoints(null);
+                }}
+                className={`p-2.5 sm:p-2 rounded-lg shadow-sm border transition-colors ${
+                  isEditMode
+                    ? 'bg-rose-500 border-rose-600 text-white hover:bg-rose-600'
+                    : 'bg-white border-slate-200 text-slate-600 hover:bg-slate-50'
+                }`}
+                title={
+                  isEditMode ? 'Düzenleme Modunu Kapat' : 'Düzenleme Modunu Aç'
+                }
+              >
+                {isEditMode ? (
+                  <LockSimpleOpen weight="bold" className="w-5 h-5" />
+                ) : (
+                  <LockSimple weight="bold" className="w-5 h-5" />
+                )}
+              </button>
 
-          <div className="w-full h-px bg-slate-200 my-0.5" />
+              <div className="w-full h-px bg-slate-200 my-0.5" />
+            </>
+          )}
 
           <button
             onClick={() => transformRef.current?.zoomIn(0.3)}
@@ -222,6 +820,56 @@ export const FloorPlan = forwardRef<FloorPlanRef, FloorPlanProps>(
           >
             <ArrowsOut weight="bold" className="w-5 h-5 text-slate-600" />
           </button>
+          <button
+            onClick={() => {
+              setCalibrationPoints(null);
+              setMeasurePoints(measurePoints ? null : []);
+            }}
+            className={`p-2.5 sm:p-2 rounded-lg shadow-sm border transition-colors ${
+              measurePoints
+                ? 'bg-indigo-500 border-indigo-600 text-white hover:bg-indigo-600'
+                : 'bg-white border-slate-200 text-slate-600 hover:bg-slate-50'
+            }`}
+            title={measurePoints ? 'Ölçümü Kapat' : 'Mesafe Ölç'}
+          >
+            <Ruler weight="bold" className="w-5 h-5" />
+          </button>
+          <button
+            onClick={() => setExportDialogOpen(true)}
+            className="p-2.5 sm:p-2 bg-white rounded-lg shadow-sm border border-slate-200 hover:bg-slate-50 transition-colors"
+            title="Planı Dışa Aktar"
+          >
+            <DownloadSimple weight="bold" className="w-5 h-5 text-slate-600" />
+          </button>
+
+          {/* Undo / Redo */}
+          {onUndo && onRedo && (
+            <>
+              <div className="w-full h-px bg-slate-200 my-0.5" />
+              <button
+                onClick={onUndo}
+                disabled={!canUndo}
+                className="p-2.5 sm:p-2 bg-white rounded-lg shadow-sm border border-slate-200 hover:bg-slate-50 transition-colors disabled:opacity-40 disabled:pointer-events-none"
+                title="Geri Al (Ctrl+Z)"
+              >
+                <ArrowUUpLeft
+                  weight="bold"
+                  className="w-5 h-5 text-slate-600"
+                />
+              </button>
+              <button
+                onClick={onRedo}
+                disabled={!canRedo}
+                className="p-2.5 sm:p-2 bg-white rounded-lg shadow-sm border border-slate-200 hover:bg-slate-50 transition-colors disabled:opacity-40 disabled:pointer-events-none"
+                title="Yinele (Ctrl+Shift+Z)"
+              >
+                <ArrowUUpRight
+                  weight="bold"
+                  className="w-5 h-5 text-slate-600"
+                />
+              </button>
+            </>
+          )}
 
           {/* Edit Mode Actions */}
           {isEditMode && (
@@ -239,6 +887,37 @@ export const FloorPlan = forwardRef<FloorPlanRef, FloorPlanProps>(
                 </button>
               )}
 
+              {/* Venue plan */}
+              {onVenuePlanChange && (
+                <button
+                  onClick={() => setVenuePlanDialogOpen(true)}
+                  className="p-2.5 sm:p-2 bg-white rounded-lg shadow-sm border border-slate-200 hover:bg-slate-50 transition-colors"
+                  title="Mekan Planı"
+                >
+                  <MapTrifold
+                    weight="bold"
+                    className="w-5 h-5 text-slate-600"
+                  />
+                </button>
+              )}
+
+              {/* Snap to grid */}
+              <button
+                onClick={() => setIsGridSnapEnabled(!isGridSnapEnabled)}
+                className={`p-2.5 sm:p-2 rounded-lg shadow-sm border transition-colors ${
+                  isGridSnapEnabled
+                    ? 'bg-sky-500 border-sky-600 text-white hover:bg-sky-600'
+                    : 'bg-white border-slate-200 text-slate-600 hover:bg-slate-50'
+                }`}
+                title={
+                  isGridSnapEnabled
+                    ? 'Izgaraya Yapıştırmayı Kapat'
+                    : 'Izgaraya Yapıştır'
+                }
+              >
+                <GridFour weight="bold" className="w-5 h-5" />
+              </button>
+
               {/* Reset Positions */}
               <button
                 onClick={onResetPositions}
@@ -255,15 +934,48 @@ export const FloorPlan = forwardRef<FloorPlanRef, FloorPlanProps>(
         </div>
 
         {/* Legend - Responsive */}
-        <div className="absolute bottom-3 left-3 z-20 flex flex-wrap items-center gap-2 sm:gap-4 px-2 sm:px-3 py-1.5 sm:py-2 bg-white/90 backdrop-blur-sm rounded-lg shadow-sm border border-slate-200 text-xs">
-          <div className="flex items-center gap-1.5">
-            <div className="w-3 h-3 sm:w-4 sm:h-4 rounded-full bg-emerald-500 border-2 border-emerald-600" />
-            <span className="text-slate-600 hidden sm:inline">Geldi</span>
-          </div>
-          <div className="flex items-center gap-1.5">
-            <div className="w-3 h-3 sm:w-4 sm:h-4 rounded-full bg-slate-200 border-2 border-slate-300" />
-            <span className="text-slate-600 hidden sm:inline">Bekliyor</span>
-          </div>
+        <div className="absolute bottom-3 left-3 z-20 flex flex-wrap items-center gap-2 sm:gap-4 px-2 sm:px-3 py-1.5 sm:py-2 bg-white/90 backdrop-blur-sm rounded-lg shadow-sm border border-slate-200 text-xs max-w-[calc(100%-1.5rem)]">
+          {/* Chair colour mode */}
+          <select
+            value={colorMode}
+            onChange={(e) => setColorMode(e.target.value as GroupColorMode)}
+            className="py-0.5 bg-transparent font-medium text-slate-700 focus:outline-none"
+            title="Sandalye rengi"
+          >
+            {(Object.keys(GROUP_COLOR_MODE_LABELS) as GroupColorMode[]).map(
+              (mode) => (
+                <option key={mode} value={mode}>
+                  {GROUP_COLOR_MODE_LABELS[mode]}
+                </option>
+              ),
+            )}
+          </select>
+          {colorMode === 'attendance' ? (
+            <>
+              <div className="flex items-center gap-1.5">
+                <div className="w-3 h-3 sm:w-4 sm:h-4 rounded-full bg-emerald-500 border-2 border-emerald-600" />
+                <span className="text-slate-600 hidden sm:inline">Geldi</span>
+              </div>
+              <div className="flex items-center gap-1.5">
+                <div className="w-3 h-3 sm:w-4 sm:h-4 rounded-full bg-slate-200 border-2 border-slate-300" />
+                <span className="text-slate-600 hidden sm:inline">
+                  Bekliyor
+                </span>
+              </div>
+            </>
+          ) : legendGroups.length === 0 ? (
+            <span className="text-slate-400">Grup yok</span>
+          ) : (
+            legendGroups.map((group) => (
+              <div key={group.key} className="flex items-center gap-1.5">
+                <div
+                  className="w-3 h-3 sm:w-4 sm:h-4 rounded-full"
+                  style={{ backgroundColor: group.color }}
+                />
+                <span className="text-slate-600">{group.label}</span>
+              </div>
+            ))
+          )}
           <div className="flex items-center gap-1.5">
             <div className="w-3 h-3 sm:w-4 sm:h-4 rounded-full bg-amber-100 border-2 border-amber-300" />
             <span className="text-slate-600 hidden sm:inline">Masa</span>
@@ -278,7 +990,10 @@ export const FloorPlan = forwardRef<FloorPlanRef, FloorPlanProps>(
           maxScale={2}
           centerOnInit
           limitToBounds={false}
-          panning={{ velocityDisabled: true, disabled: isEditMode }}
+          panning={{
+            velocityDisabled: true,
+            disabled: isEditMode || !!measurePoints,
+          }}
         >
           <TransformComponent
             wrapperStyle={{ width: '100%', height: '100%' }}
@@ -293,10 +1008,26 @@ export const FloorPlan = forwardRef<FloorPlanRef, FloorPlanProps>(
               style={{
                 backgroundImage:
                   'radial-gradient(circle, #e2e8f0 1px, transparent 1px)',
-                backgroundSize: '24px 24px',
+                backgroundSize: `${GRID_SIZE}px ${GRID_SIZE}px`,
               }}
             />
 
+            {/* Venue plan (beneath everything else) */}
+            {venuePlan && (
+              <VenuePlanLayer
+                plan={venuePlan}
+                isDragEnabled={
+                  isEditMode &&
+                  !venuePlan.locked &&
+                  !calibrationPoints &&
+                  !!onVenuePlanChange
+                }
+                onMove={(position) =>
+                  onVenuePlanChange?.({ ...venuePlan, ...position })
+                }
+              />
+            )}
+
             {/* Fixed Objects (render behind tables) */}
             {fixedObjects.map((obj) => (
               <FixedObject
@@ -306,6 +1037,22 @@ export const FloorPlan = forwardRef<FloorPlanRef, FloorPlanProps>(
                 onUpdate={onUpdateFixedObject || (() => {})}
                 onDelete={onDeleteFixedObject || (() => {})}
                 onEditName={onEditFixedObjectName || (() => {})}
+                scale={planScale}
+                onDrag={(position) =>
+                  showGuides(objectBoxAt(obj, position), { objectId: obj.id })
+                }
+                snapPosition={(position) =>
+                  snapDropped(position, objectBoxAt(obj, position), {
+                    objectId: obj.id,
+                  })
+                }
+                isSelected={selectedObjectIds.includes(obj.id)}
+                onSelect={
+                  onArrange
+                    ? (id) =>
+                        setSelectedObjectIds((prev) => toggleSelected(prev, id))
+                    : undefined
+                }
               />
             ))}
 
@@ -315,21 +1062,249 @@ export const FloorPlan = forwardRef<FloorPlanRef, FloorPlanProps>(
                 key={deskNo}
                 deskNo={deskNo}
                 guests={guestsByDesk.get(deskNo) || []}
-                position={tablePositions[deskNo] || { x: 100, y: 100 }}
+                capacity={capacities[deskNo] ?? DEFAULT_DESK_CAPACITY}
+                layout={layouts[deskNo]}
+                position={getTablePosition(deskNo)}
                 onPositionChange={onPositionChange}
                 isHighlighted={highlightedDeskNos.includes(deskNo)}
                 isDragEnabled={isEditMode}
                 onTableClick={handleTableClick}
+                colorMode={colorMode}
+                onSeatDragStart={
+                  onMoveSeat || onMoveGuest ? handleSeatDragStart : undefined
+                }
+                draggedSeat={seatDrag?.deskNo === deskNo ? seatDrag.seat : null}
+                dropTargetSeat={
+                  dropTarget?.deskNo === deskNo ? dropTarget.seat : null
+                }
+                dropStatus={dropTarget?.deskNo === deskNo ? dropStatus : null}
+                onDrag={(position) =>
+                  showGuides(tableBoxAt(deskNo, position), { deskNo })
+                }
+                snapPosition={(position) =>
+                  snapDropped(position, tableBoxAt(deskNo, position), {
+                    deskNo,
+                  })
+                }
+                isSelected={selectedDeskNos.includes(deskNo)}
+                onRotate={
+                  onLayoutChange
+                    ? (deskNo, rotation) =>
+                        onLayoutChange(deskNo, {
+                          ...(layouts[deskNo] ?? DEFAULT_DESK_LAYOUT),
+                          rotation,
+                        })
+                    : undefined
+                }
+                onSelect={
+                  onArrange
+                    ? () =>
+                        setSelectedDeskNos((prev) =>
+                          toggleSelected(prev, deskNo),
+                        )
+                    : undefined
+                }
+              />
+            ))}
+
+            {/* Walkways narrower than the set width */}
+            {narrowWalkways.length > 0 && (
+              <svg className="absolute inset-0 z-30 w-full h-full overflow-visible pointer-events-none">
+                {narrowWalkways.map((walkway) => (
+                  <g key={walkway.deskNos.join('-')}>
+                    <line
+                      x1={walkway.from.x}
+                      y1={walkway.from.y}
+                      x2={walkway.to.x}
+                      y2={walkway.to.y}
+                      stroke="#e11d48"
+                      strokeWidth={3}
+                      strokeDasharray="4 3"
+                    />
+                    <text
+                      x={(walkway.from.x + walkway.to.x) / 2}
+                      y={(walkway.from.y + walkway.to.y) / 2 - 6}
+                      textAnchor="middle"
+                      className="text-xs font-semibold"
+                      fill="#be123c"
+                      stroke="white"
+                      strokeWidth={3}
+                      paintOrder="stroke"
+                    >
+                      {formatMetres(toMetres(walkway.distance, planScale))}
+                    </text>
+                  </g>
+                ))}
+              </svg>
+            )}
+
+            {/* Marking a known distance on the venue plan */}
+            {calibrationPoints &&
+              renderPointOverlay(calibrationPoints, (point) =>
+                setCalibrationPoints(addMarkedPoint(point)),
+              )}
+
+            {/* Measuring a distance */}
+            {measurePoints &&
+              renderPointOverlay(
+                measurePoints,
+                (point) => setMeasurePoints(addMarkedPoint(point)),
+                measuredDistance !== null
+                  ? formatMetres(measuredDistance, 2)
+                  : undefined,
+              )}
+
+            {/* Alignment guides while dragging */}
+            {guides.map((guide, i) => (
+              <div
+                key={i}
+                className="absolute z-40 bg-sky-500 pointer-events-none"
+                style={
+                  guide.axis === 'x'
+                    ? {
+                        left: guide.position,
+                        top: guide.start,
+                        width: 1,
+                        height: guide.end - guide.start,
+                      }
+                    : {
+                        left: guide.start,
+                        top: guide.position,
+                        width: guide.end - guide.start,
+                        height: 1,
+                      }
+                }
               />
             ))}
           </TransformComponent>
         </TransformWrapper>
 
+        {/* Person being dragged to another chair or table */}
+        {seatDrag && (
+          <div
+            ref={seatGhostRef}
+            className={`absolute top-0 left-0 z-30 px-2 py-1 text-xs font-medium text-white rounded-lg shadow-lg whitespace-nowrap pointer-events-none ${
+              dropStatus === 'block' ? 'bg-rose-600' : 'bg-indigo-600'
+            }`}
+          >
+            {dropTarget && dropStatus ? (
+              <>
+                {seatDrag.guest.full_name}
+                {seatDrag.guest.person_count > 1 &&
+                  ` (${seatDrag.guest.person_count} kişi)`}{' '}
+                → Masa {dropTarget.deskNo}
+                {dropStatus === 'warn' && (
+                  <span className="block text-amber-200">
+                    Kapasite aşılıyor
+                  </span>
+                )}
+                {dropStatus === 'block' && (
+                  <span className="block text-rose-200">Masa dolu</span>
+                )}
+              </>
+            ) : (
+              seatDrag.name
+            )}
+          </div>
+        )}
+
+        {/* Distance between the marked points */}
+        {calibrationPoints && (
+          <div className="absolute top-12 sm:top-3 left-1/2 -translate-x-1/2 z-30 flex items-center gap-2 p-2 bg-white/95 backdrop-blur-sm rounded-lg shadow-sm border border-slate-200 text-xs text-slate-600">
+            {calibrationPoints.length < 2 ? (
+              <span className="whitespace-nowrap">
+                Planda uzunluğu bilinen iki noktaya tıklayın
+              </span>
+            ) : (
+              <form
+                className="flex items-center gap-1.5"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  applyCalibration();
+                }}
+              >
+                <span className="whitespace-nowrap">Aradaki mesafe</span>
+                <input
+                  type="number"
+                  min={0}
+                  step="any"
+                  inputMode="decimal"
+                  value={calibrationMetres}
+                  onChange={(e) => setCalibrationMetres(e.target.value)}
+                  className="w-16 px-1.5 py-1 rounded-md border border-slate-200 text-slate-800"
+                  autoFocus
+                />
+                <span>m</span>
+                <button
+                  type="submit"
+                  disabled={!(parseDecimal(calibrationMetres) > 0)}
+                  className="px-2 py-1 rounded-md bg-indigo-600 text-white font-medium hover:bg-indigo-700 disabled:opacity-40"
+                >
+                  Uygula
+                </button>
+              </form>
+            )}
+            <button
+              onClick={() => setCalibrationPoints(null)}
+              className="p-1 rounded-md text-slate-400 hover:bg-slate-100 hover:text-slate-600"
+              title="Vazgeç"
+            >
+              <X weight="bold" className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+
+        {measurePoints && (
+          <MeasureToolbar
+            distance={measuredDistance}
+            scale={planScale}
+            onScaleChange={onPlanScaleChange}
+            onClose={() => setMeasurePoints(null)}
+          />
+        )}
+
+        {/* Align / distribute the selected tables and objects */}
+        {isEditMode &&
+          selectedCount > 0 &&
+          !calibrationPoints &&
+          !measurePoints && (
+            <div className="absolute top-12 sm:top-3 left-1/2 -translate-x-1/2 z-20 flex items-center gap-1 p-1 bg-white/95 backdrop-blur-sm rounded-lg shadow-sm border border-slate-200">
+              <span className="px-1.5 text-xs font-medium text-slate-600 whitespace-nowrap">
+                {selectedCount} seçili
+              </span>
+              {(Object.keys(ALIGN_COMMAND_LABELS) as AlignCommand[]).map(
+                (command) => {
+                  const CommandIcon = ALIGN_COMMAND_ICONS[command];
+                  const isDistribute = command.startsWith('distribute');
+                  return (
+                    <button
+                      key={command}
+                      onClick={() => handleArrange(command)}
+                      disabled={selectedCount < (isDistribute ? 3 : 2)}
+                      className="p-1.5 rounded-md text-slate-600 hover:bg-slate-100 transition-colors disabled:opacity-40 disabled:pointer-events-none"
+                      title={ALIGN_COMMAND_LABELS[command]}
+                    >
+                      <CommandIcon weight="bold" className="w-4 h-4" />
+                    </button>
+                  );
+                },
+              )}
+              <button
+                onClick={clearSelection}
+                className="p-1.5 rounded-md text-slate-400 hover:bg-slate-100 hover:text-slate-600 transition-colors"
+                title="Seçimi Temizle"
+              >
+                <X weight="bold" className="w-4 h-4" />
+              </button>
+            </div>
+          )}
+
         {/* Instructions overlay - Responsive */}
         <div className="absolute top-3 left-3 z-20 px-2 sm:px-3 py-1 sm:py-1.5 bg-white/90 backdrop-blur-sm rounded-lg shadow-sm border border-slate-200 text-xs text-slate-500">
           {isEditMode ? (
             <span className="text-rose-600 font-medium">
-              <span className="hidden sm:inline">Düzenleme Modu: </span>Sürükle
+              <span className="hidden sm:inline">Düzenleme Modu: </span>
+              {onMoveSeat ? 'Masaları ve sandalyeleri sürükle' : 'Sürükle'}
             </span>
           ) : (
             <span className="hidden sm:inline">
@@ -338,6 +1313,22 @@ export const FloorPlan = forwardRef<FloorPlanRef, FloorPlanProps>(
           )}
         </div>
 
+        {onVenuePlanChange && (
+          <VenuePlanDialog
+            open={venuePlanDialogOpen}
+            onOpenChange={setVenuePlanDialogOpen}
+            plan={venuePlan}
+            onChange={onVenuePlanChange}
+            onStartCalibration={startCalibration}
+          />
+        )}
+
+        <FloorPlanExportDialog
+          open={exportDialogOpen}
+          onOpenChange={setExportDialogOpen}
+          plan={exportPlan}
+        />
+
         {/* Table Info Dialog */}
         <TableInfoDialog
           deskNo={selectedTableNo || 0}
@@ -349,6 +1340,14 @@ export const FloorPlan = forwardRef<FloorPlanRef, FloorPlanProps>(
           onToggleAttendance={onToggleAttendance}
           onGuestClick={onGuestClick}
           onReorderGuests={onReorderGuests}
+          onGuestDragStart={onMoveGuest ? handleGuestDragStart : undefined}
+          capacity={capacities[selectedTableNo || 0] ?? DEFAULT_DESK_CAPACITY}
+          onCapacityChange={onCapacityChange}
+          capacityMode={capacityMode}
+          onCapacityModeChange={onCapacityModeChange}
+          layout={layouts[selectedTableNo || 0]}
+          onLayoutChange={onLayoutChange}
+          onRestoreDesk={onRestoreDesk}
         />
       </div>
     );
@@ -0,0 +1,280 @@
+import { useMemo, useState } from 'react';
+import {
+  DownloadSimple,
+  FileImage,
+  FileSvg,
+  Printer,
+  SpinnerGap,
+  WarningCircle,
+  type Icon,
+} from '@phosphor-icons/react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import {
+  type FloorPlanExportInput,
+  type PaperSize,
+  PAPER_SIZES,
+  getFloorPlanBounds,
+  getPngSize,
+  exportFloorPlanPng,
+  exportFloorPlanSvg,
+  printFloorPlanPoster,
+} from '@/lib/floorPlanExport';
+
+type ExportFormat = 'png' | 'svg' | 'pdf';
+
+const FORMATS: {
+  key: ExportFormat;
+  label: string;
+  description: string;
+  icon: Icon;
+}[] = [
+  {
+    key: 'png',
+    label: 'PNG',
+    description: 'Yüksek çözünürlüklü resim',
+    icon: FileImage,
+  },
+  {
+    key: 'svg',
+    label: 'SVG',
+    description: 'Her boyutta net, düzenlenebilir',
+    icon: FileSvg,
+  },
+  {
+    key: 'pdf',
+    label: 'Afiş / PDF',
+    description: 'Açıklama ve masa listesiyle yazdır',
+    icon: Printer,
+  },
+];
+
+const PIXEL_RATIOS = [1, 2, 3, 4];
+const TILE_COUNTS = [1, 2, 3];
+
+interface FloorPlanExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The plan as drawn on screen; names are chosen in the dialog
+  plan: Omit<FloorPlanExportInput, 'showNames'>;
+}
+
+// Save the seating chart as an image or print it as a poster
+export function FloorPlanExportDialog({
+  open,
+  onOpenChange,
+  plan,
+}: FloorPlanExportDialogProps) {
+  const [format, setFormat] = useState<ExportFormat>('png');
+  const [showNames, setShowNames] = useState(true);
+  const [pixelRatio, setPixelRatio] = useState(2);
+  const [paper, setPaper] = useState<PaperSize>('A3');
+  const [tiles, setTiles] = useState(1);
+  const [includeTableList, setIncludeTableList] = useState(true);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const input = useMemo(() => ({ ...plan, showNames }), [plan, showNames]);
+  const bounds = useMemo(() => getFloorPlanBounds(input), [input]);
+  const pngSize = getPngSize(bounds, pixelRatio);
+
+  const handleExport = async () => {
+    setError(null);
+    if (format === 'pdf') {
+      if (!printFloorPlanPoster(input, { paper, tiles, includeTableList })) {
+        setError(
+          'Yazdırma penceresi açılamadı. Açılır pencere engelini kaldırın.',
+        );
+      }
+      return;
+    }
+    setIsExporting(true);
+    try {
+      if (format === 'png') {
+        await exportFloorPlanPng(input, pixelRatio);
+      } else {
+        await exportFloorPlanSvg(input);
+      }
+    } catch (e) {
+      console.error('Failed to export floor plan:', e);
+      setError('Plan dışa aktarılamadı.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(nextOpen) => {
+        if (!nextOpen) setError(null);
+        onOpenChange(nextOpen);
+      }}
+    >
+      <DialogContent className="sm:max-w-md bg-white border-slate-200">
+        <DialogHeader>
+          <DialogTitle className="text-lg font-semibold text-slate-800 flex items-center gap-2">
+            <DownloadSimple weight="bold" className="w-5 h-5 text-indigo-600" />
+            Planı Dışa Aktar
+          </DialogTitle>
+          <DialogDescription className="text-slate-500 text-sm">
+            Masalar, misafir isimleri, sabit nesneler ve mekan planı
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="grid grid-cols-3 gap-2">
+            {FORMATS.map((option) => (
+              <button
+                key={option.key}
+                type="button"
+                onClick={() => setFormat(option.key)}
+                className={`flex flex-col items-center gap-1 p-3 rounded-lg border text-center transition-colors ${
+                  format === option.key
+                    ? 'border-indigo-400 bg-indigo-50'
+                    : 'border-slate-100 hover:border-slate-200 hover:bg-slate-50'
+                }`}
+              >
+                <option.icon
+                  weight="duotone"
+                  className="w-6 h-6 text-indigo-600"
+                />
+                <span className="text-sm font-medium text-slate-800">
+                  {option.label}
+                </span>
+                <span className="text-[11px] leading-tight text-slate-500">
+                  {option.description}
+                </span>
+              </button>
+            ))}
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-slate-700">
+            <input
+              type="checkbox"
+              checked={showNames}
+              onChange={(e) => setShowNames(e.target.checked)}
+              className="rounded border-slate-300"
+            />
+            Sandalyelerin yanında misafir isimleri
+          </label>
+
+          {format === 'png' && (
+            <label className="flex items-center justify-between gap-2 text-sm text-slate-700">
+              Çözünürlük
+              <span className="flex items-center gap-2">
+                <span className="text-xs text-slate-500 tabular-nums">
+                  {pngSize.width} × {pngSize.height} px
+                </span>
+                <select
+                  value={pixelRatio}
+                  onChange={(e) => setPixelRatio(Number(e.target.value))}
+                  className="px-2 py-1 rounded-md border border-slate-200 bg-white"
+                >
+                  {PIXEL_RATIOS.map((ratio) => (
+                    <option key={ratio} value={ratio}>
+                      {ratio}×
+                    </option>
+                  ))}
+                </select>
+              </span>
+            </label>
+          )}
+
+          {format === 'pdf' && (
+            <>
+              <label className="flex items-center justify-between gap-2 text-sm text-slate-700">
+                Kağıt
+                <select
+                  value={paper}
+                  onChange={(e) => setPaper(e.target.value as PaperSize)}
+                  className="px-2 py-1 rounded-md border border-slate-200 bg-white"
+                >
+                  {(Object.keys(PAPER_SIZES) as PaperSize[]).map((size) => (
+                    <option key={size} value={size}>
+                      {size}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex items-center justify-between gap-2 text-sm text-slate-700">
+                Plan sayfaları
+                <select
+                  value={tiles}
+                  onChange={(e) => setTiles(Number(e.target.value))}
+                  className="px-2 py-1 rounded-md border border-slate-200 bg-white"
+                >
+                  {TILE_COUNTS.map((count) => (
+                    <option key={count} value={count}>
+                      {count === 1
+                        ? '1 sayfa'
+                        : `${count} × ${count} (${count * count} sayfa)`}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex items-center gap-2 text-sm text-slate-700">
+                <input
+                  type="checkbox"
+                  checked={includeTableList}
+                  onChange={(e) => setIncludeTableList(e.target.checked)}
+                  className="rounded border-slate-300"
+                />
+                Masa listesini ekle
+              </label>
+              <p className="text-xs text-slate-500">
+                Yazdırma penceresinde “PDF olarak kaydet”i seçin. Birden çok
+                sayfa, birleştirilerek büyük bir afiş olur.
+              </p>
+            </>
+          )}
+
+          {error && (
+            <p className="text-sm text-rose-600 flex items-center gap-1.5">
+              <WarningCircle weight="bold" className="w-4 h-4" />
+              {error}
+            </p>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button
+            type="button"
+            variant="ghost"
+            onClick={() => onOpenChange(false)}
+            disabled={isExporting}
+            className="text-slate-600"
+          >
+            Kapat
+          </Button>
+          <Button
+            type="button"
+            onClick={handleExport}
+            disabled={isExporting}
+            className="bg-indigo-600 hover:bg-indigo-700 text-white"
+          >
+            {isExporting ? (
+              <SpinnerGap weight="bold" className="w-4 h-4 animate-spin" />
+            ) : (
+              <>
+                {format === 'pdf' ? (
+                  <Printer weight="bold" className="w-4 h-4 mr-1.5" />
+                ) : (
+                  <DownloadSimple weight="bold" className="w-4 h-4 mr-1.5" />
+                )}
+                {format === 'pdf' ? 'Yazdır' : 'İndir'}
+              </>
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -10,10 +10,13 @@ import {
     List,
     ArrowRight,
 } from '@phosphor-icons/react';
-import type { Guest } from '@/lib/supabase';
+import { type Guest, DEFAULT_DESK_CAPACITY } from '@/lib/supabase';
+import { getDeskLoadAfter, type CapacityMode } from '@/lib/guestStats';
 
 interface GuestManagementPanelProps {
     guests: Guest[];
+    capacities: Record<number, number>;
+    capacityMode: CapacityMode;
     onResetPositions: () => void;
     onReassignGuest: (guestId: number, newDeskNo: number) => void;
     onAddTable: (deskNo: number) => void;
@@ -22,6 +25,8 @@ interface GuestManagementPanelProps {
 
 export function GuestManagementPanel({
     guests,
+    capacities,
+    capacityMode,
     onResetPositions,
     onReassignGuest,
     onAddTable,
@@ -46,6 +51,15 @@ export function GuestManagementPanel({
         .map(Number)
         .sort((a, b) => a - b);
 
+    const getCapacity = (deskNo: number) => capacities[deskNo] ?? DEFAULT_DESK_CAPACITY;
+
+    // Whether moving a guest to a desk would overflow it
+    const wouldOverflow = (guest: Guest, deskNo: number) =>
+        getDeskLoadAfter(guests, deskNo, guest.person_count, guest.id) > getCapacity(deskNo);
+
+    const isMoveBlocked = (guest: Guest, deskNo: number) =>
+        capacityMode === 'block' && wouldOverflow(guest, deskNo);
+
     const handleDragStart = (e: DragEvent, guest: Guest) => {
         setDraggedGuest(guest);
         e.dataTransfer.effectAllowed = 'move';
@@ -63,7 +77,11 @@ export function GuestManagementPanel({
 
     const handleDrop = (e: DragEvent, targetDeskNo: number) => {
         e.preventDefault();
-        if (draggedGuest && draggedGuest.desk_no !== targetDeskNo) {
+        if (
+            draggedGuest &&
+            draggedGuest.desk_no !== targetDeskNo &&
+            !isMoveBlocked(draggedGuest, targetDeskNo)
+        ) {
             onReassignGuest(draggedGuest.id, targetDeskNo);
         }
         setDraggedGuest(null);
@@ -83,7 +101,11 @@ export function GuestManagementPanel({
 
     // Handle mobile move guest
     const handleMoveGuest = (targetDeskNo: number) => {
-        if (movingGuest && movingGuest.desk_no !== targetDeskNo) {
+        if (
+            movingGuest &&
+            movingGuest.desk_no !== targetDeskNo &&
+            !isMoveBlocked(movingGuest, targetDeskNo)
+        ) {
             onReassignGuest(movingGuest.id, targetDeskNo);
             setMovingGuest(null);
         }
@@ -180,7 +202,10 @@ export function GuestManagementPanel({
                                             <button
                                                 key={deskNo}
                                                 onClick={() => handleMoveGuest(deskNo)}
-                                                className="px-4 py-2 rounded-lg bg-indigo-500 text-white font-medium"
+                                                disabled={isMoveBlocked(movingGuest, deskNo)}
+                                                className={`px-4 py-2 rounded-lg text-white font-medium disabled:opacity-40 ${wouldOverflow(movingGuest, deskNo) ? 'bg-amber-500' : 'bg-indigo-500'
+                                                    }`}
+                                                title={wouldOverflow(movingGuest, deskNo) ? 'Kapasite aşılır' : undefined}
                                             >
                                                 Masa {deskNo}
                                             </button>
@@ -200,6 +225,7 @@ export function GuestManagementPanel({
                             {deskNumbers.map((deskNo) => {
                                 const tableGuests = guestsByDesk[deskNo] || [];
                                 const attendedCount = tableGuests.filter((g) => g.is_attended).length;
+                                const totalPeople = tableGuests.reduce((sum, g) => sum + g.person_count, 0);
                                 const isSelected = selectedTable === deskNo;
 
                                 return (
@@ -218,7 +244,10 @@ export function GuestManagementPanel({
                                                         Masa {deskNo}
                                                     </div>
                                                     <div className="text-sm text-slate-500">
-                                                        {tableGuests.length} davetli • {attendedCount} geldi
+                                                        {tableGuests.length} davetli • {attendedCount} geldi •{' '}
+                                                        <span className={totalPeople > getCapacity(deskNo) ? 'text-rose-600' : ''}>
+                                                            {totalPeople}/{getCapacity(deskNo)} kişi
+                                                        </span>
                                                     </div>
                                                 </div>
                                             </div>
@@ -331,11 +360,12 @@ export function GuestManagementPanel({
                         const attendedCount = tableGuests.filter((g) => g.is_attended).length;
                         const isExpanded = selectedTable === deskNo;
                         const isDropTarget = draggedGuest && draggedGuest.desk_no !== deskNo;
+                        const isDropBlocked = !!draggedGuest && isMoveBlocked(draggedGuest, deskNo);
 
                         return (
                             <div
                                 key={deskNo}
-                                className={`border-b border-slate-100 ${isDropTarget ? 'bg-indigo-50' : ''}`}
+                                className={`border-b border-slate-100 ${isDropTarget ? (isDropBlocked ? 'bg-rose-50' : 'bg-indigo-50') : ''}`}
                                 onDragOver={handleDragOver}
                                 onDrop={(e) => handleDrop(e, deskNo)}
                             >
@@ -352,9 +382,9 @@ export function GuestManagementPanel({
                                         <span className="font-semibold text-slate-700">Masa {deskNo}</span>
                                     </div>
                                     <div className="flex items-center gap-2 text-xs">
-                                        <span className="text-slate-500">
+                                        <span className={totalPeople > getCapacity(deskNo) ? 'text-rose-600' : 'text-slate-500'}>
                                             <Users weight="bold" className="w-3 h-3 inline mr-0.5" />
-                                            {totalPeople}
+                                            {totalPeople}/{getCapacity(deskNo)}
                                         </span>
                                         <span className="text-emerald-600">
                                             <Check weight="bold" className="w-3 h-3 inline mr-0.5" />
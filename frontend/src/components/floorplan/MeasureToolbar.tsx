@@ -0,0 +1,103 @@
+import { Ruler, X } from '@phosphor-icons/react';
+import type { PlanScale } from '@/lib/supabase';
+import { formatMetres, parseDecimal } from '@/lib/floorPlanUnits';
+
+interface MeasureToolbarProps {
+  // Distance between the two marked points in metres, null until both
+  // are marked
+  distance: number | null;
+  scale: PlanScale;
+  // Read-only roles only see the scale
+  onScaleChange?: (scale: PlanScale) => void;
+  onClose: () => void;
+}
+
+interface ScaleInputProps {
+  label: string;
+  unit: string;
+  value: number;
+  title: string;
+  onChange?: (value: number) => void;
+}
+
+// Number saved when the field loses focus or Enter is pressed
+function ScaleInput({ label, unit, value, title, onChange }: ScaleInputProps) {
+  const text = value.toLocaleString('tr-TR', { maximumFractionDigits: 2 });
+  return (
+    <label className="flex items-center gap-1 whitespace-nowrap" title={title}>
+      {label}
+      <input
+        // Reset the typed text when the saved value changes
+        key={value}
+        type="text"
+        inputMode="decimal"
+        defaultValue={text}
+        disabled={!onChange}
+        onBlur={(e) => {
+          const next = parseDecimal(e.target.value);
+          if (next > 0 && next !== value) {
+            onChange?.(next);
+          } else {
+            e.target.value = text;
+          }
+        }}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') e.currentTarget.blur();
+        }}
+        className="w-12 px-1.5 py-1 rounded-md border border-slate-200 text-slate-800 tabular-nums disabled:bg-slate-50"
+      />
+      {unit}
+    </label>
+  );
+}
+
+// Distance between two points clicked on the floor plan, and the scale
+// the plan is measured with
+export function MeasureToolbar({
+  distance,
+  scale,
+  onScaleChange,
+  onClose,
+}: MeasureToolbarProps) {
+  return (
+    <div className="absolute top-12 sm:top-3 left-1/2 -translate-x-1/2 z-30 flex flex-wrap items-center justify-center gap-x-3 gap-y-1.5 p-2 max-w-[calc(100%-7rem)] bg-white/95 backdrop-blur-sm rounded-lg shadow-sm border border-slate-200 text-xs text-slate-600">
+      <span className="flex items-center gap-1.5 whitespace-nowrap">
+        <Ruler weight="bold" className="w-4 h-4 text-indigo-600" />
+        {distance === null ? (
+          'İki noktaya tıklayın'
+        ) : (
+          <span className="font-semibold text-slate-800 tabular-nums">
+            {formatMetres(distance, 2)}
+          </span>
+        )}
+      </span>
+      <ScaleInput
+        label="1 m ="
+        unit="px"
+        value={scale.pxPerMetre}
+        title="Planda bir metrenin uzunluğu"
+        onChange={
+          onScaleChange &&
+          ((pxPerMetre) => onScaleChange({ ...scale, pxPerMetre }))
+        }
+      />
+      <ScaleInput
+        label="Geçiş"
+        unit="m"
+        value={scale.walkwayWidth}
+        title="Masalar arasında bırakılacak en dar geçiş"
+        onChange={
+          onScaleChange &&
+          ((walkwayWidth) => onScaleChange({ ...scale, walkwayWidth }))
+        }
+      />
+      <button
+        onClick={onClose}
+        className="p-1 rounded-md text-slate-400 hover:bg-slate-100 hover:text-slate-600"
+        title="Ölçümü Kapat"
+      >
+        <X weight="bold" className="w-4 h-4" />
+      </button>
+    </div>
+  );
+}
@@ -1,35 +1,41 @@
 import type { Guest } from '@/lib/supabase';
+import { getArrivedCount, isPartiallyArrived } from '@/lib/guestStats';
+import { getSeatCount, getSeatAssignments, getPersonName } from '@/lib/seatAssignments';
 
 interface MiniTablePreviewProps {
     deskNo: number;
     guests: Guest[];
     highlightGuestId?: number;
+    // Free chairs are shown up to the capacity
+    capacity?: number;
 }
 
 export function MiniTablePreview({
     deskNo,
     guests,
     highlightGuestId,
+    capacity = 0,
 }: MiniTablePreviewProps) {
     const totalPersons = guests.reduce((sum, g) => sum + g.person_count, 0);
     const radius = 50;
     const chairRadius = radius + 18;
 
-    // Generate seat positions
-    const seats: { guest: Guest; x: number; y: number; isHighlighted: boolean }[] = [];
-    let currentIndex = 0;
+    // Enough chairs for the capacity and for every chosen seat
+    const seatCount = Math.max(
+        getSeatCount(guests, capacity),
+        ...guests.flatMap((g) => (g.seats ?? []).map((seat) => seat + 1)),
+    );
 
-    guests.forEach((guest) => {
-        for (let i = 0; i < guest.person_count; i++) {
-            const angle = (2 * Math.PI / totalPersons) * currentIndex - Math.PI / 2;
-            seats.push({
-                guest,
-                x: chairRadius * Math.cos(angle),
-                y: chairRadius * Math.sin(angle),
-                isHighlighted: guest.id === highlightGuestId,
-            });
-            currentIndex++;
-        }
+    // Seats clockwise from the top, like on the floor plan
+    const seats = getSeatAssignments(guests, seatCount).map((occupant, index) => {
+        const angle = (2 * Math.PI / seatCount) * index - Math.PI / 2;
+        return {
+            occupant,
+            x: chairRadius * Math.cos(angle),
+            y: chairRadius * Math.sin(angle),
+            isHighlighted: occupant?.guest.id === highlightGuestId,
+            isArrived: !!occupant && occupant.person < getArrivedCount(occupant.guest),
+        };
     });
 
     return (
@@ -56,15 +62,15 @@ export function MiniTablePreview({
                 </div>
 
                 {/* Seats */}
-                {seats.map((seat, index) => (
+                {seats.map((seat, index) => seat.occupant ? (
                     <div
-                        key={`${seat.guest.id}-${index}`}
+                        key={`${seat.occupant.guest.id}-${seat.occupant.person}`}
                         className={`
               absolute w-8 h-8 rounded-full flex items-center justify-center text-xs font-medium
               transition-all duration-200
               ${seat.isHighlighted
                                 ? 'bg-indigo-500 text-white ring-4 ring-indigo-200 scale-110 z-10'
-                                : seat.guest.is_attended
+                                : seat.isArrived
                                     ? 'bg-emerald-500 text-white'
                                     : 'bg-slate-200 text-slate-600'
                             }
@@ -74,10 +80,20 @@ export function MiniTablePreview({
                             top: `calc(50% + ${seat.y}px)`,
                             transform: 'translate(-50%, -50%)',
                         }}
-                        title={seat.guest.full_name}
+                        title={getPersonName(seat.occupant.guest, seat.occupant.person)}
                     >
-                        {seat.guest.full_name.charAt(0)}
+                        {getPersonName(seat.occupant.guest, seat.occupant.person).charAt(0)}
                     </div>
+                ) : (
+                    <div
+                        key={`empty-${index}`}
+                        className="absolute w-8 h-8 rounded-full border-2 border-dashed border-slate-300"
+                        style={{
+                            left: `calc(50% + ${seat.x}px)`,
+                            top: `calc(50% + ${seat.y}px)`,
+                            transform: 'translate(-50%, -50%)',
+                        }}
+                    />
                 ))}
             </div>
 
@@ -90,13 +106,17 @@ export function MiniTablePreview({
               px-2 py-1 rounded-full
               ${guest.id === highlightGuestId
                                 ? 'bg-indigo-100 text-indigo-700 font-medium'
-                                : guest.is_attended
-                                    ? 'bg-emerald-50 text-emerald-700'
-                                    : 'bg-slate-100 text-slate-600'
+                                : isPartiallyArrived(guest)
+                                    ? 'bg-amber-50 text-amber-700'
+                                    : guest.is_attended
+                                        ? 'bg-emerald-50 text-emerald-700'
+                                        : 'bg-slate-100 text-slate-600'
                             }
             `}
                     >
-                        {guest.full_name.split(' ')[0]} ({guest.person_count})
+                        {guest.full_name.split(' ')[0]} ({isPartiallyArrived(guest)
+                            ? `${getArrivedCount(guest)}/${guest.person_count}`
+                            : guest.person_count})
                     </div>
                 ))}
             </div>
@@ -0,0 +1,79 @@
+import { ArrowClockwise } from '@phosphor-icons/react';
+import { normalizeRotation, ROTATION_SNAP } from '@/lib/floorPlanGeometry';
+
+interface RotationHandleProps {
+  // Element that turns around its centre; the handle sits inside it
+  targetRef: React.RefObject<HTMLElement | null>;
+  rotation: number;
+  // Edge the knob sticks out of, and how far
+  side?: 'top' | 'bottom';
+  distance: number;
+  // Called while turning, and once with the final angle
+  onRotate: (rotation: number) => void;
+  onRotateEnd: (rotation: number) => void;
+}
+
+// Knob that turns an element to any angle, in 15° steps while Shift is
+// held. The angle follows the pointer around the element's centre.
+export function RotationHandle({
+  targetRef,
+  rotation,
+  side = 'top',
+  distance,
+  onRotate,
+  onRotateEnd,
+}: RotationHandleProps) {
+  const handlePointerDown = (e: React.PointerEvent) => {
+    const target = targetRef.current;
+    if (!target || e.button !== 0) return;
+    // Keep the element itself from being dragged
+    e.stopPropagation();
+    e.preventDefault();
+
+    const rect = target.getBoundingClientRect();
+    const centreX = rect.left + rect.width / 2;
+    const centreY = rect.top + rect.height / 2;
+    const angleTo = (event: { clientX: number; clientY: number }) =>
+      (Math.atan2(event.clientY - centreY, event.clientX - centreX) * 180) /
+      Math.PI;
+    const startAngle = angleTo(e);
+    let current = rotation;
+
+    const handleMove = (event: PointerEvent) => {
+      current = normalizeRotation(
+        rotation + angleTo(event) - startAngle,
+        event.shiftKey ? ROTATION_SNAP : 1,
+      );
+      onRotate(current);
+    };
+
+    const handleEnd = () => {
+      document.removeEventListener('pointermove', handleMove);
+      document.removeEventListener('pointerup', handleEnd);
+      document.removeEventListener('pointercancel', handleEnd);
+      onRotateEnd(current);
+    };
+
+    document.addEventListener('pointermove', handleMove);
+    document.addEventListener('pointerup', handleEnd);
+    document.addEventListener('pointercancel', handleEnd);
+  };
+
+  return (
+    <div
+      data-handle
+      onPointerDown={handlePointerDown}
+      onClick={(e) => e.stopPropagation()}
+      className={`absolute left-1/2 -translate-x-1/2 flex items-center touch-none cursor-grab active:cursor-grabbing ${
+        side === 'top' ? 'bottom-full flex-col' : 'top-full flex-col-reverse'
+      }`}
+      style={{ height: distance }}
+      title="Döndür (Shift ile 15° adımlarla)"
+    >
+      <div className="w-6 h-6 shrink-0 flex items-center justify-center bg-white border-2 border-indigo-500 rounded-full shadow-md hover:scale-110 transition-transform">
+        <ArrowClockwise weight="bold" className="w-3.5 h-3.5 text-indigo-600" />
+      </div>
+      <div className="w-0.5 flex-1 bg-indigo-400" />
+    </div>
+  );
+}
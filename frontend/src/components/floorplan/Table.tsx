@@ -1,96 +1,160 @@
-import { useRef } from 'react';
-import { motion, useMotionValue } from 'framer-motion';
+import { useRef, useState, useLayoutEffect } from 'react';
+import { motion, useMotionValue, useDragControls } from 'framer-motion';
 import { Chair } from './Chair';
-import type { Guest } from '@/lib/supabase';
+import { RotationHandle } from './RotationHandle';
+import { DEFAULT_DESK_LAYOUT, type Guest, type DeskLayout } from '@/lib/supabase';
+import { getArrivedCount, type CapacityMode } from '@/lib/guestStats';
+import { getGuestGroupColor, type GroupColorMode } from '@/lib/guestGroups';
+import {
+    getTableSize,
+    getSeatPositions,
+    CHAIR_OFFSET,
+    CHAIR_SIZE,
+} from '@/lib/floorPlanGeometry';
+import {
+    getSeatCount,
+    getSeatAssignments,
+    getPersonName,
+    type SeatOccupant,
+} from '@/lib/seatAssignments';
 
 interface TableProps {
     deskNo: number;
     guests: Guest[];
+    capacity: number;
+    layout?: DeskLayout;
     position: { x: number; y: number };
     onPositionChange: (deskNo: number, position: { x: number; y: number }) => void;
     isHighlighted: boolean;
     isDragEnabled: boolean;
     onTableClick?: (deskNo: number) => void;
+    colorMode?: GroupColorMode;
+    // Dragging people to other chairs and tables (edit mode only)
+    onSeatDragStart?: (deskNo: number, seat: number, occupant: SeatOccupant, event: React.PointerEvent) => void;
+    draggedSeat?: number | null;
+    dropTargetSeat?: number | null;
+    // Set while a guest from another table is dragged over this one:
+    // 'ok' when they fit, otherwise the capacity mode
+    dropStatus?: 'ok' | CapacityMode | null;
+    // Edit mode: reports the position while dragging, adjusts where the
+    // table lands (grid and guides) and selects it on tap
+    onDrag?: (position: { x: number; y: number }) => void;
+    snapPosition?: (position: { x: number; y: number }) => { x: number; y: number };
+    isSelected?: boolean;
+    onSelect?: (deskNo: number) => void;
+    // Edit mode: turns the table with a handle above it
+    onRotate?: (deskNo: number, rotation: number) => void;
 }
 
 export function Table({
     deskNo,
     guests,
+    capacity,
+    layout: savedLayout = DEFAULT_DESK_LAYOUT,
     position,
     onPositionChange,
     isHighlighted,
     isDragEnabled,
     onTableClick,
+    colorMode = 'attendance',
+    onSeatDragStart,
+    draggedSeat = null,
+    dropTargetSeat = null,
+    dropStatus = null,
+    onDrag,
+    snapPosition,
+    isSelected = false,
+    onSelect,
+    onRotate,
 }: TableProps) {
     // Motion values for smooth dragging
     const x = useMotionValue(position.x);
     const y = useMotionValue(position.y);
     const isDragging = useRef(false);
+    const wasDragged = useRef(false);
+    // Drag is started from React so chairs can keep the table still
+    const dragControls = useDragControls();
+    const tableRef = useRef<HTMLDivElement>(null);
+    // Angle shown while the rotation handle is dragged
+    const [previewRotation, setPreviewRotation] = useState<number | null>(null);
+    const layout = previewRotation === null
+        ? savedLayout
+        : { ...savedLayout, rotation: previewRotation };
 
     // Update motion values when position prop changes
-    if (!isDragging.current) {
-        x.set(position.x);
-        y.set(position.y);
-    }
+    useLayoutEffect(() => {
+        if (!isDragging.current) {
+            x.set(position.x);
+            y.set(position.y);
+        }
+    }, [x, y, position.x, position.y]);
 
     // Calculate total person count for this table
     const totalPersons = guests.reduce((sum, g) => sum + g.person_count, 0);
-    const attendedCount = guests.filter((g) => g.is_attended === true).length;
-
-    // Table sizing based on capacity
-    const baseRadius = 45;
-    const radius = Math.max(baseRadius, baseRadius + (totalPersons - 6) * 3);
-    const chairRadius = radius + 22;
-
-    // Generate chair positions using polar coordinates
-    const getChairPositions = () => {
-        const positions: { guest: Guest; x: number; y: number; angle: number }[] = [];
-        let currentIndex = 0;
-
-        guests.forEach((guest) => {
-            for (let i = 0; i < guest.person_count; i++) {
-                const angle = (2 * Math.PI / totalPersons) * currentIndex - Math.PI / 2;
-                positions.push({
-                    guest,
-                    x: chairRadius * Math.cos(angle),
-                    y: chairRadius * Math.sin(angle),
-                    angle: angle + Math.PI / 2,
-                });
-                currentIndex++;
-            }
-        });
-
-        return positions;
-    };
+    const arrivedPersons = guests.reduce((sum, g) => sum + getArrivedCount(g), 0);
+
+    const isOverCapacity = totalPersons > capacity;
+
+    // Table sizing based on capacity (or the people seated, if more)
+    const seatCount = getSeatCount(guests, capacity);
+    const { width, height } = getTableSize(layout, seatCount);
+    const seats = getSeatPositions(layout, seatCount);
+    const isRound = layout.shape === 'round';
+    const borderRadius = isRound ? '9999px' : layout.shape === 'oval' ? '50%' : '12px';
 
-    const chairPositions = getChairPositions();
+    // Who sits on each chair; free chairs are null
+    const assignments = getSeatAssignments(guests, seatCount);
+    const canDragSeats = isDragEnabled && !!onSeatDragStart;
+
+    // Rings around the table follow its shape and rotation
+    const ringStyle = (padding: number) => ({
+        width: width + padding * 2,
+        height: height + padding * 2,
+        left: '50%',
+        top: '50%',
+        borderRadius: isRound ? '9999px' : layout.shape === 'oval' ? '50%' : '24px',
+        transform: `translate(-50%, -50%) rotate(${layout.rotation}deg)`,
+    });
 
     const handleClick = () => {
-        if (!isDragEnabled && !isDragging.current) {
+        if (wasDragged.current) return;
+        if (isDragEnabled) {
+            onSelect?.(deskNo);
+        } else {
             onTableClick?.(deskNo);
         }
     };
 
     return (
         <motion.div
+            ref={tableRef}
             drag={isDragEnabled}
+            dragControls={dragControls}
+            dragListener={false}
+            onPointerDown={(e) => {
+                if (isDragEnabled) dragControls.start(e);
+            }}
             dragMomentum={false}
             dragElastic={0}
             whileDrag={{ scale: 1.05, zIndex: 100 }}
             onDragStart={() => {
                 isDragging.current = true;
+                wasDragged.current = true;
             }}
+            onDrag={() => onDrag?.({ x: x.get(), y: y.get() })}
             onDragEnd={() => {
+                isDragging.current = false;
                 if (isDragEnabled) {
                     // Save the current position from motion values
-                    onPositionChange(deskNo, {
-                        x: x.get(),
-                        y: y.get(),
-                    });
+                    const dropped = { x: x.get(), y: y.get() };
+                    const next = snapPosition ? snapPosition(dropped) : dropped;
+                    x.set(next.x);
+                    y.set(next.y);
+                    onPositionChange(deskNo, next);
                 }
                 // Small delay to prevent click firing after drag
                 setTimeout(() => {
-                    isDragging.current = false;
+                    wasDragged.current = false;
                 }, 100);
             }}
             className={`absolute ${isDragEnabled ? 'cursor-grab active:cursor-grabbing' : 'cursor-pointer'}`}
@@ -101,54 +165,81 @@ export function Table({
                 translateY: '-50%',
             }}
             onClick={handleClick}
+            data-desk-no={deskNo}
         >
+            {/* Drop target ring */}
+            {dropStatus && (
+                <div
+                    className={`absolute border-4 pointer-events-none ${dropStatus === 'ok'
+                            ? 'border-indigo-500 bg-indigo-100/40'
+                            : dropStatus === 'warn'
+                                ? 'border-amber-500 bg-amber-100/40'
+                                : 'border-rose-500 bg-rose-100/40'
+                        }`}
+                    style={ringStyle(35)}
+                />
+            )}
+
             {/* Highlight ring */}
             {isHighlighted && (
                 <div
-                    className="absolute rounded-full border-4 border-indigo-400 animate-pulse pointer-events-none"
-                    style={{
-                        width: (radius + 35) * 2,
-                        height: (radius + 35) * 2,
-                        left: '50%',
-                        top: '50%',
-                        transform: 'translate(-50%, -50%)',
-                    }}
+                    className="absolute border-4 border-indigo-400 animate-pulse pointer-events-none"
+                    style={ringStyle(35)}
                 />
             )}
 
-            {/* Drag mode indicator ring */}
+            {/* Drag mode indicator ring (solid when selected) */}
             {isDragEnabled && (
                 <div
-                    className="absolute rounded-full border-2 border-dashed border-rose-400 pointer-events-none opacity-60"
-                    style={{
-                        width: (radius + 30) * 2,
-                        height: (radius + 30) * 2,
-                        left: '50%',
-                        top: '50%',
-                        transform: 'translate(-50%, -50%)',
-                    }}
+                    className={`absolute pointer-events-none ${isSelected
+                            ? 'border-4 border-sky-500'
+                            : 'border-2 border-dashed border-rose-400 opacity-60'
+                        }`}
+                    style={ringStyle(30)}
                 />
             )}
 
-            {/* Table circle */}
+            {/* Table top */}
             <div
                 className={`
-          relative rounded-full flex items-center justify-center
+          relative flex items-center justify-center
           shadow-lg transition-all duration-200
           ${isHighlighted
                         ? 'bg-indigo-100 border-4 border-indigo-500'
                         : isDragEnabled
                             ? 'bg-rose-50 border-4 border-rose-300'
-                            : 'bg-amber-50 border-4 border-amber-200 hover:border-amber-300 hover:shadow-xl'
+                            : isOverCapacity
+                                ? 'bg-amber-50 border-4 border-rose-400 hover:border-rose-500 hover:shadow-xl'
+                                : 'bg-amber-50 border-4 border-amber-200 hover:border-amber-300 hover:shadow-xl'
                     }
         `}
                 style={{
-                    width: radius * 2,
-                    height: radius * 2,
+                    width,
+                    height,
+                    borderRadius,
+                    transform: `rotate(${layout.rotation}deg)`,
                 }}
             >
-                {/* Table number */}
-                <div className="text-center select-none pointer-events-none">
+                {isDragEnabled && onRotate && (
+                    <RotationHandle
+                        targetRef={tableRef}
+                        rotation={savedLayout.rotation}
+                        distance={CHAIR_OFFSET + CHAIR_SIZE + 12}
+                        onRotate={setPreviewRotation}
+                        onRotateEnd={(rotation) => {
+                            setPreviewRotation(null);
+                            if (rotation !== savedLayout.rotation) {
+                                onRotate(deskNo, rotation);
+                            }
+                        }}
+                    />
+                )}
+
+                {/* Table number (kept upright) */}
+                <div
+                    className="text-center select-none pointer-events-none"
+                    style={{ transform: `rotate(${-layout.rotation}deg)` }}
+                >
                     <div
                         className={`text-2xl font-bold ${isHighlighted
                                 ? 'text-indigo-700'
@@ -159,20 +250,60 @@ export function Table({
                     >
                         {deskNo}
                     </div>
-                    <div className="text-xs text-slate-500">
-                        {attendedCount}/{guests.length}
+                    <div className="text-xs text-slate-500" title="Gelen kişi">
+                        {arrivedPersons}/{totalPersons}
+                    </div>
+                    <div
+                        className={`text-[10px] ${isOverCapacity ? 'text-rose-600 font-semibold' : 'text-slate-400'}`}
+                        title="Dolu / kapasite"
+                    >
+                        {totalPersons}/{capacity} kişi
                     </div>
                 </div>
             </div>
 
-            {/* Chairs */}
-            {chairPositions.map((chair, index) => (
+            {/* Empty seats */}
+            {assignments.map((occupant, index) => !occupant && (
+                <div
+                    key={`empty-${index}`}
+                    data-desk-no={deskNo}
+                    data-seat={index}
+                    className={`absolute w-7 h-7 rounded-full border-2 border-dashed ${dropTargetSeat === index
+                            ? 'border-indigo-500 bg-indigo-50'
+                            : 'border-slate-300 bg-white/60'
+                        }`}
+                    style={{
+                        left: `calc(50% + ${seats[index].x}px)`,
+                        top: `calc(50% + ${seats[index].y}px)`,
+                        transform: 'translate(-50%, -50%)',
+                    }}
+                />
+            ))}
+
+            {/* Chairs. The first seats of a party fill up as its people arrive. */}
+            {assignments.map((occupant, index) => occupant && (
                 <Chair
-                    key={`${chair.guest.id}-${index}`}
-                    guest={chair.guest}
-                    x={chair.x}
-                    y={chair.y}
-                    angle={chair.angle}
+                    key={`${occupant.guest.id}-${occupant.person}`}
+                    guest={occupant.guest}
+                    personName={getPersonName(occupant.guest, occupant.person)}
+                    isArrived={occupant.person < getArrivedCount(occupant.guest)}
+                    deskNo={deskNo}
+                    seat={index}
+                    x={seats[index].x}
+                    y={seats[index].y}
+                    angle={seats[index].angle}
+                    groupColor={
+                        colorMode === 'attendance'
+                            ? undefined
+                            : getGuestGroupColor(occupant.guest, colorMode)
+                    }
+                    isDragged={draggedSeat === index}
+                    isDropTarget={dropTargetSeat === index}
+                    onDragStart={
+                        canDragSeats
+                            ? (event) => onSeatDragStart(deskNo, index, occupant, event)
+                            : undefined
+                    }
                 />
             ))}
         </motion.div>
@@ -8,6 +8,12 @@ import {
   Warning,
   DotsSixVertical,
   FloppyDisk,
+  Minus,
+  Plus,
+  ClockCounterClockwise,
+  CaretDown,
+  ArrowClockwise,
+  ArrowsOutCardinal,
 } from '@phosphor-icons/react';
 import {
   Dialog,
@@ -17,7 +23,22 @@ import {
   DialogFooter,
 } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
-import type { Guest } from '@/lib/supabase';
+import { AuditLogPanel } from '@/components/AuditLogPanel';
+import {
+  supabase,
+  type Guest,
+  type Desk,
+  type DeskLayout,
+  type DeskShape,
+  DEFAULT_DESK_LAYOUT,
+} from '@/lib/supabase';
+import { DESK_SHAPE_LABELS, getTableSize } from '@/lib/floorPlanGeometry';
+import {
+  getDeskStats,
+  getArrivedCount,
+  isPartiallyArrived,
+  type CapacityMode,
+} from '@/lib/guestStats';
 
 interface TableInfoDialogProps {
   deskNo: number;
@@ -27,6 +48,16 @@ interface TableInfoDialogProps {
   onToggleAttendance: (guest: Guest) => void;
   onGuestClick: (guest: Guest) => void;
   onReorderGuests?: (deskNo: number, guests: Guest[]) => void;
+  // Start dragging a guest onto another table of the floor plan
+  onGuestDragStart?: (guest: Guest, event: React.PointerEvent) => void;
+  capacity: number;
+  onCapacityChange?: (deskNo: number, capacity: number) => void;
+  capacityMode: CapacityMode;
+  onCapacityModeChange?: (mode: CapacityMode) => void;
+  layout?: DeskLayout;
+  onLayoutChange?: (deskNo: number, layout: DeskLayout) => void;
+  // Write back a previous version of the desk from the change log
+  onRestoreDesk?: (deskNo: number, updates: Partial<Desk>) => void;
 }
 
 export function TableInfoDialog({
@@ -37,12 +68,21 @@ export function TableInfoDialog({
   onToggleAttendance,
   onGuestClick,
   onReorderGuests,
+  onGuestDragStart,
+  capacity,
+  onCapacityChange,
+  capacityMode,
+  onCapacityModeChange,
+  layout = DEFAULT_DESK_LAYOUT,
+  onLayoutChange,
+  onRestoreDesk,
 }: TableInfoDialogProps) {
   const [orderedGuests, setOrderedGuests] = useState<Guest[]>(guests);
   const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
   const [hasChanges, setHasChanges] = useState(false);
   const [prevOpen, setPrevOpen] = useState(open);
   const [prevGuests, setPrevGuests] = useState(guests);
+  const [showHistory, setShowHistory] = useState(false);
 
   // Reset state when dialog opens or guests change (avoid useEffect setState)
   if (open !== prevOpen || guests !== prevGuests) {
@@ -52,13 +92,24 @@ export function TableInfoDialog({
       setOrderedGuests(guests);
       setHasChanges(false);
     }
+    if (open && !prevOpen) setShowHistory(false);
   }
 
-  const totalPeople = orderedGuests.reduce((sum, g) => sum + g.person_count, 0);
-  const totalGifts = orderedGuests.reduce((sum, g) => sum + g.gift_count, 0);
-  const attendedCount = orderedGuests.filter(
-    (g) => g.is_attended === true,
-  ).length;
+  const { totalPeople, totalGifts, arrivedPeople } =
+    getDeskStats(orderedGuests);
+  const isOverCapacity = totalPeople > capacity;
+  const tableSize = getTableSize(layout, Math.max(capacity, totalPeople));
+
+  const changeLayout = (changes: Partial<DeskLayout>) => {
+    onLayoutChange?.(deskNo, { ...layout, ...changes });
+  };
+
+  // Grow or shrink the table top, starting from its current size
+  const resize = (dimension: 'width' | 'height', delta: number) => {
+    changeLayout({
+      [dimension]: Math.max(40, Math.round(tableSize[dimension] + delta)),
+    });
+  };
 
   // Drag and drop handlers
   const handleDragStart = useCallback((index: number) => {
@@ -142,12 +193,18 @@ export function TableInfoDialog({
                 Masa {deskNo}
               </span>
               <div className="flex items-center gap-3 mt-0.5 text-sm text-slate-500 font-normal">
-                <span className="flex items-center gap-1">
+                <span
+                  className={`flex items-center gap-1 ${
+                    isOverCapacity ? 'text-rose-600 font-medium' : ''
+                  }`}
+                >
                   <Users
                     weight="bold"
-                    className="w-3.5 h-3.5 text-indigo-400"
+                    className={`w-3.5 h-3.5 ${
+                      isOverCapacity ? 'text-rose-500' : 'text-indigo-400'
+                    }`}
                   />
-                  {totalPeople} kişi
+                  {totalPeople}/{capacity} kişi
                 </span>
                 <span className="flex items-center gap-1">
                   <Gift weight="bold" className="w-3.5 h-3.5 text-amber-400" />
@@ -158,13 +215,171 @@ export function TableInfoDialog({
                     weight="bold"
                     className="w-3.5 h-3.5 text-emerald-500"
                   />
-                  {attendedCount}/{orderedGuests.length}
+                  {arrivedPeople}/{totalPeople} geldi
                 </span>
               </div>
             </div>
           </DialogTitle>
         </DialogHeader>
 
+        {/* Capacity */}
+        {onCapacityChange && (
+          <div className="flex flex-wrap items-center justify-between gap-2 py-2 border-b border-slate-100 text-sm">
+            <div className="flex items-center gap-2">
+              <span className="text-slate-600">Kapasite</span>
+              <div className="flex items-center rounded-lg border border-slate-200">
+                <button
+                  onClick={() =>
+                    onCapacityChange(deskNo, Math.max(1, capacity - 1))
+                  }
+                  disabled={capacity <= 1}
+                  className="p-1.5 text-slate-500 hover:bg-slate-100 rounded-l-lg disabled:opacity-40"
+                  title="Azalt"
+                >
+                  <Minus weight="bold" className="w-3.5 h-3.5" />
+                </button>
+                <span className="w-8 text-center font-semibold text-slate-800 tabular-nums">
+                  {capacity}
+                </span>
+                <button
+                  onClick={() => onCapacityChange(deskNo, capacity + 1)}
+                  className="p-1.5 text-slate-500 hover:bg-slate-100 rounded-r-lg"
+                  title="Arttır"
+                >
+                  <Plus weight="bold" className="w-3.5 h-3.5" />
+                </button>
+              </div>
+              {isOverCapacity && (
+                <span className="text-xs text-rose-600">
+                  {totalPeople - capacity} kişi fazla
+                </span>
+              )}
+            </div>
+            {onCapacityModeChange && (
+              <label className="flex items-center gap-1.5 text-xs text-slate-500">
+                Aşımda
+                <select
+                  value={capacityMode}
+                  onChange={(e) =>
+                    onCapacityModeChange(e.target.value as CapacityMode)
+                  }
+                  className="px-1.5 py-1 bg-slate-50 border border-slate-200 rounded-md text-xs focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                  title="Tüm masalar için geçerli"
+                >
+                  <option value="warn">Uyar</option>
+                  <option value="block">Engelle</option>
+                </select>
+              </label>
+            )}
+          </div>
+        )}
+
+        {/* Shape & Size */}
+        {onLayoutChange && (
+          <div className="space-y-2 py-2 border-b border-slate-100 text-sm">
+            <div className="flex items-center gap-1.5">
+              <span className="text-slate-600 mr-1">Şekil</span>
+              {(Object.keys(DESK_SHAPE_LABELS) as DeskShape[]).map((shape) => (
+                <button
+                  key={shape}
+                  onClick={() =>
+                    changeLayout({ shape, width: null, height: null })
+                  }
+                  className={`px-2 py-1 rounded-md text-xs font-medium transition-colors ${
+                    layout.shape === shape
+                      ? 'bg-amber-500 text-white'
+                      : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+                  }`}
+                >
+                  {DESK_SHAPE_LABELS[shape]}
+                </button>
+              ))}
+              <button
+                onClick={() =>
+                  changeLayout({ rotation: (layout.rotation + 90) % 360 })
+                }
+                className="ml-auto p-1.5 rounded-md text-slate-500 hover:bg-slate-100"
+                title="90° Döndür"
+              >
+                <ArrowClockwise weight="bold" className="w-4 h-4" />
+              </button>
+            </div>
+            <div className="flex flex-wrap items-center gap-3 text-xs text-slate-600">
+              {(['width', 'height'] as const).map((dimension) => (
+                <div key={dimension} className="flex items-center gap-1.5">
+                  {dimension === 'width' ? 'Uzunluk' : 'Genişlik'}
+                  <div className="flex items-center rounded-lg border border-slate-200">
+                    <button
+                      onClick={() => resize(dimension, -20)}
+                      className="p-1 text-slate-500 hover:bg-slate-100 rounded-l-lg"
+                      title="Küçült"
+                    >
+                      <Minus weight="bold" className="w-3 h-3" />
+                    </button>
+                    <span className="w-9 text-center font-semibold text-slate-800 tabular-nums">
+                      {Math.round(tableSize[dimension])}
+                    </span>
+                    <button
+                      onClick={() => resize(dimension, 20)}
+                      className="p-1 text-slate-500 hover:bg-slate-100 rounded-r-lg"
+                      title="Büyüt"
+                    >
+                      <Plus weight="bold" className="w-3 h-3" />
+                    </button>
+                  </div>
+                </div>
+              ))}
+              {(layout.width !== null || layout.height !== null) && (
+                <button
+                  onClick={() => changeLayout({ width: null, height: null })}
+                  className="text-indigo-600 hover:underline"
+                >
+                  Otomatik boyut
+                </button>
+              )}
+              {layout.rotation !== 0 && (
+                <span className="text-slate-400">{layout.rotation}°</span>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Change Log */}
+        {supabase && (
+          <div className="py-2 border-b border-slate-100">
+            <button
+              onClick={() => setShowHistory(!showHistory)}
+              className="w-full flex items-center gap-1.5 text-sm text-slate-600 hover:text-slate-800"
+            >
+              <ClockCounterClockwise
+                weight="bold"
+                className="w-4 h-4 text-slate-400"
+              />
+              Değişiklik geçmişi
+              <CaretDown
+                weight="bold"
+                className={`w-3.5 h-3.5 ml-auto text-slate-400 transition-transform ${
+                  showHistory ? 'rotate-180' : ''
+                }`}
+              />
+            </button>
+            {showHistory && (
+              <div className="mt-2">
+                <AuditLogPanel
+                  table="desks"
+                  recordId={deskNo}
+                  onRestore={
+                    onRestoreDesk
+                      ? (updates) =>
+                          onRestoreDesk(deskNo, updates as Partial<Desk>)
+                      : undefined
+                  }
+                />
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Guest List with Drag & Drop */}
         <div className="flex-1 overflow-y-auto py-2 -mx-2 px-2">
           {orderedGuests.length === 0 ? (
@@ -261,13 +476,34 @@ export function TableInfoDialog({
                         </span>
                       </div>
                       <div className="flex items-center gap-2 text-xs text-slate-500">
-                        <span>{guest.person_count} kişi</span>
+                        <span>
+                          {isPartiallyArrived(guest)
+                            ? `${getArrivedCount(guest)}/${guest.person_count} kişi geldi`
+                            : `${guest.person_count} kişi`}
+                        </span>
                         {guest.gift_count > 0 && (
                           <span>• {guest.gift_count} hediye</span>
                         )}
                       </div>
                     </div>
 
+                    {/* Drag onto another table (the dialog closes) */}
+                    {onGuestDragStart && (
+                      <button
+                        onPointerDown={(e) => {
+                          if (e.button !== 0) return;
+                          handleClose(false);
+                          onGuestDragStart(guest, e);
+                        }}
+                        onMouseDown={(e) => e.preventDefault()}
+                        onClick={(e) => e.stopPropagation()}
+                        className="shrink-0 p-1.5 rounded-lg text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 cursor-grab touch-none"
+                        title="Başka masaya sürükle"
+                      >
+                        <ArrowsOutCardinal weight="bold" className="w-4 h-4" />
+                      </button>
+                    )}
+
                     {/* Arrow indicator */}
                     <div className="shrink-0 text-slate-300 group-hover:text-slate-400 transition-colors">
                       <svg
@@ -0,0 +1,220 @@
+import { useState } from 'react';
+import {
+  MapTrifold,
+  FileArrowUp,
+  SpinnerGap,
+  WarningCircle,
+  Ruler,
+  Trash,
+  LockSimple,
+} from '@phosphor-icons/react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import type { VenuePlan } from '@/lib/supabase';
+import { readVenuePlanFile, createVenuePlan, isPdfFile } from '@/lib/venuePlan';
+
+interface VenuePlanDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  plan: VenuePlan | null;
+  onChange: (plan: VenuePlan | null) => void;
+  // Close the dialog and mark a known distance on the floor plan
+  onStartCalibration: () => void;
+}
+
+// Upload the venue's floor plan and set how it is shown beneath the tables
+export function VenuePlanDialog({
+  open,
+  onOpenChange,
+  plan,
+  onChange,
+  onStartCalibration,
+}: VenuePlanDialogProps) {
+  // The last PDF picked, so another page can be chosen
+  const [pdfFile, setPdfFile] = useState<File | null>(null);
+  const [pageCount, setPageCount] = useState(1);
+  const [page, setPage] = useState(1);
+  const [isReading, setIsReading] = useState(false);
+  const [fileError, setFileError] = useState<string | null>(null);
+
+  const handleFile = async (file: File, pageNo = 1) => {
+    setIsReading(true);
+    setFileError(null);
+    try {
+      const image = await readVenuePlanFile(file, pageNo);
+      onChange(createVenuePlan(image, plan));
+      setPdfFile(isPdfFile(file) ? file : null);
+      setPageCount(image.pageCount);
+      setPage(pageNo);
+    } catch (error) {
+      console.error('Failed to read venue plan:', error);
+      setFileError('Dosya okunamadı. PNG, JPG, SVG veya PDF seçin.');
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md bg-white border-slate-200">
+        <DialogHeader>
+          <DialogTitle className="text-lg font-semibold text-slate-800 flex items-center gap-2">
+            <MapTrifold weight="bold" className="w-5 h-5 text-indigo-600" />
+            Mekan Planı
+          </DialogTitle>
+          <DialogDescription className="text-slate-500 text-sm">
+            Salonun krokisini yükleyin, ölçeğini ayarlayın ve masaları üzerine
+            yerleştirin.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <label className="flex flex-col items-center justify-center gap-2 p-4 border-2 border-dashed border-slate-200 rounded-xl cursor-pointer hover:border-indigo-300 hover:bg-indigo-50/30 transition-colors overflow-hidden">
+            {isReading ? (
+              <SpinnerGap
+                weight="bold"
+                className="w-8 h-8 text-indigo-500 animate-spin"
+              />
+            ) : plan ? (
+              <img
+                src={plan.image}
+                alt="Mekan planı"
+                className="max-h-40 object-contain"
+              />
+            ) : (
+              <FileArrowUp
+                weight="duotone"
+                className="w-8 h-8 text-slate-400"
+              />
+            )}
+            <span className="text-sm font-medium text-slate-700">
+              {plan ? 'Başka dosya seçin' : 'Dosya seçin'}
+            </span>
+            <span className="text-xs text-slate-500">
+              .png, .jpg, .svg, .pdf
+            </span>
+            <input
+              type="file"
+              accept="image/png,image/jpeg,image/svg+xml,application/pdf,.pdf"
+              className="hidden"
+              disabled={isReading}
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleFile(file);
+                e.target.value = '';
+              }}
+            />
+          </label>
+          {fileError && (
+            <p className="text-sm text-rose-600 flex items-center gap-1.5">
+              <WarningCircle weight="bold" className="w-4 h-4" />
+              {fileError}
+            </p>
+          )}
+
+          {pdfFile && pageCount > 1 && (
+            <label className="flex items-center justify-between gap-2 text-sm text-slate-700">
+              PDF sayfası
+              <select
+                value={page}
+                disabled={isReading}
+                onChange={(e) => handleFile(pdfFile, Number(e.target.value))}
+                className="px-2 py-1 rounded-md border border-slate-200 bg-white"
+              >
+                {Array.from({ length: pageCount }, (_, i) => (
+                  <option key={i + 1} value={i + 1}>
+                    {i + 1} / {pageCount}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+
+          {plan && (
+            <>
+              <label className="block text-sm text-slate-700">
+                <span className="flex items-center justify-between">
+                  Saydamlık
+                  <span className="text-xs text-slate-500 tabular-nums">
+                    %{Math.round(plan.opacity * 100)}
+                  </span>
+                </span>
+                <input
+                  type="range"
+                  min={0.1}
+                  max={1}
+                  step={0.05}
+                  value={plan.opacity}
+                  onChange={(e) =>
+                    onChange({ ...plan, opacity: Number(e.target.value) })
+                  }
+                  className="w-full accent-indigo-600"
+                />
+              </label>
+
+              <label className="flex items-center gap-2 text-sm text-slate-700">
+                <input
+                  type="checkbox"
+                  checked={plan.locked}
+                  onChange={(e) =>
+                    onChange({ ...plan, locked: e.target.checked })
+                  }
+                  className="rounded border-slate-300"
+                />
+                <LockSimple weight="bold" className="w-4 h-4 text-slate-500" />
+                Masaların altında kilitle
+              </label>
+              {!plan.locked && (
+                <p className="text-xs text-slate-500">
+                  Kilit açıkken plan düzenleme modunda sürüklenebilir.
+                </p>
+              )}
+
+              <div className="flex items-center justify-between gap-2 rounded-lg bg-slate-50 p-3">
+                <span
+                  className={`text-xs ${plan.calibrated ? 'text-emerald-700' : 'text-amber-700'}`}
+                >
+                  {plan.calibrated
+                    ? 'Ölçek ayarlandı'
+                    : 'Ölçek ayarlanmadı: masalar gerçek boyutuyla eşleşmeyebilir'}
+                </span>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={onStartCalibration}
+                  className="shrink-0"
+                >
+                  <Ruler weight="bold" className="w-4 h-4" />
+                  Ölçeği ayarla
+                </Button>
+              </div>
+
+              <div className="flex justify-end">
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => {
+                    onChange(null);
+                    setPdfFile(null);
+                  }}
+                  className="text-rose-600 hover:text-rose-700 hover:bg-rose-50"
+                >
+                  <Trash weight="bold" className="w-4 h-4" />
+                  Planı kaldır
+                </Button>
+              </div>
+            </>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,53 @@
+import { useLayoutEffect } from 'react';
+import { motion, useMotionValue } from 'framer-motion';
+import type { VenuePlan } from '@/lib/supabase';
+
+interface VenuePlanLayerProps {
+  plan: VenuePlan;
+  // Unlocked plans can be dragged in edit mode
+  isDragEnabled: boolean;
+  onMove: (position: { x: number; y: number }) => void;
+}
+
+// The venue's floor plan image beneath the fixed objects and tables
+export function VenuePlanLayer({
+  plan,
+  isDragEnabled,
+  onMove,
+}: VenuePlanLayerProps) {
+  const x = useMotionValue(plan.x);
+  const y = useMotionValue(plan.y);
+
+  useLayoutEffect(() => {
+    x.set(plan.x);
+    y.set(plan.y);
+  }, [x, y, plan.x, plan.y]);
+
+  return (
+    <motion.div
+      drag={isDragEnabled}
+      dragMomentum={false}
+      dragElastic={0}
+      onDragEnd={() => onMove({ x: x.get(), y: y.get() })}
+      className={`absolute top-0 left-0 ${
+        isDragEnabled
+          ? 'cursor-move outline-2 outline-dashed outline-indigo-400'
+          : 'pointer-events-none'
+      }`}
+      style={{
+        x,
+        y,
+        width: plan.width * plan.scale,
+        height: plan.height * plan.scale,
+        opacity: plan.opacity,
+      }}
+    >
+      <img
+        src={plan.image}
+        alt=""
+        draggable={false}
+        className="w-full h-full select-none"
+      />
+    </motion.div>
+  );
+}
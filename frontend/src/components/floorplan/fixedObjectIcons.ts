@@ -0,0 +1,33 @@
+import {
+  MicrophoneStage,
+  MusicNotes,
+  Martini,
+  ForkKnife,
+  Headphones,
+  SignIn,
+  SignOut,
+  Columns,
+  Rectangle,
+  Triangle,
+  Circle,
+  SquareHalf,
+  Pentagon,
+  type Icon,
+} from '@phosphor-icons/react';
+import type { FixedObjectType } from '@/lib/supabase';
+
+export const FIXED_OBJECT_ICONS: Record<FixedObjectType, Icon> = {
+  stage: MicrophoneStage,
+  dance_floor: MusicNotes,
+  bar: Martini,
+  buffet: ForkKnife,
+  dj: Headphones,
+  entrance: SignIn,
+  exit: SignOut,
+  pillar: Columns,
+  rectangle: Rectangle,
+  triangle: Triangle,
+  circle: Circle,
+  l_shape: SquareHalf,
+  polygon: Pentagon,
+};
@@ -0,0 +1,70 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  loadSettingFromDB,
+  saveSettingToDB,
+  eventStorageKey,
+} from '@/lib/supabase';
+
+const STORAGE_PREFIX = 'engagement_setting_';
+
+// Load a setting from localStorage
+function loadLocalSetting(key: string): string | null {
+  try {
+    return localStorage.getItem(eventStorageKey(STORAGE_PREFIX + key));
+  } catch {
+    return null;
+  }
+}
+
+// Save a setting to localStorage
+function saveLocalSetting(key: string, value: string): void {
+  try {
+    localStorage.setItem(eventStorageKey(STORAGE_PREFIX + key), value);
+  } catch (e) {
+    console.error('Failed to save setting to localStorage:', e);
+  }
+}
+
+// A shared setting from the app_settings table, cached in localStorage.
+// Values outside `allowed` fall back to the default.
+export function useAppSetting<T extends string>(
+  key: string,
+  defaultValue: T,
+  allowed: readonly T[],
+) {
+  const parse = useCallback(
+    (value: string | null): T | null =>
+      allowed.includes(value as T) ? (value as T) : null,
+    [allowed],
+  );
+
+  const [value, setValue] = useState<T>(
+    () => parse(loadLocalSetting(key)) ?? defaultValue,
+  );
+
+  // Load the shared value from Supabase
+  useEffect(() => {
+    let cancelled = false;
+    loadSettingFromDB(key).then((stored) => {
+      const parsed = parse(stored);
+      if (!cancelled && parsed !== null) {
+        setValue(parsed);
+        saveLocalSetting(key, parsed);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [key, parse]);
+
+  const updateValue = useCallback(
+    (next: T) => {
+      setValue(next);
+      saveLocalSetting(key, next);
+      saveSettingToDB(key, next);
+    },
+    [key],
+  );
+
+  return [value, updateValue] as const;
+}
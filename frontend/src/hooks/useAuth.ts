@@ -0,0 +1,26 @@
+import { useState, useEffect } from 'react';
+import type { Session } from '@supabase/supabase-js';
+import { supabase, getAuthSession, subscribeToAuth } from '@/lib/supabase';
+
+// Supabase Auth session. Without Supabase there is nobody to sign in.
+export function useAuth() {
+  const [session, setSession] = useState<Session | null>(null);
+  const [isLoading, setIsLoading] = useState(!!supabase);
+
+  useEffect(() => {
+    let cancelled = false;
+    getAuthSession().then((current) => {
+      if (cancelled) return;
+      setSession(current);
+      setIsLoading(false);
+    });
+
+    const unsubscribe = subscribeToAuth(setSession);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, []);
+
+  return { session, isLoading };
+}
@@ -0,0 +1,25 @@
+import { useState, useEffect } from 'react';
+import { supabase, type EventRole, loadEventRoleFromDB } from '@/lib/supabase';
+
+// Role of the signed-in user in the active event. Without Supabase the
+// data only lives on this device, so its user owns it.
+export function useEventRole() {
+  const [role, setRole] = useState<EventRole | null>(supabase ? null : 'owner');
+  const [isLoading, setIsLoading] = useState(!!supabase);
+
+  useEffect(() => {
+    if (!supabase) return;
+
+    let cancelled = false;
+    loadEventRoleFromDB().then((loaded) => {
+      if (cancelled) return;
+      setRole(loaded);
+      setIsLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return { role, isLoading };
+}
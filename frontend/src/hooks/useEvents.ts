@@ -0,0 +1,91 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  supabase,
+  type AppEvent,
+  type GuestRaw,
+  type EventCloneOptions,
+  DEFAULT_EVENT_ID,
+  getActiveEventId,
+  setActiveEventId,
+  getLocalEvents,
+  saveLocalEvents,
+  loadEventsFromDB,
+  createEventInDB,
+  deleteEventFromDB,
+  cloneEventInDB,
+  cloneLocalEvent,
+} from '@/lib/supabase';
+import guestsData from '../../db.json';
+
+export function useEvents() {
+  const [events, setEvents] = useState<AppEvent[]>(getLocalEvents);
+  const [activeEventId, setActiveId] = useState(getActiveEventId);
+
+  const selectEvent = useCallback((id: number) => {
+    setActiveEventId(id);
+    setActiveId(id);
+  }, []);
+
+  // Load the shared event list from Supabase
+  useEffect(() => {
+    let cancelled = false;
+    loadEventsFromDB().then((loaded) => {
+      if (cancelled || !loaded || loaded.length === 0) return;
+      setEvents(loaded);
+      saveLocalEvents(loaded);
+
+      // The active event was deleted on another device
+      if (!loaded.some((e) => e.id === getActiveEventId())) {
+        selectEvent(loaded[0].id);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [selectEvent]);
+
+  // Create an event, optionally copy data from a previous one, and switch
+  // to it. Resolves null if the event could not be created.
+  const createEvent = useCallback(
+    async (
+      event: Omit<AppEvent, 'id'>,
+      clone: EventCloneOptions | null,
+    ): Promise<AppEvent | null> => {
+      let created: AppEvent | null;
+
+      if (supabase) {
+        created = await createEventInDB(event);
+        // A half-copied event is removed rather than left behind
+        if (created && clone && !(await cloneEventInDB(created.id, clone))) {
+          await deleteEventFromDB(created.id);
+          created = null;
+        }
+      } else {
+        const ids = getLocalEvents().map((e) => e.id);
+        created = { ...event, id: Math.max(DEFAULT_EVENT_ID, ...ids) + 1 };
+        if (clone) {
+          // The bundled list only belongs to the default event
+          const sourceGuests =
+            clone.sourceEventId === DEFAULT_EVENT_ID
+              ? (guestsData as GuestRaw[])
+              : [];
+          cloneLocalEvent(created.id, clone, sourceGuests);
+        }
+      }
+
+      if (!created) return null;
+
+      const next = [...getLocalEvents(), created];
+      setEvents(next);
+      saveLocalEvents(next);
+      selectEvent(created.id);
+      return created;
+    },
+    [selectEvent],
+  );
+
+  const activeEvent =
+    events.find((e) => e.id === activeEventId) ?? events[0] ?? null;
+
+  return { events, activeEventId, activeEvent, selectEvent, createEvent };
+}
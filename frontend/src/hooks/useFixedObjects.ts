@@ -4,18 +4,25 @@ import {
   createFixedObjectInDB,
   updateFixedObjectInDB,
   deleteFixedObjectFromDB,
+  subscribeToTable,
+  eventStorageKey,
   supabase,
+  LOCAL_CHANGE_GRACE_MS,
+  type FixedObjectDB,
+  type FixedObjectType,
 } from '@/lib/supabase';
+import { FIXED_OBJECT_TYPES, getPolygonPoints } from '@/lib/fixedObjectTypes';
 
 export interface FixedObjectData {
   id: string;
-  type: 'rectangle' | 'triangle';
+  type: FixedObjectType;
   name: string;
   x: number;
   y: number;
   width: number;
   height: number;
-  rotation: number; // 0, 90, 180, 270
+  rotation: number; // degrees clockwise
+  points?: [number, number][] | null;
 }
 
 const STORAGE_KEY = 'engagement_fixed_objects';
@@ -26,7 +33,7 @@ function generateId(): string {
 
 function loadLocalObjects(): FixedObjectData[] {
   try {
-    const stored = localStorage.getItem(STORAGE_KEY);
+    const stored = localStorage.getItem(eventStorageKey(STORAGE_KEY));
     return stored ? JSON.parse(stored) : [];
   } catch {
     return [];
@@ -35,18 +42,43 @@ function loadLocalObjects(): FixedObjectData[] {
 
 function saveLocalObjects(objects: FixedObjectData[]): void {
   try {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(objects));
+    localStorage.setItem(eventStorageKey(STORAGE_KEY), JSON.stringify(objects));
   } catch (e) {
     console.error('Failed to save fixed objects to localStorage:', e);
   }
 }
 
+// Normalise numeric columns from Supabase
+function convertDBObject(obj: FixedObjectDB): FixedObjectData {
+  return {
+    id: obj.id,
+    type: obj.type,
+    name: obj.name,
+    x: Number(obj.x),
+    y: Number(obj.y),
+    width: Number(obj.width),
+    height: Number(obj.height),
+    rotation: Number(obj.rotation),
+    points: obj.points ?? null,
+  };
+}
+
+// Load objects from Supabase
+async function loadConvertedObjects(): Promise<FixedObjectData[] | null> {
+  if (!supabase) return null;
+
+  const dbObjects = await loadFixedObjectsFromDB();
+  return dbObjects.map(convertDBObject);
+}
+
 export function useFixedObjects() {
   const [objects, setObjects] = useState<FixedObjectData[]>(() =>
     loadLocalObjects(),
   );
   const [isLoaded, setIsLoaded] = useState(false);
   const initialLoadDone = useRef(false);
+  // Last time this device changed each object
+  const localChanges = useRef(new Map<string, number>());
 
   // Load from Supabase on mount
   useEffect(() => {
@@ -54,22 +86,10 @@ export function useFixedObjects() {
     initialLoadDone.current = true;
 
     const loadFromSupabase = async () => {
-      if (supabase) {
-        const dbObjects = await loadFixedObjectsFromDB();
-        if (dbObjects.length > 0) {
-          const converted: FixedObjectData[] = dbObjects.map((obj) => ({
-            id: obj.id,
-            type: obj.type,
-            name: obj.name,
-            x: Number(obj.x),
-            y: Number(obj.y),
-            width: Number(obj.width),
-            height: Number(obj.height),
-            rotation: Number(obj.rotation),
-          }));
-          setObjects(converted);
-          saveLocalObjects(converted);
-        }
+      const converted = await loadConvertedObjects();
+      if (converted && converted.length > 0) {
+        setObjects(converted);
+        saveLocalObjects(converted);
       }
       setIsLoaded(true);
     };
@@ -77,6 +97,34 @@ export function useFixedObjects() {
     loadFromSupabase();
   }, []);
 
+  // Reload from Supabase (e.g. after queued changes were synced)
+  const reloadObjects = useCallback(async () => {
+    const converted = await loadConvertedObjects();
+    if (converted && converted.length > 0) {
+      setObjects(converted);
+    }
+  }, []);
+
+  // Merge changes made on other devices
+  useEffect(() => {
+    return subscribeToTable<FixedObjectDB>('fixed_objects', (change) => {
+      if (change.type === 'DELETE') {
+        setObjects((prev) => prev.filter((obj) => obj.id !== change.old.id));
+        return;
+      }
+
+      const remote = convertDBObject(change.record);
+      const changedAt = localChanges.current.get(remote.id);
+      if (changedAt && Date.now() - changedAt < LOCAL_CHANGE_GRACE_MS) return;
+
+      setObjects((prev) =>
+        prev.some((obj) => obj.id === remote.id)
+          ? prev.map((obj) => (obj.id === remote.id ? remote : obj))
+          : [...prev, remote],
+      );
+    });
+  }, []);
+
   // Save to localStorage whenever objects change (after initial load)
   useEffect(() => {
     if (isLoaded) {
@@ -84,48 +132,67 @@ export function useFixedObjects() {
     }
   }, [objects, isLoaded]);
 
+  // Create an object in Supabase (if available) and add it to the state
+  const insertObject = useCallback(async (newObject: FixedObjectData) => {
+    const created = { ...newObject };
+
+    // Try to create in Supabase first
+    if (supabase) {
+      const dbObj = await createFixedObjectInDB(
+        {
+          name: created.name,
+          type: created.type,
+          x: created.x,
+          y: created.y,
+          width: created.width,
+          height: created.height,
+          rotation: created.rotation,
+          points: created.points ?? null,
+        },
+        created.id,
+      );
+
+      if (dbObj) {
+        created.id = dbObj.id; // Use the DB-generated ID
+      }
+    }
+
+    // The realtime insert may already have added it
+    setObjects((prev) =>
+      prev.some((obj) => obj.id === created.id) ? prev : [...prev, created],
+    );
+    return created;
+  }, []);
+
   const addObject = useCallback(
-    async (
-      type: 'rectangle' | 'triangle',
-      name: string,
-      x?: number,
-      y?: number,
-    ) => {
-      const newObject: FixedObjectData = {
+    async (type: FixedObjectType, name: string, x?: number, y?: number) => {
+      return insertObject({
         id: generateId(),
         type,
         name,
         x: x ?? 200 + Math.random() * 200,
         y: y ?? 200 + Math.random() * 200,
-        width: type === 'rectangle' ? 100 : 80,
-        height: type === 'rectangle' ? 60 : 80,
+        width: FIXED_OBJECT_TYPES[type].width,
+        height: FIXED_OBJECT_TYPES[type].height,
         rotation: 0,
-      };
-
-      // Try to create in Supabase first
-      if (supabase) {
-        const dbObj = await createFixedObjectInDB({
-          name: newObject.name,
-          type: newObject.type,
-          x: newObject.x,
-          y: newObject.y,
-          width: newObject.width,
-          height: newObject.height,
-          rotation: newObject.rotation,
-        });
-
-        if (dbObj) {
-          newObject.id = dbObj.id; // Use the DB-generated ID
-        }
-      }
-
-      setObjects((prev) => [...prev, newObject]);
-      return newObject;
+        points: type === 'polygon' ? getPolygonPoints({}) : null,
+      });
     },
-    [],
+    [insertObject],
+  );
+
+  // Re-create a deleted object (undo). It may get a new ID.
+  const restoreObject = useCallback(
+    async (object: FixedObjectData) =>
+      insertObject({
+        ...object,
+        id: supabase ? generateId() : object.id,
+      }),
+    [insertObject],
   );
 
   const updateObject = useCallback(async (updatedObject: FixedObjectData) => {
+    localChanges.current.set(updatedObject.id, Date.now());
     setObjects((prev) =>
       prev.map((obj) => (obj.id === updatedObject.id ? updatedObject : obj)),
     );
@@ -140,6 +207,7 @@ export function useFixedObjects() {
         width: updatedObject.width,
         height: updatedObject.height,
         rotation: updatedObject.rotation,
+        points: updatedObject.points ?? null,
       });
     }
   }, []);
@@ -154,6 +222,7 @@ export function useFixedObjects() {
   }, []);
 
   const editObjectName = useCallback(async (id: string, name: string) => {
+    localChanges.current.set(id, Date.now());
     setObjects((prev) =>
       prev.map((obj) => (obj.id === id ? { ...obj, name } : obj)),
     );
@@ -179,10 +248,12 @@ export function useFixedObjects() {
   return {
     objects,
     addObject,
+    restoreObject,
     updateObject,
     deleteObject,
     editObjectName,
     resetObjects,
+    reloadObjects,
     isLoaded,
   };
 }
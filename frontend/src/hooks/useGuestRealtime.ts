@@ -0,0 +1,198 @@
+import {
+  useState,
+  useEffect,
+  useCallback,
+  useRef,
+  type Dispatch,
+  type SetStateAction,
+} from 'react';
+import { type Guest, subscribeToTable, updateGuestInDB } from '@/lib/supabase';
+
+// Fields where a concurrent change from another device is reported
+const TRACKED_FIELDS = [
+  'full_name',
+  'person_count',
+  'desk_no',
+  'gift_count',
+  'description',
+  'is_attended',
+  'attended_count',
+] as const;
+
+type TrackedField = (typeof TRACKED_FIELDS)[number];
+
+// Local edits older than this are no longer considered concurrent
+const EDIT_WINDOW_MS = 2 * 60 * 1000;
+
+interface PendingField {
+  // Latest value written by this device
+  value: unknown;
+  // Server value before this device started editing the field
+  base: unknown;
+  // Every value written since, so echoes of earlier writes are recognised
+  written: unknown[];
+}
+
+interface LocalEdit {
+  fields: Partial<Record<TrackedField, PendingField>>;
+  at: number;
+}
+
+export interface GuestConflictField {
+  field: TrackedField;
+  local: unknown;
+  remote: unknown;
+}
+
+export interface GuestConflict {
+  guestId: number;
+  guestName: string;
+  fields: GuestConflictField[];
+}
+
+export function useGuestRealtime(
+  setGuests: Dispatch<SetStateAction<Guest[]>>,
+  enabled: boolean,
+) {
+  const [conflicts, setConflicts] = useState<GuestConflict[]>([]);
+  // Edits made on this device that have not been echoed back yet
+  const localEdits = useRef(new Map<number, LocalEdit>());
+
+  // Remember what this device changed so remote changes can be compared.
+  // `current` holds the values before the change.
+  const recordLocalEdit = useCallback(
+    (id: number, updates: Partial<Guest>, current: Partial<Guest>) => {
+      const existing = localEdits.current.get(id);
+      const fields: LocalEdit['fields'] = { ...existing?.fields };
+      let changed = false;
+      TRACKED_FIELDS.forEach((field) => {
+        if (!(field in updates)) return;
+        const previous = existing?.fields[field];
+        fields[field] = {
+          value: updates[field],
+          base: previous ? previous.base : current[field],
+          written: [...(previous?.written ?? []), updates[field]],
+        };
+        changed = true;
+      });
+      if (!changed) return;
+
+      localEdits.current.set(id, { fields, at: Date.now() });
+    },
+    [],
+  );
+
+  const handleRemoteUpdate = useCallback(
+    (remote: Guest) => {
+      const edit = localEdits.current.get(remote.id);
+      const conflictFields: GuestConflictField[] = [];
+      const echoedFields: TrackedField[] = [];
+      // Our values for fields whose write has not come back yet
+      const kept: Partial<Guest> = {};
+
+      if (edit && Date.now() - edit.at < EDIT_WINDOW_MS) {
+        const pending = { ...edit.fields };
+        (Object.keys(pending) as TrackedField[]).forEach((field) => {
+          const local = pending[field]!;
+          const value = remote[field];
+          if (value === local.value) {
+            // Echo of our latest write
+            delete pending[field];
+            echoedFields.push(field);
+            return;
+          }
+          Object.assign(kept, { [field]: local.value });
+          // Unchanged on the server, or an echo of an earlier write of ours
+          if (value === local.base || local.written.includes(value)) return;
+
+          conflictFields.push({ field, local: local.value, remote: value });
+          // Later updates of other columns carry this value again
+          pending[field] = { ...local, base: value };
+        });
+
+        if (Object.keys(pending).length === 0) {
+          localEdits.current.delete(remote.id);
+        } else {
+          localEdits.current.set(remote.id, { ...edit, fields: pending });
+        }
+      } else if (edit) {
+        localEdits.current.delete(remote.id);
+      }
+
+      // Apply the remote row but keep our values for pending and
+      // conflicting fields until they are written or the user decides
+      setGuests((prev) =>
+        prev.map((g) => (g.id === remote.id ? { ...remote, ...kept } : g)),
+      );
+
+      if (conflictFields.length > 0 || echoedFields.length > 0) {
+        setConflicts((prev) => {
+          const existing = prev.find((c) => c.guestId === remote.id);
+          const fields = [
+            ...(existing?.fields ?? []).filter(
+              ({ field }) =>
+                !echoedFields.includes(field) &&
+                !conflictFields.some((c) => c.field === field),
+            ),
+            ...conflictFields,
+          ];
+          const others = prev.filter((c) => c.guestId !== remote.id);
+          return fields.length > 0
+            ? [
+                ...others,
+                { guestId: remote.id, guestName: remote.full_name, fields },
+              ]
+            : others;
+        });
+      }
+    },
+    [setGuests],
+  );
+
+  // Subscribe to guest changes from other devices
+  useEffect(() => {
+    if (!enabled) return;
+
+    return subscribeToTable<Guest>('guests', (change) => {
+      if (change.type === 'DELETE') {
+        const deletedId = change.old.id;
+        if (deletedId === undefined) return;
+        localEdits.current.delete(deletedId);
+        setGuests((prev) => prev.filter((g) => g.id !== deletedId));
+        setConflicts((prev) => prev.filter((c) => c.guestId !== deletedId));
+      } else if (change.type === 'INSERT') {
+        const inserted = change.record;
+        setGuests((prev) =>
+          prev.some((g) => g.id === inserted.id) ? prev : [...prev, inserted],
+        );
+      } else {
+        handleRemoteUpdate(change.record);
+      }
+    });
+  }, [enabled, setGuests, handleRemoteUpdate]);
+
+  // Resolve a conflict by writing the chosen values for every conflicting field
+  const resolveConflict = useCallback(
+    async (guestId: number, keep: 'mine' | 'theirs') => {
+      const conflict = conflicts.find((c) => c.guestId === guestId);
+      if (!conflict) return;
+
+      const updates: Partial<Guest> = {};
+      const server: Partial<Guest> = {};
+      conflict.fields.forEach(({ field, local, remote }) => {
+        Object.assign(updates, { [field]: keep === 'mine' ? local : remote });
+        Object.assign(server, { [field]: remote });
+      });
+
+      setConflicts((prev) => prev.filter((c) => c.guestId !== guestId));
+      setGuests((prev) =>
+        prev.map((g) => (g.id === guestId ? { ...g, ...updates } : g)),
+      );
+      recordLocalEdit(guestId, updates, server);
+      await updateGuestInDB(guestId, updates);
+    },
+    [conflicts, setGuests, recordLocalEdit],
+  );
+
+  return { conflicts, recordLocalEdit, resolveConflict };
+}
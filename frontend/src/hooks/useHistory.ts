@@ -0,0 +1,139 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+
+// An undoable change. undo/redo also write the change back to storage.
+export interface HistoryCommand {
+  label: string;
+  undo: () => void | Promise<void>;
+  redo: () => void | Promise<void>;
+  // Consecutive commands with the same key (e.g. while resizing an
+  // object) are merged into one step
+  mergeKey?: string;
+}
+
+interface HistoryEntry extends HistoryCommand {
+  pushedAt: number;
+}
+
+const MAX_HISTORY = 50;
+const MERGE_WINDOW_MS = 1000;
+
+// Keyboard shortcuts should not steal undo from text fields
+function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return (
+    target.isContentEditable ||
+    ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)
+  );
+}
+
+export function useHistory() {
+  const [undoStack, setUndoStack] = useState<HistoryEntry[]>([]);
+  const [redoStack, setRedoStack] = useState<HistoryEntry[]>([]);
+  const [isBusy, setIsBusy] = useState(false);
+  // Mirrors of the state for use inside async callbacks
+  const undoRef = useRef<HistoryEntry[]>([]);
+  const redoRef = useRef<HistoryEntry[]>([]);
+  const busyRef = useRef(false);
+
+  const setStacks = useCallback(
+    (undo: HistoryEntry[], redo: HistoryEntry[]) => {
+      undoRef.current = undo;
+      redoRef.current = redo;
+      setUndoStack(undo);
+      setRedoStack(redo);
+    },
+    [],
+  );
+
+  // Record a change that has already been applied
+  const push = useCallback(
+    (command: HistoryCommand) => {
+      const now = Date.now();
+      const undo = undoRef.current;
+      const last = undo[undo.length - 1];
+
+      if (
+        command.mergeKey &&
+        last?.mergeKey === command.mergeKey &&
+        now - last.pushedAt < MERGE_WINDOW_MS
+      ) {
+        // Keep the oldest undo, take the newest redo
+        const merged = { ...last, redo: command.redo, pushedAt: now };
+        setStacks([...undo.slice(0, -1), merged], []);
+        return;
+      }
+
+      setStacks(
+        [...undo, { ...command, pushedAt: now }].slice(-MAX_HISTORY),
+        [],
+      );
+    },
+    [setStacks],
+  );
+
+  // Run one step; commands are never run side by side
+  const step = useCallback(
+    async (direction: 'undo' | 'redo') => {
+      if (busyRef.current) return;
+      const from = direction === 'undo' ? undoRef.current : redoRef.current;
+      const entry = from[from.length - 1];
+      if (!entry) return;
+
+      busyRef.current = true;
+      setIsBusy(true);
+      try {
+        await entry[direction]();
+      } catch (e) {
+        console.error(`Failed to ${direction} "${entry.label}":`, e);
+      } finally {
+        busyRef.current = false;
+        setIsBusy(false);
+      }
+
+      const moved = { ...entry, mergeKey: undefined };
+      if (direction === 'undo') {
+        setStacks(undoRef.current.slice(0, -1), [...redoRef.current, moved]);
+      } else {
+        setStacks([...undoRef.current, moved], redoRef.current.slice(0, -1));
+      }
+    },
+    [setStacks],
+  );
+
+  const undo = useCallback(() => step('undo'), [step]);
+  const redo = useCallback(() => step('redo'), [step]);
+
+  // Ctrl+Z / Ctrl+Shift+Z (and Ctrl+Y) - Cmd on macOS
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      if (isEditableTarget(e.target)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z') {
+        e.preventDefault();
+        if (e.shiftKey) {
+          redo();
+        } else {
+          undo();
+        }
+      } else if (key === 'y' && !e.shiftKey) {
+        e.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  return {
+    push,
+    undo,
+    redo,
+    canUndo: undoStack.length > 0 && !isBusy,
+    canRedo: redoStack.length > 0 && !isBusy,
+    undoLabel: undoStack[undoStack.length - 1]?.label ?? null,
+    redoLabel: redoStack[redoStack.length - 1]?.label ?? null,
+  };
+}
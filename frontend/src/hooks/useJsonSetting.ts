@@ -0,0 +1,63 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  loadSettingFromDB,
+  saveSettingToDB,
+  eventStorageKey,
+} from '@/lib/supabase';
+
+function loadLocalValue(storageKey: string): string | null {
+  try {
+    return localStorage.getItem(eventStorageKey(storageKey));
+  } catch {
+    return null;
+  }
+}
+
+function saveLocalValue(storageKey: string, value: unknown): void {
+  try {
+    if (value === null) {
+      localStorage.removeItem(eventStorageKey(storageKey));
+    } else {
+      localStorage.setItem(eventStorageKey(storageKey), JSON.stringify(value));
+    }
+  } catch (e) {
+    console.error('Failed to save setting to localStorage:', e);
+  }
+}
+
+// A JSON setting from the app_settings table, cached in localStorage.
+// `parse` checks stored text (null or empty when unset) before use; null
+// values are stored as an empty string.
+export function useJsonSetting<T>(
+  key: string,
+  storageKey: string,
+  parse: (value: string | null) => T,
+) {
+  const [value, setValue] = useState<T>(() =>
+    parse(loadLocalValue(storageKey)),
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    loadSettingFromDB(key).then((stored) => {
+      if (cancelled || stored === null) return;
+      const parsed = parse(stored);
+      setValue(parsed);
+      saveLocalValue(storageKey, parsed);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [key, storageKey, parse]);
+
+  const updateValue = useCallback(
+    (next: T) => {
+      setValue(next);
+      saveLocalValue(storageKey, next);
+      saveSettingToDB(key, next === null ? '' : JSON.stringify(next));
+    },
+    [key, storageKey],
+  );
+
+  return [value, updateValue] as const;
+}
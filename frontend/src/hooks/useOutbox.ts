@@ -0,0 +1,67 @@
+import { useEffect, useRef, useSyncExternalStore } from 'react';
+import {
+  supabase,
+  subscribeOutbox,
+  getOutboxSnapshot,
+  flushOutbox,
+  retryFailedOutboxEntries,
+  discardOutboxEntry,
+} from '@/lib/supabase';
+
+// How often to retry while mutations are waiting for the network
+const RETRY_INTERVAL_MS = 15000;
+
+export function useOutbox(onSynced?: () => void) {
+  const { entries, isSyncing, lastSyncedAt } = useSyncExternalStore(
+    subscribeOutbox,
+    getOutboxSnapshot,
+  );
+
+  const pendingCount = entries.filter((e) => e.status === 'pending').length;
+  const failedCount = entries.filter((e) => e.status === 'failed').length;
+
+  // Replay whenever the browser reports it is back online, and on mount
+  useEffect(() => {
+    if (!supabase) return;
+
+    const handleOnline = () => {
+      flushOutbox();
+    };
+
+    flushOutbox();
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, []);
+
+  // Keep retrying while something is pending (navigator.onLine is not reliable)
+  useEffect(() => {
+    if (!supabase || pendingCount === 0) return;
+
+    const interval = setInterval(() => {
+      flushOutbox();
+    }, RETRY_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [pendingCount]);
+
+  // Notify the caller after queued changes reached the database
+  const onSyncedRef = useRef(onSynced);
+  useEffect(() => {
+    onSyncedRef.current = onSynced;
+  }, [onSynced]);
+
+  useEffect(() => {
+    if (lastSyncedAt !== null) {
+      onSyncedRef.current?.();
+    }
+  }, [lastSyncedAt]);
+
+  return {
+    entries,
+    pendingCount,
+    failedCount,
+    isSyncing,
+    flush: flushOutbox,
+    retryFailed: retryFailedOutboxEntries,
+    discardEntry: discardOutboxEntry,
+  };
+}
@@ -0,0 +1,15 @@
+import { PLAN_SCALE_SETTING_KEY } from '@/lib/supabase';
+import { parsePlanScale } from '@/lib/floorPlanUnits';
+import { useJsonSetting } from '@/hooks/useJsonSetting';
+
+const STORAGE_KEY = 'engagement_plan_scale';
+
+// Metres on the floor plan and the walkway wanted between tables
+export function usePlanScale() {
+  const [scale, updateScale] = useJsonSetting(
+    PLAN_SCALE_SETTING_KEY,
+    STORAGE_KEY,
+    parsePlanScale,
+  );
+  return { scale, updateScale };
+}
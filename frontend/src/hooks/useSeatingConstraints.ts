@@ -0,0 +1,65 @@
+import { useState, useCallback } from 'react';
+import type {
+  SeatingConstraint,
+  SeatingConstraintType,
+} from '@/lib/seatingSolver';
+import { eventStorageKey } from '@/lib/supabase';
+
+const STORAGE_KEY = 'engagement_seating_constraints';
+
+// Load constraints from localStorage
+function loadLocalConstraints(): SeatingConstraint[] {
+  try {
+    const stored = localStorage.getItem(eventStorageKey(STORAGE_KEY));
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+}
+
+// Save constraints to localStorage
+function saveLocalConstraints(constraints: SeatingConstraint[]): void {
+  try {
+    localStorage.setItem(
+      eventStorageKey(STORAGE_KEY),
+      JSON.stringify(constraints),
+    );
+  } catch (e) {
+    console.error('Failed to save seating constraints to localStorage:', e);
+  }
+}
+
+export function useSeatingConstraints() {
+  const [constraints, setConstraints] =
+    useState<SeatingConstraint[]>(loadLocalConstraints);
+
+  const update = useCallback(
+    (updater: (prev: SeatingConstraint[]) => SeatingConstraint[]) => {
+      setConstraints((prev) => {
+        const next = updater(prev);
+        saveLocalConstraints(next);
+        return next;
+      });
+    },
+    [],
+  );
+
+  const addConstraint = useCallback(
+    (type: SeatingConstraintType, guestIds: number[], groupKeys: string[]) => {
+      update((prev) => [
+        ...prev,
+        { id: `constraint-${Date.now()}`, type, guestIds, groupKeys },
+      ]);
+    },
+    [update],
+  );
+
+  const removeConstraint = useCallback(
+    (id: string) => {
+      update((prev) => prev.filter((c) => c.id !== id));
+    },
+    [update],
+  );
+
+  return { constraints, addConstraint, removeConstraint };
+}
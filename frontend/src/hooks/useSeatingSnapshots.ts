@@ -0,0 +1,71 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  supabase,
+  type SeatingSnapshot,
+  type SeatingSnapshotData,
+  getLocalSnapshots,
+  saveLocalSnapshots,
+  loadSnapshotsFromDB,
+  createSnapshotInDB,
+  deleteSnapshotFromDB,
+} from '@/lib/supabase';
+
+// Named seating-plan snapshots of the active event, newest first
+export function useSeatingSnapshots() {
+  const [snapshots, setSnapshots] =
+    useState<SeatingSnapshot[]>(getLocalSnapshots);
+
+  // Load the shared snapshots from Supabase
+  useEffect(() => {
+    let cancelled = false;
+    loadSnapshotsFromDB().then((loaded) => {
+      if (cancelled || !loaded) return;
+      setSnapshots(loaded);
+      saveLocalSnapshots(loaded);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Resolves null if the snapshot could not be saved
+  const saveSnapshot = useCallback(
+    async (
+      name: string,
+      data: SeatingSnapshotData,
+    ): Promise<SeatingSnapshot | null> => {
+      let created: SeatingSnapshot | null;
+
+      if (supabase) {
+        created = await createSnapshotInDB(name, data);
+      } else {
+        const ids = getLocalSnapshots().map((s) => s.id);
+        created = {
+          id: Math.max(0, ...ids) + 1,
+          name,
+          created_at: new Date().toISOString(),
+          data,
+        };
+      }
+
+      if (!created) return null;
+
+      const next = [created, ...getLocalSnapshots()];
+      setSnapshots(next);
+      saveLocalSnapshots(next);
+      return created;
+    },
+    [],
+  );
+
+  const deleteSnapshot = useCallback(async (id: number): Promise<boolean> => {
+    if (supabase && !(await deleteSnapshotFromDB(id))) return false;
+
+    const next = getLocalSnapshots().filter((s) => s.id !== id);
+    setSnapshots(next);
+    saveLocalSnapshots(next);
+    return true;
+  }, []);
+
+  return { snapshots, saveSnapshot, deleteSnapshot };
+}
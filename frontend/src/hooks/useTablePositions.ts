@@ -2,8 +2,15 @@ import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import {
   supabase,
   type Desk,
+  type DeskLayout,
   loadDesksFromDB,
   updateDeskPositionInDB,
+  updateDeskInDB,
+  subscribeToTable,
+  eventStorageKey,
+  LOCAL_CHANGE_GRACE_MS,
+  DEFAULT_DESK_CAPACITY,
+  DEFAULT_DESK_LAYOUT,
 } from '@/lib/supabase';
 
 interface TablePosition {
@@ -14,6 +21,8 @@ interface TablePosition {
 type TablePositions = Record<number, TablePosition>;
 
 const STORAGE_KEY = 'engagement_table_positions';
+const CAPACITY_STORAGE_KEY = 'engagement_desk_capacities';
+const LAYOUT_STORAGE_KEY = 'engagement_desk_layouts';
 
 // Generate default grid positions for tables
 function generateDefaultPositions(deskNumbers: number[]): TablePositions {
@@ -35,7 +44,7 @@ function generateDefaultPositions(deskNumbers: number[]): TablePositions {
 // Load positions from localStorage
 function loadLocalPositions(): TablePositions | null {
   try {
-    const stored = localStorage.getItem(STORAGE_KEY);
+    const stored = localStorage.getItem(eventStorageKey(STORAGE_KEY));
     return stored ? JSON.parse(stored) : null;
   } catch {
     return null;
@@ -45,12 +54,59 @@ function loadLocalPositions(): TablePositions | null {
 // Save positions to localStorage
 function saveLocalPositions(positions: TablePositions): void {
   try {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(positions));
+    localStorage.setItem(
+      eventStorageKey(STORAGE_KEY),
+      JSON.stringify(positions),
+    );
   } catch (e) {
     console.error('Failed to save table positions to localStorage:', e);
   }
 }
 
+// Load desk capacities from localStorage (used without Supabase)
+function loadLocalCapacities(): Record<number, number> {
+  try {
+    const stored = localStorage.getItem(eventStorageKey(CAPACITY_STORAGE_KEY));
+    return stored ? JSON.parse(stored) : {};
+  } catch {
+    return {};
+  }
+}
+
+// Save desk capacities to localStorage
+function saveLocalCapacities(capacities: Record<number, number>): void {
+  try {
+    localStorage.setItem(
+      eventStorageKey(CAPACITY_STORAGE_KEY),
+      JSON.stringify(capacities),
+    );
+  } catch (e) {
+    console.error('Failed to save desk capacities to localStorage:', e);
+  }
+}
+
+// Load desk shapes and sizes from localStorage (used without Supabase)
+function loadLocalLayouts(): Record<number, DeskLayout> {
+  try {
+    const stored = localStorage.getItem(eventStorageKey(LAYOUT_STORAGE_KEY));
+    return stored ? JSON.parse(stored) : {};
+  } catch {
+    return {};
+  }
+}
+
+// Save desk shapes and sizes to localStorage
+function saveLocalLayouts(layouts: Record<number, DeskLayout>): void {
+  try {
+    localStorage.setItem(
+      eventStorageKey(LAYOUT_STORAGE_KEY),
+      JSON.stringify(layouts),
+    );
+  } catch (e) {
+    console.error('Failed to save desk layouts to localStorage:', e);
+  }
+}
+
 // Convert Desk array to TablePositions
 function desksToPositions(desks: Desk[]): TablePositions {
   return desks.reduce((acc, desk) => {
@@ -63,8 +119,19 @@ export function useTablePositions(guestDeskNumbers: number[]) {
   // Desks loaded from Supabase
   const [supabaseDesks, setSupabaseDesks] = useState<Desk[]>([]);
   const [positions, setPositions] = useState<TablePositions>({});
+  const [localCapacities, setLocalCapacities] =
+    useState<Record<number, number>>(loadLocalCapacities);
+  const [localLayouts, setLocalLayouts] =
+    useState<Record<number, DeskLayout>>(loadLocalLayouts);
   const [isLoaded, setIsLoaded] = useState(false);
   const initialLoadDone = useRef(false);
+  // When this device last changed each desk (by desk number)
+  const localChanges = useRef(new Map<number, number>());
+  // Delete events only carry the row id, the desk number is looked up here
+  const supabaseDesksRef = useRef(supabaseDesks);
+  useEffect(() => {
+    supabaseDesksRef.current = supabaseDesks;
+  }, [supabaseDesks]);
 
   // Compute all desk numbers from Supabase + guests
   const allDeskNumbers = useMemo(() => {
@@ -75,6 +142,34 @@ export function useTablePositions(guestDeskNumbers: number[]) {
     return combined.sort((a, b) => a - b);
   }, [supabaseDesks, guestDeskNumbers]);
 
+  // Capacity per desk: Supabase desk row, then local value, then default
+  const capacities = useMemo(() => {
+    const result: Record<number, number> = {};
+    allDeskNumbers.forEach((deskNo) => {
+      const desk = supabaseDesks.find((d) => d.desk_no === deskNo);
+      result[deskNo] =
+        desk?.capacity ?? localCapacities[deskNo] ?? DEFAULT_DESK_CAPACITY;
+    });
+    return result;
+  }, [allDeskNumbers, supabaseDesks, localCapacities]);
+
+  // Shape, size and rotation per desk, from the same sources
+  const layouts = useMemo(() => {
+    const result: Record<number, DeskLayout> = {};
+    allDeskNumbers.forEach((deskNo) => {
+      const desk = supabaseDesks.find((d) => d.desk_no === deskNo);
+      result[deskNo] = desk?.shape
+        ? {
+            shape: desk.shape,
+            width: desk.width === null ? null : Number(desk.width),
+            height: desk.height === null ? null : Number(desk.height),
+            rotation: Number(desk.rotation),
+          }
+        : (localLayouts[deskNo] ?? DEFAULT_DESK_LAYOUT);
+    });
+    return result;
+  }, [allDeskNumbers, supabaseDesks, localLayouts]);
+
   // Load desks from Supabase on mount
   useEffect(() => {
     if (initialLoadDone.current) return;
@@ -110,6 +205,43 @@ export function useTablePositions(guestDeskNumbers: number[]) {
     loadFromSupabase();
   }, []);
 
+  // Merge desk changes made on other devices
+  useEffect(() => {
+    return subscribeToTable<Desk>('desks', (change) => {
+      if (change.type === 'DELETE') {
+        const deleted = supabaseDesksRef.current.find(
+          (d) => d.id === change.old.id,
+        );
+        setSupabaseDesks((prev) => prev.filter((d) => d.id !== change.old.id));
+        if (deleted) {
+          setPositions((prev) => {
+            const next = { ...prev };
+            delete next[deleted.desk_no];
+            return next;
+          });
+        }
+        return;
+      }
+
+      const desk = change.record;
+      const changedAt = localChanges.current.get(desk.desk_no);
+      if (changedAt && Date.now() - changedAt < LOCAL_CHANGE_GRACE_MS) return;
+
+      setSupabaseDesks((prev) =>
+        prev.some((d) => d.desk_no === desk.desk_no)
+          ? prev.map((d) => (d.desk_no === desk.desk_no ? desk : d))
+          : [...prev, desk],
+      );
+      setPositions((prev) => {
+        const current = prev[desk.desk_no];
+        const x = Number(desk.x);
+        const y = Number(desk.y);
+        if (current && current.x === x && current.y === y) return prev;
+        return { ...prev, [desk.desk_no]: { x, y } };
+      });
+    });
+  }, []);
+
   // Update positions when allDeskNumbers change (add defaults for new desks)
   const positionsWithDefaults = useMemo(() => {
     const defaultPositions = generateDefaultPositions(allDeskNumbers);
@@ -140,6 +272,7 @@ export function useTablePositions(guestDeskNumbers: number[]) {
       saveLocalPositions(currentLocal);
 
       // Save to Supabase desks table (async, fire and forget)
+      localChanges.current.set(deskNo, Date.now());
       updateDeskPositionInDB(deskNo, position.x, position.y);
     },
     [],
@@ -153,11 +286,42 @@ export function useTablePositions(guestDeskNumbers: number[]) {
     // Also reset in Supabase
     if (supabase) {
       allDeskNumbers.forEach((deskNo) => {
+        localChanges.current.set(deskNo, Date.now());
         updateDeskPositionInDB(deskNo, defaults[deskNo].x, defaults[deskNo].y);
       });
     }
   }, [allDeskNumbers]);
 
+  const updateCapacity = useCallback((deskNo: number, capacity: number) => {
+    setSupabaseDesks((prev) =>
+      prev.map((d) => (d.desk_no === deskNo ? { ...d, capacity } : d)),
+    );
+    setLocalCapacities((prev) => {
+      const next = { ...prev, [deskNo]: capacity };
+      saveLocalCapacities(next);
+      return next;
+    });
+
+    // Save to Supabase desks table (queued in the outbox when offline)
+    localChanges.current.set(deskNo, Date.now());
+    updateDeskInDB(deskNo, { capacity });
+  }, []);
+
+  const updateLayout = useCallback((deskNo: number, layout: DeskLayout) => {
+    setSupabaseDesks((prev) =>
+      prev.map((d) => (d.desk_no === deskNo ? { ...d, ...layout } : d)),
+    );
+    setLocalLayouts((prev) => {
+      const next = { ...prev, [deskNo]: layout };
+      saveLocalLayouts(next);
+      return next;
+    });
+
+    // Save to Supabase desks table (queued in the outbox when offline)
+    localChanges.current.set(deskNo, Date.now());
+    updateDeskInDB(deskNo, layout);
+  }, []);
+
   // Reload desks from Supabase
   const reloadDesks = useCallback(async () => {
     const desks = await loadDesksFromDB();
@@ -171,11 +335,41 @@ export function useTablePositions(guestDeskNumbers: number[]) {
     }
   }, []);
 
+  // Add a desk locally when it could not be created in Supabase yet
+  const addLocalDesk = useCallback(
+    (deskNo: number, position: TablePosition) => {
+      setSupabaseDesks((prev) =>
+        prev.some((d) => d.desk_no === deskNo)
+          ? prev
+          : [
+              ...prev,
+              {
+                id: -deskNo,
+                desk_no: deskNo,
+                name: null,
+                capacity: DEFAULT_DESK_CAPACITY,
+                x: position.x,
+                y: position.y,
+                ...DEFAULT_DESK_LAYOUT,
+              },
+            ],
+      );
+      setPositions((prev) => ({ ...prev, [deskNo]: position }));
+    },
+    [],
+  );
+
   return {
+    desks: supabaseDesks,
     positions: positionsWithDefaults,
     updatePosition,
     resetPositions,
+    capacities,
+    updateCapacity,
+    layouts,
+    updateLayout,
     reloadDesks,
+    addLocalDesk,
     allDeskNumbers,
     isLoaded,
   };
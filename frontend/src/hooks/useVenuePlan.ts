@@ -0,0 +1,15 @@
+import { VENUE_PLAN_SETTING_KEY } from '@/lib/supabase';
+import { parseVenuePlan } from '@/lib/venuePlan';
+import { useJsonSetting } from '@/hooks/useJsonSetting';
+
+const STORAGE_KEY = 'engagement_venue_plan';
+
+// The venue's floor plan image of the event. null removes the plan.
+export function useVenuePlan() {
+  const [plan, updatePlan] = useJsonSetting(
+    VENUE_PLAN_SETTING_KEY,
+    STORAGE_KEY,
+    parseVenuePlan,
+  );
+  return { plan, updatePlan };
+}
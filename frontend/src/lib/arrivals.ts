@@ -0,0 +1,134 @@
+import type { Guest } from '@/lib/supabase';
+import { getArrivedCount } from '@/lib/guestStats';
+
+// Arrival time and device are recorded when the first people of a party
+// arrive, and cleared when the party is marked as not arrived again
+export function withArrivalStamp(
+  guest: Guest,
+  updates: Partial<Guest>,
+  deviceName: string,
+): Partial<Guest> {
+  const wasArrived = getArrivedCount(guest) > 0;
+  const isArrived = getArrivedCount({ ...guest, ...updates }) > 0;
+
+  if (!wasArrived && isArrived) {
+    return {
+      ...updates,
+      arrived_at: new Date().toISOString(),
+      checked_in_by: deviceName,
+    };
+  }
+  if (wasArrived && !isArrived) {
+    return { ...updates, arrived_at: null, checked_in_by: null };
+  }
+  return updates;
+}
+
+// Arrivals spread over a long time (a test check-in days before the
+// event) get wider buckets instead of a chart of empty ones
+export const MAX_ARRIVAL_BUCKETS = 48;
+
+export interface ArrivalBucket {
+  start: Date;
+  // Width of the bucket, a multiple of the requested width
+  minutes: number;
+  // People who arrived in this bucket
+  people: number;
+  // People arrived up to the end of this bucket
+  cumulative: number;
+}
+
+// Arrived people per time bucket, from the first to the latest arrival.
+// Buckets are widened so there are at most MAX_ARRIVAL_BUCKETS of them.
+export function getArrivalBuckets(
+  guests: Guest[],
+  bucketMinutes: number,
+): ArrivalBucket[] {
+  const arrivals = guests
+    .filter((g) => g.arrived_at && getArrivedCount(g) > 0)
+    .map((g) => ({
+      time: new Date(g.arrived_at!).getTime(),
+      people: getArrivedCount(g),
+    }))
+    .sort((a, b) => a.time - b.time);
+
+  if (arrivals.length === 0) return [];
+
+  const span = arrivals[arrivals.length - 1].time - arrivals[0].time;
+  const minutes =
+    bucketMinutes *
+    Math.max(
+      1,
+      Math.ceil(span / (bucketMinutes * 60 * 1000) / (MAX_ARRIVAL_BUCKETS - 1)),
+    );
+  const bucketMs = minutes * 60 * 1000;
+  const first = Math.floor(arrivals[0].time / bucketMs) * bucketMs;
+  const last = arrivals[arrivals.length - 1].time;
+  const count = Math.floor((last - first) / bucketMs) + 1;
+
+  const buckets: ArrivalBucket[] = Array.from({ length: count }, (_, i) => ({
+    start: new Date(first + i * bucketMs),
+    minutes,
+    people: 0,
+    cumulative: 0,
+  }));
+  arrivals.forEach((arrival) => {
+    buckets[Math.floor((arrival.time - first) / bucketMs)].people +=
+      arrival.people;
+  });
+
+  let total = 0;
+  buckets.forEach((bucket) => {
+    total += bucket.people;
+    bucket.cumulative = total;
+  });
+  return buckets;
+}
+
+// Most recent arrivals first
+export function getLatestArrivals(guests: Guest[], limit: number): Guest[] {
+  return guests
+    .filter((g) => g.arrived_at && getArrivedCount(g) > 0)
+    .sort(
+      (a, b) =>
+        new Date(b.arrived_at!).getTime() - new Date(a.arrived_at!).getTime(),
+    )
+    .slice(0, limit);
+}
+
+export interface ExpectedArrivals {
+  pendingInvitations: number;
+  // People of parties nobody has arrived from yet
+  pendingPeople: number;
+  // People still missing from parties that arrived partially
+  missingFromPartial: number;
+  // Share of people that came from the parties that arrived so far
+  turnoutRate: number;
+  // Estimate of people still to come
+  expectedPeople: number;
+}
+
+// Estimate how many people are still expected. Pending parties are
+// assumed to show up at the same rate as the parties that arrived.
+export function getExpectedArrivals(guests: Guest[]): ExpectedArrivals {
+  const pending = guests.filter((g) => getArrivedCount(g) === 0);
+  const arrived = guests.filter((g) => getArrivedCount(g) > 0);
+
+  const pendingPeople = pending.reduce((sum, g) => sum + g.person_count, 0);
+  const arrivedPartyPeople = arrived.reduce(
+    (sum, g) => sum + g.person_count,
+    0,
+  );
+  const arrivedPeople = arrived.reduce((sum, g) => sum + getArrivedCount(g), 0);
+
+  const turnoutRate =
+    arrivedPartyPeople > 0 ? arrivedPeople / arrivedPartyPeople : 1;
+
+  return {
+    pendingInvitations: pending.length,
+    pendingPeople,
+    missingFromPartial: arrivedPartyPeople - arrivedPeople,
+    turnoutRate,
+    expectedPeople: Math.round(pendingPeople * turnoutRate),
+  };
+}
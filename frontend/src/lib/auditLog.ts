@@ -0,0 +1,107 @@
+import type { AuditEntry, DeskShape, GuestSide } from '@/lib/supabase';
+import { SIDE_LABELS } from '@/lib/guestGroups';
+import { DESK_SHAPE_LABELS } from '@/lib/floorPlanGeometry';
+
+// Columns shown in the change log, with their labels
+const COLUMN_LABELS: Record<string, string> = {
+  full_name: 'İsim',
+  desk_no: 'Masa',
+  person_count: 'Kişi',
+  gift_count: 'Hediye',
+  description: 'Not',
+  is_attended: 'Katılım',
+  attended_count: 'Gelen kişi',
+  arrived_at: 'Geliş',
+  checked_in_by: 'Giriş yapan',
+  display_order: 'Sıra',
+  side: 'Taraf',
+  household: 'Aile',
+  tags: 'Etiketler',
+  seats: 'Sandalye',
+  companions: 'Yanındakiler',
+  name: 'Ad',
+  capacity: 'Kapasite',
+  shape: 'Şekil',
+  type: 'Tür',
+  x: 'Yatay konum',
+  y: 'Dikey konum',
+  width: 'Genişlik',
+  height: 'Yükseklik',
+  rotation: 'Açı',
+};
+
+// Columns that are never written back. The seating order is kept per
+// desk, so it is restored by reordering rather than per guest.
+const UNRESTORABLE_COLUMNS = [
+  'id',
+  'event_id',
+  'created_at',
+  'updated_at',
+  'display_order',
+];
+
+export const AUDIT_ACTION_LABELS: Record<AuditEntry['action'], string> = {
+  insert: 'Oluşturuldu',
+  update: 'Değiştirildi',
+  delete: 'Silindi',
+};
+
+export interface AuditChange {
+  label: string;
+  before: string;
+  after: string;
+}
+
+function formatAuditValue(column: string, value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (column === 'is_attended') return value === true ? 'Geldi' : 'Bekliyor';
+  if (column === 'arrived_at') {
+    return new Date(String(value)).toLocaleString('tr-TR', {
+      day: 'numeric',
+      month: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  }
+  if (column === 'side') return SIDE_LABELS[value as GuestSide] ?? '—';
+  if (column === 'shape') {
+    return DESK_SHAPE_LABELS[value as DeskShape] ?? String(value);
+  }
+  // Chairs are counted from 1 on screen
+  if (column === 'seats' && Array.isArray(value)) {
+    return value.length ? value.map((seat) => seat + 1).join(', ') : '—';
+  }
+  if (Array.isArray(value)) return value.length ? value.join(', ') : '—';
+  if (typeof value === 'number') return String(Math.round(value));
+  return String(value);
+}
+
+// Changed columns of an update, in a readable form
+export function getAuditChanges(entry: AuditEntry): AuditChange[] {
+  const after = entry.after ?? {};
+  return Object.keys(after)
+    .filter((column) => column in COLUMN_LABELS)
+    .map((column) => ({
+      label: COLUMN_LABELS[column],
+      before: formatAuditValue(column, entry.before?.[column]),
+      after: formatAuditValue(column, after[column]),
+    }));
+}
+
+// Values that bring a record back to how it was before the change at
+// `index`. Entries are newest first, so the oldest value of a column wins.
+// Only field edits are restored: creating or deleting the record is not
+// undone here.
+export function getRestoreUpdates(
+  entries: AuditEntry[],
+  index: number,
+): Record<string, unknown> {
+  const updates: Record<string, unknown> = {};
+  entries.slice(0, index + 1).forEach((entry) => {
+    if (entry.action !== 'update') return;
+    Object.entries(entry.before ?? {}).forEach(([column, value]) => {
+      if (!UNRESTORABLE_COLUMNS.includes(column)) updates[column] = value;
+    });
+  });
+  return updates;
+}
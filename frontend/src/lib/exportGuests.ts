@@ -0,0 +1,293 @@
+import type { Guest } from '@/lib/supabase';
+import { getGuestQrDataUrl, hasGuestQrCode } from '@/lib/guestQr';
+import {
+  getArrivedCount,
+  isPartiallyArrived,
+  getDeskStats,
+  getGuestListStats,
+  type DeskStats,
+  type GuestListStats,
+} from '@/lib/guestStats';
+
+// Guests grouped by desk in seating order (see groupGuestsByDesk)
+export type DeskGroups = [number, Guest[]][];
+
+function attendanceLabel(guest: Guest): string {
+  if (isPartiallyArrived(guest)) {
+    return `Kısmen (${getArrivedCount(guest)}/${guest.person_count})`;
+  }
+  if (guest.is_attended === true) return 'Geldi';
+  if (guest.is_attended === false) return 'Gelmedi';
+  return 'Bekliyor';
+}
+
+export function todayStamp(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+// Quote a CSV cell when it contains the delimiter, quotes or newlines.
+// Text starting like a formula gets a leading ' so Excel shows it as text
+// instead of running it.
+function csvCell(value: string | number | null): string {
+  const raw = value === null ? '' : String(value);
+  const text =
+    typeof value === 'string' && /^[=+\-@\t\r]/.test(raw) ? `'${raw}` : raw;
+  return /[;"\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// CSV with ';' and a BOM so Excel opens Turkish characters correctly
+export function guestsToCsv(groups: DeskGroups): string {
+  const header = [
+    'Masa',
+    'Sıra',
+    'İsim',
+    'Kişi',
+    'Hediye',
+    'Katılım',
+    'Gelen Kişi',
+    'Not',
+  ];
+  const lines = [header.join(';')];
+
+  groups.forEach(([deskNo, deskGuests]) => {
+    deskGuests.forEach((guest, index) => {
+      lines.push(
+        [
+          deskNo,
+          index + 1,
+          guest.full_name,
+          guest.person_count,
+          guest.gift_count,
+          attendanceLabel(guest),
+          getArrivedCount(guest),
+          guest.description,
+        ]
+          .map(csvCell)
+          .join(';'),
+      );
+    });
+  });
+
+  return '\uFEFF' + lines.join('\r\n');
+}
+
+export interface GuestExport {
+  exportedAt: string;
+  totals: GuestListStats;
+  desks: (DeskStats & { deskNo: number; guests: Guest[] })[];
+}
+
+export function guestsToJson(groups: DeskGroups): string {
+  const allGuests = groups.flatMap(([, deskGuests]) => deskGuests);
+  const data: GuestExport = {
+    exportedAt: new Date().toISOString(),
+    totals: getGuestListStats(allGuests),
+    desks: groups.map(([deskNo, deskGuests]) => ({
+      deskNo,
+      ...getDeskStats(deskGuests),
+      guests: deskGuests,
+    })),
+  };
+  return JSON.stringify(data, null, 2);
+}
+
+// Trigger a browser download for generated content
+export function downloadFile(
+  content: string | Blob,
+  fileName: string,
+  type: string,
+) {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+export function exportGuestsCsv(groups: DeskGroups) {
+  downloadFile(
+    guestsToCsv(groups),
+    `misafirler-${todayStamp()}.csv`,
+    'text/csv;charset=utf-8',
+  );
+}
+
+export function exportGuestsJson(groups: DeskGroups) {
+  downloadFile(
+    guestsToJson(groups),
+    `misafirler-${todayStamp()}.json`,
+    'application/json',
+  );
+}
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+const REPORT_STYLES = `
+  body { font-family: system-ui, sans-serif; color: #1e293b; margin: 24px; }
+  h1 { font-size: 20px; margin: 0 0 4px; }
+  .muted { color: #64748b; font-size: 12px; }
+  .totals { display: flex; flex-wrap: wrap; gap: 16px; margin: 16px 0 24px; }
+  .totals div { border: 1px solid #e2e8f0; border-radius: 8px; padding: 8px 12px; }
+  .totals strong { display: block; font-size: 18px; }
+  section { break-inside: avoid; margin-bottom: 20px; }
+  h2 { font-size: 15px; margin: 0 0 6px; display: flex; justify-content: space-between; }
+  h2 span { font-weight: normal; color: #64748b; font-size: 12px; }
+  table { width: 100%; border-collapse: collapse; font-size: 12px; }
+  th, td { border-bottom: 1px solid #e2e8f0; padding: 4px 6px; text-align: left; }
+  th { color: #64748b; font-weight: 500; }
+  td.num, th.num { text-align: center; width: 56px; }
+  tr.attended td:first-child { font-weight: 600; }
+  @media print { body { margin: 0; } }
+`;
+
+// Build a printable per-table report (attendance and gifts per desk)
+export function buildReportHtml(groups: DeskGroups): string {
+  const allGuests = groups.flatMap(([, deskGuests]) => deskGuests);
+  const totals = getGuestListStats(allGuests);
+  const totalCards = [
+    ['Davetiye', totals.totalInvitations],
+    ['Kişi', totals.totalGuests],
+    ['Gelen Davetiye', `${totals.attendedCount}/${totals.totalInvitations}`],
+    ['Gelen Kişi', `${totals.arrivedPeople}/${totals.totalGuests}`],
+    ['Hediye', totals.totalGifts],
+    ['Masa', totals.totalTables],
+  ]
+    .map(([label, value]) => `<div>${label}<strong>${value}</strong></div>`)
+    .join('');
+
+  const sections = groups
+    .filter(([, deskGuests]) => deskGuests.length > 0)
+    .map(([deskNo, deskGuests]) => {
+      const desk = getDeskStats(deskGuests);
+      const rows = deskGuests
+        .map(
+          (guest) => `
+            <tr class="${guest.is_attended === true ? 'attended' : ''}">
+              <td>${escapeHtml(guest.full_name)}</td>
+              <td class="num">${guest.person_count}</td>
+              <td class="num">${guest.gift_count}</td>
+              <td>${attendanceLabel(guest)}</td>
+              <td>${escapeHtml(guest.description ?? '')}</td>
+            </tr>`,
+        )
+        .join('');
+
+      return `
+        <section>
+          <h2>Masa ${deskNo}
+            <span>${desk.totalPeople} kişi · ${desk.totalGifts} hediye · ${desk.arrivedPeople}/${desk.totalPeople} kişi geldi</span>
+          </h2>
+          <table>
+            <thead>
+              <tr>
+                <th>İsim</th><th class="num">Kişi</th><th class="num">Hediye</th><th>Katılım</th><th>Not</th>
+              </tr>
+            </thead>
+            <tbody>${rows}</tbody>
+          </table>
+        </section>`;
+    })
+    .join('');
+
+  return `<!DOCTYPE html>
+<html lang="tr">
+  <head>
+    <meta charset="utf-8" />
+    <title>Masa Raporu ${todayStamp()}</title>
+    <style>${REPORT_STYLES}</style>
+  </head>
+  <body>
+    <h1>Masa ve Katılım Raporu</h1>
+    <p class="muted">${new Date().toLocaleString('tr-TR')}</p>
+    <div class="totals">${totalCards}</div>
+    ${sections}
+  </body>
+</html>`;
+}
+
+// Open the report in a new window and show the print dialog (save as PDF)
+export function printGuestReport(groups: DeskGroups): boolean {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) return false;
+
+  printWindow.document.write(buildReportHtml(groups));
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.print();
+  return true;
+}
+
+const QR_SHEET_STYLES = `
+  body { font-family: system-ui, sans-serif; color: #1e293b; margin: 24px; }
+  .cards { display: grid; grid-template-columns: repeat(3, 1fr); gap: 12px; }
+  .card { border: 1px dashed #cbd5e1; border-radius: 8px; padding: 12px; text-align: center; break-inside: avoid; }
+  .card img { width: 140px; height: 140px; }
+  .card strong { display: block; font-size: 13px; margin-top: 6px; }
+  .card span { color: #64748b; font-size: 11px; }
+  @media print { body { margin: 0; } }
+`;
+
+// Build a printable sheet with one QR code card per guest (for invitations).
+// Guests not saved in the database yet have no code and are left out.
+export async function buildQrSheetHtml(groups: DeskGroups): Promise<string> {
+  const allGuests = groups
+    .flatMap(([, deskGuests]) => deskGuests)
+    .filter(hasGuestQrCode);
+  const qrCodes = await Promise.all(allGuests.map((g) => getGuestQrDataUrl(g)));
+
+  const cards = allGuests
+    .map(
+      (guest, i) => `
+        <div class="card">
+          <img src="${qrCodes[i]}" alt="" />
+          <strong>${escapeHtml(guest.full_name)}</strong>
+          <span>Masa ${guest.desk_no} · ${guest.person_count} kişi</span>
+        </div>`,
+    )
+    .join('');
+
+  return `<!DOCTYPE html>
+<html lang="tr">
+  <head>
+    <meta charset="utf-8" />
+    <title>QR Kodları ${todayStamp()}</title>
+    <style>${QR_SHEET_STYLES}</style>
+  </head>
+  <body>
+    <div class="cards">${cards}</div>
+  </body>
+</html>`;
+}
+
+// Print the QR code sheet. The window is opened right away so the popup
+// is not blocked while the codes are generated.
+export function printGuestQrCodes(groups: DeskGroups): boolean {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) return false;
+
+  printWindow.document.write('<p>QR kodları hazırlanıyor...</p>');
+  buildQrSheetHtml(groups)
+    .then((html) => {
+      printWindow.document.open();
+      // Wait for the QR images before printing
+      printWindow.onload = () => printWindow.print();
+      printWindow.document.write(html);
+      printWindow.document.close();
+      printWindow.focus();
+    })
+    .catch((e) => {
+      console.error('Failed to generate QR codes:', e);
+      printWindow.close();
+    });
+  return true;
+}
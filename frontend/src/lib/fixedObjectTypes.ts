@@ -0,0 +1,183 @@
+import type { FixedObjectDB, FixedObjectType } from '@/lib/supabase';
+
+export interface FixedObjectTypeInfo {
+  label: string;
+  // Venue elements come first in the add dialog, plain shapes after them
+  group: 'venue' | 'shape';
+  // Size of a new object
+  width: number;
+  height: number;
+  fill: string;
+  stroke: string;
+  text: string;
+}
+
+export const FIXED_OBJECT_TYPES: Record<FixedObjectType, FixedObjectTypeInfo> =
+  {
+    stage: {
+      label: 'Sahne',
+      group: 'venue',
+      width: 240,
+      height: 120,
+      fill: '#f5f3ff',
+      stroke: '#a78bfa',
+      text: '#6d28d9',
+    },
+    dance_floor: {
+      label: 'Dans Pisti',
+      group: 'venue',
+      width: 200,
+      height: 200,
+      fill: '#fdf2f8',
+      stroke: '#f472b6',
+      text: '#be185d',
+    },
+    bar: {
+      label: 'Bar',
+      group: 'venue',
+      width: 160,
+      height: 60,
+      fill: '#fff7ed',
+      stroke: '#fb923c',
+      text: '#c2410c',
+    },
+    buffet: {
+      label: 'Büfe',
+      group: 'venue',
+      width: 200,
+      height: 70,
+      fill: '#fefce8',
+      stroke: '#facc15',
+      text: '#a16207',
+    },
+    dj: {
+      label: 'DJ',
+      group: 'venue',
+      width: 100,
+      height: 70,
+      fill: '#eef2ff',
+      stroke: '#818cf8',
+      text: '#4338ca',
+    },
+    entrance: {
+      label: 'Giriş',
+      group: 'venue',
+      width: 100,
+      height: 40,
+      fill: '#ecfdf5',
+      stroke: '#34d399',
+      text: '#047857',
+    },
+    exit: {
+      label: 'Çıkış',
+      group: 'venue',
+      width: 100,
+      height: 40,
+      fill: '#fff1f2',
+      stroke: '#fb7185',
+      text: '#be123c',
+    },
+    pillar: {
+      label: 'Kolon',
+      group: 'venue',
+      width: 50,
+      height: 50,
+      fill: '#cbd5e1',
+      stroke: '#64748b',
+      text: '#334155',
+    },
+    rectangle: {
+      label: 'Dikdörtgen',
+      group: 'shape',
+      width: 100,
+      height: 60,
+      fill: '#eff6ff',
+      stroke: '#93c5fd',
+      text: '#1d4ed8',
+    },
+    triangle: {
+      label: 'Üçgen',
+      group: 'shape',
+      width: 80,
+      height: 80,
+      fill: '#f0fdf4',
+      stroke: '#86efac',
+      text: '#15803d',
+    },
+    circle: {
+      label: 'Daire',
+      group: 'shape',
+      width: 100,
+      height: 100,
+      fill: '#f0f9ff',
+      stroke: '#7dd3fc',
+      text: '#0369a1',
+    },
+    l_shape: {
+      label: 'L Şekli',
+      group: 'shape',
+      width: 160,
+      height: 160,
+      fill: '#f8fafc',
+      stroke: '#94a3b8',
+      text: '#475569',
+    },
+    polygon: {
+      label: 'Serbest Çokgen',
+      group: 'shape',
+      width: 160,
+      height: 120,
+      fill: '#f0fdfa',
+      stroke: '#5eead4',
+      text: '#0f766e',
+    },
+  };
+
+// Corners of a new free polygon
+const DEFAULT_POLYGON_POINTS: [number, number][] = [
+  [0.5, 0],
+  [1, 0.4],
+  [0.8, 1],
+  [0.2, 1],
+  [0, 0.4],
+];
+
+// Outline of an object in a 100 x 100 box, stretched to its size. Boxes
+// and ellipses are drawn without one.
+export function getShapeOutline(
+  object: Pick<FixedObjectDB, 'type' | 'points'>,
+): [number, number][] | null {
+  switch (object.type) {
+    case 'triangle':
+      return [
+        [50, 5],
+        [95, 95],
+        [5, 95],
+      ];
+    case 'l_shape':
+      return [
+        [0, 0],
+        [45, 0],
+        [45, 55],
+        [100, 55],
+        [100, 100],
+        [0, 100],
+      ];
+    case 'polygon':
+      return getPolygonPoints(object).map(([x, y]) => [x * 100, y * 100]);
+    default:
+      return null;
+  }
+}
+
+export function getPolygonPoints(
+  object: Pick<FixedObjectDB, 'points'>,
+): [number, number][] {
+  return object.points && object.points.length >= 3
+    ? object.points
+    : DEFAULT_POLYGON_POINTS;
+}
+
+export function isRoundObject(type: FixedObjectType): boolean {
+  return type === 'circle' || type === 'pillar';
+}
@@ -0,0 +1,210 @@
+import type { DeskLayout, FixedObjectDB } from '@/lib/supabase';
+import { getTableSize } from '@/lib/floorPlanGeometry';
+
+// Spacing of the dot pattern behind the floor plan
+export const GRID_SIZE = 24;
+// Dragged items closer than this to a guide snap onto it
+const GUIDE_THRESHOLD = 8;
+
+export function snapToGrid(value: number): number {
+  return Math.round(value / GRID_SIZE) * GRID_SIZE;
+}
+
+// Upright bounds of a table top or fixed object, around its centre
+export interface AlignBox {
+  x: number;
+  y: number;
+  halfWidth: number;
+  halfHeight: number;
+}
+
+// Half the size of the upright box around a rotated one
+function getRotatedHalfSize(width: number, height: number, rotation: number) {
+  const radians = (rotation * Math.PI) / 180;
+  const cos = Math.abs(Math.cos(radians));
+  const sin = Math.abs(Math.sin(radians));
+  return {
+    halfWidth: (width * cos + height * sin) / 2,
+    halfHeight: (width * sin + height * cos) / 2,
+  };
+}
+
+export function getTableBox(
+  position: { x: number; y: number },
+  layout: DeskLayout,
+  seatCount: number,
+): AlignBox {
+  const { width, height } = getTableSize(layout, seatCount);
+  return {
+    ...position,
+    ...getRotatedHalfSize(width, height, layout.rotation),
+  };
+}
+
+// Objects are positioned by their top-left corner and turn around their
+// centre
+export function getFixedObjectBox(
+  object: Pick<FixedObjectDB, 'x' | 'y' | 'width' | 'height' | 'rotation'>,
+): AlignBox {
+  return {
+    x: object.x + object.width / 2,
+    y: object.y + object.height / 2,
+    ...getRotatedHalfSize(object.width, object.height, object.rotation),
+  };
+}
+
+// A guide line across the floor plan. Guides on the x axis are vertical
+// lines at x = position, drawn from start to end along y.
+export interface AlignmentGuide {
+  axis: 'x' | 'y';
+  position: number;
+  start: number;
+  end: number;
+}
+
+export interface AlignmentSnap {
+  // Shift that lines the box up with a neighbour, null when none is close
+  dx: number | null;
+  dy: number | null;
+  guides: AlignmentGuide[];
+}
+
+// Edges and centre of a box along one axis
+function getLines(box: AlignBox, axis: 'x' | 'y'): number[] {
+  const centre = box[axis];
+  const half = axis === 'x' ? box.halfWidth : box.halfHeight;
+  return [centre - half, centre, centre + half];
+}
+
+function getSpan(box: AlignBox, axis: 'x' | 'y'): [number, number] {
+  const [start, , end] = getLines(box, axis === 'x' ? 'y' : 'x');
+  return [start, end];
+}
+
+// Smallest shift along an axis that puts an edge or the centre of the box
+// on an edge or centre of another box
+function getAxisSnap(
+  box: AlignBox,
+  others: AlignBox[],
+  axis: 'x' | 'y',
+): number | null {
+  let best: number | null = null;
+  getLines(box, axis).forEach((line) => {
+    others.forEach((other) => {
+      getLines(other, axis).forEach((otherLine) => {
+        const shift = otherLine - line;
+        if (
+          Math.abs(shift) <= GUIDE_THRESHOLD &&
+          (best === null || Math.abs(shift) < Math.abs(best))
+        ) {
+          best = shift;
+        }
+      });
+    });
+  });
+  return best;
+}
+
+// Guides for every line the box shares with another box
+function getGuides(
+  box: AlignBox,
+  others: AlignBox[],
+  axis: 'x' | 'y',
+): AlignmentGuide[] {
+  const guides: AlignmentGuide[] = [];
+  getLines(box, axis).forEach((line) => {
+    others.forEach((other) => {
+      if (!getLines(other, axis).some((o) => Math.abs(o - line) < 0.5)) {
+        return;
+      }
+      const [start, end] = getSpan(box, axis);
+      const [otherStart, otherEnd] = getSpan(other, axis);
+      guides.push({
+        axis,
+        position: line,
+        start: Math.min(start, otherStart),
+        end: Math.max(end, otherEnd),
+      });
+    });
+  });
+  return guides;
+}
+
+// How a dragged box lines up with the tables and objects around it
+export function getAlignmentSnap(
+  box: AlignBox,
+  others: AlignBox[],
+): AlignmentSnap {
+  const dx = getAxisSnap(box, others, 'x');
+  const dy = getAxisSnap(box, others, 'y');
+  const snapped = { ...box, x: box.x + (dx ?? 0), y: box.y + (dy ?? 0) };
+  return {
+    dx,
+    dy,
+    guides: [
+      ...(dx !== null ? getGuides(snapped, others, 'x') : []),
+      ...(dy !== null ? getGuides(snapped, others, 'y') : []),
+    ],
+  };
+}
+
+export type AlignCommand =
+  'left' | 'centerX' | 'top' | 'centerY' | 'distributeX' | 'distributeY';
+
+export const ALIGN_COMMAND_LABELS: Record<AlignCommand, string> = {
+  left: 'Sola hizala',
+  centerX: 'Yatay ortaya hizala',
+  top: 'Üste hizala',
+  centerY: 'Dikey ortaya hizala',
+  distributeX: 'Yatayda eşit dağıt',
+  distributeY: 'Dikeyde eşit dağıt',
+};
+
+// Spread boxes along an axis so the gaps between them are equal. The
+// first and last box stay where they are.
+function distribute(boxes: AlignBox[], axis: 'x' | 'y'): AlignBox[] {
+  const half = (box: AlignBox) =>
+    axis === 'x' ? box.halfWidth : box.halfHeight;
+  const sorted = [...boxes].sort((a, b) => a[axis] - b[axis]);
+  const first = sorted[0];
+  const last = sorted[sorted.length - 1];
+  const span = last[axis] + half(last) - (first[axis] - half(first));
+  const occupied = sorted.reduce((sum, box) => sum + half(box) * 2, 0);
+  const gap = (span - occupied) / (sorted.length - 1);
+
+  const moved = new Map<AlignBox, AlignBox>();
+  let edge = first[axis] - half(first);
+  sorted.forEach((box) => {
+    moved.set(box, { ...box, [axis]: edge + half(box) });
+    edge += half(box) * 2 + gap;
+  });
+  return boxes.map((box) => moved.get(box)!);
+}
+
+// Boxes after an align or distribute command, in the same order
+export function arrangeBoxes(
+  boxes: AlignBox[],
+  command: AlignCommand,
+): AlignBox[] {
+  if (boxes.length < 2) return boxes;
+
+  const left = Math.min(...boxes.map((b) => b.x - b.halfWidth));
+  const right = Math.max(...boxes.map((b) => b.x + b.halfWidth));
+  const top = Math.min(...boxes.map((b) => b.y - b.halfHeight));
+  const bottom = Math.max(...boxes.map((b) => b.y + b.halfHeight));
+
+  switch (command) {
+    case 'left':
+      return boxes.map((box) => ({ ...box, x: left + box.halfWidth }));
+    case 'centerX':
+      return boxes.map((box) => ({ ...box, x: (left + right) / 2 }));
+    case 'top':
+      return boxes.map((box) => ({ ...box, y: top + box.halfHeight }));
+    case 'centerY':
+      return boxes.map((box) => ({ ...box, y: (top + bottom) / 2 }));
+    case 'distributeX':
+      return distribute(boxes, 'x');
+    case 'distributeY':
+      return distribute(boxes, 'y');
+  }
+}
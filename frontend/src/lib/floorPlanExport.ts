@@ -0,0 +1,598 @@
+import {
+  type Guest,
+  type DeskLayout,
+  type FixedObjectDB,
+  type VenuePlan,
+  type PlanScale,
+  DEFAULT_DESK_CAPACITY,
+  DEFAULT_DESK_LAYOUT,
+} from '@/lib/supabase';
+import { getArrivedCount, isPartiallyArrived } from '@/lib/guestStats';
+import {
+  type GroupColorMode,
+  GROUP_COLOR_MODE_LABELS,
+  getAllGroups,
+  getGuestGroupColor,
+} from '@/lib/guestGroups';
+import {
+  type SeatOccupant,
+  getSeatCount,
+  getSeatAssignments,
+  getPersonName,
+} from '@/lib/seatAssignments';
+import {
+  getTableSize,
+  getSeatPositions,
+  CHAIR_OFFSET,
+  CHAIR_SIZE,
+} from '@/lib/floorPlanGeometry';
+import { getTableBox, getFixedObjectBox } from '@/lib/floorPlanAlignment';
+import {
+  FIXED_OBJECT_TYPES,
+  getShapeOutline,
+  isRoundObject,
+} from '@/lib/fixedObjectTypes';
+import { formatMetres } from '@/lib/floorPlanUnits';
+import { downloadFile, escapeHtml, todayStamp } from '@/lib/exportGuests';
+
+export type ExportedObject = Pick<
+  FixedObjectDB,
+  'type' | 'name' | 'x' | 'y' | 'width' | 'height' | 'rotation' | 'points'
+>;
+
+// Everything drawn on the floor plan
+export interface FloorPlanExportInput {
+  guests: Guest[];
+  tablePositions: Record<number, { x: number; y: number }>;
+  capacities: Record<number, number>;
+  layouts: Record<number, DeskLayout>;
+  fixedObjects: ExportedObject[];
+  venuePlan: VenuePlan | null;
+  // Watermark URL, drawn faintly when there is no venue plan
+  backgroundImage?: string;
+  colorMode: GroupColorMode;
+  scale: PlanScale;
+  // Guest names next to their chairs
+  showNames: boolean;
+}
+
+interface Bounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// The drawn plan, and the part of the floor plan it covers
+export interface FloorPlanSvg {
+  content: string;
+  bounds: Bounds;
+}
+
+interface Watermark {
+  image: string;
+  width: number;
+  height: number;
+}
+
+// A desk on the plan and who sits on each of its chairs
+interface ExportedDesk {
+  deskNo: number;
+  position: { x: number; y: number };
+  layout: DeskLayout;
+  seatCount: number;
+  guests: Guest[];
+  assignments: (SeatOccupant | null)[];
+}
+
+interface LegendItem {
+  label: string;
+  fill: string;
+  stroke: string;
+}
+
+const CHAIR_COLORS = {
+  arrived: { fill: '#10b981', stroke: '#059669', text: '#ffffff' },
+  partial: { fill: '#fffbeb', stroke: '#fcd34d', text: '#b45309' },
+  waiting: { fill: '#e2e8f0', stroke: '#cbd5e1', text: '#475569' },
+};
+
+// Room for the names around a table
+const NAME_SPACE = 120;
+const MAX_NAME_LENGTH = 24;
+// Largest PNG side browsers reliably draw
+const MAX_CANVAS_SIZE = 12000;
+
+// Paper sizes in millimetres, landscape
+export type PaperSize = 'A4' | 'A3';
+export const PAPER_SIZES: Record<PaperSize, { width: number; height: number }> =
+  {
+    A4: { width: 297, height: 210 },
+    A3: { width: 420, height: 297 },
+  };
+const PAGE_MARGIN = 10;
+const PAGE_HEADER = 8;
+
+export interface PosterOptions {
+  paper: PaperSize;
+  // The plan is split into tiles x tiles pages
+  tiles: number;
+  includeTableList: boolean;
+}
+
+// Like the floor plan, only desks with guests are drawn
+function getDesks(input: FloorPlanExportInput): ExportedDesk[] {
+  const byDesk = new Map<number, Guest[]>();
+  input.guests.forEach((guest) => {
+    byDesk.set(guest.desk_no, [...(byDesk.get(guest.desk_no) ?? []), guest]);
+  });
+  return [...byDesk.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([deskNo, guests]) => {
+      const seatCount = getSeatCount(
+        guests,
+        input.capacities[deskNo] ?? DEFAULT_DESK_CAPACITY,
+      );
+      return {
+        deskNo,
+        position: input.tablePositions[deskNo] ?? { x: 100, y: 100 },
+        layout: input.layouts[deskNo] ?? DEFAULT_DESK_LAYOUT,
+        seatCount,
+        guests,
+        assignments: getSeatAssignments(guests, seatCount),
+      };
+    });
+}
+
+// Area around the tables, objects and venue plan
+export function getFloorPlanBounds(input: FloorPlanExportInput): Bounds {
+  const chairSpace =
+    CHAIR_OFFSET + CHAIR_SIZE + (input.showNames ? NAME_SPACE : 0);
+  const boxes = [
+    ...getDesks(input).map((desk) => {
+      const box = getTableBox(desk.position, desk.layout, desk.seatCount);
+      return {
+        ...box,
+        halfWidth: box.halfWidth + chairSpace,
+        halfHeight: box.halfHeight + chairSpace,
+      };
+    }),
+    ...input.fixedObjects.map(getFixedObjectBox),
+  ];
+  const plan = input.venuePlan;
+  if (plan) {
+    const width = plan.width * plan.scale;
+    const height = plan.height * plan.scale;
+    boxes.push({
+      x: plan.x + width / 2,
+      y: plan.y + height / 2,
+      halfWidth: width / 2,
+      halfHeight: height / 2,
+    });
+  }
+  if (boxes.length === 0) return { x: 0, y: 0, width: 1200, height: 800 };
+
+  const padding = 40;
+  const left = Math.min(...boxes.map((b) => b.x - b.halfWidth)) - padding;
+  const top = Math.min(...boxes.map((b) => b.y - b.halfHeight)) - padding;
+  const right = Math.max(...boxes.map((b) => b.x + b.halfWidth)) + padding;
+  // Extra room at the bottom for the scale bar
+  const bottom =
+    Math.max(...boxes.map((b) => b.y + b.halfHeight)) + padding + 40;
+  return { x: left, y: top, width: right - left, height: bottom - top };
+}
+
+function truncate(name: string): string {
+  return name.length > MAX_NAME_LENGTH
+    ? `${name.slice(0, MAX_NAME_LENGTH - 1)}…`
+    : name;
+}
+
+function getChairColors(
+  occupant: SeatOccupant,
+  colorMode: GroupColorMode,
+): { fill: string; stroke: string; text: string } {
+  if (colorMode !== 'attendance') {
+    const color = getGuestGroupColor(occupant.guest, colorMode);
+    return color
+      ? { fill: color, stroke: color, text: '#ffffff' }
+      : CHAIR_COLORS.waiting;
+  }
+  if (occupant.person < getArrivedCount(occupant.guest)) {
+    return CHAIR_COLORS.arrived;
+  }
+  return isPartiallyArrived(occupant.guest)
+    ? CHAIR_COLORS.partial
+    : CHAIR_COLORS.waiting;
+}
+
+function renderTableTop(desk: ExportedDesk): string {
+  const { width, height } = getTableSize(desk.layout, desk.seatCount);
+  const style = 'fill="#fffbeb" stroke="#fde68a" stroke-width="4"';
+  const shape =
+    desk.layout.shape === 'round'
+      ? `<circle r="${width / 2}" ${style} />`
+      : desk.layout.shape === 'oval'
+        ? `<ellipse rx="${width / 2}" ry="${height / 2}" ${style} />`
+        : `<rect x="${-width / 2}" y="${-height / 2}" width="${width}" height="${height}" rx="12" ${style} />`;
+  return `<g transform="rotate(${desk.layout.rotation})">${shape}</g>`;
+}
+
+// Names point away from the table, read left to right
+function renderName(
+  name: string,
+  seat: { x: number; y: number; angle: number },
+): string {
+  const outX = Math.sin(seat.angle);
+  const outY = -Math.cos(seat.angle);
+  const distance = CHAIR_SIZE / 2 + 4;
+  const x = seat.x + outX * distance;
+  const y = seat.y + outY * distance;
+  let degrees = (Math.atan2(outY, outX) * 180) / Math.PI;
+  let anchor = 'start';
+  if (degrees > 90 || degrees < -90) {
+    degrees += 180;
+    anchor = 'end';
+  }
+  return `<text x="${x}" y="${y}" transform="rotate(${degrees} ${x} ${y})" text-anchor="${anchor}" dominant-baseline="central" font-size="10" fill="#334155">${escapeHtml(truncate(name))}</text>`;
+}
+
+function renderDesk(desk: ExportedDesk, input: FloorPlanExportInput): string {
+  const seats = getSeatPositions(desk.layout, desk.seatCount);
+  const people = desk.guests.reduce((sum, g) => sum + g.person_count, 0);
+  const chairs = desk.assignments.map((occupant, index) => {
+    const seat = seats[index];
+    if (!seat) return '';
+    if (!occupant) {
+      return `<circle cx="${seat.x}" cy="${seat.y}" r="${CHAIR_SIZE / 2}" fill="#ffffff" stroke="#cbd5e1" stroke-width="2" stroke-dasharray="4 3" />`;
+    }
+    const colors = getChairColors(occupant, input.colorMode);
+    return [
+      `<circle cx="${seat.x}" cy="${seat.y}" r="${CHAIR_SIZE / 2}" fill="${colors.fill}" stroke="${colors.stroke}" stroke-width="2" />`,
+      `<text x="${seat.x}" y="${seat.y}" text-anchor="middle" dominant-baseline="central" font-size="10" font-weight="700" fill="${colors.text}">${index + 1}</text>`,
+      input.showNames
+        ? renderName(getPersonName(occupant.guest, occupant.person), seat)
+        : '',
+    ].join('');
+  });
+
+  return `<g transform="translate(${desk.position.x} ${desk.position.y})">
+    ${renderTableTop(desk)}
+    <text y="-4" text-anchor="middle" font-size="24" font-weight="700" fill="#92400e">${desk.deskNo}</text>
+    <text y="16" text-anchor="middle" font-size="10" fill="#64748b">${people}/${Math.max(desk.seatCount, people)} kişi</text>
+    ${chairs.join('')}
+  </g>`;
+}
+
+function renderObject(object: ExportedObject): string {
+  const info = FIXED_OBJECT_TYPES[object.type] ?? FIXED_OBJECT_TYPES.rectangle;
+  const { width, height } = object;
+  const style = `fill="${info.fill}" stroke="${info.stroke}" stroke-width="2"${
+    object.type === 'entrance' || object.type === 'exit'
+      ? ' stroke-dasharray="6 4"'
+      : ''
+  }`;
+  const outline = getShapeOutline(object);
+  const shape = outline
+    ? `<polygon points="${outline
+        .map(([x, y]) => `${(x / 100) * width},${(y / 100) * height}`)
+        .join(' ')}" stroke-linejoin="round" ${style} />`
+    : isRoundObject(object.type)
+      ? `<ellipse cx="${width / 2}" cy="${height / 2}" rx="${width / 2}" ry="${height / 2}" ${style} />`
+      : `<rect width="${width}" height="${height}" rx="6" ${style} />`;
+
+  return `<g transform="translate(${object.x} ${object.y}) rotate(${object.rotation} ${width / 2} ${height / 2})">
+    ${shape}
+    <text x="${width / 2}" y="${height / 2}" text-anchor="middle" dominant-baseline="central" font-size="12" font-weight="600" fill="${info.text}">${escapeHtml(object.name)}</text>
+  </g>`;
+}
+
+function renderBackground(
+  input: FloorPlanExportInput,
+  bounds: Bounds,
+  watermark: Watermark | null,
+): string {
+  const plan = input.venuePlan;
+  if (plan) {
+    return `<image href="${plan.image}" x="${plan.x}" y="${plan.y}" width="${plan.width * plan.scale}" height="${plan.height * plan.scale}" opacity="${plan.opacity}" preserveAspectRatio="none" />`;
+  }
+  if (!watermark) return '';
+  const ratio = Math.min(
+    (bounds.width * 0.9) / watermark.width,
+    (bounds.height * 0.9) / watermark.height,
+  );
+  const width = watermark.width * ratio;
+  const height = watermark.height * ratio;
+  return `<image href="${watermark.image}" x="${bounds.x + (bounds.width - width) / 2}" y="${bounds.y + (bounds.height - height) / 2}" width="${width}" height="${height}" opacity="0.04" />`;
+}
+
+// Bar of a round number of metres, about a fifth of the plan wide
+function renderScaleBar(bounds: Bounds, scale: PlanScale): string {
+  const metres =
+    [50, 20, 10, 5, 2, 1].find(
+      (m) => m * scale.pxPerMetre <= bounds.width / 5,
+    ) ?? 1;
+  const length = metres * scale.pxPerMetre;
+  const x = bounds.x + 40;
+  const y = bounds.y + bounds.height - 30;
+  return `<g>
+    <path d="M${x} ${y - 6} V${y} H${x + length} V${y - 6}" fill="none" stroke="#334155" stroke-width="2" />
+    <text x="${x + length / 2}" y="${y - 10}" text-anchor="middle" font-size="12" fill="#334155">${formatMetres(metres, 0)}</text>
+  </g>`;
+}
+
+export function buildFloorPlanSvg(
+  input: FloorPlanExportInput,
+  watermark: Watermark | null = null,
+): FloorPlanSvg {
+  const bounds = getFloorPlanBounds(input);
+  const content = [
+    renderBackground(input, bounds, watermark),
+    ...input.fixedObjects.map(renderObject),
+    ...getDesks(input).map((desk) => renderDesk(desk, input)),
+    renderScaleBar(bounds, input.scale),
+  ].join('\n');
+  return { content, bounds };
+}
+
+// Standalone SVG of the plan, or of the part inside viewBox
+export function toSvgDocument(
+  plan: FloorPlanSvg,
+  viewBox: Bounds = plan.bounds,
+  withSize = true,
+): string {
+  const { x, y, width, height } = viewBox;
+  const size = withSize ? ` width="${width}" height="${height}"` : '';
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="${x} ${y} ${width} ${height}"${size} font-family="system-ui, -apple-system, 'Segoe UI', sans-serif">
+  <rect x="${x}" y="${y}" width="${width}" height="${height}" fill="#ffffff" />
+  ${plan.content}
+</svg>`;
+}
+
+// The watermark as a data URL, so the SVG works on its own and can be
+// drawn on a canvas
+async function loadWatermark(url: string): Promise<Watermark | null> {
+  try {
+    const img = new Image();
+    img.src = url;
+    await img.decode();
+    const canvas = document.createElement('canvas');
+    canvas.width = img.naturalWidth || 600;
+    canvas.height = img.naturalHeight || 600;
+    canvas.getContext('2d')?.drawImage(img, 0, 0, canvas.width, canvas.height);
+    return {
+      image: canvas.toDataURL('image/png'),
+      width: canvas.width,
+      height: canvas.height,
+    };
+  } catch (e) {
+    console.error('Failed to load floor plan watermark:', e);
+    return null;
+  }
+}
+
+async function prepareFloorPlanSvg(
+  input: FloorPlanExportInput,
+): Promise<FloorPlanSvg> {
+  const watermark =
+    !input.venuePlan && input.backgroundImage
+      ? await loadWatermark(input.backgroundImage)
+      : null;
+  return buildFloorPlanSvg(input, watermark);
+}
+
+// Size of the PNG for a zoom factor, kept within what browsers can draw
+export function getPngSize(bounds: Bounds, pixelRatio: number) {
+  const ratio = Math.min(
+    pixelRatio,
+    MAX_CANVAS_SIZE / Math.max(bounds.width, bounds.height),
+  );
+  return {
+    width: Math.round(bounds.width * ratio),
+    height: Math.round(bounds.height * ratio),
+  };
+}
+
+export async function exportFloorPlanSvg(input: FloorPlanExportInput) {
+  const plan = await prepareFloorPlanSvg(input);
+  downloadFile(
+    toSvgDocument(plan),
+    `oturma-plani-${todayStamp()}.svg`,
+    'image/svg+xml',
+  );
+}
+
+export async function exportFloorPlanPng(
+  input: FloorPlanExportInput,
+  pixelRatio: number,
+) {
+  const plan = await prepareFloorPlanSvg(input);
+  const url = URL.createObjectURL(
+    new Blob([toSvgDocument(plan)], { type: 'image/svg+xml;charset=utf-8' }),
+  );
+  try {
+    const img = new Image();
+    img.src = url;
+    await img.decode();
+    const { width, height } = getPngSize(plan.bounds, pixelRatio);
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas is not supported');
+    ctx.drawImage(img, 0, 0, width, height);
+    const blob = await new Promise<Blob | null>((resolve) =>
+      canvas.toBlob(resolve, 'image/png'),
+    );
+    if (!blob) throw new Error('PNG could not be created');
+    downloadFile(blob, `oturma-plani-${todayStamp()}.png`, 'image/png');
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+// Chair colours and the kinds of fixed objects on the plan
+function getLegend(input: FloorPlanExportInput): LegendItem[] {
+  const chairs: LegendItem[] =
+    input.colorMode === 'attendance'
+      ? [
+          { label: 'Geldi', ...CHAIR_COLORS.arrived },
+          { label: 'Kısmen geldi', ...CHAIR_COLORS.partial },
+          { label: 'Bekliyor', ...CHAIR_COLORS.waiting },
+        ]
+      : [
+          ...getAllGroups(input.guests)
+            .filter((group) => group.kind === input.colorMode)
+            .map((group) => ({
+              label: group.label,
+              fill: group.color,
+              stroke: group.color,
+            })),
+          { label: 'Grupsuz', ...CHAIR_COLORS.waiting },
+        ];
+  const types = [...new Set(input.fixedObjects.map((o) => o.type))].map(
+    (type) => {
+      const info = FIXED_OBJECT_TYPES[type] ?? FIXED_OBJECT_TYPES.rectangle;
+      return { label: info.label, fill: info.fill, stroke: info.stroke };
+    },
+  );
+  return [
+    ...chairs,
+    { label: 'Boş sandalye', fill: '#ffffff', stroke: '#cbd5e1' },
+    ...types,
+  ];
+}
+
+function renderLegend(input: FloorPlanExportInput): string {
+  const items = getLegend(input)
+    .map(
+      (item) =>
+        `<span><i style="background:${item.fill};border-color:${item.stroke}"></i>${escapeHtml(item.label)}</span>`,
+    )
+    .join('');
+  return `<h2>Açıklama</h2>
+    <p class="muted">Sandalye rengi: ${GROUP_COLOR_MODE_LABELS[input.colorMode]} · Sandalyelerdeki numaralar masa listesindeki sıradır</p>
+    <div class="legend">${items}</div>`;
+}
+
+// Guests of each table in chair order
+function renderTableList(input: FloorPlanExportInput): string {
+  const sections = getDesks(input)
+    .map((desk) => {
+      const people = desk.guests.reduce((sum, g) => sum + g.person_count, 0);
+      const rows = desk.assignments
+        .map((occupant, index) =>
+          occupant
+            ? `<li value="${index + 1}">${escapeHtml(getPersonName(occupant.guest, occupant.person))}</li>`
+            : '',
+        )
+        .join('');
+      return `<section>
+          <h3>Masa ${desk.deskNo} <span>${people}/${Math.max(desk.seatCount, people)} kişi</span></h3>
+          <ol>${rows}</ol>
+        </section>`;
+    })
+    .join('');
+  return `<h2>Masa Listesi</h2><div class="desks">${sections}</div>`;
+}
+
+export function buildPosterHtml(
+  plan: FloorPlanSvg,
+  input: FloorPlanExportInput,
+  options: PosterOptions,
+): string {
+  const { bounds } = plan;
+  const isLandscape = bounds.width >= bounds.height;
+  const paper = PAPER_SIZES[options.paper];
+  const pageWidth =
+    (isLandscape ? paper.width : paper.height) - PAGE_MARGIN * 2;
+  const pageHeight =
+    (isLandscape ? paper.height : paper.width) - PAGE_MARGIN * 2;
+  const tiles = Math.max(1, Math.round(options.tiles));
+  const tileWidth = bounds.width / tiles;
+  const tileHeight = bounds.height / tiles;
+
+  const pages: string[] = [];
+  for (let row = 0; row < tiles; row++) {
+    for (let col = 0; col < tiles; col++) {
+      const part =
+        tiles > 1
+          ? ` · Parça ${row * tiles + col + 1}/${tiles * tiles} (satır ${row + 1}, sütun ${col + 1})`
+          : '';
+      const svg = toSvgDocument(
+        plan,
+        {
+          x: bounds.x + col * tileWidth,
+          y: bounds.y + row * tileHeight,
+          width: tileWidth,
+          height: tileHeight,
+        },
+        false,
+      );
+      pages.push(`<div class="page">
+        <header><strong>Oturma Planı</strong><span>${new Date().toLocaleDateString('tr-TR')}${part}</span></header>
+        ${svg}
+      </div>`);
+    }
+  }
+
+  const styles = `
+    @page { size: ${options.paper} ${isLandscape ? 'landscape' : 'portrait'}; margin: ${PAGE_MARGIN}mm; }
+    body { font-family: system-ui, sans-serif; color: #1e293b; margin: 0; }
+    .page { break-after: page; }
+    .page header { display: flex; justify-content: space-between; align-items: center; height: ${PAGE_HEADER}mm; font-size: 12px; color: #64748b; }
+    .page header strong { color: #1e293b; }
+    .page svg { display: block; width: ${pageWidth}mm; height: ${pageHeight - PAGE_HEADER}mm; }
+    h2 { font-size: 16px; margin: 0 0 6px; }
+    .muted { color: #64748b; font-size: 12px; margin: 0 0 8px; }
+    .legend { display: flex; flex-wrap: wrap; gap: 6px 16px; font-size: 12px; margin-bottom: 20px; }
+    .legend i { display: inline-block; width: 12px; height: 12px; border: 2px solid; border-radius: 50%; margin-right: 6px; vertical-align: -2px; }
+    .desks { column-count: ${options.paper === 'A3' ? 4 : 3}; column-gap: 16px; font-size: 11px; }
+    .desks section { break-inside: avoid; margin-bottom: 10px; }
+    .desks h3 { font-size: 12px; margin: 0 0 2px; display: flex; justify-content: space-between; }
+    .desks h3 span { font-weight: normal; color: #64748b; }
+    .desks ol { margin: 0; padding-left: 22px; }
+  `;
+
+  return `<!DOCTYPE html>
+<html lang="tr">
+  <head>
+    <meta charset="utf-8" />
+    <title>Oturma Planı ${todayStamp()}</title>
+    <style>${styles}</style>
+  </head>
+  <body>
+    ${pages.join('')}
+    <div>
+      ${renderLegend(input)}
+      ${options.includeTableList ? renderTableList(input) : ''}
+    </div>
+  </body>
+</html>`;
+}
+
+// Print the plan as a poster (save as PDF). The window is opened right
+// away so the popup is not blocked while the plan is drawn.
+export function printFloorPlanPoster(
+  input: FloorPlanExportInput,
+  options: PosterOptions,
+): boolean {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) return false;
+
+  printWindow.document.write('<p>Plan hazırlanıyor...</p>');
+  prepareFloorPlanSvg(input)
+    .then((plan) => {
+      printWindow.document.open();
+      // Wait for the venue plan image before printing
+      printWindow.onload = () => printWindow.print();
+      printWindow.document.write(buildPosterHtml(plan, input, options));
+      printWindow.document.close();
+      printWindow.focus();
+    })
+    .catch((e) => {
+      console.error('Failed to prepare floor plan poster:', e);
+      printWindow.close();
+    });
+  return true;
+}
@@ -0,0 +1,397 @@
+import type { DeskLayout, DeskShape, FixedObjectDB } from '@/lib/supabase';
+
+export const DESK_SHAPE_LABELS: Record<DeskShape, string> = {
+  round: 'Yuvarlak',
+  oval: 'Oval',
+  rectangle: 'Uzun masa',
+  head: 'Baş masa',
+};
+
+// Chairs sit on a ring this far outside the table edge
+export const CHAIR_OFFSET = 22;
+export const CHAIR_SIZE = 28;
+// Room per chair along the edge of a long table
+const SEAT_SPACING = 40;
+
+// Radius of a round table with seatCount seats
+export function getTableRadius(seatCount: number): number {
+  const baseRadius = 45;
+  return Math.max(baseRadius, baseRadius + (seatCount - 6) * 3);
+}
+
+// Size of the table top. Tables without a set size grow with their seats.
+export function getTableSize(
+  layout: DeskLayout,
+  seatCount: number,
+): { width: number; height: number } {
+  const diameter = getTableRadius(seatCount) * 2;
+  const sized = (width: number, height: number) => ({
+    width: layout.width ?? width,
+    height: layout.height ?? height,
+  });
+
+  switch (layout.shape) {
+    case 'oval':
+      return sized(Math.round(diameter * 1.4), Math.round(diameter * 0.8));
+    case 'rectangle':
+      return sized(Math.max(120, Math.ceil(seatCount / 2) * SEAT_SPACING), 80);
+    case 'head':
+      return sized(Math.max(120, seatCount * SEAT_SPACING), 60);
+    default:
+      return sized(diameter, diameter);
+  }
+}
+
+export interface SeatPosition {
+  // Offset from the table centre
+  x: number;
+  y: number;
+  // Rotation of the chair in radians (0 = facing down, towards the table
+  // from above)
+  angle: number;
+}
+
+// Evenly spaced seats along a straight edge from (x1, y1) to (x2, y2)
+function seatsAlong(
+  count: number,
+  x1: number,
+  y1: number,
+  x2: number,
+  y2: number,
+  angle: number,
+): SeatPosition[] {
+  return Array.from({ length: count }, (_, i) => {
+    const t = (i + 0.5) / count;
+    return { x: x1 + (x2 - x1) * t, y: y1 + (y2 - y1) * t, angle };
+  });
+}
+
+// Seats of an unrotated table, clockwise from the top
+function getLocalSeats(
+  layout: DeskLayout,
+  seatCount: number,
+  width: number,
+  height: number,
+): SeatPosition[] {
+  const top = -height / 2 - CHAIR_OFFSET;
+  const bottom = height / 2 + CHAIR_OFFSET;
+  const left = -width / 2 - CHAIR_OFFSET;
+  const right = width / 2 + CHAIR_OFFSET;
+
+  if (layout.shape === 'head') {
+    return seatsAlong(seatCount, -width / 2, top, width / 2, top, 0);
+  }
+
+  if (layout.shape === 'rectangle') {
+    // The ends get a chair each once the long sides have two
+    const endSeats = seatCount >= 6 ? 1 : 0;
+    const sideSeats = seatCount - endSeats * 2;
+    const topSeats = Math.ceil(sideSeats / 2);
+    return [
+      ...seatsAlong(topSeats, -width / 2, top, width / 2, top, 0),
+      ...seatsAlong(endSeats, right, 0, right, 0, Math.PI / 2),
+      ...seatsAlong(
+        sideSeats - topSeats,
+        width / 2,
+        bottom,
+        -width / 2,
+        bottom,
+        Math.PI,
+      ),
+      ...seatsAlong(endSeats, left, 0, left, 0, (3 * Math.PI) / 2),
+    ];
+  }
+
+  // Round and oval tables: chairs on an ellipse around the edge
+  const a = width / 2;
+  const b = height / 2;
+  return Array.from({ length: seatCount }, (_, i) => {
+    const t = ((2 * Math.PI) / seatCount) * i - Math.PI / 2;
+    const normal = Math.atan2(a * Math.sin(t), b * Math.cos(t));
+    return {
+      x: a * Math.cos(t) + CHAIR_OFFSET * Math.cos(normal),
+      y: b * Math.sin(t) + CHAIR_OFFSET * Math.sin(normal),
+      angle: normal + Math.PI / 2,
+    };
+  });
+}
+
+export function rotatePoint(x: number, y: number, radians: number) {
+  return {
+    x: x * Math.cos(radians) - y * Math.sin(radians),
+    y: x * Math.sin(radians) + y * Math.cos(radians),
+  };
+}
+
+// Seats around a table, including the table's rotation
+export function getSeatPositions(
+  layout: DeskLayout,
+  seatCount: number,
+): SeatPosition[] {
+  const { width, height } = getTableSize(layout, seatCount);
+  const radians = (layout.rotation * Math.PI) / 180;
+  return getLocalSeats(layout, seatCount, width, height).map((seat) => ({
+    ...rotatePoint(seat.x, seat.y, radians),
+    angle: seat.angle + radians,
+  }));
+}
+
+// Rotation handles turn in whole degrees, or in these steps with Shift
+export const ROTATION_SNAP = 15;
+
+// Angle in [0, 360) rounded to a multiple of step
+export function normalizeRotation(degrees: number, step = 1): number {
+  const snapped = Math.round(degrees / step) * step;
+  return ((snapped % 360) + 360) % 360;
+}
+
+export interface ObjectBox {
+  // Top-left corner of the unrotated box
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  rotation: number; // degrees
+}
+
+// Box after one of its corners ('nw', 'ne', 'sw' or 'se') is dragged by
+// (dx, dy) on the floor plan. The box turns around its centre, so the
+// drag is measured along its own edges and the opposite corner stays put.
+export function resizeFromCorner(
+  box: ObjectBox,
+  corner: string,
+  dx: number,
+  dy: number,
+  minSize: number,
+): Omit<ObjectBox, 'rotation'> {
+  const radians = (box.rotation * Math.PI) / 180;
+  const local = rotatePoint(dx, dy, -radians);
+  const sx = corner.includes('e') ? 1 : -1;
+  const sy = corner.includes('s') ? 1 : -1;
+  const width = Math.max(minSize, box.width + sx * local.x);
+  const height = Math.max(minSize, box.height + sy * local.y);
+  const shift = rotatePoint(
+    (sx * (width - box.width)) / 2,
+    (sy * (height - box.height)) / 2,
+    radians,
+  );
+  return {
+    x: box.x + (box.width - width) / 2 + shift.x,
+    y: box.y + (box.height - height) / 2 + shift.y,
+    width,
+    height,
+  };
+}
+
+// Area something takes up on the floor plan, in canvas coordinates
+export type Footprint =
+  | { kind: 'circle'; x: number; y: number; radius: number }
+  | {
+      kind: 'box';
+      // Centre of the box
+      x: number;
+      y: number;
+      halfWidth: number;
+      halfHeight: number;
+      rotation: number; // degrees
+    };
+
+// Area of a table and its chairs
+export function getTableFootprint(
+  position: { x: number; y: number },
+  layout: DeskLayout,
+  seatCount: number,
+): Footprint {
+  const { width, height } = getTableSize(layout, seatCount);
+  const chairExtent = CHAIR_OFFSET + CHAIR_SIZE / 2;
+
+  if (layout.shape === 'round') {
+    return { kind: 'circle', ...position, radius: width / 2 + chairExtent };
+  }
+
+  // Head tables only have chairs behind them, so the box is shifted back
+  const hasEndSeats = layout.shape !== 'head' && seatCount >= 6;
+  const backShift = layout.shape === 'head' ? chairExtent / 2 : 0;
+  const shift = rotatePoint(0, -backShift, (layout.rotation * Math.PI) / 180);
+  return {
+    kind: 'box',
+    x: position.x + shift.x,
+    y: position.y + shift.y,
+    halfWidth: width / 2 + (hasEndSeats ? chairExtent : 0),
+    halfHeight:
+      height / 2 + (layout.shape === 'head' ? backShift : chairExtent),
+    rotation: layout.rotation,
+  };
+}
+
+// Area of a fixed object. Objects are positioned by their top-left corner
+// and rotated around their centre.
+export function getFixedObjectFootprint(object: FixedObjectDB): Footprint {
+  return {
+    kind: 'box',
+    x: object.x + object.width / 2,
+    y: object.y + object.height / 2,
+    halfWidth: object.width / 2,
+    halfHeight: object.height / 2,
+    rotation: object.rotation,
+  };
+}
+
+type Box = Extract<Footprint, { kind: 'box' }>;
+type Point = { x: number; y: number };
+
+function getBoxCorners(box: Box) {
+  const radians = (box.rotation * Math.PI) / 180;
+  return [
+    [-1, -1],
+    [1, -1],
+    [1, 1],
+    [-1, 1],
+  ].map(([sx, sy]) => {
+    const corner = rotatePoint(
+      sx * box.halfWidth,
+      sy * box.halfHeight,
+      radians,
+    );
+    return { x: box.x + corner.x, y: box.y + corner.y };
+  });
+}
+
+// Separating axis test for two rotated boxes
+function boxesOverlap(a: Box, b: Box): boolean {
+  const cornersA = getBoxCorners(a);
+  const cornersB = getBoxCorners(b);
+  const axes = [a, b].flatMap((box) => {
+    const radians = (box.rotation * Math.PI) / 180;
+    return [
+      { x: Math.cos(radians), y: Math.sin(radians) },
+      { x: -Math.sin(radians), y: Math.cos(radians) },
+    ];
+  });
+
+  return axes.every((axis) => {
+    const project = (corners: { x: number; y: number }[]) =>
+      corners.map((c) => c.x * axis.x + c.y * axis.y);
+    const projA = project(cornersA);
+    const projB = project(cornersB);
+    return (
+      Math.max(...projA) > Math.min(...projB) &&
+      Math.max(...projB) > Math.min(...projA)
+    );
+  });
+}
+
+function circleOverlapsBox(
+  circle: Extract<Footprint, { kind: 'circle' }>,
+  box: Box,
+): boolean {
+  // Move the circle into the box's unrotated frame
+  const local = rotatePoint(
+    circle.x - box.x,
+    circle.y - box.y,
+    (-box.rotation * Math.PI) / 180,
+  );
+  const nearestX = Math.min(Math.max(local.x, -box.halfWidth), box.halfWidth);
+  const nearestY = Math.min(Math.max(local.y, -box.halfHeight), box.halfHeight);
+  return Math.hypot(local.x - nearestX, local.y - nearestY) < circle.radius;
+}
+
+export function footprintsOverlap(a: Footprint, b: Footprint): boolean {
+  if (a.kind === 'circle' && b.kind === 'circle') {
+    return Math.hypot(a.x - b.x, a.y - b.y) < a.radius + b.radius;
+  }
+  if (a.kind === 'circle') return circleOverlapsBox(a, b as Box);
+  if (b.kind === 'circle') return circleOverlapsBox(b, a);
+  return boxesOverlap(a, b);
+}
+
+// Point of a footprint's edge nearest to an outside point
+function nearestEdgePoint(footprint: Footprint, point: Point): Point {
+  if (footprint.kind === 'circle') {
+    const dx = point.x - footprint.x;
+    const dy = point.y - footprint.y;
+    const length = Math.hypot(dx, dy) || 1;
+    return {
+      x: footprint.x + (dx / length) * footprint.radius,
+      y: footprint.y + (dy / length) * footprint.radius,
+    };
+  }
+  const radians = (footprint.rotation * Math.PI) / 180;
+  const local = rotatePoint(
+    point.x - footprint.x,
+    point.y - footprint.y,
+    -radians,
+  );
+  const nearest = rotatePoint(
+    Math.min(Math.max(local.x, -footprint.halfWidth), footprint.halfWidth),
+    Math.min(Math.max(local.y, -footprint.halfHeight), footprint.halfHeight),
+    radians,
+  );
+  return { x: footprint.x + nearest.x, y: footprint.y + nearest.y };
+}
+
+function nearestOnSegment(point: Point, a: Point, b: Point): Point {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const t = Math.min(
+    1,
+    Math.max(
+      0,
+      ((point.x - a.x) * dx + (point.y - a.y) * dy) / (dx * dx + dy * dy || 1),
+    ),
+  );
+  return { x: a.x + dx * t, y: a.y + dy * t };
+}
+
+// Closest pair of points between the edges of two boxes that don't overlap
+function nearestBetweenBoxes(a: Box, b: Box): [Point, Point] {
+  let best: [Point, Point] = [a, b];
+  let bestDistance = Infinity;
+  const check = (from: Box, to: Box, swap: boolean) => {
+    const corners = getBoxCorners(to);
+    getBoxCorners(from).forEach((corner) => {
+      corners.forEach((start, i) => {
+        const end = corners[(i + 1) % corners.length];
+        const nearest = nearestOnSegment(corner, start, end);
+        const distance = Math.hypot(nearest.x - corner.x, nearest.y - corner.y);
+        if (distance < bestDistance) {
+          bestDistance = distance;
+          best = swap ? [nearest, corner] : [corner, nearest];
+        }
+      });
+    });
+  };
+  check(a, b, false);
+  check(b, a, true);
+  return best;
+}
+
+export interface FootprintGap {
+  distance: number;
+  // Nearest points on the edges of the two footprints
+  from: Point;
+  to: Point;
+}
+
+// Free space between two footprints, 0 when they overlap
+export function getFootprintGap(a: Footprint, b: Footprint): FootprintGap {
+  if (footprintsOverlap(a, b)) {
+    return { distance: 0, from: { x: a.x, y: a.y }, to: { x: b.x, y: b.y } };
+  }
+  let from: Point;
+  let to: Point;
+  if (a.kind === 'circle') {
+    to = nearestEdgePoint(b, a);
+    from = nearestEdgePoint(a, to);
+  } else if (b.kind === 'circle') {
+    from = nearestEdgePoint(a, b);
+    to = nearestEdgePoint(b, from);
+  } else {
+    [from, to] = nearestBetweenBoxes(a, b);
+  }
+  return {
+    distance: Math.hypot(to.x - from.x, to.y - from.y),
+    from: { x: from.x, y: from.y },
+    to: { x: to.x, y: to.y },
+  };
+}
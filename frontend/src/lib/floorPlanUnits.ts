@@ -0,0 +1,55 @@
+import type { PlanScale } from '@/lib/supabase';
+
+// Tables are drawn at about their real size at 60 units per metre.
+// Waiters need about 1.5 m between the chairs of two tables.
+export const DEFAULT_PLAN_SCALE: PlanScale = {
+  pxPerMetre: 60,
+  walkwayWidth: 1.5,
+};
+
+// Stored settings are checked before use
+export function parsePlanScale(value: string | null): PlanScale {
+  if (!value) return DEFAULT_PLAN_SCALE;
+  try {
+    const scale = JSON.parse(value) as Partial<PlanScale>;
+    const pxPerMetre = Number(scale.pxPerMetre);
+    const walkwayWidth = Number(scale.walkwayWidth);
+    return {
+      pxPerMetre: pxPerMetre > 0 ? pxPerMetre : DEFAULT_PLAN_SCALE.pxPerMetre,
+      walkwayWidth:
+        walkwayWidth > 0 ? walkwayWidth : DEFAULT_PLAN_SCALE.walkwayWidth,
+    };
+  } catch {
+    return DEFAULT_PLAN_SCALE;
+  }
+}
+
+export function toMetres(length: number, scale: PlanScale): number {
+  return length / scale.pxPerMetre;
+}
+
+function formatNumber(value: number, digits: number): string {
+  return value.toLocaleString('tr-TR', {
+    minimumFractionDigits: digits,
+    maximumFractionDigits: digits,
+  });
+}
+
+// "2,4 m"
+export function formatMetres(metres: number, digits = 1): string {
+  return `${formatNumber(metres, digits)} m`;
+}
+
+// "4,0 × 2,5 m"
+export function formatSize(
+  width: number,
+  height: number,
+  scale: PlanScale,
+): string {
+  return `${formatNumber(toMetres(width, scale), 1)} × ${formatNumber(toMetres(height, scale), 1)} m`;
+}
+
+// Numbers typed with a decimal comma
+export function parseDecimal(text: string): number {
+  return Number(text.trim().replace(',', '.'));
+}
@@ -0,0 +1,151 @@
+import type { Guest, GuestSide } from '@/lib/supabase';
+
+export const SIDE_LABELS: Record<GuestSide, string> = {
+  bride: 'Gelin tarafı',
+  groom: 'Damat tarafı',
+  both: 'Ortak',
+};
+
+// What a chair on the floor plan is coloured by
+export type GroupColorMode = 'attendance' | 'side' | 'household' | 'tag';
+
+export const GROUP_COLOR_MODE_LABELS: Record<GroupColorMode, string> = {
+  attendance: 'Katılım',
+  side: 'Taraf',
+  household: 'Aile',
+  tag: 'Etiket',
+};
+
+const SIDE_COLORS: Record<GuestSide, string> = {
+  bride: '#ec4899',
+  groom: '#3b82f6',
+  both: '#8b5cf6',
+};
+
+// Households and tags get a colour from their name
+const PALETTE = [
+  '#0ea5e9',
+  '#f97316',
+  '#22c55e',
+  '#a855f7',
+  '#ef4444',
+  '#14b8a6',
+  '#eab308',
+  '#6366f1',
+  '#84cc16',
+  '#d946ef',
+];
+
+function colorForName(name: string): string {
+  let hash = 0;
+  for (const char of name) hash = (hash * 31 + char.charCodeAt(0)) | 0;
+  return PALETTE[Math.abs(hash) % PALETTE.length];
+}
+
+// A group is identified by a key like "side:bride", "household:Yılmaz"
+// or "tag:iş", so it can be stored in filters and seating constraints
+export type GroupKind = 'side' | 'household' | 'tag';
+export type GroupKey = `${GroupKind}:${string}`;
+
+export interface GuestGroup {
+  key: GroupKey;
+  kind: GroupKind;
+  // Side, household name or tag
+  value: string;
+  label: string;
+  color: string;
+  // Guests in the group
+  count: number;
+}
+
+export function getGroupKey(kind: GroupKind, value: string): GroupKey {
+  return `${kind}:${value}`;
+}
+
+function parseGroupKey(key: string): { kind: GroupKind; value: string } | null {
+  const separator = key.indexOf(':');
+  const kind = key.slice(0, separator);
+  if (kind !== 'side' && kind !== 'household' && kind !== 'tag') return null;
+  return { kind, value: key.slice(separator + 1) };
+}
+
+export function isGroupKey(key: string): key is GroupKey {
+  return parseGroupKey(key) !== null;
+}
+
+export function getGroupLabel(key: string): string {
+  const parsed = parseGroupKey(key);
+  if (!parsed) return key;
+  if (parsed.kind === 'side') {
+    return SIDE_LABELS[parsed.value as GuestSide] ?? parsed.value;
+  }
+  return parsed.kind === 'tag' ? `#${parsed.value}` : parsed.value;
+}
+
+function getGroupColor(key: string): string {
+  const parsed = parseGroupKey(key);
+  if (parsed?.kind === 'side') {
+    return SIDE_COLORS[parsed.value as GuestSide] ?? PALETTE[0];
+  }
+  return colorForName(parsed?.value ?? key);
+}
+
+// Every group a guest belongs to
+export function getGuestGroupKeys(guest: Guest): GroupKey[] {
+  const keys: GroupKey[] = [];
+  if (guest.side) keys.push(getGroupKey('side', guest.side));
+  if (guest.household) keys.push(getGroupKey('household', guest.household));
+  (guest.tags ?? []).forEach((tag) => keys.push(getGroupKey('tag', tag)));
+  return keys;
+}
+
+export function isGuestInGroup(guest: Guest, key: string): boolean {
+  const parsed = parseGroupKey(key);
+  if (!parsed) return false;
+  if (parsed.kind === 'side') return guest.side === parsed.value;
+  if (parsed.kind === 'household') return guest.household === parsed.value;
+  return (guest.tags ?? []).includes(parsed.value);
+}
+
+// Groups used by the guests: sides first, then households and tags by name
+export function getAllGroups(guests: Guest[]): GuestGroup[] {
+  const counts = new Map<GroupKey, number>();
+  guests.forEach((guest) => {
+    getGuestGroupKeys(guest).forEach((key) => {
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+    });
+  });
+
+  const kindOrder: GroupKind[] = ['side', 'household', 'tag'];
+  return [...counts.entries()]
+    .map(([key, count]) => ({
+      key,
+      ...parseGroupKey(key)!,
+      label: getGroupLabel(key),
+      color: getGroupColor(key),
+      count,
+    }))
+    .sort(
+      (a, b) =>
+        kindOrder.indexOf(a.kind) - kindOrder.indexOf(b.kind) ||
+        a.label.localeCompare(b.label, 'tr'),
+    );
+}
+
+// Colour of a guest's chair, null when the guest is not in such a group.
+// Guests with several tags take the colour of the first.
+export function getGuestGroupColor(
+  guest: Guest,
+  mode: GroupColorMode,
+): string | null {
+  if (mode === 'side' && guest.side) {
+    return getGroupColor(getGroupKey('side', guest.side));
+  }
+  if (mode === 'household' && guest.household) {
+    return getGroupColor(getGroupKey('household', guest.household));
+  }
+  if (mode === 'tag' && guest.tags?.length) {
+    return getGroupColor(getGroupKey('tag', guest.tags[0]));
+  }
+  return null;
+}
@@ -0,0 +1,266 @@
+import { readSheet } from 'read-excel-file/browser';
+import type { Guest, GuestRaw } from '@/lib/supabase';
+
+// Guest fields a spreadsheet column can be mapped to (same names as db.json)
+export type ImportField = keyof GuestRaw;
+
+export const IMPORT_FIELDS: ImportField[] = [
+  'fullName',
+  'personCount',
+  'deskNo',
+  'giftCount',
+  'description',
+];
+
+// Column index for each field, null when the field is not in the file
+export type ColumnMapping = Record<ImportField, number | null>;
+
+export interface ImportIssue {
+  field: ImportField | null;
+  message: string;
+  // Rows with errors are skipped, warnings are imported
+  severity: 'error' | 'warning';
+}
+
+export interface ImportRow {
+  rowNumber: number;
+  guest: GuestRaw;
+  issues: ImportIssue[];
+}
+
+// Header names recognised when guessing the mapping (compared lowercased)
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  fullName: [
+    'fullname',
+    'full_name',
+    'isim',
+    'ad soyad',
+    'adı soyadı',
+    'ad',
+    'misafir',
+    'name',
+  ],
+  personCount: [
+    'personcount',
+    'person_count',
+    'kişi',
+    'kişi sayısı',
+    'kisi',
+    'persons',
+  ],
+  deskNo: [
+    'deskno',
+    'desk_no',
+    'masa',
+    'masa no',
+    'masa numarası',
+    'desk',
+    'table',
+  ],
+  giftCount: ['giftcount', 'gift_count', 'hediye', 'hediye sayısı', 'gift'],
+  description: ['description', 'not', 'notlar', 'açıklama', 'note', 'notes'],
+};
+
+// Lower case with Turkish dotted and dotless i (İSİM → isim, KIŞI → kışı)
+function normaliseHeader(header: string): string {
+  return header.replace(/İ/g, 'i').replace(/I/g, 'ı').toLowerCase().trim();
+}
+
+// A header can be Turkish or English, so it is matched both ways
+// (DESCRIPTION → description, where the Turkish rules give descrıptıon)
+function headerKeys(header: string): string[] {
+  return [normaliseHeader(header), header.toLowerCase().trim()];
+}
+
+// Parse CSV text, detecting ';', ',' or tab as the delimiter
+export function parseCsv(text: string): string[][] {
+  const content = text.replace(/^\uFEFF/, '');
+  const firstLine = content.split(/\r?\n/, 1)[0] ?? '';
+  const delimiter = [';', '\t', ','].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length
+      ? candidate
+      : best,
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // Drop completely empty lines
+  return rows.filter((r) => r.some((c) => c.trim() !== ''));
+}
+
+// Read a CSV or XLSX file into rows of strings
+export async function readImportFile(file: File): Promise<string[][]> {
+  const name = file.name.toLowerCase();
+
+  if (name.endsWith('.xlsx')) {
+    const sheet = await readSheet(file);
+    return sheet
+      .map((row) =>
+        row.map((cell) => (cell === null ? '' : String(cell).trim())),
+      )
+      .filter((r) => r.some((c) => c !== ''));
+  }
+
+  if (name.endsWith('.xls')) {
+    throw new Error(
+      'Eski .xls biçimi desteklenmiyor. Dosyayı .xlsx veya .csv olarak kaydedin.',
+    );
+  }
+
+  return parseCsv(await file.text());
+}
+
+// Guess which column holds which field from the header row
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const keys = headers.map(headerKeys);
+  const mapping = {} as ColumnMapping;
+
+  IMPORT_FIELDS.forEach((field) => {
+    const index = keys.findIndex((variants) =>
+      variants.some((key) => HEADER_ALIASES[field].includes(key)),
+    );
+    mapping[field] = index === -1 ? null : index;
+  });
+
+  return mapping;
+}
+
+// Parse an integer cell. Empty cells return the fallback, invalid cells NaN.
+function parseCount(value: string | undefined, fallback: number): number {
+  if (value === undefined || value.trim() === '') return fallback;
+  const trimmed = value.trim();
+  return /^\d+$/.test(trimmed) ? parseInt(trimmed, 10) : NaN;
+}
+
+// Convert mapped rows to guests and collect problems for the preview
+export function validateImportRows(
+  rows: string[][],
+  mapping: ColumnMapping,
+  options: {
+    hasHeader: boolean;
+    existingGuests: Guest[];
+    existingDeskNumbers: number[];
+  },
+): ImportRow[] {
+  const dataRows = options.hasHeader ? rows.slice(1) : rows;
+  const cell = (row: string[], field: ImportField) => {
+    const index = mapping[field];
+    return index === null ? undefined : row[index];
+  };
+
+  const existingNames = new Set(
+    options.existingGuests.map((g) => normaliseHeader(g.full_name)),
+  );
+  const nameCounts = new Map<string, number>();
+  dataRows.forEach((row) => {
+    const name = normaliseHeader(cell(row, 'fullName') ?? '');
+    if (name) nameCounts.set(name, (nameCounts.get(name) || 0) + 1);
+  });
+
+  return dataRows.map((row, index) => {
+    const issues: ImportIssue[] = [];
+    const fullName = (cell(row, 'fullName') ?? '').trim();
+    const personCount = parseCount(cell(row, 'personCount'), 1);
+    const deskNo = parseCount(cell(row, 'deskNo'), NaN);
+    const giftCount = parseCount(cell(row, 'giftCount'), 0);
+    const description = (cell(row, 'description') ?? '').trim() || null;
+
+    if (!fullName) {
+      issues.push({
+        field: 'fullName',
+        message: 'İsim boş',
+        severity: 'error',
+      });
+    } else {
+      const key = normaliseHeader(fullName);
+      if ((nameCounts.get(key) || 0) > 1) {
+        issues.push({
+          field: 'fullName',
+          message: 'Dosyada tekrar ediyor',
+          severity: 'warning',
+        });
+      }
+      if (existingNames.has(key)) {
+        issues.push({
+          field: 'fullName',
+          message: 'Listede zaten var',
+          severity: 'warning',
+        });
+      }
+    }
+
+    if (Number.isNaN(personCount) || personCount < 1) {
+      issues.push({
+        field: 'personCount',
+        message: `Geçersiz kişi sayısı: "${cell(row, 'personCount')}"`,
+        severity: 'error',
+      });
+    }
+
+    if (Number.isNaN(deskNo)) {
+      issues.push({
+        field: 'deskNo',
+        message: cell(row, 'deskNo')?.trim()
+          ? `Geçersiz masa: "${cell(row, 'deskNo')}"`
+          : 'Masa boş',
+        severity: 'error',
+      });
+    } else if (!options.existingDeskNumbers.includes(deskNo)) {
+      issues.push({
+        field: 'deskNo',
+        message: `Masa ${deskNo} mevcut değil`,
+        severity: 'warning',
+      });
+    }
+
+    if (Number.isNaN(giftCount)) {
+      issues.push({
+        field: 'giftCount',
+        message: `Geçersiz hediye sayısı: "${cell(row, 'giftCount')}"`,
+        severity: 'error',
+      });
+    }
+
+    return {
+      rowNumber: index + (options.hasHeader ? 2 : 1),
+      guest: { fullName, personCount, deskNo, giftCount, description },
+      issues,
+    };
+  });
+}
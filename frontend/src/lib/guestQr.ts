@@ -0,0 +1,34 @@
+import QRCode from 'qrcode';
+import type { Guest } from '@/lib/supabase';
+
+// Text stored in a guest's QR code. The prefix keeps other QR codes
+// (menus, wifi, ...) from being read as a guest. The code carries the
+// guest's random token rather than the id, so it cannot be made up.
+const QR_PREFIX = 'nisan-misafir:';
+
+// Guests get a token once they are saved in the database
+export function hasGuestQrCode(guest: Guest): boolean {
+  return !!guest.qr_token;
+}
+
+export function getGuestQrPayload(guest: Guest): string {
+  return `${QR_PREFIX}${guest.qr_token}`;
+}
+
+// Guest token from a scanned QR code, or null if it is not a guest code
+export function parseGuestQrPayload(text: string): string | null {
+  const trimmed = text.trim();
+  if (!trimmed.startsWith(QR_PREFIX)) return null;
+
+  const token = trimmed.slice(QR_PREFIX.length);
+  return token || null;
+}
+
+// PNG data URL of the guest's QR code (for <img> and printing)
+export function getGuestQrDataUrl(guest: Guest, size = 240): Promise<string> {
+  return QRCode.toDataURL(getGuestQrPayload(guest), {
+    width: size,
+    margin: 1,
+    errorCorrectionLevel: 'M',
+  });
+}
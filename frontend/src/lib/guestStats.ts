@@ -0,0 +1,141 @@
+import type { Guest } from '@/lib/supabase';
+
+// Totals for a single desk (shown in DeskGroup, TableInfoDialog and reports)
+export interface DeskStats {
+  invitationCount: number;
+  totalPeople: number;
+  totalGifts: number;
+  attendedCount: number;
+  // People who arrived (parties may arrive partially)
+  arrivedPeople: number;
+}
+
+// Totals for the whole guest list (shown in StatsBar and reports)
+export interface GuestListStats {
+  totalInvitations: number;
+  totalGuests: number;
+  totalGifts: number;
+  totalTables: number;
+  attendedCount: number;
+  arrivedPeople: number;
+  hasNotesCount: number;
+}
+
+// People of a party who have arrived. Records without attended_count
+// count the whole party once they are marked as attended.
+export function getArrivedCount(guest: Guest): number {
+  if (guest.is_attended !== true) return 0;
+  return Math.min(
+    guest.attended_count ?? guest.person_count,
+    guest.person_count,
+  );
+}
+
+// Only part of the party has arrived so far
+export function isPartiallyArrived(guest: Guest): boolean {
+  const arrived = getArrivedCount(guest);
+  return arrived > 0 && arrived < guest.person_count;
+}
+
+function sumArrived(guests: Guest[]): number {
+  return guests.reduce((sum, g) => sum + getArrivedCount(g), 0);
+}
+
+export function getDeskStats(guests: Guest[]): DeskStats {
+  return {
+    invitationCount: guests.length,
+    totalPeople: guests.reduce((sum, g) => sum + g.person_count, 0),
+    totalGifts: guests.reduce((sum, g) => sum + g.gift_count, 0),
+    attendedCount: guests.filter((g) => g.is_attended === true).length,
+    arrivedPeople: sumArrived(guests),
+  };
+}
+
+export function getGuestListStats(guests: Guest[]): GuestListStats {
+  return {
+    totalInvitations: guests.length,
+    totalGuests: guests.reduce((sum, g) => sum + g.person_count, 0),
+    totalGifts: guests.reduce((sum, g) => sum + g.gift_count, 0),
+    totalTables: new Set(guests.map((g) => g.desk_no)).size,
+    attendedCount: guests.filter((g) => g.is_attended === true).length,
+    arrivedPeople: sumArrived(guests),
+    hasNotesCount: guests.filter((g) => !!g.description).length,
+  };
+}
+
+// Group guests by desk in seating order. Desks in deskNumbers without
+// guests are included as empty groups.
+export function groupGuestsByDesk(
+  guests: Guest[],
+  deskNumbers: number[],
+  localOrder: Record<number, number[]>,
+): [number, Guest[]][] {
+  const groups = new Map<number, Guest[]>();
+
+  guests.forEach((guest) => {
+    const existing = groups.get(guest.desk_no) || [];
+    groups.set(guest.desk_no, [...existing, guest]);
+  });
+
+  // Apply sorting for each desk - prefer display_order from guest, then localStorage
+  groups.forEach((deskGuests, deskNo) => {
+    const deskOrder = localOrder[deskNo];
+
+    deskGuests.sort((a, b) => {
+      // First try display_order from guest object (synced from state)
+      const orderA = a.display_order ?? 999;
+      const orderB = b.display_order ?? 999;
+
+      if (orderA !== orderB) {
+        return orderA - orderB;
+      }
+
+      // Fall back to localStorage order
+      if (deskOrder && deskOrder.length > 0) {
+        const indexA = deskOrder.indexOf(a.id);
+        const indexB = deskOrder.indexOf(b.id);
+        if (indexA !== -1 && indexB !== -1) {
+          return indexA - indexB;
+        }
+      }
+
+      return 0;
+    });
+  });
+
+  // Include empty desks from deskNumbers (desks without guests)
+  deskNumbers.forEach((deskNo) => {
+    if (!groups.has(deskNo)) {
+      groups.set(deskNo, []);
+    }
+  });
+
+  return Array.from(groups.entries()).sort((a, b) => a[0] - b[0]);
+}
+
+// What happens when an assignment would overflow a desk
+export type CapacityMode = 'warn' | 'block';
+
+export const CAPACITY_MODES: readonly CapacityMode[] = ['warn', 'block'];
+
+// Persons seated per desk
+export function getDeskLoads(guests: Guest[]): Map<number, number> {
+  const loads = new Map<number, number>();
+  guests.forEach((g) => {
+    loads.set(g.desk_no, (loads.get(g.desk_no) || 0) + g.person_count);
+  });
+  return loads;
+}
+
+// Persons at a desk after seating `persons` more there. The guest being
+// moved or edited (excludeGuestId) is not counted twice.
+export function getDeskLoadAfter(
+  guests: Guest[],
+  deskNo: number,
+  persons: number,
+  excludeGuestId?: number,
+): number {
+  return guests
+    .filter((g) => g.desk_no === deskNo && g.id !== excludeGuestId)
+    .reduce((sum, g) => sum + g.person_count, persons);
+}
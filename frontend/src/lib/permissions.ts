@@ -0,0 +1,28 @@
+import type { EventRole } from '@/lib/supabase';
+
+export interface Permissions {
+  // Add, edit, delete and seat guests, and change desks and the floor plan
+  canEditSeating: boolean;
+  // Mark guests as arrived (toggle, partial count, QR scanner)
+  canCheckIn: boolean;
+  // Invite people to the event and change their roles
+  canManageMembers: boolean;
+}
+
+export const ROLE_LABELS: Record<EventRole, string> = {
+  owner: 'Sahip',
+  planner: 'Planlayıcı',
+  door: 'Kapı Görevlisi',
+  viewer: 'İzleyici',
+};
+
+export const EVENT_ROLES = Object.keys(ROLE_LABELS) as EventRole[];
+
+// What a role may do in the UI. The same rules are enforced by RLS.
+export function getPermissions(role: EventRole | null): Permissions {
+  return {
+    canEditSeating: role === 'owner' || role === 'planner',
+    canCheckIn: role === 'owner' || role === 'planner' || role === 'door',
+    canManageMembers: role === 'owner',
+  };
+}
@@ -0,0 +1,229 @@
+import {
+  type Guest,
+  type FixedObjectDB,
+  type DeskLayout,
+  type PlanScale,
+  DEFAULT_DESK_LAYOUT,
+} from '@/lib/supabase';
+import { getDeskLoads } from '@/lib/guestStats';
+import { getPartyKey } from '@/lib/seatingSolver';
+import {
+  type Footprint,
+  type FootprintGap,
+  getTableFootprint,
+  getFixedObjectFootprint,
+  getFootprintGap,
+  footprintsOverlap,
+} from '@/lib/floorPlanGeometry';
+import { formatMetres, toMetres } from '@/lib/floorPlanUnits';
+
+export type PlanIssueKind =
+  | 'over_capacity'
+  | 'missing_desk'
+  | 'duplicate_name'
+  | 'empty_desk'
+  | 'table_overlap'
+  | 'object_overlap'
+  | 'narrow_walkway'
+  | 'split_party';
+
+export const PLAN_ISSUE_LABELS: Record<PlanIssueKind, string> = {
+  over_capacity: 'Kapasitesi aşılan masalar',
+  missing_desk: 'Masası kayıtlı olmayan misafirler',
+  duplicate_name: 'Aynı isimli misafirler',
+  empty_desk: 'Boş masalar',
+  table_overlap: 'Üst üste binen masalar',
+  object_overlap: 'Sabit nesneyle çakışan masalar',
+  narrow_walkway: 'Arasında geçiş dar kalan masalar',
+  split_party: 'Farklı masalara dağılmış gruplar',
+};
+
+export interface PlanIssue {
+  id: string;
+  kind: PlanIssueKind;
+  message: string;
+  // Guests and desks the issue is about, shown as links
+  guestIds: number[];
+  deskNos: number[];
+}
+
+export interface PlanDiagnosticsInput {
+  guests: Guest[];
+  deskNumbers: number[];
+  // Desks with a row in the desks table, null when desks are not synced
+  registeredDeskNos: number[] | null;
+  tablePositions: Record<number, { x: number; y: number }>;
+  capacities: Record<number, number>;
+  layouts: Record<number, DeskLayout>;
+  fixedObjects: FixedObjectDB[];
+  scale: PlanScale;
+}
+
+export interface NarrowWalkway extends FootprintGap {
+  deskNos: [number, number];
+}
+
+// Pairs of tables with less than minGap between their chairs. Tables that
+// overlap are left out.
+export function getNarrowWalkways(
+  tables: { deskNo: number; footprint: Footprint }[],
+  minGap: number,
+): NarrowWalkway[] {
+  const walkways: NarrowWalkway[] = [];
+  tables.forEach((a, i) => {
+    tables.slice(i + 1).forEach((b) => {
+      const gap = getFootprintGap(a.footprint, b.footprint);
+      if (gap.distance > 0 && gap.distance < minGap) {
+        walkways.push({ ...gap, deskNos: [a.deskNo, b.deskNo] });
+      }
+    });
+  });
+  return walkways;
+}
+
+// Everything in the seating plan that probably needs a look
+export function getPlanIssues({
+  guests,
+  deskNumbers,
+  registeredDeskNos,
+  tablePositions,
+  capacities,
+  layouts,
+  fixedObjects,
+  scale,
+}: PlanDiagnosticsInput): PlanIssue[] {
+  const issues: PlanIssue[] = [];
+  const loads = getDeskLoads(guests);
+
+  deskNumbers.forEach((deskNo) => {
+    const load = loads.get(deskNo) ?? 0;
+    const capacity = capacities[deskNo];
+    if (capacity !== undefined && load > capacity) {
+      issues.push({
+        id: `over_capacity-${deskNo}`,
+        kind: 'over_capacity',
+        message: `Masa ${deskNo}: ${load}/${capacity} kişi`,
+        guestIds: [],
+        deskNos: [deskNo],
+      });
+    }
+  });
+
+  if (registeredDeskNos) {
+    const registered = new Set(registeredDeskNos);
+    guests
+      .filter((g) => !registered.has(g.desk_no))
+      .forEach((g) => {
+        issues.push({
+          id: `missing_desk-${g.id}`,
+          kind: 'missing_desk',
+          message: `${g.full_name} → Masa ${g.desk_no}`,
+          guestIds: [g.id],
+          deskNos: [],
+        });
+      });
+  }
+
+  const byName = new Map<string, Guest[]>();
+  guests.forEach((g) => {
+    const name = g.full_name.trim().toLocaleLowerCase('tr');
+    byName.set(name, [...(byName.get(name) ?? []), g]);
+  });
+  byName.forEach((named, name) => {
+    if (named.length < 2) return;
+    issues.push({
+      id: `duplicate_name-${name}`,
+      kind: 'duplicate_name',
+      message: `${named[0].full_name} (${named.length} kayıt)`,
+      guestIds: named.map((g) => g.id),
+      deskNos: [...new Set(named.map((g) => g.desk_no))],
+    });
+  });
+
+  // Empty desks are not drawn on the floor plan, so there is nothing to
+  // focus on
+  deskNumbers
+    .filter((deskNo) => !loads.has(deskNo))
+    .forEach((deskNo) => {
+      issues.push({
+        id: `empty_desk-${deskNo}`,
+        kind: 'empty_desk',
+        message: `Masa ${deskNo} kayıtlı ama kimse oturmuyor`,
+        guestIds: [],
+        deskNos: [],
+      });
+    });
+
+  // Only desks with guests are drawn on the floor plan
+  const placed = deskNumbers
+    .filter((deskNo) => loads.has(deskNo) && tablePositions[deskNo])
+    .map((deskNo) => ({
+      deskNo,
+      footprint: getTableFootprint(
+        tablePositions[deskNo],
+        layouts[deskNo] ?? DEFAULT_DESK_LAYOUT,
+        Math.max(capacities[deskNo] ?? 0, loads.get(deskNo) ?? 0),
+      ),
+    }));
+  const objectFootprints = fixedObjects.map((object) => ({
+    object,
+    footprint: getFixedObjectFootprint(object),
+  }));
+
+  placed.forEach((a, i) => {
+    placed.slice(i + 1).forEach((b) => {
+      if (footprintsOverlap(a.footprint, b.footprint)) {
+        issues.push({
+          id: `table_overlap-${a.deskNo}-${b.deskNo}`,
+          kind: 'table_overlap',
+          message: `Masa ${a.deskNo} ve Masa ${b.deskNo}`,
+          guestIds: [],
+          deskNos: [a.deskNo, b.deskNo],
+        });
+      }
+    });
+    objectFootprints
+      .filter(({ footprint }) => footprintsOverlap(a.footprint, footprint))
+      .forEach(({ object }) => {
+        issues.push({
+          id: `object_overlap-${a.deskNo}-${object.id}`,
+          kind: 'object_overlap',
+          message: `Masa ${a.deskNo} ve ${object.name}`,
+          guestIds: [],
+          deskNos: [a.deskNo],
+        });
+      });
+  });
+
+  getNarrowWalkways(placed, scale.walkwayWidth * scale.pxPerMetre).forEach(
+    ({ deskNos: [a, b], distance }) => {
+      issues.push({
+        id: `narrow_walkway-${a}-${b}`,
+        kind: 'narrow_walkway',
+        message: `Masa ${a} ve Masa ${b}: ${formatMetres(toMetres(distance, scale))} (en az ${formatMetres(scale.walkwayWidth)})`,
+        guestIds: [],
+        deskNos: [a, b],
+      });
+    },
+  );
+
+  // Parties are households, or the people of a split invitation
+  const parties = new Map<string, Guest[]>();
+  guests.forEach((g) => {
+    const party = getPartyKey(g);
+    if (party) parties.set(party, [...(parties.get(party) ?? []), g]);
+  });
+  parties.forEach((members, party) => {
+    const deskNos = [...new Set(members.map((g) => g.desk_no))];
+    if (deskNos.length < 2) return;
+    issues.push({
+      id: `split_party-${party}`,
+      kind: 'split_party',
+      message: `${party}: ${deskNos.length} masaya dağılmış`,
+      guestIds: members.map((g) => g.id),
+      deskNos: deskNos.sort((a, b) => a - b),
+    });
+  });
+
+  return issues;
+}
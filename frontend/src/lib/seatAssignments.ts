@@ -0,0 +1,142 @@
+import type { Guest } from '@/lib/supabase';
+
+// One person on a chair: the invited guest (person 0) or a companion
+export interface SeatOccupant {
+  guest: Guest;
+  person: number;
+}
+
+// Chairs around a desk: its capacity, or the people seated if more
+export function getSeatCount(guests: Guest[], capacity: number): number {
+  const people = guests.reduce((sum, g) => sum + g.person_count, 0);
+  return Math.max(capacity, people);
+}
+
+// Name of a person of a party. Unnamed companions are numbered like the
+// guests created when a party is split.
+export function getPersonName(guest: Guest, person: number): string {
+  if (person === 0) return guest.full_name;
+  return (
+    guest.companions?.[person - 1] || `${guest.full_name} - Kişi ${person + 1}`
+  );
+}
+
+function bySeatingOrder(a: Guest, b: Guest): number {
+  return (a.display_order ?? 999) - (b.display_order ?? 999);
+}
+
+// Who sits on each chair of a desk, null for free chairs. People with a
+// chosen seat get it first; everyone else fills the free chairs in
+// seating order. Seats that are taken or do not exist (e.g. after the
+// capacity shrank) are ignored.
+export function getSeatAssignments(
+  guests: Guest[],
+  seatCount: number,
+): (SeatOccupant | null)[] {
+  const ordered = [...guests].sort(bySeatingOrder);
+  const people = ordered.reduce((sum, g) => sum + g.person_count, 0);
+  const seats: (SeatOccupant | null)[] = Array(
+    Math.max(seatCount, people),
+  ).fill(null);
+  const unseated: SeatOccupant[] = [];
+
+  ordered.forEach((guest) => {
+    for (let person = 0; person < guest.person_count; person++) {
+      const seat = guest.seats?.[person];
+      if (
+        seat !== undefined &&
+        Number.isInteger(seat) &&
+        seat >= 0 &&
+        seat < seats.length &&
+        !seats[seat]
+      ) {
+        seats[seat] = { guest, person };
+      } else {
+        unseated.push({ guest, person });
+      }
+    }
+  });
+
+  let next = 0;
+  unseated.forEach((occupant) => {
+    while (seats[next]) next++;
+    seats[next] = occupant;
+  });
+
+  return seats;
+}
+
+// Chair of each person of each guest, for saving in Guest.seats
+function getSeatsByGuest(
+  assignments: (SeatOccupant | null)[],
+): Map<number, number[]> {
+  const seatsByGuest = new Map<number, number[]>();
+  assignments.forEach((occupant, seat) => {
+    if (!occupant) return;
+    const seats = seatsByGuest.get(occupant.guest.id) ?? [];
+    seats[occupant.person] = seat;
+    seatsByGuest.set(occupant.guest.id, seats);
+  });
+  return seatsByGuest;
+}
+
+// Seats of everyone at a desk after the person on chair `from` moves to
+// chair `to`. Whoever sat on `to` takes chair `from`. Every guest at the
+// desk gets an explicit seat so nobody else shifts.
+export function getSeatsAfterMove(
+  guests: Guest[],
+  seatCount: number,
+  from: number,
+  to: number,
+): Map<number, number[]> {
+  const assignments = getSeatAssignments(guests, seatCount);
+  [assignments[from], assignments[to]] = [assignments[to], assignments[from]];
+  return getSeatsByGuest(assignments);
+}
+
+// Seats of everyone at a desk after the guests were put in a new order.
+// The chairs in use stay the same and are handed out in the new order.
+// Desks without chosen seats already follow the order and are left alone.
+export function getSeatsForOrder(
+  orderedGuests: Guest[],
+  seatCount: number,
+): Map<number, number[]> | null {
+  if (!orderedGuests.some((g) => g.seats?.length)) return null;
+
+  const usedSeats = getSeatAssignments(orderedGuests, seatCount)
+    .map((occupant, seat) => (occupant ? seat : -1))
+    .filter((seat) => seat !== -1);
+
+  const seatsByGuest = new Map<number, number[]>();
+  let next = 0;
+  orderedGuests.forEach((guest) => {
+    seatsByGuest.set(
+      guest.id,
+      Array.from({ length: guest.person_count }, () => usedSeats[next++]),
+    );
+  });
+  return seatsByGuest;
+}
+
+// Guest ids in the order of their first chair, clockwise from the top
+export function getOrderBySeats(seatsByGuest: Map<number, number[]>): number[] {
+  return [...seatsByGuest.entries()]
+    .sort(([, a], [, b]) => Math.min(...a) - Math.min(...b))
+    .map(([id]) => id);
+}
+
+// Chosen seats belong to a desk and are dropped when the guest moves
+export function withSeatReset(
+  guest: Guest,
+  updates: Partial<Guest>,
+): Partial<Guest> {
+  if (
+    updates.desk_no === undefined ||
+    updates.desk_no === guest.desk_no ||
+    'seats' in updates ||
+    !guest.seats
+  ) {
+    return updates;
+  }
+  return { ...updates, seats: null };
+}
@@ -0,0 +1,259 @@
+import type {
+  Guest,
+  FixedObjectDB,
+  SeatingSnapshotData,
+  SnapshotGuest,
+} from '@/lib/supabase';
+
+type TablePositions = Record<number, { x: number; y: number }>;
+
+// Take a copy of the current seating plan
+export function captureSeatingSnapshot(
+  guests: Guest[],
+  tablePositions: TablePositions,
+  fixedObjects: FixedObjectDB[],
+): SeatingSnapshotData {
+  return {
+    guests: guests.map((g) => ({
+      id: g.id,
+      full_name: g.full_name,
+      desk_no: g.desk_no,
+      display_order: g.display_order ?? 0,
+      seats: g.seats ?? null,
+    })),
+    tablePositions: { ...tablePositions },
+    fixedObjects: fixedObjects.map((obj) => ({ ...obj })),
+  };
+}
+
+// Snapshot entry of each current guest. Guests are matched by id, and by
+// name if they were re-created (e.g. deleted and restored) since.
+function matchSnapshotGuests(
+  snapshotGuests: SnapshotGuest[],
+  guests: Guest[],
+): Map<number, SnapshotGuest> {
+  const matches = new Map<number, SnapshotGuest>();
+  const unmatched = new Set(snapshotGuests);
+
+  const byId = new Map(snapshotGuests.map((g) => [g.id, g]));
+  guests.forEach((guest) => {
+    const match = byId.get(guest.id);
+    if (match && match.full_name === guest.full_name) {
+      matches.set(guest.id, match);
+      unmatched.delete(match);
+    }
+  });
+
+  guests.forEach((guest) => {
+    if (matches.has(guest.id)) return;
+    const match = [...unmatched].find((g) => g.full_name === guest.full_name);
+    if (match) {
+      matches.set(guest.id, match);
+      unmatched.delete(match);
+    }
+  });
+
+  return matches;
+}
+
+export interface SnapshotGuestMove {
+  guestId: number;
+  fullName: string;
+  // Desk in the snapshot and now
+  snapshotDeskNo: number;
+  currentDeskNo: number;
+}
+
+export interface SnapshotDiff {
+  moves: SnapshotGuestMove[];
+  // Guests added or deleted since the snapshot
+  addedGuests: string[];
+  removedGuests: string[];
+  movedDeskNos: number[];
+  changedFixedObjects: number;
+}
+
+function isSamePosition(
+  a: { x: number; y: number } | undefined,
+  b: { x: number; y: number } | undefined,
+): boolean {
+  if (!a || !b) return a === b;
+  return (
+    Math.round(a.x) === Math.round(b.x) && Math.round(a.y) === Math.round(b.y)
+  );
+}
+
+function isSameObject(a: FixedObjectDB, b: FixedObjectDB): boolean {
+  return (
+    a.name === b.name &&
+    a.type === b.type &&
+    isSamePosition(a, b) &&
+    a.width === b.width &&
+    a.height === b.height &&
+    a.rotation === b.rotation &&
+    JSON.stringify(a.points ?? null) === JSON.stringify(b.points ?? null)
+  );
+}
+
+// What changed between a snapshot and the current seating plan
+export function getSnapshotDiff(
+  snapshot: SeatingSnapshotData,
+  guests: Guest[],
+  tablePositions: TablePositions,
+  fixedObjects: FixedObjectDB[],
+): SnapshotDiff {
+  const matches = matchSnapshotGuests(snapshot.guests, guests);
+  const matched = new Set(matches.values());
+
+  const moves: SnapshotGuestMove[] = [];
+  guests.forEach((guest) => {
+    const match = matches.get(guest.id);
+    if (match && match.desk_no !== guest.desk_no) {
+      moves.push({
+        guestId: guest.id,
+        fullName: guest.full_name,
+        snapshotDeskNo: match.desk_no,
+        currentDeskNo: guest.desk_no,
+      });
+    }
+  });
+
+  const movedDeskNos = Object.keys(snapshot.tablePositions)
+    .map(Number)
+    .filter(
+      (deskNo) =>
+        tablePositions[deskNo] &&
+        !isSamePosition(
+          snapshot.tablePositions[deskNo],
+          tablePositions[deskNo],
+        ),
+    );
+
+  // Objects re-created by undo get a new id, so they are compared by value
+  const snapshotIds = new Set(snapshot.fixedObjects.map((obj) => obj.id));
+  const changedFixedObjects =
+    snapshot.fixedObjects.filter(
+      (obj) => !fixedObjects.some((current) => isSameObject(obj, current)),
+    ).length +
+    fixedObjects.filter(
+      (obj) =>
+        !snapshotIds.has(obj.id) &&
+        !snapshot.fixedObjects.some((saved) => isSameObject(obj, saved)),
+    ).length;
+
+  return {
+    moves,
+    addedGuests: guests
+      .filter((g) => !matches.has(g.id))
+      .map((g) => g.full_name),
+    removedGuests: snapshot.guests
+      .filter((g) => !matched.has(g))
+      .map((g) => g.full_name),
+    movedDeskNos,
+    changedFixedObjects,
+  };
+}
+
+export interface SnapshotRestorePlan {
+  // Guests to move back to their desk in the snapshot
+  moves: { guestId: number; deskNo: number }[];
+  // Seating order of every desk after the restore. Guests added since
+  // the snapshot stay at their desk, after the others.
+  deskOrders: Record<number, number[]>;
+  // Guests whose chosen seats differ from the snapshot
+  seatChanges: { guestId: number; seats: number[] | null }[];
+}
+
+function isSameSeats(a: number[] | null, b: number[] | null): boolean {
+  return (a ?? []).join() === (b ?? []).join();
+}
+
+// Changes that put the current guests back where they sat in a snapshot
+export function getSnapshotRestorePlan(
+  snapshot: SeatingSnapshotData,
+  guests: Guest[],
+): SnapshotRestorePlan {
+  const matches = matchSnapshotGuests(snapshot.guests, guests);
+
+  const moves = guests
+    .filter((g) => {
+      const match = matches.get(g.id);
+      return match && match.desk_no !== g.desk_no;
+    })
+    .map((g) => ({ guestId: g.id, deskNo: matches.get(g.id)!.desk_no }));
+
+  const seated = guests.map((g) => ({
+    id: g.id,
+    deskNo: matches.get(g.id)?.desk_no ?? g.desk_no,
+    // Guests added since the snapshot go last, in their current order
+    order: matches.get(g.id)?.display_order ?? Infinity,
+    currentOrder: g.display_order ?? 0,
+  }));
+  seated.sort((a, b) => a.order - b.order || a.currentOrder - b.currentOrder);
+
+  const deskOrders: Record<number, number[]> = {};
+  seated.forEach((guest) => {
+    (deskOrders[guest.deskNo] ??= []).push(guest.id);
+  });
+
+  const seatChanges = guests.flatMap((g) => {
+    const match = matches.get(g.id);
+    if (!match) return [];
+    // Older snapshots have no seats; guests they move lose theirs
+    const seats =
+      match.seats !== undefined
+        ? match.seats
+        : match.desk_no === g.desk_no
+          ? (g.seats ?? null)
+          : null;
+    return isSameSeats(seats, g.seats ?? null)
+      ? []
+      : [{ guestId: g.id, seats }];
+  });
+
+  return { moves, deskOrders, seatChanges };
+}
+
+export interface FixedObjectRestorePlan {
+  create: FixedObjectDB[];
+  update: FixedObjectDB[];
+  deleteIds: string[];
+}
+
+// Changes that bring the fixed objects back to a snapshot. Objects that
+// are identical to a saved one are kept, whatever their id.
+export function getFixedObjectRestorePlan(
+  snapshotObjects: FixedObjectDB[],
+  currentObjects: FixedObjectDB[],
+): FixedObjectRestorePlan {
+  const remaining = [...currentObjects];
+  const take = (object: FixedObjectDB | undefined) => {
+    if (object) remaining.splice(remaining.indexOf(object), 1);
+    return object;
+  };
+
+  const plan: FixedObjectRestorePlan = {
+    create: [],
+    update: [],
+    deleteIds: [],
+  };
+  const changed: FixedObjectDB[] = [];
+
+  snapshotObjects.forEach((saved) => {
+    const identical =
+      remaining.find(
+        (obj) => obj.id === saved.id && isSameObject(obj, saved),
+      ) ?? remaining.find((obj) => isSameObject(obj, saved));
+    if (!take(identical)) changed.push(saved);
+  });
+  changed.forEach((saved) => {
+    if (take(remaining.find((obj) => obj.id === saved.id))) {
+      plan.update.push(saved);
+    } else {
+      plan.create.push(saved);
+    }
+  });
+  plan.deleteIds = remaining.map((obj) => obj.id);
+
+  return plan;
+}
@@ -0,0 +1,377 @@
+import type { Guest } from '@/lib/supabase';
+import { isGuestInGroup } from '@/lib/guestGroups';
+
+// "together": all guests at the same desk, "apart": no two at the same desk.
+// Groups (a side, household or tag) count as one party: "together" seats
+// all their members at one desk, "apart" keeps them away from the others.
+export type SeatingConstraintType = 'together' | 'apart';
+
+export interface SeatingConstraint {
+  id: string;
+  type: SeatingConstraintType;
+  guestIds: number[];
+  groupKeys?: string[];
+}
+
+// Guest ids of each guest and group in a constraint
+export function getConstraintEntities(
+  constraint: SeatingConstraint,
+  guests: Guest[],
+): number[][] {
+  return [
+    ...constraint.guestIds.map((id) => [id]),
+    ...(constraint.groupKeys ?? []).map((key) =>
+      guests.filter((g) => isGuestInGroup(g, key)).map((g) => g.id),
+    ),
+  ];
+}
+
+// Guest id -> ids that must not share its desk
+function getApartPairs(
+  constraints: SeatingConstraint[],
+  guests: Guest[],
+): Map<number, Set<number>> {
+  const apartFrom = new Map<number, Set<number>>();
+  constraints
+    .filter((c) => c.type === 'apart')
+    .forEach((c) => {
+      const entities = getConstraintEntities(c, guests);
+      entities.forEach((entity, i) => {
+        entity.forEach((id) => {
+          const others = apartFrom.get(id) ?? new Set<number>();
+          entities
+            .filter((_, j) => j !== i)
+            .flat()
+            .filter((other) => other !== id)
+            .forEach((o) => others.add(o));
+          apartFrom.set(id, others);
+        });
+      });
+    });
+  return apartFrom;
+}
+
+export interface ConstraintViolation {
+  constraint: SeatingConstraint;
+  // Desks the "together" guests are spread over, or where "apart" guests meet
+  deskNos: number[];
+}
+
+// Constraints the current seating does not satisfy
+export function getConstraintViolations(
+  constraints: SeatingConstraint[],
+  guests: Guest[],
+): ConstraintViolation[] {
+  const deskOf = new Map(guests.map((g) => [g.id, g.desk_no]));
+  const violations: ConstraintViolation[] = [];
+
+  constraints.forEach((constraint) => {
+    const entities = getConstraintEntities(constraint, guests).map((entity) =>
+      entity.filter((id) => deskOf.has(id)),
+    );
+
+    if (constraint.type === 'together') {
+      const desks = new Set(entities.flat().map((id) => deskOf.get(id)!));
+      if (desks.size > 1) {
+        violations.push({
+          constraint,
+          deskNos: [...desks].sort((a, b) => a - b),
+        });
+      }
+      return;
+    }
+
+    const apartFrom = getApartPairs([constraint], guests);
+    const desks = new Set<number>();
+    apartFrom.forEach((others, id) => {
+      if (!deskOf.has(id)) return;
+      others.forEach((other) => {
+        if (deskOf.get(other) === deskOf.get(id)) desks.add(deskOf.get(id)!);
+      });
+    });
+    if (desks.size > 0) {
+      violations.push({
+        constraint,
+        deskNos: [...desks].sort((a, b) => a - b),
+      });
+    }
+  });
+
+  return violations;
+}
+
+export interface SolverDesk {
+  deskNo: number;
+  capacity: number;
+}
+
+export interface SeatingOptions {
+  // 'unassigned' only seats guests whose desk does not exist
+  scope: 'unassigned' | 'all';
+  // Keep each party (see getPartyKey) at one desk
+  keepPartiesTogether: boolean;
+}
+
+export interface SeatingMove {
+  guest: Guest;
+  fromDeskNo: number | null;
+  toDeskNo: number;
+}
+
+export interface SeatingResult {
+  moves: SeatingMove[];
+  // Guests that could not be seated (they keep their current desk)
+  unplaced: Guest[];
+  // Persons per desk after applying the moves
+  load: Map<number, number>;
+  warnings: string[];
+}
+
+// Matches names created by the split action (handleSplitGuest in App)
+const SPLIT_NAME_PATTERN = /^(.*) - Kişi \d+$/;
+
+export function getPartyName(guest: Guest): string | null {
+  const match = guest.full_name.match(SPLIT_NAME_PATTERN);
+  return match ? match[1] : null;
+}
+
+// Party a guest belongs to: their household (split invitations record
+// it there), or the name of an older split invitation
+export function getPartyKey(guest: Guest): string | null {
+  return guest.household ?? getPartyName(guest);
+}
+
+// Guests whose desk is not one of the known desks
+export function getUnassignedGuests(
+  guests: Guest[],
+  deskNumbers: number[],
+): Guest[] {
+  const known = new Set(deskNumbers);
+  return guests.filter((g) => g.desk_no == null || !known.has(g.desk_no));
+}
+
+// Guests that have to be placed as one block
+interface SeatingUnit {
+  guests: Guest[];
+  size: number;
+  // Desks required by "together" constraints with guests outside the
+  // scope. More than one means the constraints conflict.
+  pinnedDeskNos: number[];
+}
+
+function buildUnits(
+  guests: Guest[],
+  scoped: Guest[],
+  fixedDeskOf: Map<number, number>,
+  constraints: SeatingConstraint[],
+  keepPartiesTogether: boolean,
+  warnings: string[],
+): SeatingUnit[] {
+  // Union-find over guest ids in scope
+  const parent = new Map<number, number>();
+  scoped.forEach((g) => parent.set(g.id, g.id));
+  const find = (id: number): number => {
+    let root = id;
+    while (parent.get(root) !== root) root = parent.get(root)!;
+    parent.set(id, root);
+    return root;
+  };
+  const union = (a: number, b: number) => parent.set(find(a), find(b));
+
+  if (keepPartiesTogether) {
+    const partyHeads = new Map<string, number>();
+    scoped.forEach((g) => {
+      const party = getPartyKey(g);
+      if (!party) return;
+      const head = partyHeads.get(party);
+      if (head === undefined) partyHeads.set(party, g.id);
+      else union(head, g.id);
+    });
+  }
+
+  const pins = new Map<number, Set<number>>();
+  constraints
+    .filter((c) => c.type === 'together')
+    .forEach((c) => {
+      const memberIds = [...new Set(getConstraintEntities(c, guests).flat())];
+      const inScope = memberIds.filter((id) => parent.has(id));
+      inScope.slice(1).forEach((id) => union(inScope[0], id));
+
+      const fixedDesks = new Set(
+        memberIds
+          .filter((id) => fixedDeskOf.has(id))
+          .map((id) => fixedDeskOf.get(id)!),
+      );
+      // With guests in scope the conflict is reported for their unit
+      if (inScope.length === 0 && fixedDesks.size > 1) {
+        warnings.push(
+          'Bir "birlikte" kuralındaki misafirler zaten farklı masalarda oturuyor.',
+        );
+      }
+      if (inScope.length > 0 && fixedDesks.size > 0) {
+        const pinned = pins.get(inScope[0]) ?? new Set<number>();
+        fixedDesks.forEach((deskNo) => pinned.add(deskNo));
+        pins.set(inScope[0], pinned);
+      }
+    });
+
+  const units = new Map<number, SeatingUnit>();
+  scoped.forEach((g) => {
+    const root = find(g.id);
+    const unit = units.get(root) ?? { guests: [], size: 0, pinnedDeskNos: [] };
+    unit.guests.push(g);
+    unit.size += g.person_count;
+    units.set(root, unit);
+  });
+  pins.forEach((deskNos, id) => {
+    const unit = units.get(find(id))!;
+    unit.pinnedDeskNos = [...new Set([...unit.pinnedDeskNos, ...deskNos])];
+  });
+
+  const result = Array.from(units.values());
+  result
+    .filter((unit) => unit.pinnedDeskNos.length > 1)
+    .forEach((unit) => {
+      const deskList = [...unit.pinnedDeskNos]
+        .sort((a, b) => a - b)
+        .map((no) => `Masa ${no}`)
+        .join(', ');
+      warnings.push(
+        `${unit.guests.map((g) => g.full_name).join(', ')} için "birlikte" kuralları farklı masaları gerektiriyor (${deskList}).`,
+      );
+    });
+  return result;
+}
+
+// Greedy seating: the largest blocks are placed first, each on the desk
+// that already holds most of its guests, otherwise the tightest fit.
+export function solveSeating(
+  guests: Guest[],
+  desks: SolverDesk[],
+  constraints: SeatingConstraint[],
+  options: SeatingOptions,
+): SeatingResult {
+  const warnings: string[] = [];
+  const deskNumbers = desks.map((d) => d.deskNo);
+  const scoped =
+    options.scope === 'all' ? guests : getUnassignedGuests(guests, deskNumbers);
+  const scopedIds = new Set(scoped.map((g) => g.id));
+
+  // Guests outside the scope stay where they are and use up capacity
+  const fixedDeskOf = new Map<number, number>();
+  const load = new Map<number, number>(deskNumbers.map((no) => [no, 0]));
+  const seated = new Map<number, Set<number>>(
+    deskNumbers.map((no) => [no, new Set()]),
+  );
+  guests
+    .filter((g) => !scopedIds.has(g.id) && load.has(g.desk_no))
+    .forEach((g) => {
+      fixedDeskOf.set(g.id, g.desk_no);
+      load.set(g.desk_no, load.get(g.desk_no)! + g.person_count);
+      seated.get(g.desk_no)!.add(g.id);
+    });
+
+  const apartFrom = getApartPairs(constraints, guests);
+
+  const units = buildUnits(
+    guests,
+    scoped,
+    fixedDeskOf,
+    constraints,
+    options.keepPartiesTogether,
+    warnings,
+  ).sort(
+    (a, b) =>
+      Number(b.pinnedDeskNos.length > 0) - Number(a.pinnedDeskNos.length > 0) ||
+      b.size - a.size,
+  );
+
+  const capacityOf = new Map(desks.map((d) => [d.deskNo, d.capacity]));
+  const isOverfull = (deskNo: number) =>
+    load.get(deskNo)! > capacityOf.get(deskNo)!;
+  const overfullBefore = new Set(deskNumbers.filter(isOverfull));
+  const assignment = new Map<number, number>();
+  const unplaced: Guest[] = [];
+
+  units.forEach((unit) => {
+    const memberIds = unit.guests.map((g) => g.id);
+    const conflictsWithUnit = memberIds.some((id) =>
+      memberIds.some((other) => apartFrom.get(id)?.has(other)),
+    );
+    if (conflictsWithUnit) {
+      warnings.push(
+        `${unit.guests.map((g) => g.full_name).join(', ')} için "birlikte" ve "ayrı" kuralları çelişiyor.`,
+      );
+    }
+
+    const fits = (deskNo: number) => {
+      const free = capacityOf.get(deskNo)! - load.get(deskNo)!;
+      if (free < unit.size) return false;
+      const atDesk = seated.get(deskNo)!;
+      return !memberIds.some((id) =>
+        [...(apartFrom.get(id) ?? [])].some((other) => atDesk.has(other)),
+      );
+    };
+
+    // Conflicting pins leave no desk that satisfies every constraint
+    const candidates =
+      unit.pinnedDeskNos.length > 1
+        ? []
+        : unit.pinnedDeskNos.length === 1
+          ? unit.pinnedDeskNos
+          : deskNumbers;
+    const scored = candidates
+      .filter((deskNo) => load.has(deskNo) && fits(deskNo))
+      .map((deskNo) => ({
+        deskNo,
+        alreadyHere: unit.guests.filter((g) => g.desk_no === deskNo).length,
+        freeAfter: capacityOf.get(deskNo)! - load.get(deskNo)! - unit.size,
+      }))
+      .sort(
+        (a, b) =>
+          b.alreadyHere - a.alreadyHere ||
+          a.freeAfter - b.freeAfter ||
+          a.deskNo - b.deskNo,
+      );
+
+    const target = scored[0];
+    if (!target) {
+      // Unplaced guests keep their desk, so later blocks must count them
+      // there before they are checked against its capacity
+      unplaced.push(...unit.guests);
+      unit.guests.forEach((g) => {
+        if (!load.has(g.desk_no)) return;
+        load.set(g.desk_no, load.get(g.desk_no)! + g.person_count);
+        seated.get(g.desk_no)!.add(g.id);
+      });
+      return;
+    }
+
+    load.set(target.deskNo, load.get(target.deskNo)! + unit.size);
+    unit.guests.forEach((g) => {
+      assignment.set(g.id, target.deskNo);
+      seated.get(target.deskNo)!.add(g.id);
+    });
+  });
+
+  // Blocks placed before a guest turned out to be unplaceable can leave
+  // that guest's desk over capacity
+  const overfull = deskNumbers.filter(
+    (no) => isOverfull(no) && !overfullBefore.has(no),
+  );
+  if (overfull.length > 0) {
+    warnings.push(
+      `Yerinde kalan misafirler yüzünden kapasitesi aşılan masalar: ${overfull.map((no) => `Masa ${no}`).join(', ')}.`,
+    );
+  }
+
+  const moves: SeatingMove[] = scoped
+    .filter((g) => assignment.has(g.id) && assignment.get(g.id) !== g.desk_no)
+    .map((g) => ({
+      guest: g,
+      fromDeskNo: deskNumbers.includes(g.desk_no) ? g.desk_no : null,
+      toDeskNo: assignment.get(g.id)!,
+    }));
+
+  return { moves, unplaced, load, warnings };
+}
@@ -1,4 +1,8 @@
-import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import {
+  createClient,
+  SupabaseClient,
+  type Session,
+} from '@supabase/supabase-js';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
@@ -18,19 +22,60 @@ export interface Guest {
   gift_count: number;
   description: string | null;
   is_attended: boolean | null;
+  // People of the party who arrived; null means the whole party
+  attended_count?: number | null;
+  // When the first people of the party arrived, and on which device
+  arrived_at?: string | null;
+  checked_in_by?: string | null;
   display_order?: number;
+  // Which side of the couple the guest belongs to, their household and
+  // free-form tags (e.g. "iş", "üniversite")
+  side?: GuestSide | null;
+  household?: string | null;
+  tags?: string[];
+  // Chair at the desk for each person of the party, null to seat them
+  // automatically, and the names of the people coming with the guest
+  seats?: number[] | null;
+  companions?: string[];
+  // Random code in the guest's QR code, set by the database (missing on
+  // guests that have not been saved there yet)
+  qr_token?: string | null;
 }
 
+export type GuestSide = 'bride' | 'groom' | 'both';
+
+export type GuestGroupFields = Pick<Guest, 'side' | 'household' | 'tags'>;
+
+export type GuestSeatFields = Pick<Guest, 'seats' | 'companions'>;
+
 // Fixed Object type
+// Venue elements and plain shapes on the floor plan
+export type FixedObjectType =
+  | 'stage'
+  | 'dance_floor'
+  | 'bar'
+  | 'buffet'
+  | 'dj'
+  | 'entrance'
+  | 'exit'
+  | 'pillar'
+  | 'rectangle'
+  | 'triangle'
+  | 'circle'
+  | 'l_shape'
+  | 'polygon';
+
 export interface FixedObjectDB {
   id: string;
   name: string;
-  type: 'rectangle' | 'triangle';
+  type: FixedObjectType;
   x: number;
   y: number;
   width: number;
   height: number;
   rotation: number;
+  // Corners of a free polygon, as fractions of its width and height
+  points?: [number, number][] | null;
 }
 
 // Raw JSON data type (camelCase from db.json)
@@ -42,13 +87,92 @@ export interface GuestRaw {
   description: string | null;
 }
 
+// Kinds of events the app can plan
+export type EventType = 'engagement' | 'wedding' | 'henna' | 'other';
+
+// An event (engagement, wedding, ...) that owns its own guests, desks,
+// fixed objects and settings
+export interface AppEvent {
+  id: number;
+  name: string;
+  type: EventType;
+  event_date: string | null;
+}
+
+// Event that existed before events were introduced; all older data
+// (rows without event_id, unscoped localStorage keys) belongs to it
+export const DEFAULT_EVENT_ID = 1;
+
+export const DEFAULT_EVENT: AppEvent = {
+  id: DEFAULT_EVENT_ID,
+  name: 'Nişan',
+  type: 'engagement',
+  event_date: null,
+};
+
 // LocalStorage keys
 const STORAGE_KEYS = {
+  EVENTS: 'engagement_events',
+  ACTIVE_EVENT: 'engagement_active_event',
   ATTENDANCE: 'engagement_attendance',
   NOTES: 'engagement_notes',
+  ATTENDED_COUNTS: 'engagement_attended_counts',
+  ARRIVALS: 'engagement_arrivals',
+  GROUPS: 'engagement_guest_groups',
+  SEATS: 'engagement_guest_seats',
+  DEVICE_NAME: 'engagement_device_name',
+  ROLE: 'engagement_role',
   FIXED_OBJECTS: 'engagement_fixed_objects',
+  VENUE_PLAN: 'engagement_venue_plan',
+  PLAN_SCALE: 'engagement_plan_scale',
+  TABLE_POSITIONS: 'engagement_table_positions',
+  DESK_CAPACITIES: 'engagement_desk_capacities',
+  DESK_LAYOUTS: 'engagement_desk_layouts',
+  GUESTS_CACHE: 'engagement_guests_cache',
+  IMPORTED_GUESTS: 'engagement_imported_guests',
+  OUTBOX: 'engagement_outbox',
+  SNAPSHOTS: 'engagement_seating_snapshots',
 } as const;
 
+// =====================================================
+// ACTIVE EVENT
+// =====================================================
+
+function loadActiveEventId(): number {
+  try {
+    const stored = Number(localStorage.getItem(STORAGE_KEYS.ACTIVE_EVENT));
+    return Number.isInteger(stored) && stored > 0 ? stored : DEFAULT_EVENT_ID;
+  } catch {
+    return DEFAULT_EVENT_ID;
+  }
+}
+
+// Every load, insert and realtime subscription is scoped to this event
+let activeEventId = loadActiveEventId();
+
+export function getActiveEventId(): number {
+  return activeEventId;
+}
+
+// Switch events. Components holding event data must be remounted.
+export function setActiveEventId(id: number) {
+  activeEventId = id;
+  try {
+    localStorage.setItem(STORAGE_KEYS.ACTIVE_EVENT, String(id));
+  } catch (e) {
+    console.error('Failed to save active event to localStorage:', e);
+  }
+}
+
+// localStorage key for data of an event. The default event keeps the
+// original keys so data saved before events existed is still found.
+export function eventStorageKey(
+  key: string,
+  eventId: number = activeEventId,
+): string {
+  return eventId === DEFAULT_EVENT_ID ? key : `${key}_event_${eventId}`;
+}
+
 // =====================================================
 // LOCAL STORAGE HELPERS
 // =====================================================
@@ -56,7 +180,9 @@ const STORAGE_KEYS = {
 // Get attendance status from localStorage
 export function getLocalAttendance(): Record<string, boolean | null> {
   try {
-    const stored = localStorage.getItem(STORAGE_KEYS.ATTENDANCE);
+    const stored = localStorage.getItem(
+      eventStorageKey(STORAGE_KEYS.ATTENDANCE),
+    );
     return stored ? JSON.parse(stored) : {};
   } catch {
     return {};
@@ -71,16 +197,154 @@ export function saveLocalAttendance(
   try {
     const current = getLocalAttendance();
     current[guestName] = isAttended;
-    localStorage.setItem(STORAGE_KEYS.ATTENDANCE, JSON.stringify(current));
+    localStorage.setItem(
+      eventStorageKey(STORAGE_KEYS.ATTENDANCE),
+      JSON.stringify(current),
+    );
   } catch (e) {
     console.error('Failed to save attendance to localStorage:', e);
   }
 }
 
+// Get partial attendance counts from localStorage
+export function getLocalAttendedCounts(): Record<string, number> {
+  try {
+    const stored = localStorage.getItem(
+      eventStorageKey(STORAGE_KEYS.ATTENDED_COUNTS),
+    );
+    return stored ? JSON.parse(stored) : {};
+  } catch {
+    return {};
+  }
+}
+
+// Save partial attendance count to localStorage
+export function saveLocalAttendedCount(
+  guestName: string,
+  count: number | null,
+) {
+  try {
+    const current = getLocalAttendedCounts();
+    if (count === null) {
+      delete current[guestName];
+    } else {
+      current[guestName] = count;
+    }
+    localStorage.setItem(
+      eventStorageKey(STORAGE_KEYS.ATTENDED_COUNTS),
+      JSON.stringify(current),
+    );
+  } catch (e) {
+    console.error('Failed to save attended count to localStorage:', e);
+  }
+}
+
+// Arrival time and device per guest name (used without Supabase)
+export type LocalArrival = Pick<Guest, 'arrived_at' | 'checked_in_by'>;
+
+// Get arrival times from localStorage
+export function getLocalArrivals(): Record<string, LocalArrival> {
+  try {
+    const stored = localStorage.getItem(eventStorageKey(STORAGE_KEYS.ARRIVALS));
+    return stored ? JSON.parse(stored) : {};
+  } catch {
+    return {};
+  }
+}
+
+// Save arrival time to localStorage
+export function saveLocalArrival(guestName: string, arrival: LocalArrival) {
+  try {
+    const current = getLocalArrivals();
+    if (arrival.arrived_at) {
+      current[guestName] = arrival;
+    } else {
+      delete current[guestName];
+    }
+    localStorage.setItem(
+      eventStorageKey(STORAGE_KEYS.ARRIVALS),
+      JSON.stringify(current),
+    );
+  } catch (e) {
+    console.error('Failed to save arrival to localStorage:', e);
+  }
+}
+
+// Side, household and tags per guest name (used without Supabase)
+export function getLocalGroups(): Record<string, GuestGroupFields> {
+  try {
+    const stored = localStorage.getItem(eventStorageKey(STORAGE_KEYS.GROUPS));
+    return stored ? JSON.parse(stored) : {};
+  } catch {
+    return {};
+  }
+}
+
+// Save the groups of a guest to localStorage
+export function saveLocalGroups(guestName: string, groups: GuestGroupFields) {
+  try {
+    const current = getLocalGroups();
+    current[guestName] = { ...current[guestName], ...groups };
+    localStorage.setItem(
+      eventStorageKey(STORAGE_KEYS.GROUPS),
+      JSON.stringify(current),
+    );
+  } catch (e) {
+    console.error('Failed to save guest groups to localStorage:', e);
+  }
+}
+
+// Chosen seats and companion names per guest name (used without Supabase)
+export function getLocalSeats(): Record<string, GuestSeatFields> {
+  try {
+    const stored = localStorage.getItem(eventStorageKey(STORAGE_KEYS.SEATS));
+    return stored ? JSON.parse(stored) : {};
+  } catch {
+    return {};
+  }
+}
+
+// Save the seats of a guest to localStorage
+export function saveLocalSeats(guestName: string, seats: GuestSeatFields) {
+  try {
+    const current = getLocalSeats();
+    current[guestName] = { ...current[guestName], ...seats };
+    localStorage.setItem(
+      eventStorageKey(STORAGE_KEYS.SEATS),
+      JSON.stringify(current),
+    );
+  } catch (e) {
+    console.error('Failed to save guest seats to localStorage:', e);
+  }
+}
+
+// Name of this device, recorded with each check-in
+export function getDeviceName(): string {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEYS.DEVICE_NAME);
+    if (stored) return stored;
+
+    const name = `Cihaz ${Math.random().toString(36).slice(2, 6).toUpperCase()}`;
+    localStorage.setItem(STORAGE_KEYS.DEVICE_NAME, name);
+    return name;
+  } catch {
+    return 'Bilinmeyen cihaz';
+  }
+}
+
+// Rename this device
+export function saveDeviceName(name: string) {
+  try {
+    localStorage.setItem(STORAGE_KEYS.DEVICE_NAME, name);
+  } catch (e) {
+    console.error('Failed to save device name to localStorage:', e);
+  }
+}
+
 // Get notes from localStorage
 export function getLocalNotes(): Record<string, string> {
   try {
-    const stored = localStorage.getItem(STORAGE_KEYS.NOTES);
+    const stored = localStorage.getItem(eventStorageKey(STORAGE_KEYS.NOTES));
     return stored ? JSON.parse(stored) : {};
   } catch {
     return {};
@@ -96,7 +360,10 @@ export function saveLocalNotes(guestName: string, note: string) {
     } else {
       delete current[guestName];
     }
-    localStorage.setItem(STORAGE_KEYS.NOTES, JSON.stringify(current));
+    localStorage.setItem(
+      eventStorageKey(STORAGE_KEYS.NOTES),
+      JSON.stringify(current),
+    );
   } catch (e) {
     console.error('Failed to save notes to localStorage:', e);
   }
@@ -106,6 +373,10 @@ export function saveLocalNotes(guestName: string, note: string) {
 export function convertRawGuest(raw: GuestRaw, index: number): Guest {
   const localAttendance = getLocalAttendance();
   const localNotes = getLocalNotes();
+  const localAttendedCounts = getLocalAttendedCounts();
+  const localArrival = getLocalArrivals()[raw.fullName];
+  const localGroups = getLocalGroups()[raw.fullName];
+  const localSeats = getLocalSeats()[raw.fullName];
 
   return {
     id: index + 1,
@@ -115,384 +386,1614 @@ export function convertRawGuest(raw: GuestRaw, index: number): Guest {
     gift_count: raw.giftCount,
     description: localNotes[raw.fullName] || raw.description,
     is_attended: localAttendance[raw.fullName] ?? null,
+    attended_count: localAttendedCounts[raw.fullName] ?? null,
+    arrived_at: localArrival?.arrived_at ?? null,
+    checked_in_by: localArrival?.checked_in_by ?? null,
+    side: localGroups?.side ?? null,
+    household: localGroups?.household ?? null,
+    tags: localGroups?.tags ?? [],
+    seats: localSeats?.seats ?? null,
+    companions: localSeats?.companions ?? [],
   };
 }
 
-// =====================================================
-// SUPABASE API HELPERS
-// =====================================================
+// Get the last guest list loaded from Supabase (keeps real DB ids offline)
+export function getLocalGuestsCache(): Guest[] | null {
+  try {
+    const stored = localStorage.getItem(
+      eventStorageKey(STORAGE_KEYS.GUESTS_CACHE),
+    );
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+}
+
+// Save the current guest list so it can be restored when Supabase is unreachable
+export function saveLocalGuestsCache(guests: Guest[]) {
+  try {
+    localStorage.setItem(
+      eventStorageKey(STORAGE_KEYS.GUESTS_CACHE),
+      JSON.stringify(guests),
+    );
+  } catch (e) {
+    console.error('Failed to save guests cache to localStorage:', e);
+  }
+}
+
+// Get guests imported without Supabase (added on top of db.json)
+export function getLocalImportedGuests(): GuestRaw[] {
+  try {
+    const stored = localStorage.getItem(
+      eventStorageKey(STORAGE_KEYS.IMPORTED_GUESTS),
+    );
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+}
+
+// Append imported guests that only exist on this device
+export function saveLocalImportedGuests(guests: GuestRaw[]) {
+  try {
+    localStorage.setItem(
+      eventStorageKey(STORAGE_KEYS.IMPORTED_GUESTS),
+      JSON.stringify([...getLocalImportedGuests(), ...guests]),
+    );
+  } catch (e) {
+    console.error('Failed to save imported guests to localStorage:', e);
+  }
+}
+
+// =====================================================
+// OFFLINE OUTBOX
+// =====================================================
+
+// Every mutation sent to Supabase, in a serialisable form so it can be
+// stored and replayed later
+export type OutboxOperation =
+  | { type: 'create_guest'; guest: Omit<Guest, 'id'>; localId?: number }
+  | {
+      type: 'create_guests';
+      guests: Omit<Guest, 'id'>[];
+      localIds?: number[];
+    }
+  | { type: 'update_guest'; id: number; updates: Partial<Guest> }
+  | { type: 'delete_guest'; id: number }
+  | { type: 'update_guest_order'; guestIds: number[] }
+  | {
+      type: 'create_fixed_object';
+      object: Omit<FixedObjectDB, 'id'>;
+      localId?: string;
+    }
+  | {
+      type: 'update_fixed_object';
+      id: string;
+      updates: Partial<FixedObjectDB>;
+    }
+  | { type: 'delete_fixed_object'; id: string }
+  | {
+      type: 'create_desk';
+      deskNo: number;
+      x: number;
+      y: number;
+      name: string | null;
+    }
+  | { type: 'update_desk_position'; deskNo: number; x: number; y: number }
+  | { type: 'update_setting'; key: string; value: string }
+  | {
+      type: 'update_desk';
+      deskNo: number;
+      updates: Partial<Omit<Desk, 'id' | 'desk_no'>>;
+    }
+  | { type: 'delete_desk'; deskNo: number };
+
+export interface OutboxEntry {
+  id: string;
+  operation: OutboxOperation;
+  // Event the operation belongs to (missing on entries queued before
+  // events existed, which belong to the default event)
+  eventId?: number;
+  createdAt: number;
+  attempts: number;
+  // pending: waiting for the network, failed: rejected by the database
+  status: 'pending' | 'failed';
+  error: string | null;
+}
+
+export interface OutboxSnapshot {
+  entries: OutboxEntry[];
+  isSyncing: boolean;
+  lastSyncedAt: number | null;
+}
+
+type MutationResult =
+  | { ok: true; data: unknown }
+  | { ok: false; error: string; retryable: boolean };
+
+const outboxListeners = new Set<() => void>();
+let outboxSnapshot: OutboxSnapshot = {
+  entries: loadOutbox(),
+  isSyncing: false,
+  lastSyncedAt: null,
+};
+let flushPromise: Promise<boolean> | null = null;
+
+function loadOutbox(): OutboxEntry[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEYS.OUTBOX);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+}
+
+function setOutboxState(updates: Partial<OutboxSnapshot>) {
+  outboxSnapshot = { ...outboxSnapshot, ...updates };
+  if (updates.entries) {
+    try {
+      localStorage.setItem(
+        STORAGE_KEYS.OUTBOX,
+        JSON.stringify(updates.entries),
+      );
+    } catch (e) {
+      console.error('Failed to save outbox to localStorage:', e);
+    }
+  }
+  outboxListeners.forEach((listener) => listener());
+}
+
+function enqueueOperation(
+  operation: OutboxOperation,
+  eventId: number,
+  status: OutboxEntry['status'],
+  error: string | null,
+) {
+  const entry: OutboxEntry = {
+    id: `op_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`,
+    operation,
+    eventId,
+    createdAt: Date.now(),
+    attempts: 0,
+    status,
+    error,
+  };
+  // Only the latest value of a setting matters. Settings can be large (the
+  // venue plan image), so stale copies would fill up localStorage.
+  const entries = outboxSnapshot.entries.filter(
+    (e) =>
+      !(
+        operation.type === 'update_setting' &&
+        e.status === 'pending' &&
+        e.operation.type === 'update_setting' &&
+        e.operation.key === operation.key &&
+        (e.eventId ?? DEFAULT_EVENT_ID) === eventId
+      ),
+  );
+  setOutboxState({ entries: [...entries, entry] });
+}
+
+// Subscribe to outbox changes (for useSyncExternalStore)
+export function subscribeOutbox(listener: () => void): () => void {
+  outboxListeners.add(listener);
+  return () => {
+    outboxListeners.delete(listener);
+  };
+}
+
+export function getOutboxSnapshot(): OutboxSnapshot {
+  return outboxSnapshot;
+}
+
+// Network problems are retried later, database rejections are not
+function isRetryableError(error: { message: string; code?: string }): boolean {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  return !error.code || /fetch|network|timeout/i.test(error.message);
+}
+
+function failure(error: { message: string; code?: string }): MutationResult {
+  return {
+    ok: false,
+    error: error.message,
+    retryable: isRetryableError(error),
+  };
+}
+
+// Send a single operation to Supabase. Inserts and desk lookups are
+// scoped to the event the operation was made in.
+async function executeOperation(
+  op: OutboxOperation,
+  eventId: number,
+): Promise<MutationResult> {
+  if (!supabase) {
+    return { ok: false, error: 'Supabase is not configured', retryable: false };
+  }
+
+  try {
+    switch (op.type) {
+      case 'create_guest': {
+        const { data, error } = await supabase
+          .from('guests')
+          .insert({
+            event_id: eventId,
+            full_name: op.guest.full_name,
+            person_count: op.guest.person_count,
+            desk_no: op.guest.desk_no,
+            gift_count: op.guest.gift_count,
+            description: op.guest.description,
+            is_attended: op.guest.is_attended,
+            attended_count: op.guest.attended_count ?? null,
+            arrived_at: op.guest.arrived_at ?? null,
+            checked_in_by: op.guest.checked_in_by ?? null,
+            side: op.guest.side ?? null,
+            household: op.guest.household ?? null,
+            tags: op.guest.tags ?? [],
+            seats: op.guest.seats ?? null,
+            companions: op.guest.companions ?? [],
+            display_order: op.guest.display_order || 0,
+            // Re-created guests keep their token, new ones get one
+            ...(op.guest.qr_token ? { qr_token: op.guest.qr_token } : {}),
+          })
+          .select()
+          .single();
+        return error ? failure(error) : { ok: true, data };
+      }
+      case 'create_guests': {
+        const { data, error } = await supabase
+          .from('guests')
+          .insert(
+            op.guests.map((guest) => ({
+              event_id: eventId,
+              full_name: guest.full_name,
+              person_count: guest.person_count,
+              desk_no: guest.desk_no,
+              gift_count: guest.gift_count,
+              description: guest.description,
+              is_attended: guest.is_attended,
+              attended_count: guest.attended_count ?? null,
+              arrived_at: guest.arrived_at ?? null,
+              checked_in_by: guest.checked_in_by ?? null,
+              side: guest.side ?? null,
+              household: guest.household ?? null,
+              tags: guest.tags ?? [],
+              seats: guest.seats ?? null,
+              companions: guest.companions ?? [],
+              display_order: guest.display_order || 0,
+              ...(guest.qr_token ? { qr_token: guest.qr_token } : {}),
+            })),
+          )
+          .select();
+        return error ? failure(error) : { ok: true, data };
+      }
+      case 'update_guest': {
+        const { error } = await supabase
+          .from('guests')
+          .update(op.updates)
+          .eq('id', op.id);
+        return error ? failure(error) : { ok: true, data: null };
+      }
+      case 'delete_guest': {
+        const { error } = await supabase
+          .from('guests')
+          .delete()
+          .eq('id', op.id);
+        return error ? failure(error) : { ok: true, data: null };
+      }
+      case 'update_guest_order': {
+        // Update each guest's display_order
+        const results = await Promise.all(
+          op.guestIds.map((id, index) =>
+            supabase!
+              .from('guests')
+              .update({ display_order: index })
+              .eq('id', id),
+          ),
+        );
+        const error = results.find((r) => r.error)?.error;
+        return error ? failure(error) : { ok: true, data: null };
+      }
+      case 'create_fixed_object': {
+        const { data, error } = await supabase
+          .from('fixed_objects')
+          .insert({ ...op.object, event_id: eventId })
+          .select()
+          .single();
+        return error ? failure(error) : { ok: true, data };
+      }
+      case 'update_fixed_object': {
+        const { error } = await supabase
+          .from('fixed_objects')
+          .update(op.updates)
+          .eq('id', op.id);
+        return error ? failure(error) : { ok: true, data: null };
+      }
+      case 'delete_fixed_object': {
+        const { error } = await supabase
+          .from('fixed_objects')
+          .delete()
+          .eq('id', op.id);
+        return error ? failure(error) : { ok: true, data: null };
+      }
+      case 'create_desk': {
+        const { data, error } = await supabase
+          .from('desks')
+          .insert({
+            event_id: eventId,
+            desk_no: op.deskNo,
+            x: op.x,
+            y: op.y,
+            name: op.name,
+            capacity: DEFAULT_DESK_CAPACITY,
+          })
+          .select()
+          .single();
+        return error ? failure(error) : { ok: true, data };
+      }
+      case 'update_desk_position': {
+        const { error } = await supabase
+          .from('desks')
+          .update({ x: op.x, y: op.y })
+          .eq('event_id', eventId)
+          .eq('desk_no', op.deskNo);
+        return error ? failure(error) : { ok: true, data: null };
+      }
+      case 'update_desk': {
+        const { error } = await supabase
+          .from('desks')
+          .update(op.updates)
+          .eq('event_id', eventId)
+          .eq('desk_no', op.deskNo);
+        return error ? failure(error) : { ok: true, data: null };
+      }
+      case 'update_setting': {
+        const { error } = await supabase.from('app_settings').upsert(
+          {
+            event_id: eventId,
+            key: op.key,
+            value: op.value,
+            updated_at: new Date().toISOString(),
+          },
+          { onConflict: 'event_id,key' },
+        );
+        return error ? failure(error) : { ok: true, data: null };
+      }
+      case 'delete_desk': {
+        // First check if desk has any guests
+        const { data: guests, error: checkError } = await supabase
+          .from('guests')
+          .select('id')
+          .eq('event_id', eventId)
+          .eq('desk_no', op.deskNo)
+          .limit(1);
+
+        if (checkError) return failure(checkError);
+        if (guests && guests.length > 0) {
+          return {
+            ok: false,
+            error: 'Cannot delete desk with guests',
+            retryable: false,
+          };
+        }
+
+        const { error } = await supabase
+          .from('desks')
+          .delete()
+          .eq('event_id', eventId)
+          .eq('desk_no', op.deskNo);
+        return error ? failure(error) : { ok: true, data: null };
+      }
+    }
+  } catch (e) {
+    return { ok: false, error: String(e), retryable: true };
+  }
+}
+
+const DEPENDENCY_ERROR = 'The record it changes could not be created';
+
+// Local ids of records whose queued create was rejected by the database
+function getFailedCreateIds(): { guests: Set<number>; objects: Set<string> } {
+  const guests = new Set<number>();
+  const objects = new Set<string>();
+  outboxSnapshot.entries
+    .filter((e) => e.status === 'failed')
+    .forEach(({ operation: op }) => {
+      if (op.type === 'create_guest' && op.localId !== undefined) {
+        guests.add(op.localId);
+      }
+      if (op.type === 'create_guests') {
+        op.localIds?.forEach((id) => guests.add(id));
+      }
+      if (op.type === 'create_fixed_object' && op.localId) {
+        objects.add(op.localId);
+      }
+    });
+  return { guests, objects };
+}
+
+// An operation without the records that were never created. Null when it
+// only concerns such a record and cannot run.
+function withoutFailedCreates(op: OutboxOperation): OutboxOperation | null {
+  const failed = getFailedCreateIds();
+  switch (op.type) {
+    case 'update_guest':
+    case 'delete_guest':
+      return failed.guests.has(op.id) ? null : op;
+    case 'update_guest_order':
+      return {
+        ...op,
+        guestIds: op.guestIds.filter((id) => !failed.guests.has(id)),
+      };
+    case 'update_fixed_object':
+    case 'delete_fixed_object':
+      return failed.objects.has(op.id) ? null : op;
+    default:
+      return op;
+  }
+}
+
+// Ids for guests that have no database row yet. They count down from -1,
+// so they never collide with the ids the database hands out.
+export function getLocalGuestIds(guests: Guest[], count: number): number[] {
+  const lowest = Math.min(0, ...guests.map((g) => g.id));
+  return Array.from({ length: count }, (_, i) => lowest - 1 - i);
+}
+
+// Run a mutation now, or queue it if it cannot reach the database
+async function runMutation(
+  operation: OutboxOperation,
+  label: string,
+): Promise<MutationResult> {
+  // Keep mutations in order: anything already queued must be replayed first
+  const eventId = activeEventId;
+  if (outboxSnapshot.entries.some((e) => e.status === 'pending')) {
+    enqueueOperation(operation, eventId, 'pending', null);
+    void flushOutbox();
+    return { ok: false, error: 'queued', retryable: true };
+  }
+
+  // Changes to a record whose create was rejected wait next to it
+  const op = withoutFailedCreates(operation);
+  if (!op) {
+    enqueueOperation(operation, eventId, 'failed', DEPENDENCY_ERROR);
+    return { ok: false, error: DEPENDENCY_ERROR, retryable: false };
+  }
+
+  const result = await executeOperation(op, eventId);
+  if (!result.ok) {
+    console.error(`Failed to ${label}:`, result.error);
+    enqueueOperation(
+      op,
+      eventId,
+      result.retryable ? 'pending' : 'failed',
+      result.error,
+    );
+  }
+  return result;
+}
+
+// Point queued guest operations at the id the database assigned
+function remapQueuedGuestId(localId: number, dbId: number) {
+  setOutboxState({
+    entries: outboxSnapshot.entries.map((entry) => {
+      const queued = entry.operation;
+      if (
+        (queued.type === 'update_guest' || queued.type === 'delete_guest') &&
+        queued.id === localId
+      ) {
+        return { ...entry, operation: { ...queued, id: dbId } };
+      }
+      if (queued.type === 'update_guest_order') {
+        return {
+          ...entry,
+          operation: {
+            ...queued,
+            guestIds: queued.guestIds.map((id) => (id === localId ? dbId : id)),
+          },
+        };
+      }
+      return entry;
+    }),
+  });
+}
+
+// Point queued operations at the id the database assigned to a record
+// that was created while offline
+function remapQueuedIds(op: OutboxOperation, data: unknown) {
+  if (op.type === 'create_guests' && op.localIds) {
+    const created = data as Guest[];
+    op.localIds.forEach((localId, index) => {
+      if (created[index]) {
+        remapQueuedGuestId(localId, created[index].id);
+      }
+    });
+  }
+
+  if (op.type === 'create_guest' && op.localId !== undefined) {
+    remapQueuedGuestId(op.localId, (data as Guest).id);
+  }
+
+  if (op.type === 'create_fixed_object' && op.localId) {
+    const localId = op.localId;
+    const dbId = (data as FixedObjectDB).id;
+    setOutboxState({
+      entries: outboxSnapshot.entries.map((entry) => {
+        const queued = entry.operation;
+        if (
+          (queued.type === 'update_fixed_object' ||
+            queued.type === 'delete_fixed_object') &&
+          queued.id === localId
+        ) {
+          return { ...entry, operation: { ...queued, id: dbId } };
+        }
+        return entry;
+      }),
+    });
+  }
+}
+
+async function replayOutbox(): Promise<boolean> {
+  if (!supabase) return false;
+
+  setOutboxState({ isSyncing: true });
+  let synced = 0;
+
+  try {
+    for (;;) {
+      const next = outboxSnapshot.entries.find((e) => e.status === 'pending');
+      if (!next) return true;
+
+      // Changes to a record whose create failed wait with it, so retrying
+      // the create replays them too
+      const operation = withoutFailedCreates(next.operation);
+      const result: MutationResult = operation
+        ? await executeOperation(operation, next.eventId ?? DEFAULT_EVENT_ID)
+        : { ok: false, error: DEPENDENCY_ERROR, retryable: false };
+
+      if (result.ok) {
+        synced++;
+        setOutboxState({
+          entries: outboxSnapshot.entries.filter((e) => e.id !== next.id),
+        });
+        remapQueuedIds(next.operation, result.data);
+        continue;
+      }
+
+      const updated: OutboxEntry = {
+        ...next,
+        attempts: next.attempts + 1,
+        error: result.error,
+        status: result.retryable ? 'pending' : 'failed',
+      };
+      setOutboxState({
+        entries: outboxSnapshot.entries.map((e) =>
+          e.id === next.id ? updated : e,
+        ),
+      });
+
+      // Still offline - stop and keep the rest in order
+      if (result.retryable) return false;
+    }
+  } finally {
+    setOutboxState({
+      isSyncing: false,
+      ...(synced > 0 ? { lastSyncedAt: Date.now() } : {}),
+    });
+  }
+}
+
+// Replay queued mutations in order. Resolves true when nothing is left pending.
+export function flushOutbox(): Promise<boolean> {
+  if (!flushPromise) {
+    flushPromise = replayOutbox().finally(() => {
+      flushPromise = null;
+    });
+  }
+  return flushPromise;
+}
+
+// Move failed entries back to pending and try them again
+export function retryFailedOutboxEntries(): Promise<boolean> {
+  setOutboxState({
+    entries: outboxSnapshot.entries.map((e) =>
+      e.status === 'failed' ? { ...e, status: 'pending' } : e,
+    ),
+  });
+  return flushOutbox();
+}
+
+// Drop an entry that should not be replayed
+export function discardOutboxEntry(id: string) {
+  setOutboxState({
+    entries: outboxSnapshot.entries.filter((e) => e.id !== id),
+  });
+}
+
+// =====================================================
+// REALTIME
+// =====================================================
+
+export type RealtimeTable = 'guests' | 'desks' | 'fixed_objects';
+
+// Ignore remote echoes of a record this device changed very recently
+// (e.g. while dragging or resizing), so it does not jump back to an
+// older position or size
+export const LOCAL_CHANGE_GRACE_MS = 2000;
+
+// Row change broadcast by another device (or the echo of our own write)
+export type TableChange<T> =
+  | { type: 'INSERT' | 'UPDATE'; record: T }
+  | { type: 'DELETE'; old: Partial<T> };
+
+// Subscribe to Postgres changes on a table of the active event.
+// Returns an unsubscribe function.
+export function subscribeToTable<T>(
+  table: RealtimeTable,
+  onChange: (change: TableChange<T>) => void,
+): () => void {
+  if (!supabase) return () => {};
+
+  const client = supabase;
+  const channel = client
+    .channel(`${table}_changes_${Math.random().toString(36).slice(2, 9)}`)
+    .on(
+      'postgres_changes',
+      {
+        event: '*',
+        schema: 'public',
+        table,
+        filter: `event_id=eq.${activeEventId}`,
+      },
+      (payload) => {
+        if (payload.eventType === 'DELETE') {
+          onChange({ type: 'DELETE', old: payload.old as Partial<T> });
+        } else {
+          onChange({ type: payload.eventType, record: payload.new as T });
+        }
+      },
+    )
+    .subscribe();
+
+  return () => {
+    client.removeChannel(channel);
+  };
+}
+
+// =====================================================
+// SUPABASE API HELPERS
+// =====================================================
+
+// Create guest in Supabase. localId is the id used in the UI if the insert
+// has to be queued, so later queued changes can be pointed at the real row.
+export async function createGuestInDB(
+  guest: Omit<Guest, 'id'>,
+  localId?: number,
+): Promise<Guest | null> {
+  if (!supabase) return null;
+
+  const result = await runMutation(
+    { type: 'create_guest', guest, localId },
+    'create guest',
+  );
+  return result.ok ? (result.data as Guest) : null;
+}
+
+// Create several guests in one insert (used by the import)
+export async function createGuestsInDB(
+  guests: Omit<Guest, 'id'>[],
+  localIds?: number[],
+): Promise<Guest[] | null> {
+  if (!supabase) return null;
+
+  const result = await runMutation(
+    { type: 'create_guests', guests, localIds },
+    'create guests',
+  );
+  return result.ok ? (result.data as Guest[]) : null;
+}
+
+// Update guest in Supabase
+export async function updateGuestInDB(
+  id: number,
+  updates: Partial<Guest>,
+): Promise<boolean> {
+  if (!supabase) return false;
+
+  const result = await runMutation(
+    { type: 'update_guest', id, updates },
+    'update guest',
+  );
+  return result.ok;
+}
+
+// Delete guest from Supabase
+export async function deleteGuestFromDB(id: number): Promise<boolean> {
+  if (!supabase) return false;
+
+  const result = await runMutation(
+    { type: 'delete_guest', id },
+    'delete guest',
+  );
+  return result.ok;
+}
+
+// =====================================================
+// FIXED OBJECTS API
+// =====================================================
+
+// Load fixed objects from Supabase
+export async function loadFixedObjectsFromDB(): Promise<FixedObjectDB[]> {
+  if (!supabase) return [];
+
+  try {
+    const { data, error } = await supabase
+      .from('fixed_objects')
+      .select('*')
+      .eq('event_id', activeEventId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Failed to load fixed objects:', error);
+      return [];
+    }
+
+    return data || [];
+  } catch (e) {
+    console.error('Error loading fixed objects:', e);
+    return [];
+  }
+}
+
+// Create fixed object in Supabase
+export async function createFixedObjectInDB(
+  obj: Omit<FixedObjectDB, 'id'>,
+  localId?: string,
+): Promise<FixedObjectDB | null> {
+  if (!supabase) return null;
+
+  const result = await runMutation(
+    { type: 'create_fixed_object', object: obj, localId },
+    'create fixed object',
+  );
+  return result.ok ? (result.data as FixedObjectDB) : null;
+}
+
+// Update fixed object in Supabase
+export async function updateFixedObjectInDB(
+  id: string,
+  updates: Partial<FixedObjectDB>,
+): Promise<boolean> {
+  if (!supabase) return false;
+
+  const result = await runMutation(
+    { type: 'update_fixed_object', id, updates },
+    'update fixed object',
+  );
+  return result.ok;
+}
+
+// Delete fixed object from Supabase
+export async function deleteFixedObjectFromDB(id: string): Promise<boolean> {
+  if (!supabase) return false;
+
+  const result = await runMutation(
+    { type: 'delete_fixed_object', id },
+    'delete fixed object',
+  );
+  return result.ok;
+}
+
+// =====================================================
+// GUEST ORDER API
+// =====================================================
+
+// Update display order for guests in a desk
+export async function updateGuestOrderInDB(
+  _deskNo: number,
+  guestIds: number[],
+): Promise<boolean> {
+  if (!supabase) return false;
+
+  const result = await runMutation(
+    { type: 'update_guest_order', guestIds },
+    'update guest order',
+  );
+  return result.ok;
+}
+
+// =====================================================
+// DESK MANAGEMENT API
+// =====================================================
+
+// Matches the column default in supabase-schema.sql
+export const DEFAULT_DESK_CAPACITY = 10;
+
+// Desk type
+export interface Desk {
+  id: number;
+  desk_no: number;
+  name: string | null;
+  capacity: number;
+  x: number;
+  y: number;
+  shape: DeskShape;
+  // Size of the table top; null sizes it by the number of seats
+  width: number | null;
+  height: number | null;
+  rotation: number; // degrees clockwise
+}
+
+// Round tables, oval tables, long (banquet) tables with chairs on every
+// side and head tables with chairs on one side, facing the room
+export type DeskShape = 'round' | 'oval' | 'rectangle' | 'head';
+
+export type DeskLayout = Pick<Desk, 'shape' | 'width' | 'height' | 'rotation'>;
+
+export const DEFAULT_DESK_LAYOUT: DeskLayout = {
+  shape: 'round',
+  width: null,
+  height: null,
+  rotation: 0,
+};
+
+// Load all desks from Supabase
+export async function loadDesksFromDB(): Promise<Desk[]> {
+  if (!supabase) return [];
+
+  try {
+    const { data, error } = await supabase
+      .from('desks')
+      .select('*')
+      .eq('event_id', activeEventId)
+      .order('desk_no', { ascending: true });
+
+    if (error) {
+      console.error('Failed to load desks:', error);
+      return [];
+    }
+
+    return data || [];
+  } catch (e) {
+    console.error('Error loading desks:', e);
+    return [];
+  }
+}
+
+// Create a new desk in Supabase
+export async function createDeskInDB(
+  deskNo: number,
+  x: number = 200,
+  y: number = 200,
+  name: string | null = null,
+): Promise<Desk | null> {
+  if (!supabase) return null;
+
+  const result = await runMutation(
+    { type: 'create_desk', deskNo, x, y, name },
+    'create desk',
+  );
+  return result.ok ? (result.data as Desk) : null;
+}
+
+// Update desk position in Supabase
+export async function updateDeskPositionInDB(
+  deskNo: number,
+  x: number,
+  y: number,
+): Promise<boolean> {
+  if (!supabase) return false;
+
+  const result = await runMutation(
+    { type: 'update_desk_position', deskNo, x, y },
+    'update desk position',
+  );
+  return result.ok;
+}
+
+// Update desk info in Supabase
+export async function updateDeskInDB(
+  deskNo: number,
+  updates: Partial<Omit<Desk, 'id' | 'desk_no'>>,
+): Promise<boolean> {
+  if (!supabase) return false;
+
+  const result = await runMutation(
+    { type: 'update_desk', deskNo, updates },
+    'update desk',
+  );
+  return result.ok;
+}
+
+// Delete desk from Supabase (only if empty)
+export async function deleteDeskFromDB(deskNo: number): Promise<boolean> {
+  if (!supabase) return false;
+
+  const result = await runMutation(
+    { type: 'delete_desk', deskNo },
+    'delete desk',
+  );
+  return result.ok;
+}
+
+// Get next available desk number
+export async function getNextDeskNumber(): Promise<number> {
+  if (!supabase) return 1;
+
+  try {
+    const { data } = await supabase
+      .from('desks')
+      .select('desk_no')
+      .eq('event_id', activeEventId)
+      .order('desk_no', { ascending: false })
+      .limit(1);
+
+    if (data && data.length > 0) {
+      return data[0].desk_no + 1;
+    }
+    return 1;
+  } catch {
+    return 1;
+  }
+}
+
+// =====================================================
+// APP SETTINGS API
+// =====================================================
+
+// Image of the venue's floor plan shown beneath the tables, stored as a
+// JSON app setting
+export const VENUE_PLAN_SETTING_KEY = 'venue_plan';
+
+export interface VenuePlan {
+  // Image as a data URL (PDFs are stored as the rendered page)
+  image: string;
+  // Size of the image in pixels
+  width: number;
+  height: number;
+  // Top-left corner on the floor plan, and floor plan units per image pixel
+  x: number;
+  y: number;
+  scale: number;
+  opacity: number;
+  // Locked plans stay put and let clicks through to the tables
+  locked: boolean;
+  // Set once a known distance was marked, so the plan matches the tables
+  calibrated: boolean;
+}
+
+// Real-world size of the floor plan, stored as a JSON app setting
+export const PLAN_SCALE_SETTING_KEY = 'plan_scale';
+
+export interface PlanScale {
+  // Floor plan units per metre
+  pxPerMetre: number;
+  // Narrowest walkway wanted between tables, in metres
+  walkwayWidth: number;
+}
+
+// Load a setting value from Supabase (null if missing or unreachable)
+export async function loadSettingFromDB(key: string): Promise<string | null> {
+  if (!supabase) return null;
+
+  try {
+    const { data, error } = await supabase
+      .from('app_settings')
+      .select('value')
+      .eq('event_id', activeEventId)
+      .eq('key', key)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Failed to load setting:', error);
+      return null;
+    }
+    return data?.value ?? null;
+  } catch (e) {
+    console.error('Failed to load setting:', e);
+    return null;
+  }
+}
+
+// Save a setting value to Supabase
+export async function saveSettingToDB(
+  key: string,
+  value: string,
+): Promise<boolean> {
+  if (!supabase) return false;
+
+  const result = await runMutation(
+    { type: 'update_setting', key, value },
+    'save setting',
+  );
+  return result.ok;
+}
+
+// =====================================================
+// EVENTS API
+// =====================================================
+
+// Get the event list saved on this device
+export function getLocalEvents(): AppEvent[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEYS.EVENTS);
+    const events: AppEvent[] = stored ? JSON.parse(stored) : [];
+    return events.length > 0 ? events : [DEFAULT_EVENT];
+  } catch {
+    return [DEFAULT_EVENT];
+  }
+}
+
+// Save the event list (cache of Supabase, or the only copy without it)
+export function saveLocalEvents(events: AppEvent[]) {
+  try {
+    localStorage.setItem(STORAGE_KEYS.EVENTS, JSON.stringify(events));
+  } catch (e) {
+    console.error('Failed to save events to localStorage:', e);
+  }
+}
+
+// Load all events from Supabase (null if missing or unreachable)
+export async function loadEventsFromDB(): Promise<AppEvent[] | null> {
+  if (!supabase) return null;
+
+  try {
+    const { data, error } = await supabase
+      .from('events')
+      .select('id, name, type, event_date')
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Failed to load events:', error);
+      return null;
+    }
+    return data || [];
+  } catch (e) {
+    console.error('Error loading events:', e);
+    return null;
+  }
+}
 
-// Create guest in Supabase
-export async function createGuestInDB(
-  guest: Omit<Guest, 'id'>,
-): Promise<Guest | null> {
+// Create an event in Supabase. Not queued in the outbox: the new id is
+// needed right away to copy data into the event and switch to it.
+export async function createEventInDB(
+  event: Omit<AppEvent, 'id'>,
+): Promise<AppEvent | null> {
   if (!supabase) return null;
 
   try {
     const { data, error } = await supabase
-      .from('guests')
-      .insert({
-        full_name: guest.full_name,
-        person_count: guest.person_count,
-        desk_no: guest.desk_no,
-        gift_count: guest.gift_count,
-        description: guest.description,
-        is_attended: guest.is_attended,
-        display_order: guest.display_order || 0,
-      })
-      .select()
+      .from('events')
+      .insert(event)
+      .select('id, name, type, event_date')
       .single();
 
     if (error) {
-      console.error('Failed to create guest:', error);
+      console.error('Failed to create event:', error);
       return null;
     }
-
     return data;
   } catch (e) {
-    console.error('Error creating guest:', e);
+    console.error('Error creating event:', e);
     return null;
   }
 }
 
-// Update guest in Supabase
-export async function updateGuestInDB(
-  id: number,
-  updates: Partial<Guest>,
-): Promise<boolean> {
+// Delete an event; its desks, guests and settings go with it
+export async function deleteEventFromDB(eventId: number): Promise<boolean> {
   if (!supabase) return false;
 
   try {
-    const { error } = await supabase
-      .from('guests')
-      .update(updates)
-      .eq('id', id);
-
+    const { error } = await supabase.from('events').delete().eq('id', eventId);
     if (error) {
-      console.error('Failed to update guest:', error);
+      console.error('Failed to delete event:', error);
       return false;
     }
-
     return true;
   } catch (e) {
-    console.error('Error updating guest:', e);
+    console.error('Error deleting event:', e);
     return false;
   }
 }
 
-// Delete guest from Supabase
-export async function deleteGuestFromDB(id: number): Promise<boolean> {
+// What to copy from a previous event into a new one
+export interface EventCloneOptions {
+  sourceEventId: number;
+  // Guests (without attendance) and the desks they sit at
+  guests: boolean;
+  // All desks with names, capacities and positions, and the fixed objects
+  floorPlan: boolean;
+}
+
+// Copy guests and/or the floor plan of an event into another event.
+// The copy is not one transaction: on failure the target event holds part
+// of the data and should be deleted.
+export async function cloneEventInDB(
+  targetEventId: number,
+  options: EventCloneOptions,
+): Promise<boolean> {
   if (!supabase) return false;
 
   try {
-    const { error } = await supabase.from('guests').delete().eq('id', id);
+    const { data: desks, error: desksError } = await supabase
+      .from('desks')
+      .select('desk_no, name, capacity, x, y, shape, width, height, rotation')
+      .eq('event_id', options.sourceEventId);
+    if (desksError) throw desksError;
+
+    let guests: Guest[] = [];
+    if (options.guests) {
+      const { data, error } = await supabase
+        .from('guests')
+        .select('*')
+        .eq('event_id', options.sourceEventId);
+      if (error) throw error;
+      guests = data || [];
+    }
 
-    if (error) {
-      console.error('Failed to delete guest:', error);
-      return false;
+    // Guests reference their desk, so those desks are always copied
+    const guestDeskNos = new Set(guests.map((g) => g.desk_no));
+    const copiedDesks = (desks || []).filter(
+      (d) => options.floorPlan || guestDeskNos.has(d.desk_no),
+    );
+    if (copiedDesks.length > 0) {
+      const { error } = await supabase.from('desks').insert(
+        copiedDesks.map((d) => ({
+          event_id: targetEventId,
+          desk_no: d.desk_no,
+          name: options.floorPlan ? d.name : null,
+          capacity: options.floorPlan ? d.capacity : DEFAULT_DESK_CAPACITY,
+          x: d.x,
+          y: d.y,
+          ...(options.floorPlan
+            ? {
+                shape: d.shape,
+                width: d.width,
+                height: d.height,
+                rotation: d.rotation,
+              }
+            : DEFAULT_DESK_LAYOUT),
+        })),
+      );
+      if (error) throw error;
+    }
+
+    if (options.floorPlan) {
+      const { data: objects, error: objectsError } = await supabase
+        .from('fixed_objects')
+        .select('name, type, x, y, width, height, rotation, points')
+        .eq('event_id', options.sourceEventId);
+      if (objectsError) throw objectsError;
+
+      if (objects && objects.length > 0) {
+        const { error } = await supabase
+          .from('fixed_objects')
+          .insert(objects.map((o) => ({ ...o, event_id: targetEventId })));
+        if (error) throw error;
+      }
+
+      const { data: planSettings, error: planSettingsError } = await supabase
+        .from('app_settings')
+        .select('key, value')
+        .eq('event_id', options.sourceEventId)
+        .in('key', [VENUE_PLAN_SETTING_KEY, PLAN_SCALE_SETTING_KEY]);
+      if (planSettingsError) throw planSettingsError;
+
+      if (planSettings && planSettings.length > 0) {
+        const { error } = await supabase
+          .from('app_settings')
+          .insert(planSettings.map((s) => ({ ...s, event_id: targetEventId })));
+        if (error) throw error;
+      }
+    }
+
+    if (guests.length > 0) {
+      const { error } = await supabase.from('guests').insert(
+        guests.map((g) => ({
+          event_id: targetEventId,
+          full_name: g.full_name,
+          person_count: g.person_count,
+          desk_no: g.desk_no,
+          gift_count: g.gift_count,
+          description: g.description,
+          side: g.side ?? null,
+          household: g.household ?? null,
+          tags: g.tags ?? [],
+          seats: g.seats ?? null,
+          companions: g.companions ?? [],
+          display_order: g.display_order || 0,
+        })),
+      );
+      if (error) throw error;
     }
 
     return true;
   } catch (e) {
-    console.error('Error deleting guest:', e);
+    console.error('Failed to copy event data:', e);
     return false;
   }
 }
 
+// Copy guests and/or the floor plan between events stored on this device.
+// sourceGuests are the guests of the source event that are not in its
+// imported list (the bundled db.json for the default event).
+export function cloneLocalEvent(
+  targetEventId: number,
+  options: EventCloneOptions,
+  sourceGuests: GuestRaw[],
+) {
+  const copy = (key: string) => {
+    const stored = localStorage.getItem(
+      eventStorageKey(key, options.sourceEventId),
+    );
+    if (stored !== null) {
+      localStorage.setItem(eventStorageKey(key, targetEventId), stored);
+    }
+  };
+
+  try {
+    if (options.guests) {
+      const imported: GuestRaw[] = JSON.parse(
+        localStorage.getItem(
+          eventStorageKey(STORAGE_KEYS.IMPORTED_GUESTS, options.sourceEventId),
+        ) || '[]',
+      );
+      localStorage.setItem(
+        eventStorageKey(STORAGE_KEYS.IMPORTED_GUESTS, targetEventId),
+        JSON.stringify([...sourceGuests, ...imported]),
+      );
+      copy(STORAGE_KEYS.NOTES);
+      copy(STORAGE_KEYS.GROUPS);
+      copy(STORAGE_KEYS.SEATS);
+    }
+    if (options.floorPlan) {
+      copy(STORAGE_KEYS.TABLE_POSITIONS);
+      copy(STORAGE_KEYS.DESK_CAPACITIES);
+      copy(STORAGE_KEYS.DESK_LAYOUTS);
+      copy(STORAGE_KEYS.FIXED_OBJECTS);
+      copy(STORAGE_KEYS.VENUE_PLAN);
+      copy(STORAGE_KEYS.PLAN_SCALE);
+    }
+  } catch (e) {
+    console.error('Failed to copy event data in localStorage:', e);
+  }
+}
+
 // =====================================================
-// FIXED OBJECTS API
+// AUTH & EVENT ROLES
 // =====================================================
 
-// Load fixed objects from Supabase
-export async function loadFixedObjectsFromDB(): Promise<FixedObjectDB[]> {
-  if (!supabase) return [];
+// Role of a member in an event (see supabase-schema.sql)
+export type EventRole = 'owner' | 'planner' | 'door' | 'viewer';
+
+export interface EventMember {
+  event_id: number;
+  email: string;
+  role: EventRole;
+}
+
+// Current session (null if signed out or Supabase is not configured)
+export async function getAuthSession(): Promise<Session | null> {
+  if (!supabase) return null;
+
+  const { data } = await supabase.auth.getSession();
+  return data.session;
+}
+
+// Subscribe to sign-in and sign-out. Returns an unsubscribe function.
+export function subscribeToAuth(
+  onChange: (session: Session | null) => void,
+): () => void {
+  if (!supabase) return () => {};
+
+  const { data } = supabase.auth.onAuthStateChange((_event, session) => {
+    onChange(session);
+  });
+  return () => data.subscription.unsubscribe();
+}
+
+// Email a sign-in link. Resolves an error message, or null when sent.
+export async function sendSignInLink(email: string): Promise<string | null> {
+  if (!supabase) return 'Supabase is not configured';
+
+  const { error } = await supabase.auth.signInWithOtp({
+    email,
+    options: { emailRedirectTo: window.location.origin },
+  });
+  return error ? error.message : null;
+}
 
+export async function signOut() {
+  if (!supabase) return;
+
+  const { error } = await supabase.auth.signOut();
+  if (error) console.error('Failed to sign out:', error);
+}
+
+// Role last loaded for the active event (used while offline)
+function getLocalRole(): EventRole | null {
   try {
-    const { data, error } = await supabase
-      .from('fixed_objects')
-      .select('*')
-      .order('created_at', { ascending: true });
+    return localStorage.getItem(
+      eventStorageKey(STORAGE_KEYS.ROLE),
+    ) as EventRole | null;
+  } catch {
+    return null;
+  }
+}
 
-    if (error) {
-      console.error('Failed to load fixed objects:', error);
-      return [];
+function saveLocalRole(role: EventRole | null) {
+  try {
+    if (role) {
+      localStorage.setItem(eventStorageKey(STORAGE_KEYS.ROLE), role);
+    } else {
+      localStorage.removeItem(eventStorageKey(STORAGE_KEYS.ROLE));
     }
-
-    return data || [];
   } catch (e) {
-    console.error('Error loading fixed objects:', e);
-    return [];
+    console.error('Failed to save role to localStorage:', e);
   }
 }
 
-// Create fixed object in Supabase
-export async function createFixedObjectInDB(
-  obj: Omit<FixedObjectDB, 'id'>,
-): Promise<FixedObjectDB | null> {
+// Role of the signed-in user in the active event (null if not a member).
+// Falls back to the last known role when Supabase is unreachable.
+export async function loadEventRoleFromDB(): Promise<EventRole | null> {
   if (!supabase) return null;
 
   try {
-    const { data, error } = await supabase
-      .from('fixed_objects')
-      .insert(obj)
-      .select()
-      .single();
+    const { data, error } = await supabase.rpc('current_event_role', {
+      target_event_id: activeEventId,
+    });
 
     if (error) {
-      console.error('Failed to create fixed object:', error);
-      return null;
+      console.error('Failed to load event role:', error);
+      return getLocalRole();
     }
-
+    saveLocalRole(data);
     return data;
   } catch (e) {
-    console.error('Error creating fixed object:', e);
-    return null;
+    console.error('Error loading event role:', e);
+    return getLocalRole();
   }
 }
 
-// Update fixed object in Supabase
-export async function updateFixedObjectInDB(
-  id: string,
-  updates: Partial<FixedObjectDB>,
-): Promise<boolean> {
-  if (!supabase) return false;
+// Load the members of the active event
+export async function loadEventMembersFromDB(): Promise<EventMember[]> {
+  if (!supabase) return [];
 
   try {
-    const { error } = await supabase
-      .from('fixed_objects')
-      .update(updates)
-      .eq('id', id);
+    const { data, error } = await supabase
+      .from('event_members')
+      .select('event_id, email, role')
+      .eq('event_id', activeEventId)
+      .order('email', { ascending: true });
 
     if (error) {
-      console.error('Failed to update fixed object:', error);
-      return false;
+      console.error('Failed to load event members:', error);
+      return [];
     }
-
-    return true;
+    return data || [];
   } catch (e) {
-    console.error('Error updating fixed object:', e);
-    return false;
+    console.error('Error loading event members:', e);
+    return [];
   }
 }
 
-// Delete fixed object from Supabase
-export async function deleteFixedObjectFromDB(id: string): Promise<boolean> {
+// Add a member to the active event or change their role
+export async function saveEventMemberToDB(
+  email: string,
+  role: EventRole,
+): Promise<boolean> {
   if (!supabase) return false;
 
   try {
-    const { error } = await supabase
-      .from('fixed_objects')
-      .delete()
-      .eq('id', id);
+    const { error } = await supabase.from('event_members').upsert(
+      {
+        event_id: activeEventId,
+        email: email.trim().toLowerCase(),
+        role,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: 'event_id,email' },
+    );
 
     if (error) {
-      console.error('Failed to delete fixed object:', error);
+      console.error('Failed to save event member:', error);
       return false;
     }
-
     return true;
   } catch (e) {
-    console.error('Error deleting fixed object:', e);
+    console.error('Error saving event member:', e);
     return false;
   }
 }
 
-// =====================================================
-// GUEST ORDER API
-// =====================================================
-
-// Update display order for guests in a desk
-export async function updateGuestOrderInDB(
-  _deskNo: number,
-  guestIds: number[],
-): Promise<boolean> {
+// Remove a member from the active event
+export async function deleteEventMemberFromDB(email: string): Promise<boolean> {
   if (!supabase) return false;
 
   try {
-    // Update each guest's display_order
-    const updates = guestIds.map((id, index) =>
-      supabase.from('guests').update({ display_order: index }).eq('id', id),
-    );
+    const { error } = await supabase
+      .from('event_members')
+      .delete()
+      .eq('event_id', activeEventId)
+      .eq('email', email);
 
-    await Promise.all(updates);
+    if (error) {
+      console.error('Failed to delete event member:', error);
+      return false;
+    }
     return true;
   } catch (e) {
-    console.error('Error updating guest order:', e);
+    console.error('Error deleting event member:', e);
     return false;
   }
 }
 
 // =====================================================
-// DESK MANAGEMENT API
+// AUDIT LOG API
 // =====================================================
 
-// Desk type
-export interface Desk {
+// Tables whose changes are recorded by the audit triggers
+export type AuditTable = 'guests' | 'desks' | 'fixed_objects';
+
+// One recorded change. Updates only hold the changed columns.
+export interface AuditEntry {
   id: number;
-  desk_no: number;
-  name: string | null;
-  capacity: number;
-  x: number;
-  y: number;
+  table_name: AuditTable;
+  // Guest id, desk_no or fixed object id
+  record_id: string;
+  action: 'insert' | 'update' | 'delete';
+  actor: string | null;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  changed_at: string;
 }
 
-// Load all desks from Supabase
-export async function loadDesksFromDB(): Promise<Desk[]> {
+// Load the change log of a record in the active event, newest first
+export async function loadAuditLogFromDB(
+  table: AuditTable,
+  recordId: string | number,
+): Promise<AuditEntry[]> {
   if (!supabase) return [];
 
   try {
     const { data, error } = await supabase
-      .from('desks')
+      .from('audit_log')
       .select('*')
-      .order('desk_no', { ascending: true });
+      .eq('event_id', activeEventId)
+      .eq('table_name', table)
+      .eq('record_id', String(recordId))
+      .order('changed_at', { ascending: false })
+      .limit(100);
 
     if (error) {
-      console.error('Failed to load desks:', error);
+      console.error('Failed to load audit log:', error);
       return [];
     }
 
     return data || [];
   } catch (e) {
-    console.error('Error loading desks:', e);
+    console.error('Error loading audit log:', e);
     return [];
   }
 }
 
-// Create a new desk in Supabase
-export async function createDeskInDB(
-  deskNo: number,
-  x: number = 200,
-  y: number = 200,
-  name: string | null = null,
-): Promise<Desk | null> {
-  if (!supabase) return null;
+// =====================================================
+// SEATING SNAPSHOTS API
+// =====================================================
 
-  try {
-    const { data, error } = await supabase
-      .from('desks')
-      .insert({
-        desk_no: deskNo,
-        x,
-        y,
-        name,
-        capacity: 10,
-      })
-      .select()
-      .single();
+// Where a guest sat when a snapshot was taken
+export interface SnapshotGuest {
+  id: number;
+  full_name: string;
+  desk_no: number;
+  display_order: number;
+  // Missing in snapshots saved before seats could be chosen
+  seats?: number[] | null;
+}
 
-    if (error) {
-      console.error('Failed to create desk:', error);
-      return null;
-    }
+// Seating plan saved under a name ("Plan A") to compare or go back to
+export interface SeatingSnapshotData {
+  guests: SnapshotGuest[];
+  tablePositions: Record<number, { x: number; y: number }>;
+  fixedObjects: FixedObjectDB[];
+}
 
-    return data;
+export interface SeatingSnapshot {
+  id: number;
+  name: string;
+  created_at: string;
+  data: SeatingSnapshotData;
+}
+
+// Get the snapshots of the active event saved on this device
+export function getLocalSnapshots(): SeatingSnapshot[] {
+  try {
+    const stored = localStorage.getItem(
+      eventStorageKey(STORAGE_KEYS.SNAPSHOTS),
+    );
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+}
+
+// Save the snapshots (cache of Supabase, or the only copy without it)
+export function saveLocalSnapshots(snapshots: SeatingSnapshot[]) {
+  try {
+    localStorage.setItem(
+      eventStorageKey(STORAGE_KEYS.SNAPSHOTS),
+      JSON.stringify(snapshots),
+    );
   } catch (e) {
-    console.error('Error creating desk:', e);
-    return null;
+    console.error('Failed to save snapshots to localStorage:', e);
   }
 }
 
-// Update desk position in Supabase
-export async function updateDeskPositionInDB(
-  deskNo: number,
-  x: number,
-  y: number,
-): Promise<boolean> {
-  if (!supabase) return false;
+// Load the snapshots of the active event, newest first (null if
+// Supabase is missing or unreachable)
+export async function loadSnapshotsFromDB(): Promise<SeatingSnapshot[] | null> {
+  if (!supabase) return null;
 
   try {
-    const { error } = await supabase
-      .from('desks')
-      .update({ x, y })
-      .eq('desk_no', deskNo);
+    const { data, error } = await supabase
+      .from('seating_snapshots')
+      .select('id, name, created_at, data')
+      .eq('event_id', activeEventId)
+      .order('created_at', { ascending: false });
 
     if (error) {
-      console.error('Failed to update desk position:', error);
-      return false;
+      console.error('Failed to load snapshots:', error);
+      return null;
     }
-
-    return true;
+    return data || [];
   } catch (e) {
-    console.error('Error updating desk position:', e);
-    return false;
+    console.error('Error loading snapshots:', e);
+    return null;
   }
 }
 
-// Update desk info in Supabase
-export async function updateDeskInDB(
-  deskNo: number,
-  updates: Partial<Omit<Desk, 'id' | 'desk_no'>>,
-): Promise<boolean> {
-  if (!supabase) return false;
+// Save a snapshot in Supabase. Not queued in the outbox: a snapshot is
+// only useful once it is stored.
+export async function createSnapshotInDB(
+  name: string,
+  data: SeatingSnapshotData,
+): Promise<SeatingSnapshot | null> {
+  if (!supabase) return null;
 
   try {
-    const { error } = await supabase
-      .from('desks')
-      .update(updates)
-      .eq('desk_no', deskNo);
+    const { data: created, error } = await supabase
+      .from('seating_snapshots')
+      .insert({ event_id: activeEventId, name, data })
+      .select('id, name, created_at, data')
+      .single();
 
     if (error) {
-      console.error('Failed to update desk:', error);
-      return false;
+      console.error('Failed to create snapshot:', error);
+      return null;
     }
-
-    return true;
+    return created;
   } catch (e) {
-    console.error('Error updating desk:', e);
-    return false;
+    console.error('Error creating snapshot:', e);
+    return null;
   }
 }
 
-// Delete desk from Supabase (only if empty)
-export async function deleteDeskFromDB(deskNo: number): Promise<boolean> {
+// Delete a snapshot from Supabase
+export async function deleteSnapshotFromDB(id: number): Promise<boolean> {
   if (!supabase) return false;
 
   try {
-    // First check if desk has any guests
-    const { data: guests } = await supabase
-      .from('guests')
-      .select('id')
-      .eq('desk_no', deskNo)
-      .limit(1);
-
-    if (guests && guests.length > 0) {
-      console.error('Cannot delete desk with guests');
-      return false;
-    }
-
     const { error } = await supabase
-      .from('desks')
+      .from('seating_snapshots')
       .delete()
-      .eq('desk_no', deskNo);
+      .eq('event_id', activeEventId)
+      .eq('id', id);
 
     if (error) {
-      console.error('Failed to delete desk:', error);
+      console.error('Failed to delete snapshot:', error);
       return false;
     }
-
     return true;
   } catch (e) {
-    console.error('Error deleting desk:', e);
+    console.error('Error deleting snapshot:', e);
     return false;
   }
 }
-
-// Get next available desk number
-export async function getNextDeskNumber(): Promise<number> {
-  if (!supabase) return 1;
-
-  try {
-    const { data } = await supabase
-      .from('desks')
-      .select('desk_no')
-      .order('desk_no', { ascending: false })
-      .limit(1);
-
-    if (data && data.length > 0) {
-      return data[0].desk_no + 1;
-    }
-    return 1;
-  } catch {
-    return 1;
-  }
-}
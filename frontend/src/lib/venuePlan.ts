@@ -0,0 +1,166 @@
+import type { VenuePlan } from '@/lib/supabase';
+
+// Longest side of the stored image. Larger plans are scaled down so the
+// setting stays small enough for app_settings and localStorage.
+const MAX_IMAGE_SIZE = 2400;
+// Longest side of a new plan on the floor plan, before calibration
+const DEFAULT_PLAN_SIZE = 1600;
+
+export interface VenuePlanImage {
+  image: string;
+  width: number;
+  height: number;
+  // Pages of a PDF, 1 for images
+  pageCount: number;
+}
+
+export function isPdfFile(file: File): boolean {
+  return (
+    file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf')
+  );
+}
+
+// Draw a source onto a white canvas no larger than MAX_IMAGE_SIZE
+function toDataUrl(
+  source: CanvasImageSource,
+  width: number,
+  height: number,
+): Omit<VenuePlanImage, 'pageCount'> {
+  const ratio = Math.min(1, MAX_IMAGE_SIZE / Math.max(width, height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(width * ratio);
+  canvas.height = Math.round(height * ratio);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not supported');
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return {
+    image: canvas.toDataURL('image/jpeg', 0.85),
+    width: canvas.width,
+    height: canvas.height,
+  };
+}
+
+async function readImageFile(file: File): Promise<VenuePlanImage> {
+  const url = URL.createObjectURL(file);
+  try {
+    const img = new Image();
+    img.src = url;
+    await img.decode();
+    // SVGs without a size report 0
+    const width = img.naturalWidth || MAX_IMAGE_SIZE;
+    const height = img.naturalHeight || (MAX_IMAGE_SIZE * 3) / 4;
+    return { ...toDataUrl(img, width, height), pageCount: 1 };
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+// Render one page of a PDF. pdf.js is only loaded when a PDF is picked.
+async function readPdfFile(file: File, page: number): Promise<VenuePlanImage> {
+  const [pdfjs, worker] = await Promise.all([
+    import('pdfjs-dist'),
+    import('pdfjs-dist/build/pdf.worker.min.mjs?url'),
+  ]);
+  pdfjs.GlobalWorkerOptions.workerSrc = worker.default;
+
+  const pdf = await pdfjs.getDocument({ data: await file.arrayBuffer() })
+    .promise;
+  try {
+    const pdfPage = await pdf.getPage(
+      Math.min(Math.max(page, 1), pdf.numPages),
+    );
+    const base = pdfPage.getViewport({ scale: 1 });
+    const viewport = pdfPage.getViewport({
+      scale: MAX_IMAGE_SIZE / Math.max(base.width, base.height),
+    });
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(viewport.width);
+    canvas.height = Math.round(viewport.height);
+    await pdfPage.render({ canvas, viewport }).promise;
+    return {
+      ...toDataUrl(canvas, canvas.width, canvas.height),
+      pageCount: pdf.numPages,
+    };
+  } finally {
+    pdf.destroy();
+  }
+}
+
+// PNG, JPG, SVG or a page of a PDF as a data URL
+export function readVenuePlanFile(
+  file: File,
+  page = 1,
+): Promise<VenuePlanImage> {
+  return isPdfFile(file) ? readPdfFile(file, page) : readImageFile(file);
+}
+
+// A freshly uploaded plan, or a new image for an existing one. Position,
+// opacity and lock are kept; the scale has to be set again.
+export function createVenuePlan(
+  image: Omit<VenuePlanImage, 'pageCount'>,
+  previous: VenuePlan | null,
+): VenuePlan {
+  return {
+    image: image.image,
+    width: image.width,
+    height: image.height,
+    x: previous?.x ?? 0,
+    y: previous?.y ?? 0,
+    scale: DEFAULT_PLAN_SIZE / Math.max(image.width, image.height),
+    opacity: previous?.opacity ?? 0.6,
+    locked: previous?.locked ?? false,
+    calibrated: false,
+  };
+}
+
+// Stored settings are checked before use, empty means no plan
+export function parseVenuePlan(value: string | null): VenuePlan | null {
+  if (!value) return null;
+  try {
+    const plan = JSON.parse(value) as Partial<VenuePlan>;
+    if (
+      typeof plan.image !== 'string' ||
+      !(Number(plan.width) > 0) ||
+      !(Number(plan.height) > 0) ||
+      !(Number(plan.scale) > 0)
+    ) {
+      return null;
+    }
+    return {
+      image: plan.image,
+      width: Number(plan.width),
+      height: Number(plan.height),
+      x: Number(plan.x) || 0,
+      y: Number(plan.y) || 0,
+      scale: Number(plan.scale),
+      opacity: Math.min(1, Math.max(0.1, Number(plan.opacity) || 0.6)),
+      locked: !!plan.locked,
+      calibrated: !!plan.calibrated,
+    };
+  } catch {
+    return null;
+  }
+}
+
+// Rescale the plan so the two marked points are `metres` apart on the
+// floor plan at pxPerMetre. The first point stays where it is.
+export function calibrateVenuePlan(
+  plan: VenuePlan,
+  a: { x: number; y: number },
+  b: { x: number; y: number },
+  metres: number,
+  pxPerMetre: number,
+): VenuePlan {
+  const marked = Math.hypot(b.x - a.x, b.y - a.y);
+  if (marked === 0 || metres <= 0) return plan;
+  const factor = (metres * pxPerMetre) / marked;
+  return {
+    ...plan,
+    x: a.x - (a.x - plan.x) * factor,
+    y: a.y - (a.y - plan.y) * factor,
+    scale: plan.scale * factor,
+    calibrated: true,
+  };
+}
@@ -3,76 +3,351 @@
 -- Run these commands in your Supabase SQL Editor
 -- =====================================================
 
+-- =====================================================
+-- 0. EVENTS TABLE - Engagement, wedding, henna night...
+-- Every other table is scoped to an event
+-- =====================================================
+CREATE TABLE IF NOT EXISTS events (
+    id SERIAL PRIMARY KEY,
+    name VARCHAR(255) NOT NULL,
+    type VARCHAR(50) NOT NULL DEFAULT 'other' CHECK (type IN ('engagement', 'wedding', 'henna', 'other')),
+    event_date DATE,
+    created_by VARCHAR(255) DEFAULT lower(auth.jwt() ->> 'email'),  -- Becomes the owner
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Default event (id 1) owns all data created before events existed
+INSERT INTO events (id, name, type) VALUES (1, 'Nişan', 'engagement')
+ON CONFLICT (id) DO NOTHING;
+SELECT setval('events_id_seq', GREATEST((SELECT MAX(id) FROM events), 1));
+
 -- =====================================================
 -- 1. DESKS TABLE - Core table for desk management
 -- =====================================================
 CREATE TABLE IF NOT EXISTS desks (
     id SERIAL PRIMARY KEY,
-    desk_no INTEGER UNIQUE NOT NULL,
+    event_id INTEGER NOT NULL DEFAULT 1 REFERENCES events(id) ON DELETE CASCADE,
+    desk_no INTEGER NOT NULL,
     name VARCHAR(100),  -- Optional custom name like "VIP Table"
     capacity INTEGER DEFAULT 10,
     x NUMERIC NOT NULL DEFAULT 100,
     y NUMERIC NOT NULL DEFAULT 100,
+    shape VARCHAR(20) NOT NULL DEFAULT 'round' CHECK (shape IN ('round', 'oval', 'rectangle', 'head')),
+    width NUMERIC DEFAULT NULL,   -- Table top size, NULL = sized by seats
+    height NUMERIC DEFAULT NULL,
+    rotation NUMERIC NOT NULL DEFAULT 0,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (event_id, desk_no)
 );
 
+-- If desks table already exists without shapes:
+ALTER TABLE desks ADD COLUMN IF NOT EXISTS shape VARCHAR(20) NOT NULL DEFAULT 'round' CHECK (shape IN ('round', 'oval', 'rectangle', 'head'));
+ALTER TABLE desks ADD COLUMN IF NOT EXISTS width NUMERIC DEFAULT NULL;
+ALTER TABLE desks ADD COLUMN IF NOT EXISTS height NUMERIC DEFAULT NULL;
+ALTER TABLE desks ADD COLUMN IF NOT EXISTS rotation NUMERIC NOT NULL DEFAULT 0;
+
 -- =====================================================
--- 2. GUESTS TABLE - Links to desks via desk_no
+-- 2. GUESTS TABLE - Links to desks via (event_id, desk_no)
 -- =====================================================
 CREATE TABLE IF NOT EXISTS guests (
     id SERIAL PRIMARY KEY,
+    event_id INTEGER NOT NULL DEFAULT 1 REFERENCES events(id) ON DELETE CASCADE,
     full_name VARCHAR(255) NOT NULL,
     person_count INTEGER DEFAULT 1,
-    desk_no INTEGER NOT NULL REFERENCES desks(desk_no) ON DELETE SET NULL,
+    desk_no INTEGER NOT NULL,
     gift_count INTEGER DEFAULT 0,
     description TEXT,
     is_attended BOOLEAN DEFAULT NULL,
+    attended_count INTEGER DEFAULT NULL,  -- People of the party who arrived
+    arrived_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    checked_in_by VARCHAR(100) DEFAULT NULL,  -- Device that checked them in
+    side VARCHAR(10) DEFAULT NULL CHECK (side IN ('bride', 'groom', 'both')),
+    household VARCHAR(255) DEFAULT NULL,
+    tags TEXT[] NOT NULL DEFAULT '{}',
+    seats INTEGER[] DEFAULT NULL,  -- Chair index per person, NULL = automatic
+    companions TEXT[] NOT NULL DEFAULT '{}',  -- Names of the other people
+    -- Random code printed in the guest's QR code, so codes cannot be guessed
+    qr_token TEXT NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::text, '-', ''),
     display_order INTEGER DEFAULT 0,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    FOREIGN KEY (event_id, desk_no) REFERENCES desks(event_id, desk_no)
 );
 
+-- If guests table already exists without partial attendance:
+ALTER TABLE guests ADD COLUMN IF NOT EXISTS attended_count INTEGER DEFAULT NULL;
+
+-- If guests table already exists without arrival times:
+ALTER TABLE guests ADD COLUMN IF NOT EXISTS arrived_at TIMESTAMP WITH TIME ZONE DEFAULT NULL;
+ALTER TABLE guests ADD COLUMN IF NOT EXISTS checked_in_by VARCHAR(100) DEFAULT NULL;
+
+-- If guests table already exists without groups:
+ALTER TABLE guests ADD COLUMN IF NOT EXISTS side VARCHAR(10) DEFAULT NULL CHECK (side IN ('bride', 'groom', 'both'));
+ALTER TABLE guests ADD COLUMN IF NOT EXISTS household VARCHAR(255) DEFAULT NULL;
+ALTER TABLE guests ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}';
+
+-- If guests table already exists without seat assignments:
+ALTER TABLE guests ADD COLUMN IF NOT EXISTS seats INTEGER[] DEFAULT NULL;
+ALTER TABLE guests ADD COLUMN IF NOT EXISTS companions TEXT[] NOT NULL DEFAULT '{}';
+
+-- If guests table already exists without QR tokens (existing rows get one each):
+ALTER TABLE guests ADD COLUMN IF NOT EXISTS qr_token TEXT NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::text, '-', '');
+
 -- If guests table already exists without reference, use this instead:
--- ALTER TABLE guests ADD CONSTRAINT fk_guests_desk FOREIGN KEY (desk_no) REFERENCES desks(desk_no) ON DELETE SET NULL;
+-- ALTER TABLE guests ADD CONSTRAINT fk_guests_desk FOREIGN KEY (event_id, desk_no) REFERENCES desks(event_id, desk_no);
 
 -- =====================================================
--- 3. FIXED OBJECTS (rectangles, triangles on floor plan)
+-- 3. FIXED OBJECTS (stage, bar, pillars and other shapes on floor plan)
 -- =====================================================
 CREATE TABLE IF NOT EXISTS fixed_objects (
     id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    event_id INTEGER NOT NULL DEFAULT 1 REFERENCES events(id) ON DELETE CASCADE,
     name VARCHAR(255) NOT NULL,
-    type VARCHAR(50) NOT NULL CHECK (type IN ('rectangle', 'triangle')),
+    type VARCHAR(50) NOT NULL CHECK (type IN ('stage', 'dance_floor', 'bar', 'buffet', 'dj', 'entrance', 'exit', 'pillar', 'rectangle', 'triangle', 'circle', 'l_shape', 'polygon')),
     x NUMERIC NOT NULL DEFAULT 100,
     y NUMERIC NOT NULL DEFAULT 100,
     width NUMERIC NOT NULL DEFAULT 100,
     height NUMERIC NOT NULL DEFAULT 60,
-    rotation INTEGER NOT NULL DEFAULT 0 CHECK (rotation IN (0, 90, 180, 270)),
+    rotation NUMERIC NOT NULL DEFAULT 0,
+    points JSONB DEFAULT NULL,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Venue element types and free polygons (for existing tables)
+ALTER TABLE fixed_objects DROP CONSTRAINT IF EXISTS fixed_objects_type_check;
+ALTER TABLE fixed_objects ADD CONSTRAINT fixed_objects_type_check CHECK (type IN ('stage', 'dance_floor', 'bar', 'buffet', 'dj', 'entrance', 'exit', 'pillar', 'rectangle', 'triangle', 'circle', 'l_shape', 'polygon'));
+ALTER TABLE fixed_objects ADD COLUMN IF NOT EXISTS points JSONB DEFAULT NULL;
+-- Free rotation: any angle instead of 90° steps
+ALTER TABLE fixed_objects DROP CONSTRAINT IF EXISTS fixed_objects_rotation_check;
+ALTER TABLE fixed_objects ALTER COLUMN rotation TYPE NUMERIC;
+
 -- =====================================================
 -- 4. APP SETTINGS
 -- =====================================================
 CREATE TABLE IF NOT EXISTS app_settings (
-    key VARCHAR(100) PRIMARY KEY,
+    event_id INTEGER NOT NULL DEFAULT 1 REFERENCES events(id) ON DELETE CASCADE,
+    key VARCHAR(100) NOT NULL,
     value TEXT,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (event_id, key)
 );
 
 -- =====================================================
--- ROW LEVEL SECURITY (RLS) - Enable public access
+-- UPGRADE: scope an existing single-event database by event
+-- (existing rows move to the default event)
+-- =====================================================
+ALTER TABLE desks ADD COLUMN IF NOT EXISTS event_id INTEGER NOT NULL DEFAULT 1 REFERENCES events(id) ON DELETE CASCADE;
+ALTER TABLE guests ADD COLUMN IF NOT EXISTS event_id INTEGER NOT NULL DEFAULT 1 REFERENCES events(id) ON DELETE CASCADE;
+ALTER TABLE fixed_objects ADD COLUMN IF NOT EXISTS event_id INTEGER NOT NULL DEFAULT 1 REFERENCES events(id) ON DELETE CASCADE;
+ALTER TABLE app_settings ADD COLUMN IF NOT EXISTS event_id INTEGER NOT NULL DEFAULT 1 REFERENCES events(id) ON DELETE CASCADE;
+
+-- Desk numbers are unique per event instead of globally
+ALTER TABLE guests DROP CONSTRAINT IF EXISTS guests_desk_no_fkey;
+ALTER TABLE desks DROP CONSTRAINT IF EXISTS desks_desk_no_key;
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'desks_event_id_desk_no_key') THEN
+        ALTER TABLE desks ADD CONSTRAINT desks_event_id_desk_no_key UNIQUE (event_id, desk_no);
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'guests_event_id_desk_no_fkey') THEN
+        ALTER TABLE guests ADD CONSTRAINT guests_event_id_desk_no_fkey
+            FOREIGN KEY (event_id, desk_no) REFERENCES desks(event_id, desk_no);
+    END IF;
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.key_column_usage
+        WHERE table_name = 'app_settings' AND constraint_name = 'app_settings_pkey' AND column_name = 'event_id'
+    ) THEN
+        ALTER TABLE app_settings DROP CONSTRAINT IF EXISTS app_settings_pkey;
+        ALTER TABLE app_settings ADD PRIMARY KEY (event_id, key);
+    END IF;
+END $$;
+
+-- =====================================================
+-- 5. EVENT MEMBERS - Who can access an event, and with which role
+-- owner:   everything, including managing members
+-- planner: edit guests, seating and the floor plan
+-- door:    only check guests in (attendance)
+-- viewer:  read-only
+-- =====================================================
+CREATE TABLE IF NOT EXISTS event_members (
+    event_id INTEGER NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+    email VARCHAR(255) NOT NULL,  -- Supabase Auth email, lower case
+    role VARCHAR(20) NOT NULL DEFAULT 'viewer' CHECK (role IN ('owner', 'planner', 'door', 'viewer')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (event_id, email)
+);
+
+-- If events table already exists without a creator:
+ALTER TABLE events ADD COLUMN IF NOT EXISTS created_by VARCHAR(255) DEFAULT lower(auth.jwt() ->> 'email');
+
+-- Give yourself access to the default event (replace the email):
+-- INSERT INTO event_members (event_id, email, role) VALUES (1, 'you@example.com', 'owner');
+
+-- Role of the signed-in user in an event, NULL if not a member.
+-- SECURITY DEFINER so policies on event_members do not recurse.
+CREATE OR REPLACE FUNCTION current_event_role(target_event_id INTEGER)
+RETURNS TEXT
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+    SELECT role FROM event_members
+    WHERE event_id = target_event_id
+      AND email = lower(auth.jwt() ->> 'email');
+$$;
+
+-- The creator of an event becomes its owner
+CREATE OR REPLACE FUNCTION add_event_owner()
+RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+    IF NEW.created_by IS NOT NULL THEN
+        INSERT INTO event_members (event_id, email, role)
+        VALUES (NEW.id, NEW.created_by, 'owner')
+        ON CONFLICT (event_id, email) DO NOTHING;
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS add_event_owner_on_insert ON events;
+CREATE TRIGGER add_event_owner_on_insert AFTER INSERT ON events
+    FOR EACH ROW EXECUTE FUNCTION add_event_owner();
+
+-- Door staff may only change attendance columns of a guest
+CREATE OR REPLACE FUNCTION restrict_door_staff_guest_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF current_event_role(OLD.event_id) = 'door' AND (
+        NEW.event_id, NEW.full_name, NEW.person_count, NEW.desk_no,
+        NEW.gift_count, NEW.description, NEW.display_order,
+        NEW.side, NEW.household, NEW.tags, NEW.seats, NEW.companions,
+        NEW.qr_token
+    ) IS DISTINCT FROM (
+        OLD.event_id, OLD.full_name, OLD.person_count, OLD.desk_no,
+        OLD.gift_count, OLD.description, OLD.display_order,
+        OLD.side, OLD.household, OLD.tags, OLD.seats, OLD.companions,
+        OLD.qr_token
+    ) THEN
+        RAISE EXCEPTION 'Door staff can only change attendance'
+            USING ERRCODE = '42501';
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS restrict_door_staff_guest_update ON guests;
+CREATE TRIGGER restrict_door_staff_guest_update BEFORE UPDATE ON guests
+    FOR EACH ROW EXECUTE FUNCTION restrict_door_staff_guest_update();
+
+-- =====================================================
+-- 6. AUDIT LOG - Who changed guests, desks and fixed objects, and how
+-- Written by triggers, so every change is recorded whichever device
+-- made it. Updates only keep the columns that changed.
+-- =====================================================
+CREATE TABLE IF NOT EXISTS audit_log (
+    id BIGSERIAL PRIMARY KEY,
+    event_id INTEGER NOT NULL,  -- no foreign key: kept when the event is deleted
+    table_name VARCHAR(50) NOT NULL,
+    record_id VARCHAR(255) NOT NULL,  -- guest id, desk_no or fixed object id
+    action VARCHAR(10) NOT NULL CHECK (action IN ('insert', 'update', 'delete')),
+    actor VARCHAR(255),  -- Supabase Auth email
+    before JSONB,
+    after JSONB,
+    changed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE OR REPLACE FUNCTION record_audit_log()
+RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+    old_row JSONB := CASE WHEN TG_OP <> 'INSERT' THEN to_jsonb(OLD) END;
+    new_row JSONB := CASE WHEN TG_OP <> 'DELETE' THEN to_jsonb(NEW) END;
+    row_data JSONB := COALESCE(new_row, old_row);
+    before_data JSONB := old_row;
+    after_data JSONB := new_row;
+    column_name TEXT;
+BEGIN
+    IF TG_OP = 'UPDATE' THEN
+        before_data := '{}';
+        after_data := '{}';
+        FOR column_name IN SELECT jsonb_object_keys(new_row) LOOP
+            IF column_name <> 'updated_at'
+                AND new_row -> column_name IS DISTINCT FROM old_row -> column_name THEN
+                before_data := before_data || jsonb_build_object(column_name, old_row -> column_name);
+                after_data := after_data || jsonb_build_object(column_name, new_row -> column_name);
+            END IF;
+        END LOOP;
+        IF after_data = '{}' THEN
+            RETURN NULL;
+        END IF;
+    END IF;
+
+    INSERT INTO audit_log (event_id, table_name, record_id, action, actor, before, after)
+    VALUES (
+        (row_data ->> 'event_id')::INTEGER,
+        TG_TABLE_NAME,
+        CASE WHEN TG_TABLE_NAME = 'desks' THEN row_data ->> 'desk_no' ELSE row_data ->> 'id' END,
+        lower(TG_OP),
+        lower(auth.jwt() ->> 'email'),
+        before_data,
+        after_data
+    );
+    RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS audit_desks ON desks;
+DROP TRIGGER IF EXISTS audit_guests ON guests;
+DROP TRIGGER IF EXISTS audit_fixed_objects ON fixed_objects;
+
+CREATE TRIGGER audit_desks AFTER INSERT OR UPDATE OR DELETE ON desks
+    FOR EACH ROW EXECUTE FUNCTION record_audit_log();
+CREATE TRIGGER audit_guests AFTER INSERT OR UPDATE OR DELETE ON guests
+    FOR EACH ROW EXECUTE FUNCTION record_audit_log();
+CREATE TRIGGER audit_fixed_objects AFTER INSERT OR UPDATE OR DELETE ON fixed_objects
+    FOR EACH ROW EXECUTE FUNCTION record_audit_log();
+
+-- =====================================================
+-- 7. SEATING SNAPSHOTS - Named copies of the seating plan
+-- (guest desks and order, desk positions, fixed objects)
+-- =====================================================
+CREATE TABLE IF NOT EXISTS seating_snapshots (
+    id SERIAL PRIMARY KEY,
+    event_id INTEGER NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+    name VARCHAR(255) NOT NULL,
+    data JSONB NOT NULL,  -- { guests, tablePositions, fixedObjects }
+    created_by VARCHAR(255) DEFAULT lower(auth.jwt() ->> 'email'),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- =====================================================
+-- ROW LEVEL SECURITY (RLS) - Access per event role
 -- =====================================================
 
 -- Enable RLS
+ALTER TABLE events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE event_members ENABLE ROW LEVEL SECURITY;
 ALTER TABLE desks ENABLE ROW LEVEL SECURITY;
 ALTER TABLE guests ENABLE ROW LEVEL SECURITY;
 ALTER TABLE fixed_objects ENABLE ROW LEVEL SECURITY;
 ALTER TABLE app_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
+ALTER TABLE seating_snapshots ENABLE ROW LEVEL SECURITY;
+
+-- Drop the old public policies
+DROP POLICY IF EXISTS "public_read_events" ON events;
+DROP POLICY IF EXISTS "public_insert_events" ON events;
+DROP POLICY IF EXISTS "public_update_events" ON events;
+DROP POLICY IF EXISTS "public_delete_events" ON events;
 
--- Drop existing policies (to avoid conflicts on re-run)
 DROP POLICY IF EXISTS "public_read_desks" ON desks;
 DROP POLICY IF EXISTS "public_insert_desks" ON desks;
 DROP POLICY IF EXISTS "public_update_desks" ON desks;
@@ -92,37 +367,123 @@ DROP POLICY IF EXISTS "public_read_app_settings" ON app_settings;
 DROP POLICY IF EXISTS "public_insert_app_settings" ON app_settings;
 DROP POLICY IF EXISTS "public_update_app_settings" ON app_settings;
 
+-- Drop existing role policies (to avoid conflicts on re-run)
+DROP POLICY IF EXISTS "member_read_events" ON events;
+DROP POLICY IF EXISTS "user_insert_events" ON events;
+DROP POLICY IF EXISTS "owner_update_events" ON events;
+DROP POLICY IF EXISTS "owner_delete_events" ON events;
+
+DROP POLICY IF EXISTS "member_read_event_members" ON event_members;
+DROP POLICY IF EXISTS "owner_write_event_members" ON event_members;
+
+DROP POLICY IF EXISTS "member_read_desks" ON desks;
+DROP POLICY IF EXISTS "planner_write_desks" ON desks;
+
+DROP POLICY IF EXISTS "member_read_guests" ON guests;
+DROP POLICY IF EXISTS "planner_insert_guests" ON guests;
+DROP POLICY IF EXISTS "checkin_update_guests" ON guests;
+DROP POLICY IF EXISTS "planner_delete_guests" ON guests;
+
+DROP POLICY IF EXISTS "member_read_fixed_objects" ON fixed_objects;
+DROP POLICY IF EXISTS "planner_write_fixed_objects" ON fixed_objects;
+
+DROP POLICY IF EXISTS "member_read_app_settings" ON app_settings;
+DROP POLICY IF EXISTS "planner_write_app_settings" ON app_settings;
+
+DROP POLICY IF EXISTS "member_read_audit_log" ON audit_log;
+
+DROP POLICY IF EXISTS "member_read_seating_snapshots" ON seating_snapshots;
+DROP POLICY IF EXISTS "planner_write_seating_snapshots" ON seating_snapshots;
+
+-- Create policies for EVENTS
+CREATE POLICY "member_read_events" ON events FOR SELECT
+    USING (current_event_role(id) IS NOT NULL OR created_by = lower(auth.jwt() ->> 'email'));
+CREATE POLICY "user_insert_events" ON events FOR INSERT TO authenticated
+    WITH CHECK (created_by = lower(auth.jwt() ->> 'email'));
+CREATE POLICY "owner_update_events" ON events FOR UPDATE
+    USING (current_event_role(id) = 'owner');
+CREATE POLICY "owner_delete_events" ON events FOR DELETE
+    USING (current_event_role(id) = 'owner');
+
+-- Create policies for EVENT_MEMBERS
+CREATE POLICY "member_read_event_members" ON event_members FOR SELECT
+    USING (current_event_role(event_id) IS NOT NULL);
+CREATE POLICY "owner_write_event_members" ON event_members FOR ALL
+    USING (current_event_role(event_id) = 'owner')
+    WITH CHECK (current_event_role(event_id) = 'owner');
+
 -- Create policies for DESKS
-CREATE POLICY "public_read_desks" ON desks FOR SELECT USING (true);
-CREATE POLICY "public_insert_desks" ON desks FOR INSERT WITH CHECK (true);
-CREATE POLICY "public_update_desks" ON desks FOR UPDATE USING (true);
-CREATE POLICY "public_delete_desks" ON desks FOR DELETE USING (true);
+CREATE POLICY "member_read_desks" ON desks FOR SELECT
+    USING (current_event_role(event_id) IS NOT NULL);
+CREATE POLICY "planner_write_desks" ON desks FOR ALL
+    USING (current_event_role(event_id) IN ('owner', 'planner'))
+    WITH CHECK (current_event_role(event_id) IN ('owner', 'planner'));
 
--- Create policies for GUESTS
-CREATE POLICY "public_read_guests" ON guests FOR SELECT USING (true);
-CREATE POLICY "public_insert_guests" ON guests FOR INSERT WITH CHECK (true);
-CREATE POLICY "public_update_guests" ON guests FOR UPDATE USING (true);
-CREATE POLICY "public_delete_guests" ON guests FOR DELETE USING (true);
+-- Create policies for GUESTS (door staff are limited by the trigger above)
+CREATE POLICY "member_read_guests" ON guests FOR SELECT
+    USING (current_event_role(event_id) IS NOT NULL);
+CREATE POLICY "planner_insert_guests" ON guests FOR INSERT
+    WITH CHECK (current_event_role(event_id) IN ('owner', 'planner'));
+CREATE POLICY "checkin_update_guests" ON guests FOR UPDATE
+    USING (current_event_role(event_id) IN ('owner', 'planner', 'door'))
+    WITH CHECK (current_event_role(event_id) IN ('owner', 'planner', 'door'));
+CREATE POLICY "planner_delete_guests" ON guests FOR DELETE
+    USING (current_event_role(event_id) IN ('owner', 'planner'));
 
 -- Create policies for FIXED_OBJECTS
-CREATE POLICY "public_read_fixed_objects" ON fixed_objects FOR SELECT USING (true);
-CREATE POLICY "public_insert_fixed_objects" ON fixed_objects FOR INSERT WITH CHECK (true);
-CREATE POLICY "public_update_fixed_objects" ON fixed_objects FOR UPDATE USING (true);
-CREATE POLICY "public_delete_fixed_objects" ON fixed_objects FOR DELETE USING (true);
+CREATE POLICY "member_read_fixed_objects" ON fixed_objects FOR SELECT
+    USING (current_event_role(event_id) IS NOT NULL);
+CREATE POLICY "planner_write_fixed_objects" ON fixed_objects FOR ALL
+    USING (current_event_role(event_id) IN ('owner', 'planner'))
+    WITH CHECK (current_event_role(event_id) IN ('owner', 'planner'));
 
 -- Create policies for APP_SETTINGS
-CREATE POLICY "public_read_app_settings" ON app_settings FOR SELECT USING (true);
-CREATE POLICY "public_insert_app_settings" ON app_settings FOR INSERT WITH CHECK (true);
-CREATE POLICY "public_update_app_settings" ON app_settings FOR UPDATE USING (true);
+CREATE POLICY "member_read_app_settings" ON app_settings FOR SELECT
+    USING (current_event_role(event_id) IS NOT NULL);
+CREATE POLICY "planner_write_app_settings" ON app_settings FOR ALL
+    USING (current_event_role(event_id) IN ('owner', 'planner'))
+    WITH CHECK (current_event_role(event_id) IN ('owner', 'planner'));
+
+-- Create policies for AUDIT_LOG (rows are only written by the triggers)
+CREATE POLICY "member_read_audit_log" ON audit_log FOR SELECT
+    USING (current_event_role(event_id) IS NOT NULL);
+
+-- Create policies for SEATING_SNAPSHOTS
+CREATE POLICY "member_read_seating_snapshots" ON seating_snapshots FOR SELECT
+    USING (current_event_role(event_id) IS NOT NULL);
+CREATE POLICY "planner_write_seating_snapshots" ON seating_snapshots FOR ALL
+    USING (current_event_role(event_id) IN ('owner', 'planner'))
+    WITH CHECK (current_event_role(event_id) IN ('owner', 'planner'));
+
+-- =====================================================
+-- REALTIME - broadcast row changes to every connected device
+-- =====================================================
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_publication_tables WHERE pubname = 'supabase_realtime' AND tablename = 'guests') THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE guests;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM pg_publication_tables WHERE pubname = 'supabase_realtime' AND tablename = 'desks') THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE desks;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM pg_publication_tables WHERE pubname = 'supabase_realtime' AND tablename = 'fixed_objects') THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE fixed_objects;
+    END IF;
+END $$;
 
 -- =====================================================
 -- INDEXES for better performance
 -- =====================================================
+CREATE INDEX IF NOT EXISTS idx_guests_event_id ON guests(event_id, desk_no);
+CREATE INDEX IF NOT EXISTS idx_fixed_objects_event_id ON fixed_objects(event_id);
 CREATE INDEX IF NOT EXISTS idx_guests_desk_no ON guests(desk_no);
 CREATE INDEX IF NOT EXISTS idx_guests_is_attended ON guests(is_attended);
 CREATE INDEX IF NOT EXISTS idx_guests_display_order ON guests(display_order);
+CREATE INDEX IF NOT EXISTS idx_guests_arrived_at ON guests(arrived_at);
 CREATE INDEX IF NOT EXISTS idx_fixed_objects_type ON fixed_objects(type);
 CREATE INDEX IF NOT EXISTS idx_desks_desk_no ON desks(desk_no);
+CREATE INDEX IF NOT EXISTS idx_seating_snapshots_event_id ON seating_snapshots(event_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_record ON audit_log(event_id, table_name, record_id, changed_at DESC);
 
 -- =====================================================
 -- UPDATE TRIGGER for updated_at
@@ -136,12 +497,17 @@ END;
 $$ language 'plpgsql';
 
 -- Drop existing triggers
+DROP TRIGGER IF EXISTS update_events_updated_at ON events;
 DROP TRIGGER IF EXISTS update_desks_updated_at ON desks;
 DROP TRIGGER IF EXISTS update_guests_updated_at ON guests;
 DROP TRIGGER IF EXISTS update_fixed_objects_updated_at ON fixed_objects;
 DROP TRIGGER IF EXISTS update_app_settings_updated_at ON app_settings;
+DROP TRIGGER IF EXISTS update_event_members_updated_at ON event_members;
 
 -- Create triggers
+CREATE TRIGGER update_events_updated_at BEFORE UPDATE ON events
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
 CREATE TRIGGER update_desks_updated_at BEFORE UPDATE ON desks
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
@@ -154,8 +520,11 @@ CREATE TRIGGER update_fixed_objects_updated_at BEFORE UPDATE ON fixed_objects
 CREATE TRIGGER update_app_settings_updated_at BEFORE UPDATE ON app_settings
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+CREATE TRIGGER update_event_members_updated_at BEFORE UPDATE ON event_members
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
 -- =====================================================
--- SEED DATA: Create initial desks (1-20)
+-- SEED DATA: Create initial desks (1-18) for the default event
 -- =====================================================
 INSERT INTO desks (desk_no, x, y) VALUES
     (1, 150, 150),
@@ -176,24 +545,26 @@ INSERT INTO desks (desk_no, x, y) VALUES
     (16, 1150, 150),
     (17, 1150, 350),
     (18, 1150, 550)
-ON CONFLICT (desk_no) DO NOTHING;
+ON CONFLICT (event_id, desk_no) DO NOTHING;
 
 -- =====================================================
 -- USEFUL QUERIES
 -- =====================================================
 
--- Get all desks with guest counts:
+-- Get all desks of an event with guest counts:
 -- SELECT d.*, COUNT(g.id) as guest_count, SUM(g.person_count) as total_people
 -- FROM desks d
--- LEFT JOIN guests g ON d.desk_no = g.desk_no
+-- LEFT JOIN guests g ON d.event_id = g.event_id AND d.desk_no = g.desk_no
+-- WHERE d.event_id = 1
 -- GROUP BY d.id
 -- ORDER BY d.desk_no;
 
 -- Get all guests for a specific desk:
--- SELECT * FROM guests WHERE desk_no = 1 ORDER BY display_order;
+-- SELECT * FROM guests WHERE event_id = 1 AND desk_no = 1 ORDER BY display_order;
 
 -- Add a new desk:
--- INSERT INTO desks (desk_no, x, y) VALUES (11, 200, 200);
+-- INSERT INTO desks (event_id, desk_no, x, y) VALUES (1, 11, 200, 200);
 
 -- Delete an empty desk:
--- DELETE FROM desks WHERE desk_no = 11 AND NOT EXISTS (SELECT 1 FROM guests WHERE desk_no = 11);
+-- DELETE FROM desks WHERE event_id = 1 AND desk_no = 11
+--   AND NOT EXISTS (SELECT 1 FROM guests WHERE event_id = 1 AND desk_no = 11);